@@ -869,3 +869,2190 @@ LEFT JOIN public.organizations o ON d.organization_id = o.id;
 -- ============================================
 -- DONE
 -- ============================================
+-- ============================================
+-- PER-DEADLINE REMINDER OFFSETS
+-- ============================================
+
+-- Custom reminder schedule (days before due date).
+-- NULL means the default schedule for the deadline's consequence level.
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[];
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_reminder_offsets_valid
+CHECK (
+  reminder_offsets IS NULL OR (
+    cardinality(reminder_offsets) <= 20 AND
+    1 <= ALL(reminder_offsets) AND
+    730 >= ALL(reminder_offsets)
+  )
+);
+
+-- A template's lead time seeds the first reminder offset of new deadlines,
+-- so it has to fit deadlines_reminder_offsets_valid (1 to 730 days).
+UPDATE public.deadline_templates
+SET typical_lead_time_days = LEAST(GREATEST(typical_lead_time_days, 1), 730)
+WHERE typical_lead_time_days NOT BETWEEN 1 AND 730;
+
+ALTER TABLE public.deadline_templates ADD CONSTRAINT deadline_templates_lead_time_valid
+CHECK (typical_lead_time_days IS NULL OR typical_lead_time_days BETWEEN 1 AND 730);
+-- ============================================
+-- REMINDER DELIVERY LOG
+-- ============================================
+
+CREATE TYPE public.reminder_channel AS ENUM ('email');
+
+CREATE TYPE public.reminder_delivery_status AS ENUM ('pending', 'sent', 'failed');
+
+-- One row per reminder send attempt
+CREATE TABLE public.reminder_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deadline_id UUID NOT NULL REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  recipient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  recipient TEXT NOT NULL,
+  channel public.reminder_channel NOT NULL DEFAULT 'email',
+  offset_days INTEGER NOT NULL,
+  -- Due date the window was computed from, so a rescheduled deadline gets fresh windows
+  due_date DATE NOT NULL,
+  status public.reminder_delivery_status NOT NULL DEFAULT 'pending',
+  provider_message_id TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  -- A window fires at most once per recipient, even if the cron overlaps or re-runs
+  CONSTRAINT unique_reminder_delivery UNIQUE (deadline_id, due_date, offset_days, channel, recipient)
+);
+
+-- Indexes
+CREATE INDEX idx_reminder_deliveries_deadline ON public.reminder_deliveries(deadline_id, created_at DESC);
+CREATE INDEX idx_reminder_deliveries_status ON public.reminder_deliveries(status) WHERE status != 'sent';
+
+-- Trigger for updated_at
+CREATE TRIGGER update_reminder_deliveries_updated_at
+  BEFORE UPDATE ON public.reminder_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the deadline (the subquery is filtered by deadlines RLS)
+CREATE POLICY "Users can view reminder deliveries for visible deadlines"
+ON public.reminder_deliveries FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines d WHERE d.id = deadline_id)
+);
+
+-- Only service role can write deliveries (via send-deadline-reminders)
+-- No INSERT/UPDATE/DELETE policies for regular users
+-- ============================================
+-- DEADLINE LIFECYCLE STATES
+-- ============================================
+
+CREATE TYPE public.deadline_state AS ENUM (
+  'open',
+  'in_progress',
+  'submitted',
+  'completed',
+  'waived'
+);
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS state public.deadline_state NOT NULL DEFAULT 'open';
+
+-- Completion details (set when a deadline is completed or waived)
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS completed_at DATE;
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS completed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS completion_notes TEXT;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_completion_notes_length
+CHECK (completion_notes IS NULL OR length(completion_notes) <= 2000);
+
+-- Index for finding active deadlines (reminders, dashboards)
+CREATE INDEX IF NOT EXISTS idx_deadlines_active ON public.deadlines(due_date) WHERE state NOT IN ('completed', 'waived');
+
+-- Stamp completion details when a deadline is closed, and clear them when it's reopened.
+-- Signed-in users are always recorded as the completer themselves; only the
+-- service role (API, scheduled jobs) may name someone else.
+CREATE OR REPLACE FUNCTION public.set_deadline_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.state IN ('completed', 'waived') THEN
+    IF TG_OP = 'INSERT' OR OLD.state NOT IN ('completed', 'waived') THEN
+      NEW.completed_at := COALESCE(NEW.completed_at, CURRENT_DATE);
+      NEW.completed_by := COALESCE(auth.uid(), NEW.completed_by);
+    ELSIF auth.uid() IS NOT NULL THEN
+      NEW.completed_by := OLD.completed_by;
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+    NEW.completed_by := NULL;
+    NEW.completion_notes := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_deadline_completion
+  BEFORE INSERT OR UPDATE OF state, completed_at, completed_by, completion_notes ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_deadline_completion();
+-- ============================================
+-- RECURRING SERIES GENERATION
+-- ============================================
+
+-- The next occurrence is now created by the generate-recurring-deadlines edge
+-- function when an auto-renewing deadline is completed. The old trigger
+-- function was never attached and used fixed day counts (monthly = 30 days),
+-- so drop it to avoid two sources of truth for recurrence math.
+DROP FUNCTION IF EXISTS public.create_next_recurring_deadline();
+
+-- Each occurrence has at most one next occurrence. This makes generation
+-- idempotent: completing the same occurrence twice can't create a duplicate.
+DROP INDEX IF EXISTS public.idx_deadlines_parent;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT unique_next_occurrence
+UNIQUE (parent_deadline_id);
+
+-- Index for the generator's sweep of recently completed recurring deadlines
+CREATE INDEX IF NOT EXISTS idx_deadlines_completed_recurring
+ON public.deadlines(completed_at)
+WHERE state = 'completed' AND auto_renew = true AND recurrence != 'none';
+-- ============================================
+-- RRULE-BASED RECURRENCE
+-- ============================================
+
+-- Schedules the fixed patterns can't express ("last business day of each
+-- quarter", "15th of Jan/Apr/Jun/Sep") are stored as an RFC 5545 RRULE.
+-- The rule is expanded by the shared recurrence code in the app and the
+-- generate-recurring-deadlines edge function; the due date is its start.
+ALTER TYPE public.recurrence_pattern ADD VALUE IF NOT EXISTS 'rrule';
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT recurrence_rule_length
+CHECK (recurrence_rule IS NULL OR char_length(recurrence_rule) <= 500);
+-- ============================================
+-- BUSINESS-DAY ADJUSTMENT
+-- ============================================
+
+-- When a due date lands on a weekend or holiday, authorities usually move it
+-- to the next business day. due_date stays the nominal date (so recurring
+-- series don't drift); the app and reminder function apply the roll using
+-- the holiday calendars bundled in supabase/functions/_shared/business-days.ts.
+CREATE TYPE public.business_day_roll AS ENUM ('none', 'next', 'previous');
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS business_day_roll public.business_day_roll NOT NULL DEFAULT 'none',
+ADD COLUMN IF NOT EXISTS holiday_calendar TEXT NOT NULL DEFAULT 'US';
+
+-- "US" for federal holidays, "US-XX" for federal plus a state's holidays
+ALTER TABLE public.deadlines ADD CONSTRAINT valid_holiday_calendar
+CHECK (holiday_calendar ~ '^US(-[A-Z]{2})?$');
+-- ============================================
+-- TIMEZONES AND REMINDER HOUR
+-- ============================================
+
+-- Days until due are counted in the user's zone (falling back to their
+-- organization's), and reminders go out at a chosen local hour. The reminder
+-- function should run hourly for the hour to be honored.
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(_tz TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE _tz;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT,
+ADD COLUMN IF NOT EXISTS reminder_hour SMALLINT NOT NULL DEFAULT 8;
+
+ALTER TABLE public.profiles ADD CONSTRAINT valid_profile_timezone
+CHECK (timezone IS NULL OR public.is_valid_timezone(timezone));
+
+ALTER TABLE public.profiles ADD CONSTRAINT valid_reminder_hour
+CHECK (reminder_hour BETWEEN 0 AND 23);
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+ALTER TABLE public.organizations ADD CONSTRAINT valid_organization_timezone
+CHECK (timezone IS NULL OR public.is_valid_timezone(timezone));
+
+-- Capture the browser's zone at sign-up; ignore it if Postgres doesn't know it
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _tz TEXT := NEW.raw_user_meta_data ->> 'timezone';
+BEGIN
+  INSERT INTO public.profiles (id, name, email, role, timezone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', split_part(NEW.email, '@', 1)),
+    NEW.email,
+    'individual',
+    CASE WHEN public.is_valid_timezone(_tz) THEN _tz END
+  );
+  RETURN NEW;
+END;
+$$;
+-- ============================================
+-- REMINDER DIGESTS
+-- ============================================
+
+-- How a user receives reminders: one email per deadline per window
+-- (immediate), a morning summary (daily), a Monday summary (weekly), or
+-- immediate emails for critical deadlines plus a daily summary of the rest
+-- (hybrid).
+CREATE TYPE public.reminder_delivery_mode AS ENUM ('immediate', 'daily', 'weekly', 'hybrid');
+
+CREATE TYPE public.digest_frequency AS ENUM ('daily', 'weekly');
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS reminder_delivery_mode public.reminder_delivery_mode NOT NULL DEFAULT 'immediate';
+
+-- One row per digest send attempt
+CREATE TABLE public.digest_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient TEXT NOT NULL,
+  frequency public.digest_frequency NOT NULL,
+  -- Local date the digest covers (the Monday for weekly digests)
+  period_start DATE NOT NULL,
+  deadline_count INTEGER NOT NULL DEFAULT 0,
+  status public.reminder_delivery_status NOT NULL DEFAULT 'pending',
+  provider_message_id TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  -- A digest goes out at most once per period, even though the cron runs hourly
+  CONSTRAINT unique_digest_delivery UNIQUE (user_id, frequency, period_start)
+);
+
+-- Indexes
+CREATE INDEX idx_digest_deliveries_user ON public.digest_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_profiles_digest_mode ON public.profiles(reminder_delivery_mode)
+WHERE reminder_delivery_mode != 'immediate';
+
+-- Trigger for updated_at
+CREATE TRIGGER update_digest_deliveries_updated_at
+  BEFORE UPDATE ON public.digest_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.digest_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own digest deliveries"
+ON public.digest_deliveries FOR SELECT
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+-- Only service role can write deliveries (via send-deadline-reminders)
+-- No INSERT/UPDATE/DELETE policies for regular users
+-- ============================================
+-- ESCALATION POLICIES
+-- ============================================
+
+-- Who an escalation step adds: the deadline owner, one chosen admin, or every admin
+CREATE TYPE public.escalation_target AS ENUM ('owner', 'org_admin', 'all_admins');
+
+-- One policy per organization and consequence level
+CREATE TABLE public.escalation_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  consequence_level public.consequence_level NOT NULL DEFAULT 'critical',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT unique_escalation_policy UNIQUE (organization_id, consequence_level)
+);
+
+CREATE TABLE public.escalation_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  policy_id UUID NOT NULL REFERENCES public.escalation_policies(id) ON DELETE CASCADE,
+  -- Days before the due date the step fires; negative values mean days overdue
+  days_before_due INTEGER NOT NULL,
+  target public.escalation_target NOT NULL,
+  admin_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT escalation_steps_days_range CHECK (days_before_due BETWEEN -30 AND 365),
+  CONSTRAINT escalation_steps_admin_target CHECK ((target = 'org_admin') = (admin_id IS NOT NULL))
+);
+
+-- Escalation emails are logged with the reminders they follow up on
+ALTER TABLE public.reminder_deliveries
+ADD COLUMN IF NOT EXISTS escalated BOOLEAN NOT NULL DEFAULT false;
+
+-- An escalation can fall in the same window as a regular reminder (same
+-- offset, channel and recipient), so it gets a delivery slot of its own
+ALTER TABLE public.reminder_deliveries DROP CONSTRAINT unique_reminder_delivery;
+
+ALTER TABLE public.reminder_deliveries ADD CONSTRAINT unique_reminder_delivery
+UNIQUE (deadline_id, due_date, offset_days, channel, recipient, escalated);
+
+-- Indexes
+CREATE INDEX idx_escalation_steps_policy ON public.escalation_steps(policy_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_escalation_policies_updated_at
+  BEFORE UPDATE ON public.escalation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.escalation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.escalation_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view escalation policies"
+ON public.escalation_policies FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  public.user_belongs_to_org(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Org members can view escalation steps"
+ON public.escalation_steps FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.escalation_policies p WHERE p.id = policy_id)
+);
+
+-- Policies are written through save_escalation_policy so the steps are replaced atomically
+
+-- Replace an organization's policy for a consequence level
+CREATE OR REPLACE FUNCTION public.save_escalation_policy(
+  _organization_id UUID,
+  _consequence_level public.consequence_level,
+  _is_active BOOLEAN,
+  _steps JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_policy_id UUID;
+BEGIN
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only organization admins can manage escalation policies';
+  END IF;
+
+  IF jsonb_typeof(_steps) != 'array' THEN
+    RAISE EXCEPTION 'Escalation steps must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_steps) AS s(target public.escalation_target, admin_id UUID)
+    WHERE s.target = 'org_admin' AND NOT public.is_org_admin(s.admin_id, _organization_id)
+  ) THEN
+    RAISE EXCEPTION 'Escalation steps can only notify admins of this organization';
+  END IF;
+
+  INSERT INTO public.escalation_policies (organization_id, consequence_level, is_active, created_by)
+  VALUES (_organization_id, _consequence_level, _is_active, auth.uid())
+  ON CONFLICT (organization_id, consequence_level)
+  DO UPDATE SET is_active = EXCLUDED.is_active
+  RETURNING id INTO saved_policy_id;
+
+  DELETE FROM public.escalation_steps WHERE policy_id = saved_policy_id;
+
+  INSERT INTO public.escalation_steps (policy_id, days_before_due, target, admin_id)
+  SELECT saved_policy_id, s.days_before_due, s.target, s.admin_id
+  FROM jsonb_to_recordset(_steps) AS s(days_before_due INTEGER, target public.escalation_target, admin_id UUID);
+
+  RETURN saved_policy_id;
+END;
+$$;
+-- ============================================
+-- SMS REMINDERS
+-- ============================================
+
+ALTER TYPE public.reminder_channel ADD VALUE IF NOT EXISTS 'sms';
+
+-- Phone numbers stay off profiles, which every teammate can read. Only the
+-- user themselves (and the service role) can see their phone settings.
+CREATE TABLE public.phone_settings (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Verified phone number (E.164) for SMS reminders
+  phone_number TEXT,
+  phone_verified_at TIMESTAMP WITH TIME ZONE,
+  sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT phone_settings_phone_number_format
+  CHECK (phone_number IS NULL OR phone_number ~ '^\+[1-9][0-9]{7,14}$')
+);
+
+-- Only the verify-phone function (service role) can mark a number verified,
+-- and changing the number drops the verification
+CREATE OR REPLACE FUNCTION public.protect_phone_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.phone_verified_at := NULL;
+    ELSIF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+      NEW.phone_verified_at := NULL;
+      NEW.sms_enabled := false;
+    ELSE
+      NEW.phone_verified_at := OLD.phone_verified_at;
+    END IF;
+  END IF;
+
+  IF NEW.phone_verified_at IS NULL THEN
+    NEW.sms_enabled := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_phone_settings_verification
+  BEFORE INSERT OR UPDATE ON public.phone_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_phone_verification();
+
+-- Trigger for updated_at
+CREATE TRIGGER update_phone_settings_updated_at
+  BEFORE UPDATE ON public.phone_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.phone_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own phone settings"
+ON public.phone_settings FOR SELECT
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+CREATE POLICY "Users can update their own phone settings"
+ON public.phone_settings FOR UPDATE
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid())
+WITH CHECK (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+-- Rows are created by verify-phone (service role) once a number is verified
+
+-- One row per verification code sent
+CREATE TABLE public.phone_verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL,
+  -- SHA-256 of the code; the code itself is never stored
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '10 minutes'),
+  verified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_phone_verifications_user ON public.phone_verifications(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Only service role can read or write verifications (via verify-phone)
+-- No policies for regular users
+
+-- ============================================
+-- ORGANIZATION PLAN
+-- ============================================
+
+-- The plan an organization is on: a subscription taken out for it, or the
+-- best plan held by one of its admins
+CREATE OR REPLACE FUNCTION public.get_org_plan_tier(_org_id UUID)
+RETURNS public.plan_tier
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(max(s.plan_tier), 'free')
+  FROM public.subscriptions s
+  WHERE s.status IN ('active', 'trialing')
+    AND (
+      s.organization_id = _org_id OR
+      s.user_id IN (
+        SELECT p.id FROM public.profiles p
+        WHERE p.organization_id = _org_id AND p.role = 'org_admin'
+      )
+    )
+$$;
+
+-- The better of the user's own plan and their organization's
+CREATE OR REPLACE FUNCTION public.get_user_plan_tier(_user_id UUID)
+RETURNS public.plan_tier
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    (
+      SELECT COALESCE(max(s.plan_tier), 'free')
+      FROM public.subscriptions s
+      WHERE s.user_id = _user_id AND s.status IN ('active', 'trialing')
+    ),
+    (
+      SELECT public.get_org_plan_tier(p.organization_id)
+      FROM public.profiles p
+      WHERE p.id = _user_id AND p.organization_id IS NOT NULL
+    )
+  )
+$$;
+
+-- ============================================
+-- SMS QUOTA
+-- ============================================
+
+-- Take one SMS from the user's monthly allowance (the "sms" limit of their
+-- own or their organization's plan). Returns false when the allowance is used up.
+CREATE OR REPLACE FUNCTION public.claim_sms_quota(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sms_limit INTEGER;
+  month_start DATE := date_trunc('month', now())::date;
+  claimed_id UUID;
+BEGIN
+  SELECT (public.get_plan_limits(public.get_user_plan_tier(_user_id))->>'sms')::integer INTO sms_limit;
+
+  IF sms_limit = 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.usage_stats (user_id, organization_id, period_start, period_end)
+  SELECT _user_id, p.organization_id, month_start, (month_start + INTERVAL '1 month' - INTERVAL '1 day')::date
+  FROM public.profiles p
+  WHERE p.id = _user_id
+  ON CONFLICT (user_id, period_start) DO NOTHING;
+
+  -- -1 means unlimited
+  UPDATE public.usage_stats
+  SET sms_sent = sms_sent + 1
+  WHERE user_id = _user_id
+    AND period_start = month_start
+    AND (sms_limit = -1 OR sms_sent < sms_limit)
+  RETURNING id INTO claimed_id;
+
+  RETURN claimed_id IS NOT NULL;
+END;
+$$;
+
+-- Give back an SMS claimed for a message the provider didn't accept
+CREATE OR REPLACE FUNCTION public.release_sms_quota(_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.usage_stats
+  SET sms_sent = GREATEST(sms_sent - 1, 0)
+  WHERE user_id = _user_id
+    AND period_start = date_trunc('month', now())::date
+$$;
+
+-- Quota is spent by send-deadline-reminders (service role) only
+REVOKE EXECUTE ON FUNCTION public.claim_sms_quota(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_sms_quota(UUID) FROM PUBLIC, anon, authenticated;
+-- ============================================
+-- SLACK AND TEAMS CHANNEL NOTIFICATIONS
+-- ============================================
+
+CREATE TYPE public.chat_provider AS ENUM ('slack', 'teams');
+
+ALTER TYPE public.reminder_channel ADD VALUE IF NOT EXISTS 'slack';
+ALTER TYPE public.reminder_channel ADD VALUE IF NOT EXISTS 'teams';
+
+-- Incoming webhooks an organization routes reminders to
+CREATE TABLE public.chat_webhooks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  provider public.chat_provider NOT NULL,
+  -- Channel the webhook posts to, e.g. "#risk-management"
+  name TEXT NOT NULL,
+  webhook_url TEXT NOT NULL,
+  -- Routing; an empty array matches every category / level
+  categories public.deadline_category[] NOT NULL DEFAULT '{}',
+  consequence_levels public.consequence_level[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  -- Deliveries are logged per channel name, so names must be unique
+  CONSTRAINT unique_chat_webhook_name UNIQUE (organization_id, provider, name),
+  CONSTRAINT chat_webhooks_name_length CHECK (char_length(name) BETWEEN 1 AND 80),
+  -- Reminders are posted by the service role, so only the providers' own
+  -- webhook hosts are accepted (kept in step with isValidWebhookUrl)
+  CONSTRAINT chat_webhooks_url_host CHECK (
+    CASE provider
+      WHEN 'slack' THEN webhook_url ~ '^https://hooks\.slack\.com/services/\S+$'
+      WHEN 'teams' THEN webhook_url ~* '^https://([a-z0-9-]+\.webhook\.office\.com|[a-z0-9.-]+\.logic\.azure\.com(:443)?|[a-z0-9.-]+\.environment\.api\.powerplatform\.com(:443)?)/\S+$'
+    END
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_chat_webhooks_org ON public.chat_webhooks(organization_id) WHERE is_active;
+
+-- Trigger for updated_at
+CREATE TRIGGER update_chat_webhooks_updated_at
+  BEFORE UPDATE ON public.chat_webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the organization's plan includes integrations (Slack/Teams
+-- channels and outbound webhooks)
+CREATE OR REPLACE FUNCTION public.org_has_integrations(_org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((public.get_plan_limits(public.get_org_plan_tier(_org_id))->>'integrations')::boolean, false)
+$$;
+
+-- Enable RLS
+ALTER TABLE public.chat_webhooks ENABLE ROW LEVEL SECURITY;
+
+-- Webhook URLs are secrets, so only admins can see them
+CREATE POLICY "Org admins can view chat webhooks"
+ON public.chat_webhooks FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Channels need the integrations plan, also for direct API writes.
+-- They can still be switched off once the plan lapses.
+CREATE POLICY "Org admins can create chat webhooks"
+ON public.chat_webhooks FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  public.org_has_integrations(organization_id) AND
+  created_by = auth.uid()
+);
+
+CREATE POLICY "Org admins can update chat webhooks"
+ON public.chat_webhooks FOR UPDATE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+)
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  (NOT is_active OR public.org_has_integrations(organization_id))
+);
+
+CREATE POLICY "Org admins can delete chat webhooks"
+ON public.chat_webhooks FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+-- ============================================
+-- OUTBOUND WEBHOOKS
+-- ============================================
+
+-- Endpoints an organization sends signed deadline events to
+CREATE TABLE public.webhook_endpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- Event types the endpoint subscribes to
+  events TEXT[] NOT NULL,
+  -- HMAC-SHA256 signing secret
+  secret TEXT NOT NULL DEFAULT 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT webhook_endpoints_url_https CHECK (url ~ '^https://'),
+  CONSTRAINT webhook_endpoints_description_length CHECK (description IS NULL OR char_length(description) <= 200),
+  CONSTRAINT webhook_endpoints_events_valid CHECK (
+    cardinality(events) > 0 AND
+    events <@ ARRAY['deadline.created', 'deadline.updated', 'deadline.completed', 'deadline.entered_status', 'reminder.sent']
+  )
+);
+
+CREATE TYPE public.webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed');
+
+-- One row per event per endpoint; retries update the row, replays add a new one
+CREATE TABLE public.webhook_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  -- Shared by every endpoint (and replay) of the same event, so receivers can dedupe
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status public.webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  replayed_from UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Last urgency status dispatch-webhooks saw for each deadline.
+-- A NULL status means the deadline is new and its first status should fire.
+CREATE TABLE public.webhook_status_marks (
+  deadline_id UUID NOT NULL PRIMARY KEY REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  status TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_webhook_endpoints_org ON public.webhook_endpoints(organization_id) WHERE is_active;
+CREATE INDEX idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Triggers for updated_at
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON public.webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_status_marks ENABLE ROW LEVEL SECURITY;
+
+-- Signing secrets are only visible to admins
+CREATE POLICY "Org admins can view webhook endpoints"
+ON public.webhook_endpoints FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Endpoints need the integrations plan, also for direct API writes.
+-- They can still be switched off once the plan lapses.
+CREATE POLICY "Org admins can create webhook endpoints"
+ON public.webhook_endpoints FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  public.org_has_integrations(organization_id) AND
+  created_by = auth.uid()
+);
+
+CREATE POLICY "Org admins can update webhook endpoints"
+ON public.webhook_endpoints FOR UPDATE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+)
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  (NOT is_active OR public.org_has_integrations(organization_id))
+);
+
+CREATE POLICY "Org admins can delete webhook endpoints"
+ON public.webhook_endpoints FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Visible to anyone who can see the endpoint (the subquery is filtered by endpoint RLS)
+CREATE POLICY "Org admins can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.webhook_endpoints e WHERE e.id = endpoint_id)
+);
+
+-- Deliveries and status marks are written by triggers and dispatch-webhooks only
+
+-- Queue an event for every active endpoint of the organization subscribed to it.
+-- Nothing is queued while the organization's plan lacks integrations.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  _organization_id UUID,
+  _event_type TEXT,
+  _data JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID := gen_random_uuid();
+  queued INTEGER;
+BEGIN
+  IF _organization_id IS NULL OR NOT public.org_has_integrations(_organization_id) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  SELECT
+    e.id,
+    _event_id,
+    _event_type,
+    jsonb_build_object(
+      'id', _event_id,
+      'type', _event_type,
+      'created_at', now(),
+      'organization_id', _organization_id,
+      'data', _data
+    )
+  FROM public.webhook_endpoints e
+  WHERE e.organization_id = _organization_id
+    AND e.is_active
+    AND _event_type = ANY(e.events);
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- deadline.created / deadline.updated / deadline.completed
+CREATE OR REPLACE FUNCTION public.queue_deadline_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Let dispatch-webhooks fire the new deadline's first status
+    INSERT INTO public.webhook_status_marks (deadline_id) VALUES (NEW.id)
+    ON CONFLICT (deadline_id) DO NOTHING;
+
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'deadline.created', jsonb_build_object('deadline', to_jsonb(NEW)));
+  ELSIF NEW.state = 'completed' AND OLD.state IS DISTINCT FROM 'completed' THEN
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'deadline.completed', jsonb_build_object('deadline', to_jsonb(NEW)));
+  -- Ignore bookkeeping writes such as the reminder job stamping last_reminder_sent
+  ELSIF (to_jsonb(NEW) - 'updated_at' - 'last_reminder_sent') IS DISTINCT FROM (to_jsonb(OLD) - 'updated_at' - 'last_reminder_sent') THEN
+    PERFORM public.enqueue_webhook_event(
+      NEW.organization_id,
+      'deadline.updated',
+      jsonb_build_object('deadline', to_jsonb(NEW), 'previous', to_jsonb(OLD))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_deadline_webhooks
+  AFTER INSERT OR UPDATE ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_deadline_webhooks();
+
+-- reminder.sent
+CREATE OR REPLACE FUNCTION public.queue_reminder_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deadline RECORD;
+BEGIN
+  IF NEW.status <> 'sent' OR (TG_OP = 'UPDATE' AND OLD.status = 'sent') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, title, due_date, organization_id INTO _deadline
+  FROM public.deadlines
+  WHERE id = NEW.deadline_id;
+
+  IF _deadline.organization_id IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event(
+      _deadline.organization_id,
+      'reminder.sent',
+      jsonb_build_object(
+        'reminder', jsonb_build_object(
+          'id', NEW.id,
+          'channel', NEW.channel,
+          'recipient_id', NEW.recipient_id,
+          'offset_days', NEW.offset_days,
+          'escalated', NEW.escalated
+        ),
+        'deadline', jsonb_build_object(
+          'id', _deadline.id,
+          'title', _deadline.title,
+          'due_date', _deadline.due_date
+        )
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_reminder_webhooks
+  AFTER INSERT OR UPDATE OF status ON public.reminder_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_reminder_webhooks();
+
+-- Lease due deliveries for dispatch-webhooks; a crashed run's lease simply expires
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER, _lease_seconds INTEGER)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.webhook_deliveries d
+  SET next_attempt_at = now() + make_interval(secs => _lease_seconds)
+  WHERE d.id IN (
+    SELECT id FROM public.webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Open deadlines of organizations with an active deadline.entered_status
+-- endpoint, with the status dispatch-webhooks last saw for each. Ordered by
+-- id so the caller can page through them.
+CREATE OR REPLACE FUNCTION public.get_status_webhook_deadlines()
+RETURNS TABLE (
+  deadline JSONB,
+  timezone TEXT,
+  has_mark BOOLEAN,
+  last_status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH subscribed AS (
+    SELECT DISTINCT e.organization_id
+    FROM public.webhook_endpoints e
+    WHERE e.is_active AND 'deadline.entered_status' = ANY(e.events)
+  )
+  SELECT to_jsonb(d), o.timezone, m.deadline_id IS NOT NULL, m.status
+  FROM subscribed s
+  JOIN public.organizations o ON o.id = s.organization_id
+  JOIN public.deadlines d ON d.organization_id = s.organization_id
+  LEFT JOIN public.webhook_status_marks m ON m.deadline_id = d.id
+  WHERE d.state NOT IN ('completed', 'waived')
+    AND public.org_has_integrations(s.organization_id)
+  ORDER BY d.id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_status_webhook_deadlines() FROM PUBLIC, anon, authenticated;
+
+-- Send a past delivery again as a new log entry (same event id and payload)
+CREATE OR REPLACE FUNCTION public.replay_webhook_delivery(_delivery_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.webhook_deliveries%ROWTYPE;
+  _organization_id UUID;
+  replay_id UUID;
+BEGIN
+  SELECT * INTO _original FROM public.webhook_deliveries WHERE id = _delivery_id;
+
+  SELECT organization_id INTO _organization_id
+  FROM public.webhook_endpoints
+  WHERE id = _original.endpoint_id;
+
+  IF _organization_id IS NULL OR NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_id, event_type, payload, replayed_from)
+  VALUES (_original.endpoint_id, _original.event_id, _original.event_type, _original.payload, _original.id)
+  RETURNING id INTO replay_id;
+
+  RETURN replay_id;
+END;
+$$;
+-- ============================================
+-- REST API KEYS
+-- ============================================
+
+-- API access is an Enterprise feature
+CREATE OR REPLACE FUNCTION public.get_plan_limits(tier public.plan_tier)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE tier
+    WHEN 'free' THEN '{"deadlines": 5, "team_members": 1, "sms": 0, "recurring": false, "integrations": false, "api": false}'::jsonb
+    WHEN 'pro' THEN '{"deadlines": -1, "team_members": 1, "sms": 50, "recurring": true, "integrations": true, "api": false}'::jsonb
+    WHEN 'team' THEN '{"deadlines": -1, "team_members": 10, "sms": 200, "recurring": true, "integrations": true, "api": false}'::jsonb
+    WHEN 'enterprise' THEN '{"deadlines": -1, "team_members": -1, "sms": -1, "recurring": true, "integrations": true, "api": true}'::jsonb
+    ELSE '{"deadlines": 5, "team_members": 1, "sms": 0, "recurring": false, "integrations": false, "api": false}'::jsonb
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_api_access(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((public.get_plan_limits(COALESCE(s.plan_tier, 'free'))->>'api')::boolean, false)
+  FROM public.profiles p
+  LEFT JOIN public.subscriptions s ON s.user_id = p.id AND s.status IN ('active', 'trialing')
+  WHERE p.id = _user_id
+  ORDER BY s.created_at DESC NULLS LAST
+  LIMIT 1
+$$;
+
+-- Keys act as their owner (personal) or on behalf of an organization (organization_id set).
+-- Only a SHA-256 hash of the key is stored; the key itself is shown once, at creation.
+CREATE TABLE public.api_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- First characters of the key, so users can tell keys apart
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT api_keys_name_length CHECK (char_length(name) BETWEEN 1 AND 80),
+  CONSTRAINT api_keys_rate_limit_range CHECK (rate_limit_per_minute BETWEEN 1 AND 1000)
+);
+
+-- Requests per key per minute
+CREATE TABLE public.api_rate_limits (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+-- Indexes
+CREATE INDEX idx_api_keys_user ON public.api_keys(user_id);
+CREATE INDEX idx_api_keys_org ON public.api_keys(organization_id) WHERE organization_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their personal API keys"
+ON public.api_keys FOR SELECT
+USING (auth.uid() IS NOT NULL AND organization_id IS NULL AND user_id = auth.uid());
+
+CREATE POLICY "Org admins can view organization API keys"
+ON public.api_keys FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  organization_id IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Users can revoke their personal API keys"
+ON public.api_keys FOR DELETE
+USING (auth.uid() IS NOT NULL AND organization_id IS NULL AND user_id = auth.uid());
+
+CREATE POLICY "Org admins can revoke organization API keys"
+ON public.api_keys FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  organization_id IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Keys are created through create_api_key; rate limits are written by the api function only
+
+-- Create a key and return it in full. This is the only time the key is readable.
+CREATE OR REPLACE FUNCTION public.create_api_key(_name TEXT, _organization_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_key TEXT := 'dg_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_api_access(auth.uid()) THEN
+    RAISE EXCEPTION 'API access requires the Enterprise plan';
+  END IF;
+
+  IF _organization_id IS NOT NULL AND NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only organization admins can create organization keys';
+  END IF;
+
+  INSERT INTO public.api_keys (user_id, organization_id, name, key_prefix, key_hash)
+  VALUES (
+    auth.uid(),
+    _organization_id,
+    trim(_name),
+    left(new_key, 11),
+    encode(sha256(convert_to(new_key, 'UTF8')), 'hex')
+  );
+
+  RETURN new_key;
+END;
+$$;
+
+-- Count a request against the key's per-minute limit.
+-- Returns the requests left in the current minute; negative means the limit is exceeded.
+CREATE OR REPLACE FUNCTION public.consume_api_rate_limit(_api_key_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_window TIMESTAMP WITH TIME ZONE := date_trunc('minute', now());
+  request_limit INTEGER;
+  used INTEGER;
+BEGIN
+  UPDATE public.api_keys
+  SET last_used_at = now()
+  WHERE id = _api_key_id
+  RETURNING rate_limit_per_minute INTO request_limit;
+
+  INSERT INTO public.api_rate_limits (api_key_id, window_start, request_count)
+  VALUES (_api_key_id, current_window, 1)
+  ON CONFLICT (api_key_id, window_start)
+  DO UPDATE SET request_count = public.api_rate_limits.request_count + 1
+  RETURNING request_count INTO used;
+
+  -- Old windows are no longer needed
+  DELETE FROM public.api_rate_limits
+  WHERE api_key_id = _api_key_id AND window_start < current_window - INTERVAL '1 hour';
+
+  RETURN request_limit - used;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_api_rate_limit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Who a change is made by, for audit and history triggers: the signed-in
+-- user, or the user the api function is acting for. The api runs as the
+-- service role and names its caller in the X-DeadlineGuard-Actor header,
+-- which is ignored on any other request.
+CREATE OR REPLACE FUNCTION public.current_actor_id()
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (NULLIF(current_setting('request.headers', true), '')::json ->> 'x-deadlineguard-actor')::UUID;
+END;
+$$;
+-- ============================================
+-- CALENDAR SUBSCRIPTION FEEDS
+-- ============================================
+
+-- Secret-token iCalendar feeds. A feed covers the user's own deadlines
+-- (organization_id NULL) or every deadline of one of their organizations.
+-- The token is the only credential, so regenerating it revokes the old URL.
+CREATE TABLE public.calendar_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One personal feed per user, and one feed per user per organization
+CREATE UNIQUE INDEX idx_calendar_feeds_personal ON public.calendar_feeds(user_id) WHERE organization_id IS NULL;
+CREATE UNIQUE INDEX idx_calendar_feeds_org ON public.calendar_feeds(user_id, organization_id) WHERE organization_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feeds"
+ON public.calendar_feeds FOR SELECT
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+CREATE POLICY "Users can revoke their calendar feeds"
+ON public.calendar_feeds FOR DELETE
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+-- Feeds are created through regenerate_calendar_feed
+
+-- Create the feed, or replace its token if it already exists. Returns the new token.
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed(_organization_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _organization_id IS NOT NULL AND NOT public.user_belongs_to_org(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  UPDATE public.calendar_feeds
+  SET token = new_token, created_at = now(), last_accessed_at = NULL
+  WHERE user_id = auth.uid()
+    AND organization_id IS NOT DISTINCT FROM _organization_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.calendar_feeds (user_id, organization_id, token)
+    VALUES (auth.uid(), _organization_id, new_token);
+  END IF;
+
+  RETURN new_token;
+END;
+$$;
+-- ============================================
+-- DEADLINE ENTITY / PROJECT
+-- ============================================
+
+-- Free-text label for the legal entity, job or project a deadline belongs to,
+-- so compliance reports can be narrowed to what one auditor or surety asks about
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS project TEXT;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_project_length
+CHECK (project IS NULL OR length(project) <= 120);
+
+CREATE INDEX IF NOT EXISTS idx_deadlines_org_project ON public.deadlines(organization_id, project) WHERE project IS NOT NULL;
+-- ============================================
+-- DEADLINE DOCUMENTS
+-- ============================================
+
+-- Files attached to a deadline: the license PDF, insurance declarations page,
+-- bond certificate. A document keeps every uploaded version; the newest version
+-- is the one shown. Superseded documents (last term's certificate) stay on file.
+CREATE TYPE public.document_status AS ENUM ('current', 'superseded');
+
+CREATE TABLE public.deadline_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deadline_id UUID NOT NULL REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  status public.document_status NOT NULL DEFAULT 'current',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT deadline_documents_name_length CHECK (length(name) >= 1 AND length(name) <= 200)
+);
+
+CREATE TABLE public.deadline_document_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.deadline_documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version >= 1),
+  -- <deadline id>/<document id>/v<version>-<file name> in the deadline-documents bucket
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX idx_deadline_documents_deadline ON public.deadline_documents(deadline_id, created_at);
+CREATE INDEX idx_deadline_document_versions_document ON public.deadline_document_versions(document_id, version DESC);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_deadline_documents_updated_at
+  BEFORE UPDATE ON public.deadline_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Same rule as the deadlines UPDATE policies: the owner, or an admin of the deadline's organization
+CREATE OR REPLACE FUNCTION public.can_edit_deadline(_user_id UUID, _deadline_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.deadlines
+    WHERE id = _deadline_id
+      AND (
+        user_id = _user_id
+        OR (organization_id IS NOT NULL AND public.is_org_admin(_user_id, organization_id))
+      )
+  )
+$$;
+
+-- Enable RLS
+ALTER TABLE public.deadline_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deadline_document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the deadline (the subquery is filtered by deadlines RLS)
+CREATE POLICY "Users can view documents on visible deadlines"
+ON public.deadline_documents FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines d WHERE d.id = deadline_id)
+);
+
+CREATE POLICY "Deadline editors can add documents"
+ON public.deadline_documents FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  created_by = auth.uid() AND
+  public.can_edit_deadline(auth.uid(), deadline_id)
+);
+
+CREATE POLICY "Deadline editors can update documents"
+ON public.deadline_documents FOR UPDATE
+USING (auth.uid() IS NOT NULL AND public.can_edit_deadline(auth.uid(), deadline_id))
+WITH CHECK (auth.uid() IS NOT NULL AND public.can_edit_deadline(auth.uid(), deadline_id));
+
+CREATE POLICY "Deadline editors can delete documents"
+ON public.deadline_documents FOR DELETE
+USING (auth.uid() IS NOT NULL AND public.can_edit_deadline(auth.uid(), deadline_id));
+
+CREATE POLICY "Users can view versions of visible documents"
+ON public.deadline_document_versions FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadline_documents doc WHERE doc.id = document_id)
+);
+
+-- Versions are never edited; a new upload adds a version
+CREATE POLICY "Deadline editors can add document versions"
+ON public.deadline_document_versions FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  uploaded_by = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.deadline_documents doc
+    WHERE doc.id = document_id AND public.can_edit_deadline(auth.uid(), doc.deadline_id)
+  )
+);
+
+CREATE POLICY "Deadline editors can delete document versions"
+ON public.deadline_document_versions FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (
+    SELECT 1 FROM public.deadline_documents doc
+    WHERE doc.id = document_id AND public.can_edit_deadline(auth.uid(), doc.deadline_id)
+  )
+);
+
+-- ============================================
+-- STORAGE
+-- ============================================
+
+-- Private bucket; files are read through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'deadline-documents',
+  'deadline-documents',
+  false,
+  26214400,
+  ARRAY[
+    'application/pdf',
+    'image/png',
+    'image/jpeg',
+    'image/webp',
+    'image/gif',
+    'text/plain',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Object paths start with the deadline id, so access follows the deadline policies
+CREATE POLICY "Users can read document files on visible deadlines"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'deadline-documents' AND
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines d WHERE d.id::text = (storage.foldername(name))[1])
+);
+
+CREATE POLICY "Deadline editors can upload document files"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'deadline-documents' AND
+  auth.uid() IS NOT NULL AND
+  EXISTS (
+    SELECT 1 FROM public.deadlines d
+    WHERE d.id::text = (storage.foldername(name))[1] AND public.can_edit_deadline(auth.uid(), d.id)
+  )
+);
+
+CREATE POLICY "Deadline editors can delete document files"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'deadline-documents' AND
+  auth.uid() IS NOT NULL AND
+  EXISTS (
+    SELECT 1 FROM public.deadlines d
+    WHERE d.id::text = (storage.foldername(name))[1] AND public.can_edit_deadline(auth.uid(), d.id)
+  )
+);
+-- ============================================
+-- DEADLINE ASSIGNEES
+-- ============================================
+
+-- The person responsible for a deadline, separate from whoever created it
+-- (user_id), plus backups who cover when they're away. Reminders go to the
+-- assignee; a deadline with no assignee falls back to its creator.
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS backup_assignee_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_backup_assignees_count
+CHECK (cardinality(backup_assignee_ids) <= 5);
+
+-- Existing deadlines stay with the people who created them
+UPDATE public.deadlines SET assignee_id = user_id WHERE assignee_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deadlines_assignee ON public.deadlines(assignee_id);
+CREATE INDEX IF NOT EXISTS idx_deadlines_backup_assignees ON public.deadlines USING GIN (backup_assignee_ids);
+
+-- Default the assignee to the creator, keep assignees inside the deadline's
+-- organization, and leave reassignment to the creator and organization admins
+CREATE OR REPLACE FUNCTION public.validate_deadline_assignees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _backup_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.assignee_id := COALESCE(NEW.assignee_id, NEW.user_id);
+  ELSIF auth.uid() IS NOT NULL
+    AND OLD.user_id <> auth.uid()
+    AND NOT (OLD.organization_id IS NOT NULL AND public.is_org_admin(auth.uid(), OLD.organization_id))
+    AND (
+      NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+      OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+      OR NEW.backup_assignee_ids IS DISTINCT FROM OLD.backup_assignee_ids
+    )
+  THEN
+    RAISE EXCEPTION 'Only the creator or an organization admin can reassign this deadline';
+  END IF;
+
+  -- Saving other fields doesn't re-check assignees who have since left the organization
+  IF TG_OP = 'UPDATE'
+    AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+    AND NEW.assignee_id IS NOT DISTINCT FROM OLD.assignee_id
+    AND NEW.backup_assignee_ids IS NOT DISTINCT FROM OLD.backup_assignee_ids
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- The assignee isn't also their own backup, and nobody is listed twice
+  NEW.backup_assignee_ids := ARRAY(
+    SELECT DISTINCT backup_id
+    FROM unnest(NEW.backup_assignee_ids) AS backup_id
+    WHERE backup_id IS DISTINCT FROM NEW.assignee_id
+  );
+
+  IF NEW.organization_id IS NULL THEN
+    IF NEW.assignee_id <> NEW.user_id OR cardinality(NEW.backup_assignee_ids) > 0 THEN
+      RAISE EXCEPTION 'Personal deadlines can only be assigned to their creator';
+    END IF;
+  ELSE
+    IF NEW.assignee_id IS NOT NULL AND NOT public.user_belongs_to_org(NEW.assignee_id, NEW.organization_id) THEN
+      RAISE EXCEPTION 'Deadlines can only be assigned to members of their organization';
+    END IF;
+
+    FOREACH _backup_id IN ARRAY NEW.backup_assignee_ids LOOP
+      IF NOT public.user_belongs_to_org(_backup_id, NEW.organization_id) THEN
+        RAISE EXCEPTION 'Backup assignees must be members of the deadline''s organization';
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_deadline_assignees
+  BEFORE INSERT OR UPDATE OF user_id, organization_id, assignee_id, backup_assignee_ids ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_deadline_assignees();
+
+-- Assignees and backups work the deadlines they own: status, dates, reference
+-- numbers. Deleting stays with the creator and organization admins.
+CREATE POLICY "Assignees can update their deadlines"
+ON public.deadlines FOR UPDATE
+USING (
+  auth.uid() IS NOT NULL AND
+  (auth.uid() = assignee_id OR auth.uid() = ANY(backup_assignee_ids))
+);
+
+-- Assignees also manage the deadline's documents
+CREATE OR REPLACE FUNCTION public.can_edit_deadline(_user_id UUID, _deadline_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.deadlines
+    WHERE id = _deadline_id
+      AND (
+        user_id = _user_id
+        OR assignee_id = _user_id
+        OR _user_id = ANY(backup_assignee_ids)
+        OR (organization_id IS NOT NULL AND public.is_org_admin(_user_id, organization_id))
+      )
+  )
+$$;
+-- ============================================
+-- MEMBER OFFBOARDING
+-- ============================================
+
+-- Organization-wide record of who did what. Rows are written by SECURITY
+-- DEFINER functions only; admins can read their organization's entries.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  before_data JSONB,
+  after_data JSONB,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization ON public.audit_log(organization_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org admins can view their audit log"
+ON public.audit_log FOR SELECT
+USING (auth.uid() IS NOT NULL AND public.is_org_admin(auth.uid(), organization_id));
+
+-- Offboarding hands deadlines over on the member's behalf, which the
+-- creator/admin check would otherwise reject when a member leaves
+CREATE OR REPLACE FUNCTION public.validate_deadline_assignees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _backup_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.assignee_id := COALESCE(NEW.assignee_id, NEW.user_id);
+  ELSIF auth.uid() IS NOT NULL
+    AND current_setting('deadline_guard.offboarding', true) IS DISTINCT FROM 'on'
+    AND OLD.user_id <> auth.uid()
+    AND NOT (OLD.organization_id IS NOT NULL AND public.is_org_admin(auth.uid(), OLD.organization_id))
+    AND (
+      NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+      OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+      OR NEW.backup_assignee_ids IS DISTINCT FROM OLD.backup_assignee_ids
+    )
+  THEN
+    RAISE EXCEPTION 'Only the creator or an organization admin can reassign this deadline';
+  END IF;
+
+  -- Saving other fields doesn't re-check assignees who have since left the organization
+  IF TG_OP = 'UPDATE'
+    AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+    AND NEW.assignee_id IS NOT DISTINCT FROM OLD.assignee_id
+    AND NEW.backup_assignee_ids IS NOT DISTINCT FROM OLD.backup_assignee_ids
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- The assignee isn't also their own backup, and nobody is listed twice
+  NEW.backup_assignee_ids := ARRAY(
+    SELECT DISTINCT backup_id
+    FROM unnest(NEW.backup_assignee_ids) AS backup_id
+    WHERE backup_id IS DISTINCT FROM NEW.assignee_id
+  );
+
+  IF NEW.organization_id IS NULL THEN
+    IF NEW.assignee_id <> NEW.user_id OR cardinality(NEW.backup_assignee_ids) > 0 THEN
+      RAISE EXCEPTION 'Personal deadlines can only be assigned to their creator';
+    END IF;
+  ELSE
+    IF NEW.assignee_id IS NOT NULL AND NOT public.user_belongs_to_org(NEW.assignee_id, NEW.organization_id) THEN
+      RAISE EXCEPTION 'Deadlines can only be assigned to members of their organization';
+    END IF;
+
+    FOREACH _backup_id IN ARRAY NEW.backup_assignee_ids LOOP
+      -- Only newly added backups are checked; one who has since left the
+      -- organization doesn't block unrelated changes such as offboarding
+      IF TG_OP = 'UPDATE'
+        AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+        AND _backup_id = ANY(OLD.backup_assignee_ids)
+      THEN
+        CONTINUE;
+      END IF;
+
+      IF NOT public.user_belongs_to_org(_backup_id, NEW.organization_id) THEN
+        RAISE EXCEPTION 'Backup assignees must be members of the deadline''s organization';
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Removes a member from their organization. Every org deadline they created
+-- or are assigned to must be handed to a remaining member first
+-- (_reassignments maps deadline id to member id); they're dropped from
+-- backup lists. The last member out keeps the deadlines as personal ones.
+-- _acting_user_id is for the public API, which calls this with the service role.
+CREATE OR REPLACE FUNCTION public.offboard_member(
+  _member_id UUID,
+  _reassignments JSONB DEFAULT '{}',
+  _acting_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := COALESCE(auth.uid(), _acting_user_id);
+  _member RECORD;
+  _deadline RECORD;
+  _new_assignee_id UUID;
+  _remaining_members INTEGER;
+  _reassigned JSONB := '[]';
+BEGIN
+  SELECT id, organization_id, role INTO _member
+  FROM public.profiles
+  WHERE id = _member_id;
+
+  IF _member.id IS NULL OR _member.organization_id IS NULL THEN
+    RAISE EXCEPTION 'This person is not a member of an organization';
+  END IF;
+
+  IF _actor_id IS NOT NULL
+    AND _actor_id <> _member_id
+    AND NOT public.is_org_admin(_actor_id, _member.organization_id)
+  THEN
+    RAISE EXCEPTION 'Only organization admins can remove members';
+  END IF;
+
+  IF jsonb_typeof(_reassignments) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Reassignments must map deadline ids to member ids';
+  END IF;
+
+  SELECT count(*) INTO _remaining_members
+  FROM public.profiles
+  WHERE organization_id = _member.organization_id AND id <> _member_id;
+
+  PERFORM set_config('deadline_guard.offboarding', 'on', true);
+
+  FOR _deadline IN
+    SELECT id, title
+    FROM public.deadlines
+    WHERE organization_id = _member.organization_id
+      AND (user_id = _member_id OR assignee_id = _member_id)
+    ORDER BY due_date
+    FOR UPDATE
+  LOOP
+    IF _remaining_members = 0 THEN
+      UPDATE public.deadlines
+      SET organization_id = NULL, user_id = _member_id, assignee_id = _member_id, backup_assignee_ids = '{}'
+      WHERE id = _deadline.id;
+      CONTINUE;
+    END IF;
+
+    _new_assignee_id := NULLIF(_reassignments ->> _deadline.id::text, '')::UUID;
+
+    IF _new_assignee_id IS NULL THEN
+      RAISE EXCEPTION 'Reassign "%" before removing this member', _deadline.title;
+    END IF;
+
+    IF _new_assignee_id = _member_id OR NOT public.user_belongs_to_org(_new_assignee_id, _member.organization_id) THEN
+      RAISE EXCEPTION 'Deadlines can only be reassigned to remaining members of the organization';
+    END IF;
+
+    UPDATE public.deadlines
+    SET
+      user_id = CASE WHEN user_id = _member_id THEN _new_assignee_id ELSE user_id END,
+      assignee_id = CASE WHEN assignee_id = _member_id THEN _new_assignee_id ELSE assignee_id END
+    WHERE id = _deadline.id;
+
+    _reassigned := _reassigned || jsonb_build_array(jsonb_build_object(
+      'deadline_id', _deadline.id,
+      'title', _deadline.title,
+      'assignee_id', _new_assignee_id
+    ));
+  END LOOP;
+
+  UPDATE public.deadlines
+  SET backup_assignee_ids = array_remove(backup_assignee_ids, _member_id)
+  WHERE organization_id = _member.organization_id AND _member_id = ANY(backup_assignee_ids);
+
+  UPDATE public.profiles
+  SET organization_id = NULL, role = 'individual'
+  WHERE id = _member_id;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+  VALUES (
+    _member.organization_id,
+    _actor_id,
+    CASE WHEN _actor_id = _member_id THEN 'member.left' ELSE 'member.removed' END,
+    'profile',
+    _member_id,
+    jsonb_build_object('organization_id', _member.organization_id, 'role', _member.role),
+    jsonb_build_object('organization_id', NULL, 'role', 'individual'),
+    jsonb_build_object('reassigned_deadlines', _reassigned, 'kept_as_personal', _remaining_members = 0)
+  );
+
+  RETURN jsonb_array_length(_reassigned);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offboard_member(UUID, JSONB, UUID) FROM PUBLIC, anon;
+
+-- Leaving goes through the same handover
+DROP FUNCTION IF EXISTS public.leave_organization();
+
+CREATE OR REPLACE FUNCTION public.leave_organization(_reassignments JSONB DEFAULT '{}')
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.offboard_member(auth.uid(), _reassignments);
+  RETURN true;
+END;
+$$;
+
+-- Members can still edit their own profile, but joining and leaving an
+-- organization only happens through the functions above
+CREATE OR REPLACE FUNCTION public.protect_profile_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION 'Use leave_organization to leave an organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_membership
+  BEFORE UPDATE OF organization_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_membership();
+-- ============================================
+-- ORGANIZATION AUDIT LOG
+-- ============================================
+
+-- Entries are written by the triggers below (and by offboard_member). For
+-- updates, before_data/after_data hold only the fields that changed.
+-- actor_id is the signed-in user or the API key's owner (current_actor_id),
+-- and NULL for billing webhooks and scheduled jobs.
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log(organization_id, actor_id, created_at DESC);
+
+-- Append-only: no one edits or removes entries, short of deleting the
+-- organization or the actor's account
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- auth.users ON DELETE SET NULL
+    IF NEW.actor_id IS NULL AND (to_jsonb(NEW) - 'actor_id') = (to_jsonb(OLD) - 'actor_id') THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id) THEN
+    -- organizations ON DELETE CASCADE
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+-- Generic row trigger. TG_ARGV[0] is the entity type ('deadline', ...); any
+-- further arguments are columns left out of the log, either because they
+-- change on their own (updated_at) or are secret (invitation tokens).
+-- Rows outside an organization aren't logged. details.label names the row
+-- (a deadline's title, an invitee's email) since updates only carry the diff.
+CREATE OR REPLACE FUNCTION public.record_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity_type TEXT := TG_ARGV[0];
+  _ignored TEXT[] := TG_ARGV[1:TG_NARGS - 1];
+  _old JSONB;
+  _new JSONB;
+  _before JSONB;
+  _after JSONB;
+  _organization_id UUID;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    _old := to_jsonb(OLD) - _ignored;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _new := to_jsonb(NEW) - _ignored;
+  END IF;
+
+  _organization_id := COALESCE((_new ->> 'organization_id')::UUID, (_old ->> 'organization_id')::UUID);
+
+  -- Also skips rows removed along with their organization
+  IF _organization_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = _organization_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(key, _old -> key), jsonb_object_agg(key, _new -> key)
+    INTO _before, _after
+    FROM jsonb_object_keys(_new) AS key
+    WHERE _new -> key IS DISTINCT FROM _old -> key;
+
+    -- Only ignored columns changed
+    IF _after IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    _before := _old;
+    _after := _new;
+  END IF;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+  VALUES (
+    _organization_id,
+    public.current_actor_id(),
+    _entity_type || '.' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    _entity_type,
+    COALESCE(_new ->> 'id', _old ->> 'id')::UUID,
+    _before,
+    _after,
+    jsonb_build_object('label', COALESCE(
+      _new ->> 'title', _old ->> 'title',
+      _new ->> 'email', _old ->> 'email',
+      _new ->> 'plan_tier', _old ->> 'plan_tier'
+    ))
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Profiles only log membership: joining and role changes. Leaving and
+-- removal are logged by offboard_member along with the deadline handover.
+CREATE OR REPLACE FUNCTION public.record_profile_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.organization_id IS NULL AND NEW.organization_id IS NOT NULL THEN
+    INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+    VALUES (
+      NEW.organization_id,
+      public.current_actor_id(),
+      'member.joined',
+      'profile',
+      NEW.id,
+      jsonb_build_object('organization_id', NULL, 'role', OLD.role),
+      jsonb_build_object('organization_id', NEW.organization_id, 'role', NEW.role),
+      jsonb_build_object('label', NEW.name)
+    );
+  ELSIF NEW.organization_id IS NOT NULL
+    AND NEW.organization_id = OLD.organization_id
+    AND NEW.role IS DISTINCT FROM OLD.role
+  THEN
+    INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+    VALUES (
+      NEW.organization_id,
+      public.current_actor_id(),
+      'member.role_changed',
+      'profile',
+      NEW.id,
+      jsonb_build_object('role', OLD.role),
+      jsonb_build_object('role', NEW.role),
+      jsonb_build_object('label', NEW.name)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_deadlines
+  AFTER INSERT OR UPDATE OR DELETE ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event('deadline', 'updated_at', 'last_reminder_sent');
+
+CREATE TRIGGER audit_organization_invitations
+  AFTER INSERT OR UPDATE OR DELETE ON public.organization_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event('invitation', 'token');
+
+CREATE TRIGGER audit_subscriptions
+  AFTER INSERT OR UPDATE OR DELETE ON public.subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event('subscription', 'updated_at');
+
+CREATE TRIGGER audit_profiles
+  AFTER UPDATE OF organization_id, role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_profile_audit_event();
+-- ============================================
+-- DEADLINE VERSION HISTORY
+-- ============================================
+
+-- Every saved state of a deadline, numbered from 1, with who saved it and
+-- why. Written by triggers; readable by anyone who can see the deadline.
+CREATE TABLE IF NOT EXISTS public.deadline_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deadline_id UUID NOT NULL REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- The whole deadline as saved, minus bookkeeping columns
+  data JSONB NOT NULL,
+  -- Compared with the previous version; empty for the first
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  change_reason TEXT,
+  -- The signed-in user or the API key's owner (current_actor_id);
+  -- NULL for scheduled jobs
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (deadline_id, version)
+);
+
+ALTER TABLE public.deadline_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of deadlines they can see"
+ON public.deadline_versions FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines WHERE deadlines.id = deadline_versions.deadline_id)
+);
+
+CREATE OR REPLACE FUNCTION public.deadline_version_data(_deadline public.deadlines)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_jsonb(_deadline) - ARRAY['updated_at', 'last_reminder_sent']
+$$;
+
+-- History starts with each deadline as it stands today
+INSERT INTO public.deadline_versions (deadline_id, version, data, created_at)
+SELECT id, 1, public.deadline_version_data(deadlines), updated_at
+FROM public.deadlines
+ON CONFLICT (deadline_id, version) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.record_deadline_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _data JSONB := public.deadline_version_data(NEW);
+  _previous JSONB;
+  _changed_fields TEXT[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _previous := public.deadline_version_data(OLD);
+
+    SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+    INTO _changed_fields
+    FROM jsonb_object_keys(_data) AS key
+    WHERE _data -> key IS DISTINCT FROM _previous -> key;
+
+    -- Bookkeeping only, e.g. a reminder going out
+    IF cardinality(_changed_fields) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  -- Numbers a deadline's versions one writer at a time
+  PERFORM pg_advisory_xact_lock(hashtext('deadline_versions:' || NEW.id::text));
+
+  INSERT INTO public.deadline_versions (deadline_id, version, data, changed_fields, change_reason, changed_by)
+  VALUES (
+    NEW.id,
+    COALESCE((SELECT max(version) FROM public.deadline_versions WHERE deadline_id = NEW.id), 0) + 1,
+    _data,
+    _changed_fields,
+    NULLIF(current_setting('deadline_guard.change_reason', true), ''),
+    public.current_actor_id()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_deadline_version
+  AFTER INSERT OR UPDATE ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_deadline_version();
+
+-- Update a deadline and record why in its new version ("Agency extended the
+-- filing window"). The reason is never stored on the deadline itself. Runs as
+-- the caller, so the usual policies and triggers apply. _changes holds the
+-- columns to set, as in a regular update.
+CREATE OR REPLACE FUNCTION public.update_deadline_with_reason(
+  _deadline_id UUID,
+  _changes JSONB,
+  _reason TEXT
+)
+RETURNS public.deadlines
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _columns TEXT[];
+  _unknown TEXT;
+  _updated public.deadlines;
+BEGIN
+  IF length(btrim(_reason)) > 500 THEN
+    RAISE EXCEPTION 'Keep the reason for change under 500 characters';
+  END IF;
+
+  SELECT key INTO _unknown
+  FROM jsonb_object_keys(COALESCE(_changes, '{}')) AS key
+  WHERE key IN ('id', 'created_at', 'updated_at')
+    OR NOT EXISTS (
+      SELECT 1 FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = 'deadlines' AND c.column_name = key
+    )
+  LIMIT 1;
+
+  IF _unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown deadline field: %', _unknown;
+  END IF;
+
+  SELECT array_agg(key) INTO _columns FROM jsonb_object_keys(COALESCE(_changes, '{}')) AS key;
+
+  PERFORM set_config('deadline_guard.change_reason', COALESCE(btrim(_reason), ''), true);
+
+  IF _columns IS NULL THEN
+    SELECT * INTO _updated FROM public.deadlines WHERE id = _deadline_id;
+  ELSE
+    EXECUTE format(
+      'UPDATE public.deadlines SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.deadlines, $1)) WHERE id = $2 RETURNING *',
+      (SELECT string_agg(quote_ident(c), ', ') FROM unnest(_columns) AS c)
+    )
+    INTO _updated
+    USING _changes, _deadline_id;
+  END IF;
+
+  -- Later writes in the same transaction get no reason
+  PERFORM set_config('deadline_guard.change_reason', '', true);
+
+  IF _updated.id IS NULL THEN
+    RAISE EXCEPTION 'Deadline not found';
+  END IF;
+
+  RETURN _updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_deadline_with_reason(UUID, JSONB, TEXT) FROM PUBLIC, anon;
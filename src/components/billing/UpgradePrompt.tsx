@@ -9,7 +9,7 @@ import { Zap, Lock, AlertTriangle, ArrowRight, Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface UpgradePromptProps {
-  feature: 'deadlines' | 'recurring' | 'sms' | 'team' | 'templates';
+  feature: 'deadlines' | 'recurring' | 'sms' | 'team' | 'templates' | 'integrations' | 'api' | 'documents';
   currentUsage?: number;
   limit?: number;
 }
@@ -75,6 +75,39 @@ const FEATURE_INFO: Record<string, {
       'Typical recurrence patterns',
     ],
   },
+  integrations: {
+    title: "Integrations require Pro",
+    description: "Post deadline reminders to Slack and Microsoft Teams channels.",
+    requiredPlan: 'pro',
+    benefits: [
+      'Slack and Teams channels',
+      'Route by category or priority',
+      'Rich reminder cards',
+      'Links back to your deadlines',
+    ],
+  },
+  api: {
+    title: "API access requires Enterprise",
+    description: "Connect your own tools to your deadlines with the REST API.",
+    requiredPlan: 'enterprise',
+    benefits: [
+      'Personal and organization keys',
+      'Deadlines, templates and team',
+      'Create, update and complete',
+      'Per-key rate limits',
+    ],
+  },
+  documents: {
+    title: "Document attachments require Pro",
+    description: "Keep the license, declarations page or bond certificate with its deadline.",
+    requiredPlan: 'pro',
+    benefits: [
+      'PDFs, images and Office files',
+      'Version history for every file',
+      'Current vs superseded certificates',
+      'Shared with your team',
+    ],
+  },
 };
 
 export function UpgradePrompt({ feature, currentUsage, limit }: UpgradePromptProps) {
@@ -111,7 +144,7 @@ export function UpgradePrompt({ feature, currentUsage, limit }: UpgradePromptPro
       <CardFooter>
         <Button onClick={() => navigate('/pricing')} className="w-full">
           <Zap className="h-4 w-4 mr-2" />
-          Upgrade to {info.requiredPlan === 'team' ? 'Team' : 'Pro'}
+          Upgrade to {info.requiredPlan === 'enterprise' ? 'Enterprise' : info.requiredPlan === 'team' ? 'Team' : 'Pro'}
           <ArrowRight className="h-4 w-4 ml-2" />
         </Button>
       </CardFooter>
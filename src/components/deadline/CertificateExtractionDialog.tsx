@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, ScanText } from 'lucide-react';
+import { useDeadlines } from '@/hooks/useDeadlines';
+import { DocumentExtraction } from '@/hooks/useDeadlineDocuments';
+import { Deadline, DOCUMENT_TYPE_LABELS, formatCurrency } from '@/lib/deadline-utils';
+
+type ProposedField = 'due_date' | 'reference_number' | 'issuing_authority';
+
+interface Proposal {
+  field: ProposedField;
+  label: string;
+  current: string | null;
+  proposed: string;
+}
+
+interface CertificateExtractionDialogProps {
+  deadline: Deadline;
+  extraction: DocumentExtraction | null;
+  fileName?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<ProposedField, string> = {
+  due_date: 'Due date',
+  reference_number: 'Reference number',
+  issuing_authority: 'Issuing authority',
+};
+
+function formatISODate(value: string): string {
+  return format(parseISO(value), 'MMM d, yyyy');
+}
+
+function formatValue(field: ProposedField, value: string | null): string {
+  if (!value) return 'Not set';
+  return field === 'due_date' ? formatISODate(value) : value;
+}
+
+// Only values that were found and differ from what the deadline already has
+function getProposals(deadline: Deadline, extraction: DocumentExtraction): Proposal[] {
+  const found: Record<ProposedField, string | null> = {
+    due_date: extraction.expirationDate,
+    reference_number: extraction.referenceNumber,
+    issuing_authority: extraction.issuingAuthority,
+  };
+
+  return (Object.keys(found) as ProposedField[])
+    .filter((field) => {
+      const proposed = found[field];
+      return !!proposed && proposed.toLowerCase() !== (deadline[field] ?? '').trim().toLowerCase();
+    })
+    .map((field) => ({
+      field,
+      label: FIELD_LABELS[field],
+      current: deadline[field] ?? null,
+      proposed: found[field] as string,
+    }));
+}
+
+export function CertificateExtractionDialog({
+  deadline,
+  extraction,
+  fileName,
+  onOpenChange,
+}: CertificateExtractionDialogProps) {
+  const { deadlines, updateDeadline } = useDeadlines();
+  const [selected, setSelected] = useState<Set<ProposedField>>(new Set());
+
+  // Compare against the latest saved values, not the copy the dialog was opened with
+  const current = deadlines.find((candidate) => candidate.id === deadline.id) ?? deadline;
+  const proposals = extraction ? getProposals(current, extraction) : [];
+  const selectedCount = proposals.filter((proposal) => selected.has(proposal.field)).length;
+  const foundAnything = !!extraction &&
+    !!(extraction.expirationDate || extraction.referenceNumber || extraction.issuingAuthority);
+
+  // Everything that was found starts selected
+  useEffect(() => {
+    if (extraction) {
+      setSelected(new Set(Object.keys(FIELD_LABELS) as ProposedField[]));
+    }
+  }, [extraction]);
+
+  const toggle = (field: ProposedField, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(field);
+    else next.delete(field);
+    setSelected(next);
+  };
+
+  const handleApply = async () => {
+    const updates: Partial<Record<ProposedField, string>> = {};
+    for (const proposal of proposals) {
+      if (selected.has(proposal.field)) updates[proposal.field] = proposal.proposed;
+    }
+
+    try {
+      await updateDeadline.mutateAsync({ id: deadline.id, ...updates });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <Dialog open={!!extraction} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Review Document Details</DialogTitle>
+          <DialogDescription>
+            {extraction ? DOCUMENT_TYPE_LABELS[extraction.documentType] : 'Document'}
+            {fileName && ` · ${fileName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {extraction && (
+          <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+            {!extraction.hasText ? (
+              <Alert>
+                <ScanText className="h-4 w-4" />
+                <AlertDescription>
+                  This PDF has no readable text, which usually means it's a scan. Enter the details on the deadline yourself.
+                </AlertDescription>
+              </Alert>
+            ) : proposals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {foundAnything
+                  ? 'The deadline already matches this document.'
+                  : "No policy or license numbers or dates were recognized in this document."}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Check the values read from the document before applying them to this deadline.
+                </p>
+                {proposals.map((proposal) => (
+                  <label
+                    key={proposal.field}
+                    className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50"
+                  >
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={selected.has(proposal.field)}
+                      onCheckedChange={(checked) => toggle(proposal.field, checked === true)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium">{proposal.label}</p>
+                      <p className="text-sm">
+                        <span className="text-muted-foreground line-through">
+                          {formatValue(proposal.field, proposal.current)}
+                        </span>
+                        {' → '}
+                        <span>{formatValue(proposal.field, proposal.proposed)}</span>
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {proposals.some((proposal) => proposal.field === 'due_date' && proposal.proposed < current.due_date) && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This document expires before the current due date. Make sure it's the latest certificate.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {extraction.effectiveDate && (
+              <p className="text-sm text-muted-foreground">
+                Effective {formatISODate(extraction.effectiveDate)}
+              </p>
+            )}
+
+            {extraction.policies.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Policies</p>
+                {extraction.policies.map((policy, index) => {
+                  const insurer = extraction.insurers.find((candidate) => candidate.letter === policy.insurerLetter);
+                  return (
+                    <p key={`${policy.policyNumber}-${index}`} className="text-sm text-muted-foreground">
+                      {policy.coverage ?? 'Policy'} · <span className="font-mono">{policy.policyNumber}</span>
+                      {insurer && ` · ${insurer.name}`}
+                      {' · '}
+                      {policy.effectiveDate && `${formatISODate(policy.effectiveDate)} – `}
+                      {formatISODate(policy.expirationDate)}
+                    </p>
+                  );
+                })}
+              </div>
+            )}
+
+            {extraction.insurers.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Insurers</p>
+                {extraction.insurers.map((insurer) => (
+                  <p key={insurer.letter} className="text-sm text-muted-foreground">
+                    {insurer.letter} · {insurer.name}
+                    {insurer.naic && ` · NAIC ${insurer.naic}`}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {extraction.limits.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Limits</p>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  {extraction.limits.map((limit) => (
+                    <div key={limit.label} className="flex justify-between gap-2">
+                      <span className="truncate">{limit.label}</span>
+                      <span>{formatCurrency(limit.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {proposals.length > 0 ? 'Cancel' : 'Close'}
+          </Button>
+          {proposals.length > 0 && (
+            <Button onClick={handleApply} disabled={selectedCount === 0 || updateDeadline.isPending}>
+              {updateDeadline.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply {selectedCount} change{selectedCount !== 1 ? 's' : ''}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CertificateExtractionDialog;
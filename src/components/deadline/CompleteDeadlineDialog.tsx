@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarIcon, Check, Loader2 } from 'lucide-react';
+import { useDeadlines } from '@/hooks/useDeadlines';
+import { Deadline } from '@/lib/deadline-utils';
+
+interface CompleteDeadlineDialogProps {
+  deadline: Deadline | null;
+  mode: 'completed' | 'waived';
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CompleteDeadlineDialog({ deadline, mode, onOpenChange }: CompleteDeadlineDialogProps) {
+  const { updateDeadlineState } = useDeadlines();
+  const [completedAt, setCompletedAt] = useState<Date>(new Date());
+  const [notes, setNotes] = useState('');
+
+  const isWaiving = mode === 'waived';
+
+  // Reset when opening for a new deadline
+  useEffect(() => {
+    if (deadline) {
+      setCompletedAt(new Date());
+      setNotes('');
+    }
+  }, [deadline]);
+
+  const handleSubmit = async () => {
+    if (!deadline) return;
+
+    try {
+      await updateDeadlineState.mutateAsync({
+        id: deadline.id,
+        state: mode,
+        completed_at: format(completedAt, 'yyyy-MM-dd'),
+        completion_notes: notes.trim() || undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <Dialog open={!!deadline} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isWaiving ? 'Waive this deadline?' : 'Mark as complete'}</DialogTitle>
+          <DialogDescription>
+            {deadline?.title}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{isWaiving ? 'Waived on' : 'Completed on'}</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start text-left font-normal"
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(completedAt, 'MMMM d, yyyy')}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={completedAt}
+                  onSelect={(date) => date && setCompletedAt(date)}
+                  disabled={(date) => date > new Date()}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              placeholder={isWaiving
+                ? 'Why is this no longer required?'
+                : 'e.g., Renewed online, confirmation #12345'}
+              rows={3}
+              maxLength={2000}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={updateDeadlineState.isPending}>
+            {updateDeadlineState.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Check className="h-4 w-4 mr-2" />
+            )}
+            {isWaiving ? 'Waive' : 'Complete'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CompleteDeadlineDialog;
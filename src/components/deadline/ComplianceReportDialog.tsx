@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileDown, Loader2 } from 'lucide-react';
+import { useDeadlines } from '@/hooks/useDeadlines';
+import { useComplianceReport } from '@/hooks/useComplianceReport';
+import { getTodayDate } from '@/lib/deadline-utils';
+
+interface ComplianceReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL_PROJECTS = 'all';
+
+export function ComplianceReportDialog({ open, onOpenChange }: ComplianceReportDialogProps) {
+  const { deadlines } = useDeadlines();
+  const { generateReport } = useComplianceReport();
+
+  const [asOf, setAsOf] = useState(getTodayDate());
+  const [project, setProject] = useState(ALL_PROJECTS);
+
+  const projects = [...new Set(deadlines.map((deadline) => deadline.project).filter((name): name is string => !!name))]
+    .sort((a, b) => a.localeCompare(b));
+
+  const handleGenerate = async () => {
+    try {
+      await generateReport.mutateAsync({
+        asOf: asOf || undefined,
+        project: project === ALL_PROJECTS ? undefined : project,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Compliance Report</DialogTitle>
+          <DialogDescription>
+            A PDF of every license, policy and contract on record, grouped by category with status,
+            issuing authority, reference numbers and renewal history. Ready to send to an auditor or surety.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-as-of">As of</Label>
+            <Input
+              id="report-as-of"
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Statuses are shown as they stood on this date.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Entity / Project</Label>
+            <Select value={project} onValueChange={setProject} disabled={projects.length === 0}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS}>All entities and projects</SelectItem>
+                {projects.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {projects.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Set an entity or project on your deadlines to report on one at a time.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={generateReport.isPending}>
+            {generateReport.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <FileDown className="mr-2 h-4 w-4" />}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ComplianceReportDialog;
@@ -1,4 +1,4 @@
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -26,6 +26,7 @@ import {
   Deadline,
   getDeadlineStatus,
   getDaysUntilDue,
+  getAdjustedDueDate,
   getStatusColor,
   getConsequenceColor,
   getCategoryLabel,
@@ -48,8 +49,8 @@ const categoryIcons: Record<DeadlineCategory, typeof FileText> = {
 };
 
 export function DeadlineCard({ deadline, onEdit, onDelete }: DeadlineCardProps) {
-  const status = getDeadlineStatus(deadline.due_date, deadline.consequence_level);
-  const daysUntil = getDaysUntilDue(deadline.due_date);
+  const status = getDeadlineStatus(deadline.due_date, deadline.consequence_level, deadline);
+  const daysUntil = getDaysUntilDue(deadline.due_date, deadline);
   const statusColor = getStatusColor(status);
   const consequenceColor = getConsequenceColor(deadline.consequence_level);
   const CategoryIcon = categoryIcons[deadline.category];
@@ -120,7 +121,7 @@ export function DeadlineCard({ deadline, onEdit, onDelete }: DeadlineCardProps)
 
               <div className="flex items-center gap-1.5 text-sm text-muted-foreground ml-auto">
                 <Calendar className="h-3.5 w-3.5" />
-                <span>{format(new Date(deadline.due_date), 'MMM d, yyyy')}</span>
+                <span>{format(parseISO(getAdjustedDueDate(deadline.due_date, deadline)), 'MMM d, yyyy')}</span>
               </div>
             </div>
           </div>
@@ -0,0 +1,394 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Archive,
+  Download,
+  Eye,
+  FileText,
+  History,
+  Loader2,
+  MoreHorizontal,
+  Paperclip,
+  ScanText,
+  ShieldCheck,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { UpgradeAlert } from '@/components/billing/UpgradePrompt';
+import { CertificateExtractionDialog } from '@/components/deadline/CertificateExtractionDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSubscription } from '@/hooks/useSubscription';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useDeadlineDocuments,
+  DeadlineDocument,
+  DeadlineDocumentVersion,
+  DocumentExtraction,
+  DocumentStatus,
+  DOCUMENT_ACCEPT,
+  DOCUMENT_STATUS_LABELS,
+  formatFileSize,
+  getDocumentUrl,
+  isExtractable,
+  isPreviewable,
+} from '@/hooks/useDeadlineDocuments';
+import { Deadline, isAssignedTo } from '@/lib/deadline-utils';
+
+interface DeadlineDocumentsDialogProps {
+  deadline: Deadline | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_BADGE_CLASSES: Record<DocumentStatus, string> = {
+  current: 'bg-green-500/20 text-green-500 border-green-500/30',
+  superseded: 'bg-muted text-muted-foreground',
+};
+
+export function DeadlineDocumentsDialog({ deadline, onOpenChange }: DeadlineDocumentsDialogProps) {
+  return (
+    <Dialog open={!!deadline} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Documents</DialogTitle>
+          <DialogDescription>{deadline?.title}</DialogDescription>
+        </DialogHeader>
+        {deadline && <DeadlineDocuments deadline={deadline} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function DeadlineDocuments({ deadline }: { deadline: Deadline }) {
+  const { user, profile } = useAuth();
+  const { limits } = useSubscription();
+  const { toast } = useToast();
+  const { documents, isLoading, error, uploadDocument, updateDocument, deleteDocument, extractDetails } =
+    useDeadlineDocuments(deadline.id);
+
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [versionTarget, setVersionTarget] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<{ version: DeadlineDocumentVersion; url: string } | null>(null);
+  const [deleting, setDeleting] = useState<DeadlineDocument | null>(null);
+  const [extraction, setExtraction] = useState<{ result: DocumentExtraction; fileName: string } | null>(null);
+
+  // Mirrors can_edit_deadline: the creator, an assignee or backup, or an organization admin
+  const canEdit = deadline.user_id === user?.id ||
+    (!!user && isAssignedTo(deadline, user.id)) ||
+    (!!deadline.organization_id && profile?.role === 'org_admin');
+  const canUpload = canEdit && limits.documents;
+
+  // Current documents first, then superseded, each oldest first
+  const sortedDocuments = [...documents].sort((a, b) =>
+    (a.status === b.status ? 0 : a.status === 'current' ? -1 : 1) || a.created_at.localeCompare(b.created_at)
+  );
+
+  const chooseFile = (documentId: string | null) => {
+    setVersionTarget(documentId);
+    fileInput.current?.click();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (fileInput.current) fileInput.current.value = '';
+    if (!file) return;
+
+    try {
+      const { version } = await uploadDocument.mutateAsync({ file, documentId: versionTarget ?? undefined });
+      // Offer the dates and numbers on a new certificate or license card right away
+      if (isExtractable(version.mime_type)) {
+        await readDetails(version);
+      }
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const readDetails = async (version: DeadlineDocumentVersion) => {
+    try {
+      const result = await extractDetails.mutateAsync(version);
+      setExtraction({ result, fileName: version.file_name });
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const openVersion = async (version: DeadlineDocumentVersion, download: boolean) => {
+    try {
+      const url = await getDocumentUrl(version, download);
+      if (download) {
+        window.location.assign(url);
+      } else {
+        setPreview({ version, url });
+      }
+    } catch (error) {
+      toast({
+        title: 'Could not open document',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  const handleDelete = async () => {
+    if (deleting) {
+      await deleteDocument.mutateAsync(deleting);
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={fileInput}
+        type="file"
+        accept={DOCUMENT_ACCEPT}
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {canEdit && !limits.documents && <UpgradeAlert feature="documents" />}
+
+      {canUpload && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Attach the license, declarations page or bond certificate, up to 25 MB. Dates and numbers are read from PDFs.
+          </p>
+          <Button size="sm" onClick={() => chooseFile(null)} disabled={uploadDocument.isPending}>
+            {uploadDocument.isPending && !versionTarget
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Paperclip className="h-4 w-4 mr-2" />}
+            Attach File
+          </Button>
+        </div>
+      )}
+
+      {extractDetails.isPending && (
+        <p className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Reading dates and numbers from the document...
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive py-4">
+          Could not load documents.
+        </p>
+      ) : documents.length === 0 ? (
+        <div className="text-center py-8">
+          <FileText className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No documents are attached to this deadline yet.
+          </p>
+        </div>
+      ) : (
+        <div className="max-h-[420px] overflow-y-auto space-y-2">
+          {sortedDocuments.map((document) => {
+            const latest = document.versions[0];
+            const isExpanded = expanded.has(document.id);
+
+            return (
+              <div
+                key={document.id}
+                className={cn('p-3 rounded-lg border', document.status === 'superseded' && 'opacity-75')}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{document.name}</span>
+                      <Badge variant="outline" className={STATUS_BADGE_CLASSES[document.status]}>
+                        {DOCUMENT_STATUS_LABELS[document.status]}
+                      </Badge>
+                    </div>
+                    {latest && (
+                      <p className="text-sm text-muted-foreground truncate">
+                        v{latest.version} · {latest.file_name} · {formatFileSize(latest.size_bytes)}
+                        {' · '}
+                        {format(new Date(latest.created_at), 'MMM d, yyyy')}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {latest && isPreviewable(latest.mime_type) && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openVersion(latest, false)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {latest && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openVersion(latest, true)}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => toggleExpanded(document.id)}>
+                          <History className="h-4 w-4 mr-2" />
+                          {isExpanded ? 'Hide' : 'Show'} version history
+                        </DropdownMenuItem>
+                        {canEdit && latest && isExtractable(latest.mime_type) && (
+                          <DropdownMenuItem onClick={() => readDetails(latest)} disabled={extractDetails.isPending}>
+                            <ScanText className="h-4 w-4 mr-2" />
+                            Read dates &amp; numbers
+                          </DropdownMenuItem>
+                        )}
+                        {canUpload && (
+                          <DropdownMenuItem onClick={() => chooseFile(document.id)}>
+                            <Upload className="h-4 w-4 mr-2" />
+                            Upload new version
+                          </DropdownMenuItem>
+                        )}
+                        {canEdit && (
+                          <>
+                            {document.status === 'current' ? (
+                              <DropdownMenuItem onClick={() => updateDocument.mutate({ id: document.id, status: 'superseded' })}>
+                                <Archive className="h-4 w-4 mr-2" />
+                                Mark superseded
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem onClick={() => updateDocument.mutate({ id: document.id, status: 'current' })}>
+                                <ShieldCheck className="h-4 w-4 mr-2" />
+                                Mark current
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => setDeleting(document)} className="text-destructive">
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 space-y-1 border-t pt-2">
+                    {document.versions.map((version, index) => (
+                      <div key={version.id} className="flex items-center justify-between gap-3 text-sm">
+                        <div className="min-w-0 flex items-center gap-2">
+                          <span className="font-mono text-xs">v{version.version}</span>
+                          <span className="truncate">{version.file_name}</span>
+                          {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0 text-muted-foreground">
+                          <span className="text-xs">
+                            {formatFileSize(version.size_bytes)} · {format(new Date(version.created_at), 'MMM d, yyyy')}
+                          </span>
+                          {isPreviewable(version.mime_type) && (
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openVersion(version, false)}>
+                              <Eye className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openVersion(version, true)}>
+                            <Download className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Preview */}
+      <Dialog open={!!preview} onOpenChange={() => setPreview(null)}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{preview?.version.file_name}</DialogTitle>
+            <DialogDescription>Version {preview?.version.version}</DialogDescription>
+          </DialogHeader>
+          {preview && (preview.version.mime_type === 'application/pdf' ? (
+            <iframe src={preview.url} title={preview.version.file_name} className="w-full h-[70vh] rounded border" />
+          ) : (
+            <img
+              src={preview.url}
+              alt={preview.version.file_name}
+              className="max-h-[70vh] mx-auto rounded border object-contain"
+            />
+          ))}
+        </DialogContent>
+      </Dialog>
+
+      <CertificateExtractionDialog
+        deadline={deadline}
+        extraction={extraction?.result ?? null}
+        fileName={extraction?.fileName}
+        onOpenChange={() => setExtraction(null)}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this document?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete "{deleting?.name}" and all {deleting?.versions.length} of its versions.
+              To keep an old certificate on file, mark it superseded instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default DeadlineDocumentsDialog;
@@ -38,7 +38,22 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { ConsequenceLevel, DeadlineCategory, RecurrencePattern } from '@/lib/deadline-utils';
+import {
+  ConsequenceLevel,
+  DeadlineCategory,
+  RecurrencePattern,
+  BusinessDayRoll,
+  DEFAULT_HOLIDAY_CALENDAR,
+  HOLIDAY_CALENDARS,
+  MAX_REMINDER_OFFSET_DAYS,
+  MAX_REMINDER_OFFSETS,
+  getReminderSchedule,
+  getTemplateReminderOffsets,
+  getUpcomingReminders,
+  isValidRRule,
+  normalizeReminderOffsets,
+} from '@/lib/deadline-utils';
+import { RecurrenceBuilder, DEFAULT_RECURRENCE_RULE } from './RecurrenceBuilder';
 
 // Form schema
 const quickAddSchema = z.object({
@@ -51,14 +66,24 @@ const detailedSchema = quickAddSchema.extend({
   description: z.string().max(2000).optional(),
   category: z.enum(['license', 'insurance', 'contract', 'personal', 'other']),
   subcategory: z.string().optional(),
-  recurrence: z.enum(['none', 'monthly', 'quarterly', 'semi_annual', 'annual', 'biennial', 'custom']),
+  recurrence: z.enum(['none', 'monthly', 'quarterly', 'semi_annual', 'annual', 'biennial', 'custom', 'rrule']),
   recurrence_interval_days: z.number().optional(),
+  recurrence_rule: z.string().max(500).optional(),
+  business_day_roll: z.enum(['none', 'next', 'previous']),
+  holiday_calendar: z.string(),
   auto_renew: z.boolean(),
   reference_number: z.string().optional(),
   issuing_authority: z.string().optional(),
+  project: z.string().max(120).optional(),
   estimated_cost: z.number().optional(),
   renewal_instructions: z.string().optional(),
-});
+  reminder_offsets: z
+    .array(z.number().int().min(1).max(MAX_REMINDER_OFFSET_DAYS))
+    .max(MAX_REMINDER_OFFSETS, `Use at most ${MAX_REMINDER_OFFSETS} reminders`),
+}).refine(
+  (data) => data.recurrence !== 'rrule' || (!!data.recurrence_rule && isValidRRule(data.recurrence_rule)),
+  { message: 'Enter a valid recurrence rule', path: ['recurrence_rule'] }
+);
 
 type QuickAddForm = z.infer<typeof quickAddSchema>;
 type DetailedForm = z.infer<typeof detailedSchema>;
@@ -91,6 +116,13 @@ const RECURRENCE_OPTIONS: { value: RecurrencePattern; label: string }[] = [
   { value: 'semi_annual', label: 'Every 6 months' },
   { value: 'annual', label: 'Every year' },
   { value: 'biennial', label: 'Every 2 years' },
+  { value: 'rrule', label: 'Custom schedule...' },
+];
+
+const BUSINESS_DAY_ROLL_OPTIONS: { value: BusinessDayRoll; label: string }[] = [
+  { value: 'none', label: 'Keep the date' },
+  { value: 'next', label: 'Next business day' },
+  { value: 'previous', label: 'Previous business day' },
 ];
 
 export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFormProps) {
@@ -98,6 +130,7 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
   const [selectedTemplate, setSelectedTemplate] = useState<DeadlineTemplate | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [savedDeadline, setSavedDeadline] = useState<any>(null);
+  const [changeReason, setChangeReason] = useState('');
 
   const { createDeadline, updateDeadline } = useDeadlines();
   const { templates, templatesByCategory } = useDeadlineTemplates();
@@ -122,7 +155,10 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
       consequence_level: 'medium',
       category: 'other',
       recurrence: 'none',
+      business_day_roll: 'none',
+      holiday_calendar: DEFAULT_HOLIDAY_CALENDAR,
       auto_renew: false,
+      reminder_offsets: [],
     },
   });
 
@@ -132,6 +168,7 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
       setMode('quick');
       setSelectedTemplate(null);
       setSavedDeadline(null);
+      setChangeReason('');
       quickForm.reset();
       detailedForm.reset();
 
@@ -145,16 +182,30 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
           category: editingDeadline.category,
           subcategory: editingDeadline.subcategory || '',
           recurrence: editingDeadline.recurrence || 'none',
+          recurrence_rule: editingDeadline.recurrence_rule || undefined,
+          business_day_roll: editingDeadline.business_day_roll || 'none',
+          holiday_calendar: editingDeadline.holiday_calendar || DEFAULT_HOLIDAY_CALENDAR,
           auto_renew: editingDeadline.auto_renew || false,
           reference_number: editingDeadline.reference_number || '',
           issuing_authority: editingDeadline.issuing_authority || '',
+          project: editingDeadline.project || '',
           estimated_cost: editingDeadline.estimated_cost || undefined,
           renewal_instructions: editingDeadline.renewal_instructions || '',
+          reminder_offsets: editingDeadline.reminder_offsets || [],
         });
       }
     }
   }, [open, editingDeadline]);
 
+  // Moving the due date or changing the stakes is worth explaining in the
+  // deadline's change history
+  const initialValues = detailedForm.formState.defaultValues;
+  const editedDueDate = detailedForm.watch('due_date');
+  const asksForChangeReason = isEditing && (
+    editedDueDate?.getTime() !== initialValues?.due_date?.getTime() ||
+    detailedForm.watch('consequence_level') !== initialValues?.consequence_level
+  );
+
   // Apply template to detailed form
   const applyTemplate = (template: DeadlineTemplate) => {
     setSelectedTemplate(template);
@@ -164,9 +215,15 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
       category: template.category,
       subcategory: template.subcategory || '',
       recurrence: template.typical_recurrence,
+      business_day_roll: 'none',
+      holiday_calendar: DEFAULT_HOLIDAY_CALENDAR,
       auto_renew: template.typical_recurrence !== 'none',
       issuing_authority: template.issuing_authority_template || '',
       renewal_instructions: template.renewal_instructions_template || '',
+      reminder_offsets: getTemplateReminderOffsets(
+        template.typical_lead_time_days,
+        template.default_consequence_level
+      ) || [],
     });
     setMode('detailed');
   };
@@ -204,15 +261,24 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
         description: data.description,
         recurrence: data.recurrence,
         recurrence_interval_days: data.recurrence_interval_days,
+        recurrence_rule: data.recurrence === 'rrule' ? data.recurrence_rule : null,
+        business_day_roll: data.business_day_roll,
+        holiday_calendar: data.holiday_calendar,
         auto_renew: data.auto_renew,
         reference_number: data.reference_number,
         issuing_authority: data.issuing_authority,
+        project: data.project?.trim() || null,
         estimated_cost: data.estimated_cost,
         renewal_instructions: data.renewal_instructions,
+        reminder_offsets: data.reminder_offsets.length > 0 ? data.reminder_offsets : null,
       };
 
       if (isEditing) {
-        await updateDeadline.mutateAsync({ id: editingDeadline.id, ...payload });
+        await updateDeadline.mutateAsync({
+          id: editingDeadline.id,
+          ...payload,
+          change_reason: (asksForChangeReason && changeReason.trim()) || null,
+        });
       } else {
         await createDeadline.mutateAsync(payload);
       }
@@ -231,21 +297,15 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
   );
 
   // Get reminder dates for success screen
-  const getReminderDates = (dueDate: Date, level: ConsequenceLevel) => {
-    const reminders: string[] = [];
-    const reminderDays = level === 'critical' ? [30, 14, 7, 3, 1] :
-                         level === 'high' ? [14, 7, 3, 1] :
-                         level === 'medium' ? [7, 3, 1] : [3, 1];
-    
-    reminderDays.forEach(days => {
-      const reminderDate = new Date(dueDate);
-      reminderDate.setDate(reminderDate.getDate() - days);
-      if (reminderDate > new Date()) {
-        reminders.push(`${days} day${days > 1 ? 's' : ''} before (${format(reminderDate, 'MMM d')})`);
-      }
-    });
-    
-    return reminders;
+  const getReminderDates = (
+    dueDate: Date,
+    level: ConsequenceLevel,
+    customOffsets?: number[],
+    adjustment?: { business_day_roll?: BusinessDayRoll; holiday_calendar?: string }
+  ) => {
+    return getUpcomingReminders(format(dueDate, 'yyyy-MM-dd'), level, customOffsets, adjustment).map(({ days, date }) =>
+      `${days} day${days > 1 ? 's' : ''} before (${format(date, 'MMM d')})`
+    );
   };
 
   const handleClose = () => {
@@ -583,6 +643,9 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
                     onValueChange={(v) => {
                       detailedForm.setValue('recurrence', v as RecurrencePattern);
                       detailedForm.setValue('auto_renew', v !== 'none');
+                      if (v === 'rrule' && !detailedForm.getValues('recurrence_rule')) {
+                        detailedForm.setValue('recurrence_rule', DEFAULT_RECURRENCE_RULE);
+                      }
                     }}
                   >
                     <SelectTrigger>
@@ -599,6 +662,19 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
                 </div>
               </div>
 
+              {detailedForm.watch('recurrence') === 'rrule' && (
+                <div className="space-y-2">
+                  <RecurrenceBuilder
+                    value={detailedForm.watch('recurrence_rule') || DEFAULT_RECURRENCE_RULE}
+                    startDate={detailedForm.watch('due_date')}
+                    onChange={(rule) => detailedForm.setValue('recurrence_rule', rule, { shouldValidate: true })}
+                  />
+                  {detailedForm.formState.errors.recurrence_rule && (
+                    <p className="text-sm text-destructive">{detailedForm.formState.errors.recurrence_rule.message}</p>
+                  )}
+                </div>
+              )}
+
               {/* Consequence Level */}
               <div className="space-y-2">
                 <Label>How bad if you miss it?</Label>
@@ -625,6 +701,24 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
                 </div>
               </div>
 
+              {/* Reason for change */}
+              {asksForChangeReason && (
+                <div className="space-y-2">
+                  <Label htmlFor="change-reason">Why the change? (optional)</Label>
+                  <Textarea
+                    id="change-reason"
+                    placeholder="e.g., Agency extended the filing window"
+                    rows={2}
+                    maxLength={500}
+                    value={changeReason}
+                    onChange={(e) => setChangeReason(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Saved in the deadline's change history.
+                  </p>
+                </div>
+              )}
+
               {/* Optional Details Section */}
               <div className="space-y-4 pt-4 border-t">
                 <p className="text-sm font-medium text-muted-foreground">Optional Details</p>
@@ -646,6 +740,15 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label className="text-sm">Entity / Project</Label>
+                  <Input
+                    placeholder="e.g., Acme Builders LLC or Main St. Tower"
+                    maxLength={120}
+                    {...detailedForm.register('project')}
+                  />
+                </div>
+
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label className="text-sm">Estimated Cost</Label>
@@ -674,6 +777,52 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-sm">Due on a weekend or holiday?</Label>
+                    <Select
+                      value={detailedForm.watch('business_day_roll')}
+                      onValueChange={(v) => detailedForm.setValue('business_day_roll', v as BusinessDayRoll)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BUSINESS_DAY_ROLL_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Holiday calendar</Label>
+                    <Select
+                      value={detailedForm.watch('holiday_calendar')}
+                      onValueChange={(v) => detailedForm.setValue('holiday_calendar', v)}
+                      disabled={detailedForm.watch('business_day_roll') === 'none'}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(HOLIDAY_CALENDARS).map(([code, calendar]) => (
+                          <SelectItem key={code} value={code}>
+                            {code === DEFAULT_HOLIDAY_CALENDAR ? calendar.label : `${calendar.label} + Federal`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <ReminderOffsetsField
+                  value={detailedForm.watch('reminder_offsets')}
+                  level={detailedForm.watch('consequence_level')}
+                  onChange={(offsets) => detailedForm.setValue('reminder_offsets', offsets)}
+                />
+
                 <div className="space-y-2">
                   <Label className="text-sm">Notes or renewal instructions</Label>
                   <Textarea
@@ -715,7 +864,7 @@ export function DeadlineForm({ open, onOpenChange, editingDeadline }: DeadlineFo
             <div className="bg-muted/50 rounded-lg p-4 mb-6 text-left">
               <p className="text-sm text-muted-foreground mb-2">I'll remind you:</p>
               <ul className="space-y-1">
-                {getReminderDates(savedDeadline.due_date, savedDeadline.consequence_level).map((reminder, idx) => (
+                {getReminderDates(savedDeadline.due_date, savedDeadline.consequence_level, savedDeadline.reminder_offsets, savedDeadline).map((reminder, idx) => (
                   <li key={idx} className="text-sm flex items-center gap-2">
                     <Clock className="h-3 w-3 text-primary" />
                     {reminder}
@@ -774,4 +923,89 @@ function TemplateCard({ template, onClick }: { template: DeadlineTemplate; onCli
   );
 }
 
+// Reminder Offsets Field Component
+interface ReminderOffsetsFieldProps {
+  value: number[];
+  level: ConsequenceLevel;
+  onChange: (offsets: number[]) => void;
+}
+
+function ReminderOffsetsField({ value, level, onChange }: ReminderOffsetsFieldProps) {
+  const [newOffset, setNewOffset] = useState('');
+  const isCustom = value.length > 0;
+  const schedule = getReminderSchedule(level, value);
+  const isFull = schedule.length >= MAX_REMINDER_OFFSETS;
+
+  const handleAdd = () => {
+    const days = parseInt(newOffset, 10);
+    if (isFull || !days || days < 1 || days > MAX_REMINDER_OFFSET_DAYS) return;
+    onChange(normalizeReminderOffsets([...schedule, days]));
+    setNewOffset('');
+  };
+
+  const handleRemove = (days: number) => {
+    const remaining = schedule.filter((d) => d !== days);
+    // Removing the last offset falls back to the default schedule
+    onChange(remaining);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">Remind me (days before)</Label>
+        {isCustom && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Reset to default
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {schedule.map((days) => (
+          <Badge key={days} variant={isCustom ? 'secondary' : 'outline'} className="gap-1">
+            {days}d
+            <button
+              type="button"
+              onClick={() => handleRemove(days)}
+              className="hover:text-destructive"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={1}
+          max={MAX_REMINDER_OFFSET_DAYS}
+          placeholder="e.g., 120"
+          value={newOffset}
+          disabled={isFull}
+          onChange={(e) => setNewOffset(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" onClick={handleAdd} disabled={isFull}>
+          Add
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {isFull
+          ? `Up to ${MAX_REMINDER_OFFSETS} reminders per deadline`
+          : isCustom
+            ? 'Custom schedule for this deadline'
+            : 'Default schedule for this consequence level'}
+      </p>
+    </div>
+  );
+}
+
 export default DeadlineForm;
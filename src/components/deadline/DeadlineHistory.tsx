@@ -0,0 +1,233 @@
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileClock, Loader2, RotateCcw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTeam } from '@/hooks/useTeam';
+import { useDeadlineVersions, DeadlineVersion } from '@/hooks/useDeadlineVersions';
+import {
+  ConsequenceLevel,
+  Deadline,
+  DeadlineCategory,
+  DeadlineState,
+  formatCurrency,
+  getCategoryLabel,
+  getConsequenceLabel,
+  getStateLabel,
+} from '@/lib/deadline-utils';
+
+interface DeadlineHistoryDialogProps {
+  deadline: Deadline | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  subcategory: 'Subcategory',
+  due_date: 'Due date',
+  consequence_level: 'Consequence',
+  state: 'Status',
+  reminder_offsets: 'Reminders',
+  recurrence: 'Recurrence',
+  recurrence_interval_days: 'Repeat every (days)',
+  recurrence_rule: 'Recurrence rule',
+  auto_renew: 'Auto-renew',
+  business_day_roll: 'Weekend & holiday roll',
+  holiday_calendar: 'Holiday calendar',
+  renewal_instructions: 'Renewal instructions',
+  estimated_cost: 'Estimated cost',
+  reference_number: 'Reference number',
+  issuing_authority: 'Issuing authority',
+  project: 'Entity / project',
+  completed_at: 'Completed',
+  completed_by: 'Completed by',
+  completion_notes: 'Completion notes',
+  organization_id: 'Organization',
+  user_id: 'Creator',
+  assignee_id: 'Assignee',
+  backup_assignee_ids: 'Backups',
+};
+
+const PERSON_FIELDS = ['user_id', 'assignee_id', 'completed_by'];
+
+export function DeadlineHistoryDialog({ deadline, onOpenChange }: DeadlineHistoryDialogProps) {
+  return (
+    <Dialog open={!!deadline} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change history</DialogTitle>
+          <DialogDescription>{deadline?.title}</DialogDescription>
+        </DialogHeader>
+        {deadline && <DeadlineHistory deadlineId={deadline.id} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function DeadlineHistory({ deadlineId }: { deadlineId: string }) {
+  const { user } = useAuth();
+  const { teamMembers } = useTeam();
+  const { versions, isLoading, error, restoreVersion } = useDeadlineVersions(deadlineId);
+
+  const getPersonName = (id: string | null) => {
+    if (!id) return 'System';
+    if (id === user?.id) return 'You';
+    return teamMembers.find((member) => member.id === id)?.name ?? 'A former member';
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (PERSON_FIELDS.includes(field)) return getPersonName(value as string);
+
+    switch (field) {
+      case 'due_date':
+        return format(parseISO(value as string), 'MMM d, yyyy');
+      case 'completed_at':
+        return format(new Date(value as string), 'MMM d, yyyy h:mm a');
+      case 'consequence_level':
+        return getConsequenceLabel(value as ConsequenceLevel);
+      case 'category':
+        return getCategoryLabel(value as DeadlineCategory);
+      case 'state':
+        return getStateLabel(value as DeadlineState);
+      case 'estimated_cost':
+        return formatCurrency(value as number);
+      case 'reminder_offsets':
+        return `${(value as number[]).join(', ')} days before`;
+      case 'backup_assignee_ids':
+        return (value as string[]).length > 0 ? (value as string[]).map(getPersonName).join(', ') : '—';
+    }
+
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-16 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive py-4">
+        Could not load change history.
+      </p>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <FileClock className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">
+          No changes have been recorded for this deadline yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-[500px] overflow-y-auto space-y-2">
+      {versions.map((version, index) => (
+        <VersionRow
+          key={version.id}
+          version={version}
+          // Versions are newest first
+          previous={versions[index + 1]}
+          isCurrent={index === 0}
+          authorName={getPersonName(version.changed_by)}
+          formatValue={formatValue}
+          isRestoring={restoreVersion.isPending && restoreVersion.variables?.id === version.id}
+          restoreDisabled={restoreVersion.isPending}
+          onRestore={() => restoreVersion.mutate(version)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface VersionRowProps {
+  version: DeadlineVersion;
+  previous?: DeadlineVersion;
+  isCurrent: boolean;
+  authorName: string;
+  formatValue: (field: string, value: unknown) => string;
+  isRestoring: boolean;
+  restoreDisabled: boolean;
+  onRestore: () => void;
+}
+
+function VersionRow({
+  version,
+  previous,
+  isCurrent,
+  authorName,
+  formatValue,
+  isRestoring,
+  restoreDisabled,
+  onRestore,
+}: VersionRowProps) {
+  // The first version, or one whose predecessor is gone, has nothing to compare against
+  const fields = previous ? version.changed_fields : [];
+
+  return (
+    <div className="p-3 rounded-lg border space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">
+            Version {version.version}
+            {isCurrent && <Badge variant="secondary" className="ml-2">Current</Badge>}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {version.version === 1 ? 'Recorded' : 'Changed'} by {authorName} · {format(new Date(version.created_at), 'MMM d, yyyy h:mm a')}
+          </p>
+        </div>
+        {!isCurrent && (
+          <Button size="sm" variant="outline" onClick={onRestore} disabled={restoreDisabled}>
+            {isRestoring ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Restore
+          </Button>
+        )}
+      </div>
+
+      {version.change_reason && (
+        <p className="text-sm italic text-muted-foreground">"{version.change_reason}"</p>
+      )}
+
+      {fields.length > 0 && (
+        <div className="space-y-1 text-xs">
+          {fields.map((field) => (
+            <div key={field} className="grid grid-cols-[8rem_1fr] gap-2">
+              <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}</span>
+              <span className="break-words">
+                <span className="text-red-600 line-through mr-2">{formatValue(field, previous?.data[field])}</span>
+                <span className="text-green-600">{formatValue(field, version.data[field])}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DeadlineHistoryDialog;
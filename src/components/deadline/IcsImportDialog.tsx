@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, CalendarPlus, Loader2 } from 'lucide-react';
+import { useDeadlines } from '@/hooks/useDeadlines';
+import { useSubscription } from '@/hooks/useSubscription';
+import { parseIcsEvents, IcsImportEvent } from '@/lib/ics-import';
+import {
+  ConsequenceLevel,
+  DeadlineCategory,
+  getCategoryLabel,
+  getConsequenceLabel,
+  getRecurrenceDescription,
+} from '@/lib/deadline-utils';
+
+interface IcsImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ImportStep = 'upload' | 'select' | 'review';
+
+interface ReviewRow {
+  category: DeadlineCategory;
+  consequence_level: ConsequenceLevel;
+}
+
+const CATEGORIES: DeadlineCategory[] = ['license', 'insurance', 'contract', 'personal', 'other'];
+const CONSEQUENCE_LEVELS: ConsequenceLevel[] = ['low', 'medium', 'high', 'critical'];
+
+function describeRecurrence(event: IcsImportEvent): string {
+  if (event.recurrence === 'custom' && event.recurrence_interval_days) {
+    return `Every ${event.recurrence_interval_days} days`;
+  }
+  return getRecurrenceDescription(event);
+}
+
+export function IcsImportDialog({ open, onOpenChange }: IcsImportDialogProps) {
+  const { deadlines, importDeadlines } = useDeadlines();
+  const { limits } = useSubscription();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [events, setEvents] = useState<IcsImportEvent[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [review, setReview] = useState<Record<string, ReviewRow>>({});
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const remaining = limits.deadlines === -1 ? Infinity : Math.max(0, limits.deadlines - deadlines.length);
+  const selectedEvents = events.filter((event) => selected.has(event.uid));
+  const overLimit = selectedEvents.length > remaining;
+
+  const reset = () => {
+    setStep('upload');
+    setEvents([]);
+    setSelected(new Set());
+    setReview({});
+    setParseError(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setParseError(null);
+
+    try {
+      const parsed = parseIcsEvents(await file.text());
+      if (parsed.length === 0) {
+        setParseError('No events were found in this file.');
+        return;
+      }
+      setEvents(parsed);
+      // Past one-time events are usually history rather than upcoming deadlines
+      setSelected(new Set(parsed.filter((event) => !event.isPast).map((event) => event.uid)));
+      setStep('select');
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'This file could not be read.');
+    }
+  };
+
+  const toggleEvent = (uid: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(uid);
+    else next.delete(uid);
+    setSelected(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(events.map((event) => event.uid)) : new Set());
+  };
+
+  const goToReview = () => {
+    setReview(Object.fromEntries(selectedEvents.map((event) => [
+      event.uid,
+      review[event.uid] ?? { category: event.category, consequence_level: 'medium' as ConsequenceLevel },
+    ])));
+    setStep('review');
+  };
+
+  const updateRow = (uid: string, changes: Partial<ReviewRow>) => {
+    setReview({ ...review, [uid]: { ...review[uid], ...changes } });
+  };
+
+  const setAllConsequences = (level: ConsequenceLevel) => {
+    setReview(Object.fromEntries(
+      Object.entries(review).map(([uid, row]) => [uid, { ...row, consequence_level: level }])
+    ));
+  };
+
+  const handleImport = async () => {
+    try {
+      const inputs = selectedEvents.map((event) => ({
+        title: event.title,
+        description: event.description ?? undefined,
+        category: review[event.uid].category,
+        consequence_level: review[event.uid].consequence_level,
+        due_date: event.due_date,
+        recurrence: event.recurrence,
+        recurrence_interval_days: event.recurrence_interval_days,
+        recurrence_rule: event.recurrence_rule ?? null,
+        auto_renew: event.recurrence !== 'none',
+      }));
+      await importDeadlines.mutateAsync({ inputs });
+      handleOpenChange(false);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from Calendar</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload an .ics file exported from Outlook, Google Calendar or Apple Calendar.'}
+            {step === 'select' && 'Choose the events that should become deadlines.'}
+            {step === 'review' && 'Check the category and set how serious missing each deadline would be.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4 py-4">
+            <div className="flex flex-col items-center gap-3 rounded-lg border border-dashed p-8 text-center">
+              <CalendarPlus className="h-10 w-10 text-muted-foreground/50" />
+              <Label htmlFor="ics-file" className="text-sm text-muted-foreground">
+                Recurring events keep their schedule and start from their next occurrence
+              </Label>
+              <Input
+                id="ics-file"
+                type="file"
+                accept=".ics,text/calendar"
+                className="max-w-xs"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            {parseError && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{parseError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === 'select' && (
+          <div className="space-y-3 py-2">
+            <div className="flex items-center justify-between text-sm">
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={selected.size === events.length}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                />
+                Select all
+              </label>
+              <span className="text-muted-foreground">
+                {selected.size} of {events.length} selected
+              </span>
+            </div>
+            <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+              {events.map((event) => (
+                <label
+                  key={event.uid}
+                  className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50"
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selected.has(event.uid)}
+                    onCheckedChange={(checked) => toggleEvent(event.uid, checked === true)}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{event.title}</span>
+                      {event.isPast && <Badge variant="outline">Past</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(event.due_date), 'MMM d, yyyy')}
+                      {' · '}
+                      {describeRecurrence(event)}
+                      {' · '}
+                      {getCategoryLabel(event.category)}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+            {overLimit && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Your plan has room for {remaining} more deadline{remaining !== 1 ? 's' : ''}. Select fewer events or upgrade.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-3 py-2">
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <span className="text-muted-foreground">Set all to</span>
+              <Select onValueChange={(v) => setAllConsequences(v as ConsequenceLevel)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="Consequence" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONSEQUENCE_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>{getConsequenceLabel(level)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+              {selectedEvents.map((event) => (
+                <div key={event.uid} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{event.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(event.due_date), 'MMM d, yyyy')} · {describeRecurrence(event)}
+                    </p>
+                  </div>
+                  <Select
+                    value={review[event.uid]?.category}
+                    onValueChange={(v) => updateRow(event.uid, { category: v as DeadlineCategory })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>{getCategoryLabel(category)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={review[event.uid]?.consequence_level}
+                    onValueChange={(v) => updateRow(event.uid, { consequence_level: v as ConsequenceLevel })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONSEQUENCE_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>{getConsequenceLabel(level)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === 'select' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={goToReview} disabled={selected.size === 0 || overLimit}>
+                Review {selected.size} Event{selected.size !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('select')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importDeadlines.isPending}>
+                {importDeadlines.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {selectedEvents.length} Deadline{selectedEvents.length !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default IcsImportDialog;
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDeadlines } from '@/hooks/useDeadlines';
+import { useTeam } from '@/hooks/useTeam';
+import { Deadline, MAX_BACKUP_ASSIGNEES, getAssigneeId } from '@/lib/deadline-utils';
+
+interface ReassignDeadlineDialogProps {
+  deadline: Deadline | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReassignDeadlineDialog({ deadline, onOpenChange }: ReassignDeadlineDialogProps) {
+  const { user, profile } = useAuth();
+  const { organization, teamMembers } = useTeam();
+  const { reassignDeadline } = useDeadlines();
+
+  const [assigneeId, setAssigneeId] = useState('');
+  const [backupIds, setBackupIds] = useState<string[]>([]);
+
+  // Reset when opening for a new deadline
+  useEffect(() => {
+    if (deadline) {
+      setAssigneeId(getAssigneeId(deadline));
+      setBackupIds(deadline.backup_assignee_ids ?? []);
+    }
+  }, [deadline]);
+
+  const backupCandidates = teamMembers.filter((member) => member.id !== assigneeId);
+  const selectedBackups = backupIds.filter((id) => id !== assigneeId);
+  // A personal deadline joins the organization once someone else is involved
+  const sharesWithOrganization = !!deadline && !deadline.organization_id &&
+    (assigneeId !== deadline.user_id || selectedBackups.length > 0);
+
+  const toggleBackup = (id: string, checked: boolean) => {
+    setBackupIds(checked ? [...backupIds, id] : backupIds.filter((backupId) => backupId !== id));
+  };
+
+  const handleSave = async () => {
+    if (!deadline || !assigneeId) return;
+
+    try {
+      await reassignDeadline.mutateAsync({
+        id: deadline.id,
+        assignee_id: assigneeId,
+        backup_assignee_ids: selectedBackups,
+        organization_id: sharesWithOrganization ? profile?.organization_id ?? undefined : undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <Dialog open={!!deadline} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reassign Deadline</DialogTitle>
+          <DialogDescription>{deadline?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Assigned to</Label>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a team member" />
+              </SelectTrigger>
+              <SelectContent>
+                {teamMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name}{member.id === user?.id ? ' (you)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Reminders and escalations go to the assignee.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Backups</Label>
+            {backupCandidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Invite teammates to add backups who can cover this deadline.
+              </p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-2">
+                {backupCandidates.map((member) => {
+                  const checked = selectedBackups.includes(member.id);
+                  return (
+                    <label key={member.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={checked}
+                        disabled={!checked && selectedBackups.length >= MAX_BACKUP_ASSIGNEES}
+                        onCheckedChange={(value) => toggleBackup(member.id, value === true)}
+                      />
+                      {member.name}{member.id === user?.id ? ' (you)' : ''}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Backups get escalations and can update the deadline. Up to {MAX_BACKUP_ASSIGNEES}.
+            </p>
+          </div>
+
+          {sharesWithOrganization && (
+            <Alert>
+              <Users className="h-4 w-4" />
+              <AlertDescription>
+                This deadline will be shared with {organization?.name ?? 'your organization'} so your team can see it.
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!assigneeId || reassignDeadline.isPending}>
+            {reassignDeadline.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ReassignDeadlineDialog;
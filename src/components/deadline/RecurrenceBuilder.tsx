@@ -0,0 +1,434 @@
+import { useState, useEffect, useMemo } from 'react';
+import { addYears, format, parseISO } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  RRule,
+  RRuleFrequency,
+  BUSINESS_DAYS,
+  describeRRule,
+  expandRRule,
+  formatRRule,
+  parseRRule,
+} from '@/lib/deadline-utils';
+
+interface RecurrenceBuilderProps {
+  value: string;
+  startDate?: Date;
+  onChange: (rule: string) => void;
+}
+
+type DayMode = 'same_day' | 'month_day' | 'last_day' | 'nth_weekday' | 'business_day' | 'advanced';
+type EndMode = 'never' | 'until' | 'count';
+
+export const DEFAULT_RECURRENCE_RULE = 'FREQ=YEARLY';
+
+const PREVIEW_COUNT = 5;
+
+const FREQUENCY_OPTIONS: { value: RRuleFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'day(s)' },
+  { value: 'WEEKLY', label: 'week(s)' },
+  { value: 'MONTHLY', label: 'month(s)' },
+  { value: 'YEARLY', label: 'year(s)' },
+];
+
+const MONTH_OPTIONS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const WEEKDAY_OPTIONS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const ORDINAL_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+function getDayMode(rule: RRule): DayMode {
+  const { byDay, byMonthDay, bySetPos } = rule;
+  if (!byDay && !byMonthDay && !bySetPos) return 'same_day';
+  if (byDay?.length === 5 && bySetPos?.length === 1 && !byMonthDay && byDay.every((d, i) => d.weekday === i && !d.ordinal)) {
+    return 'business_day';
+  }
+  if (byDay?.length === 1 && byDay[0].ordinal && !byMonthDay && !bySetPos) return 'nth_weekday';
+  if (byMonthDay?.length === 1 && !byDay && !bySetPos) {
+    return byMonthDay[0] === -1 ? 'last_day' : 'month_day';
+  }
+  return 'advanced';
+}
+
+// Monday-based weekday index, matching RRuleWeekday
+function getWeekdayIndex(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+export function RecurrenceBuilder({ value, startDate, onChange }: RecurrenceBuilderProps) {
+  const [draft, setDraft] = useState(value);
+
+  // Keep the raw rule field in sync with the structured controls
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const rule = useMemo<RRule | null>(() => {
+    try {
+      return parseRRule(value);
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  const draftError = useMemo(() => {
+    try {
+      parseRRule(draft);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid rule';
+    }
+  }, [draft]);
+
+  const anchor = startDate ?? new Date();
+  const anchorDate = format(anchor, 'yyyy-MM-dd');
+  const preview = useMemo(
+    () => (rule ? expandRRule(rule, anchorDate, { limit: PREVIEW_COUNT }) : []),
+    [rule, anchorDate]
+  );
+
+  const current = rule ?? parseRRule(DEFAULT_RECURRENCE_RULE);
+  const dayMode = getDayMode(current);
+  const endMode: EndMode = current.until ? 'until' : current.count ? 'count' : 'never';
+  const hasMonths = current.freq === 'MONTHLY' || current.freq === 'YEARLY';
+
+  const update = (changes: Partial<RRule>) => {
+    onChange(formatRRule({ ...current, ...changes }));
+  };
+
+  const handleFrequencyChange = (freq: RRuleFrequency) => {
+    const keepsMonths = freq === 'MONTHLY' || freq === 'YEARLY';
+    update({
+      freq,
+      byMonth: keepsMonths ? current.byMonth : undefined,
+      byMonthDay: undefined,
+      byDay: undefined,
+      bySetPos: undefined,
+    });
+  };
+
+  const handleDayModeChange = (mode: DayMode) => {
+    const cleared = { byMonthDay: undefined, byDay: undefined, bySetPos: undefined };
+    switch (mode) {
+      case 'same_day':
+        update(cleared);
+        break;
+      case 'month_day':
+        update({ ...cleared, byMonthDay: [anchor.getDate()] });
+        break;
+      case 'last_day':
+        update({ ...cleared, byMonthDay: [-1] });
+        break;
+      case 'nth_weekday':
+        update({ ...cleared, byDay: [{ weekday: getWeekdayIndex(anchor), ordinal: 1 }] });
+        break;
+      case 'business_day':
+        update({ ...cleared, byDay: BUSINESS_DAYS, bySetPos: [-1] });
+        break;
+    }
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    switch (mode) {
+      case 'never':
+        update({ until: undefined, count: undefined });
+        break;
+      case 'until':
+        update({ count: undefined, until: format(addYears(anchor, 5), 'yyyy-MM-dd') });
+        break;
+      case 'count':
+        update({ until: undefined, count: 10 });
+        break;
+    }
+  };
+
+  const toggleMonth = (month: number) => {
+    const months = current.byMonth ?? [];
+    const next = months.includes(month)
+      ? months.filter((m) => m !== month)
+      : [...months, month].sort((a, b) => a - b);
+    update({ byMonth: next.length > 0 ? next : undefined });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const days = current.byDay ?? [];
+    const next = days.some((d) => d.weekday === weekday)
+      ? days.filter((d) => d.weekday !== weekday)
+      : [...days, { weekday }].sort((a, b) => a.weekday - b.weekday);
+    update({ byDay: next.length > 0 ? next : undefined });
+  };
+
+  const applyDraft = () => {
+    if (!draftError && draft !== value) {
+      onChange(formatRRule(parseRRule(draft)));
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-3 rounded-lg border bg-muted/30">
+      {/* Frequency */}
+      <div className="flex items-center gap-2">
+        <Label className="text-sm shrink-0">Every</Label>
+        <Input
+          type="number"
+          min={1}
+          className="w-20"
+          value={current.interval}
+          onChange={(e) => {
+            const interval = parseInt(e.target.value, 10);
+            if (interval >= 1) update({ interval });
+          }}
+        />
+        <Select value={current.freq} onValueChange={(v) => handleFrequencyChange(v as RRuleFrequency)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FREQUENCY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Months */}
+      {hasMonths && (
+        <div className="space-y-2">
+          <Label className="text-sm">
+            In {current.freq === 'MONTHLY' ? 'these months only' : 'these months'}
+            <span className="text-muted-foreground font-normal"> (optional)</span>
+          </Label>
+          <div className="grid grid-cols-6 gap-1">
+            {MONTH_OPTIONS.map((label, index) => {
+              const isSelected = current.byMonth?.includes(index + 1);
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleMonth(index + 1)}
+                  className={cn(
+                    "text-xs py-1.5 rounded border transition-all",
+                    isSelected
+                      ? "border-primary bg-primary/5 text-primary"
+                      : "border-border hover:border-primary/50"
+                  )}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Weekdays for weekly rules */}
+      {current.freq === 'WEEKLY' && (
+        <div className="space-y-2">
+          <Label className="text-sm">On</Label>
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAY_OPTIONS.map((label, index) => {
+              const isSelected = current.byDay?.some((d) => d.weekday === index);
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(index)}
+                  className={cn(
+                    "text-xs py-1.5 rounded border transition-all",
+                    isSelected
+                      ? "border-primary bg-primary/5 text-primary"
+                      : "border-border hover:border-primary/50"
+                  )}
+                >
+                  {label.slice(0, 3)}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Day within the month */}
+      {hasMonths && (
+        <div className="space-y-2">
+          <Label className="text-sm">On</Label>
+          <Select value={dayMode} onValueChange={(v) => handleDayModeChange(v as DayMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="same_day">Same day as the due date</SelectItem>
+              <SelectItem value="month_day">A specific day of the month</SelectItem>
+              <SelectItem value="last_day">The last day of the month</SelectItem>
+              <SelectItem value="nth_weekday">A weekday (e.g., 2nd Tuesday)</SelectItem>
+              <SelectItem value="business_day">The first or last business day</SelectItem>
+              {dayMode === 'advanced' && (
+                <SelectItem value="advanced" disabled>Custom (edit the rule below)</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+
+          {dayMode === 'month_day' && (
+            <Input
+              type="number"
+              min={1}
+              max={31}
+              value={current.byMonthDay?.[0] ?? ''}
+              onChange={(e) => {
+                const day = parseInt(e.target.value, 10);
+                if (day >= 1 && day <= 31) update({ byMonthDay: [day] });
+              }}
+            />
+          )}
+
+          {dayMode === 'nth_weekday' && current.byDay && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={String(current.byDay[0].ordinal)}
+                onValueChange={(v) => update({ byDay: [{ weekday: current.byDay![0].weekday, ordinal: Number(v) }] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDINAL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(current.byDay[0].weekday)}
+                onValueChange={(v) => update({ byDay: [{ weekday: Number(v), ordinal: current.byDay![0].ordinal }] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_OPTIONS.map((label, index) => (
+                    <SelectItem key={label} value={String(index)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {dayMode === 'business_day' && current.bySetPos && (
+            <Select
+              value={String(current.bySetPos[0])}
+              onValueChange={(v) => update({ bySetPos: [Number(v)] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">First business day</SelectItem>
+                <SelectItem value="-1">Last business day</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      {/* End condition */}
+      <div className="space-y-2">
+        <Label className="text-sm">Ends</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={endMode} onValueChange={(v) => handleEndModeChange(v as EndMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="until">On a date</SelectItem>
+              <SelectItem value="count">After a number of times</SelectItem>
+            </SelectContent>
+          </Select>
+          {endMode === 'until' && (
+            <Input
+              type="date"
+              value={current.until ?? ''}
+              onChange={(e) => e.target.value && update({ until: e.target.value })}
+            />
+          )}
+          {endMode === 'count' && (
+            <Input
+              type="number"
+              min={1}
+              value={current.count ?? ''}
+              onChange={(e) => {
+                const count = parseInt(e.target.value, 10);
+                if (count >= 1) update({ count });
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Raw rule */}
+      <div className="space-y-2">
+        <Label className="text-sm">
+          Rule <span className="text-muted-foreground font-normal">(RFC 5545 RRULE)</span>
+        </Label>
+        <Input
+          className="font-mono text-xs"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={applyDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              applyDraft();
+            }
+          }}
+        />
+        {draftError && (
+          <p className="text-xs text-destructive">{draftError}</p>
+        )}
+      </div>
+
+      {/* Preview */}
+      {rule && (
+        <div className="space-y-2 pt-2 border-t">
+          <p className="text-sm font-medium">{describeRRule(rule)}</p>
+          {preview.length > 0 ? (
+            <ul className="space-y-1">
+              {preview.map((date) => (
+                <li key={date} className="text-xs text-muted-foreground flex items-center gap-2">
+                  <CalendarIcon className="h-3 w-3" />
+                  {format(parseISO(date), 'EEE, MMM d, yyyy')}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              No upcoming dates. Check when the rule ends.
+            </p>
+          )}
+          {!startDate && (
+            <p className="text-xs text-muted-foreground">
+              Pick a due date to anchor the first occurrence.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RecurrenceBuilder;
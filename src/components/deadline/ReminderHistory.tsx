@@ -0,0 +1,135 @@
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Mail, History, AlertTriangle, Smartphone, MessageSquare } from 'lucide-react';
+import {
+  useReminderDeliveries,
+  ReminderDelivery,
+  ReminderDeliveryStatus,
+  DELIVERY_STATUS_LABELS,
+  CHANNEL_LABELS,
+} from '@/hooks/useReminderDeliveries';
+import { Deadline, formatEscalationTiming } from '@/lib/deadline-utils';
+
+interface ReminderHistoryDialogProps {
+  deadline: Deadline | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_BADGE_CLASSES: Record<ReminderDeliveryStatus, string> = {
+  pending: 'bg-blue-500/20 text-blue-500 border-blue-500/30',
+  sent: 'bg-green-500/20 text-green-500 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-500 border-red-500/30',
+};
+
+export function ReminderHistoryDialog({ deadline, onOpenChange }: ReminderHistoryDialogProps) {
+  return (
+    <Dialog open={!!deadline} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reminder history</DialogTitle>
+          <DialogDescription>{deadline?.title}</DialogDescription>
+        </DialogHeader>
+        {deadline && <ReminderHistory deadlineId={deadline.id} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ReminderHistory({ deadlineId }: { deadlineId: string }) {
+  const { deliveries, isLoading, error } = useReminderDeliveries(deadlineId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-14 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive py-4">
+        Could not load reminder history.
+      </p>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">
+          No reminders have been sent for this deadline yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-[400px] overflow-y-auto space-y-2">
+      {deliveries.map((delivery) => (
+        <DeliveryRow key={delivery.id} delivery={delivery} />
+      ))}
+    </div>
+  );
+}
+
+function ChannelIcon({ channel }: { channel: ReminderDelivery['channel'] }) {
+  switch (channel) {
+    case 'sms':
+      return <Smartphone className="h-4 w-4" />;
+    case 'slack':
+    case 'teams':
+      return <MessageSquare className="h-4 w-4" />;
+    default:
+      return <Mail className="h-4 w-4" />;
+  }
+}
+
+function DeliveryRow({ delivery }: { delivery: ReminderDelivery }) {
+  return (
+    <div className="p-3 rounded-lg border">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-3 min-w-0">
+          <div className="p-1.5 bg-muted rounded">
+            <ChannelIcon channel={delivery.channel} />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium">
+              {delivery.escalated
+                ? `Escalation ${formatEscalationTiming(delivery.offset_days)}`
+                : `${delivery.offset_days}-day reminder`}
+              <span className="text-muted-foreground font-normal"> · {CHANNEL_LABELS[delivery.channel]}</span>
+            </p>
+            <p className="text-xs text-muted-foreground truncate">
+              To {delivery.recipient} · {format(new Date(delivery.created_at), 'MMM d, yyyy h:mm a')}
+            </p>
+          </div>
+        </div>
+        <Badge variant="outline" className={cn("flex-shrink-0", STATUS_BADGE_CLASSES[delivery.status])}>
+          {DELIVERY_STATUS_LABELS[delivery.status]}
+        </Badge>
+      </div>
+      {delivery.error && (
+        <p className="mt-2 text-xs text-red-600 flex items-start gap-1">
+          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {delivery.error}
+          {delivery.attempts > 1 && ` (${delivery.attempts} attempts)`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ReminderHistoryDialog;
@@ -0,0 +1,343 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { useDeadlines, useDailyDeadlineAllowance } from '@/hooks/useDeadlines';
+import { useSubscription } from '@/hooks/useSubscription';
+import { downloadFile } from '@/lib/csv';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField,
+  ImportRow,
+  ImportRowStatus,
+  SpreadsheetData,
+  buildErrorReport,
+  guessColumnMapping,
+  planImport,
+  readSpreadsheet,
+} from '@/lib/spreadsheet-import';
+import { cn } from '@/lib/utils';
+
+interface SpreadsheetImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+const UNMAPPED = '__none__';
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'Will import',
+  duplicate: 'Already tracked',
+  invalid: 'Invalid',
+  over_limit: 'Over limit',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<ImportRowStatus, string> = {
+  new: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-300',
+  duplicate: 'bg-muted text-muted-foreground',
+  invalid: 'bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300',
+  over_limit: 'bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300',
+};
+
+export function SpreadsheetImportWizard({ open, onOpenChange }: SpreadsheetImportWizardProps) {
+  const { deadlines, importDeadlines } = useDeadlines();
+  const { limits } = useSubscription();
+  const { data: dailyAllowance = 0, refetch: refetchAllowance } = useDailyDeadlineAllowance(open);
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const planRemaining = limits.deadlines === -1 ? Infinity : Math.max(0, limits.deadlines - deadlines.length);
+  const capacity = Math.min(planRemaining, dailyAllowance);
+
+  const counts = useMemo(() => {
+    const result: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, invalid: 0, over_limit: 0, failed: 0 };
+    rows.forEach((row) => result[row.status]++);
+    return result;
+  }, [rows]);
+
+  const skippedRows = rows.filter((row) => row.status !== 'new');
+  const missingRequired = !!mapping && IMPORT_FIELDS.some(({ field, required }) => required && mapping[field] === null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setData(null);
+    setMapping(null);
+    setRows([]);
+    setProgress(0);
+    setReadError(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    // Closing mid-import would hide progress while batches are still being sent
+    if (!isOpen && step === 'importing') return;
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReadError(null);
+    setIsReading(true);
+
+    try {
+      const spreadsheet = await readSpreadsheet(file);
+      setFileName(file.name);
+      setData(spreadsheet);
+      setMapping(guessColumnMapping(spreadsheet.headers));
+      setStep('map');
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'This file could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === UNMAPPED ? null : Number(value) });
+  };
+
+  const runDryRun = async () => {
+    if (!data || !mapping) return;
+    const { data: allowance = 0 } = await refetchAllowance();
+    setRows(planImport(data, mapping, deadlines, Math.min(planRemaining, allowance)));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    const toImport = rows.filter((row) => row.status === 'new');
+    setProgress(0);
+    setStep('importing');
+
+    try {
+      const { failed } = await importDeadlines.mutateAsync({
+        inputs: toImport.map((row) => row.input!),
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+      });
+
+      const failures = new Map(failed.map(({ index, message }) => [toImport[index].rowNumber, message]));
+      setRows(rows.map((row) => {
+        const message = failures.get(row.rowNumber);
+        return message ? { ...row, status: 'failed', errors: [message] } : row;
+      }));
+      setStep('done');
+    } catch (error) {
+      // Error handled by hook
+      setStep('preview');
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!data) return;
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'import';
+    downloadFile(buildErrorReport(data.headers, skippedRows), `${baseName}-errors.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const describeRow = (row: ImportRow) => {
+    if (!row.input) return row.values.filter(Boolean).slice(0, 2).join(' · ');
+    return `${row.input.title} · ${format(parseISO(row.input.due_date), 'MMM d, yyyy')}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import from Spreadsheet</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file with one deadline per row and a header row.'}
+            {step === 'map' && `Match the columns in ${fileName} to deadline fields.`}
+            {step === 'preview' && 'Nothing has been saved yet. Check what the import will do.'}
+            {step === 'importing' && 'Adding deadlines…'}
+            {step === 'done' && 'Import finished.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4 py-4">
+            <div className="flex flex-col items-center gap-3 rounded-lg border border-dashed p-8 text-center">
+              {isReading ? (
+                <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+              ) : (
+                <FileSpreadsheet className="h-10 w-10 text-muted-foreground/50" />
+              )}
+              <Label htmlFor="spreadsheet-file" className="text-sm text-muted-foreground">
+                Only the first sheet of an Excel workbook is imported
+              </Label>
+              <Input
+                id="spreadsheet-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="max-w-xs"
+                disabled={isReading}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            {readError && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{readError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && data && mapping && (
+          <div className="max-h-96 overflow-y-auto space-y-3 py-2 pr-1">
+            {IMPORT_FIELDS.map(({ field, label, required }) => {
+              const column = mapping[field];
+              const sample = column === null ? null : data.rows.find((row) => row[column])?.[column];
+
+              return (
+                <div key={field} className="grid grid-cols-2 items-center gap-4">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {label}
+                      {required && <span className="text-destructive"> *</span>}
+                    </p>
+                    {sample && <p className="text-xs text-muted-foreground truncate">e.g. {sample}</p>}
+                  </div>
+                  <Select
+                    value={column === null ? UNMAPPED : String(column)}
+                    onValueChange={(v) => updateMapping(field, v)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                      {data.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {(step === 'preview' || step === 'done') && (
+          <div className="space-y-3 py-2">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(counts) as ImportRowStatus[])
+                .filter((status) => counts[status] > 0)
+                .map((status) => (
+                  <Badge key={status} variant="secondary" className={STATUS_CLASSES[status]}>
+                    {counts[status]} {step === 'done' && status === 'new' ? 'Imported' : STATUS_LABELS[status]}
+                  </Badge>
+                ))}
+            </div>
+
+            {step === 'preview' && counts.over_limit > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {dailyAllowance < planRemaining
+                    ? `Up to ${capacity} more deadline${capacity !== 1 ? 's' : ''} can be created today. Import the remaining rows tomorrow using the error report.`
+                    : `Your plan has room for ${capacity} more deadline${capacity !== 1 ? 's' : ''}. Upgrade to import the rest.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-80 overflow-y-auto rounded-lg border divide-y">
+              {rows.map((row) => (
+                <div key={row.rowNumber} className="flex items-start gap-3 p-3 text-sm">
+                  <span className="w-12 flex-shrink-0 text-muted-foreground">#{row.rowNumber}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate">{describeRow(row)}</p>
+                    {row.errors.length > 0 && (
+                      <p className={cn('text-xs', row.status === 'duplicate' ? 'text-muted-foreground' : 'text-destructive')}>
+                        {row.errors.join('; ')}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant="secondary" className={cn('flex-shrink-0', STATUS_CLASSES[row.status])}>
+                    {step === 'done' && row.status === 'new' ? 'Imported' : STATUS_LABELS[row.status]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-3 py-6">
+            <Progress value={progress} />
+            <p className="text-sm text-center text-muted-foreground">{progress}%</p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {(step === 'preview' || step === 'done') && skippedRows.length > 0 && (
+            <Button variant="outline" className="sm:mr-auto" onClick={downloadErrorReport}>
+              <Download className="h-4 w-4 mr-2" />
+              Error Report
+            </Button>
+          )}
+          {step === 'upload' && (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={runDryRun} disabled={missingRequired}>
+                Preview Import
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={counts.new === 0}>
+                Import {counts.new} Deadline{counts.new !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => handleOpenChange(false)}>
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SpreadsheetImportWizard;
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { UpgradeAlert } from '@/components/billing/UpgradePrompt';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiKeys, ApiKeyScope, API_BASE_URL } from '@/hooks/useApiKeys';
+import { useSubscription } from '@/hooks/useSubscription';
+
+export function ApiKeysCard() {
+  const { profile } = useAuth();
+  const { limits } = useSubscription();
+  const { keys, isLoading, createKey, revokeKey } = useApiKeys();
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiKeyScope>('personal');
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isOrgAdmin = profile?.role === 'org_admin' && !!profile.organization_id;
+
+  const closeCreate = (open: boolean) => {
+    if (open) return;
+    setShowCreate(false);
+    setName('');
+    setScope('personal');
+    setCreatedKey(null);
+    setCopied(false);
+  };
+
+  const handleCreate = () => {
+    createKey.mutate(
+      { name: name.trim(), scope },
+      { onSuccess: (key) => setCreatedKey(key) }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>API Keys</CardTitle>
+            <CardDescription>
+              Access your deadlines, templates and team from your own tools
+            </CardDescription>
+          </div>
+          {limits.api && (
+            <Button size="sm" onClick={() => setShowCreate(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Key
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!limits.api ? (
+          <UpgradeAlert feature="api" />
+        ) : isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : keys.length === 0 ? (
+          <div className="text-center py-6">
+            <KeyRound className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p className="text-sm text-muted-foreground">
+              No API keys yet. Create one to start using the API.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {keys.map((key) => (
+              <div key={key.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{key.name}</span>
+                    <Badge variant="secondary">{key.organization_id ? 'Organization' : 'Personal'}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    <code className="font-mono">{key.key_prefix}…</code>
+                    {' · '}
+                    {key.last_used_at
+                      ? `Last used ${formatDistanceToNow(new Date(key.last_used_at), { addSuffix: true })}`
+                      : `Created ${format(new Date(key.created_at), 'MMM d, yyyy')}`}
+                    {' · '}
+                    {key.rate_limit_per_minute} requests/min
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0"
+                  onClick={() => revokeKey.mutate(key.id)}
+                  disabled={revokeKey.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {limits.api && (
+          <p className="text-xs text-muted-foreground">
+            Send the key as <code className="font-mono">Authorization: Bearer dg_…</code> to{' '}
+            <code className="font-mono break-all">{API_BASE_URL}</code>
+          </p>
+        )}
+      </CardContent>
+
+      {/* Create Key Dialog */}
+      <Dialog open={showCreate} onOpenChange={closeCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdKey ? 'Copy your API key' : 'Create API Key'}</DialogTitle>
+            <DialogDescription>
+              {createdKey
+                ? "This is the only time the key is shown. Store it somewhere safe."
+                : 'Personal keys act as you. Organization keys reach all of your organization\'s deadlines.'}
+            </DialogDescription>
+          </DialogHeader>
+          {createdKey ? (
+            <div className="flex gap-2 py-4">
+              <Input readOnly value={createdKey} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="Compliance dashboard"
+                  maxLength={80}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              {isOrgAdmin && (
+                <div className="space-y-2">
+                  <Label>Scope</Label>
+                  <Select value={scope} onValueChange={(v) => setScope(v as ApiKeyScope)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="personal">Personal</SelectItem>
+                      <SelectItem value="organization">Organization</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            {createdKey ? (
+              <Button onClick={() => closeCreate(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => closeCreate(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={!name.trim() || createKey.isPending}>
+                  {createKey.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Key
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default ApiKeysCard;
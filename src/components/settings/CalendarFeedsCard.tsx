@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Check, Copy, ExternalLink, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCalendarFeeds,
+  getCalendarFeedUrl,
+  getCalendarSubscribeUrl,
+  CalendarFeed,
+} from '@/hooks/useCalendarFeeds';
+
+interface FeedScope {
+  organizationId: string | null;
+  label: string;
+  description: string;
+}
+
+export function CalendarFeedsCard() {
+  const { profile } = useAuth();
+  const { feeds, isLoading, regenerateFeed, revokeFeed } = useCalendarFeeds();
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const scopes: FeedScope[] = [
+    {
+      organizationId: null,
+      label: 'My deadlines',
+      description: 'Deadlines you created',
+    },
+  ];
+
+  if (profile?.organization_id) {
+    scopes.push({
+      organizationId: profile.organization_id,
+      label: 'Organization deadlines',
+      description: 'Every deadline in your organization',
+    });
+  }
+
+  const findFeed = (organizationId: string | null): CalendarFeed | undefined =>
+    feeds.find((feed) => feed.organization_id === organizationId);
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    await navigator.clipboard.writeText(getCalendarFeedUrl(feed.token));
+    setCopiedId(feed.id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Subscription</CardTitle>
+        <CardDescription>
+          Show your deadlines, with reminders, in Outlook, Google Calendar or Apple Calendar
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          scopes.map((scope) => {
+            const feed = findFeed(scope.organizationId);
+
+            return (
+              <div key={scope.organizationId ?? 'personal'} className="space-y-3 p-3 rounded-lg border">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium">{scope.label}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {scope.description}
+                      {feed?.last_accessed_at &&
+                        ` · Last synced ${formatDistanceToNow(new Date(feed.last_accessed_at), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  {feed ? (
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Regenerate URL"
+                        onClick={() => regenerateFeed.mutate(scope.organizationId)}
+                        disabled={regenerateFeed.isPending}
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Revoke"
+                        onClick={() => revokeFeed.mutate(feed.id)}
+                        disabled={revokeFeed.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => regenerateFeed.mutate(scope.organizationId)}
+                      disabled={regenerateFeed.isPending}
+                    >
+                      {regenerateFeed.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Create Feed
+                    </Button>
+                  )}
+                </div>
+
+                {feed && (
+                  <div className="flex gap-2">
+                    <Input readOnly value={getCalendarFeedUrl(feed.token)} className="font-mono text-xs" />
+                    <Button variant="outline" size="icon" title="Copy URL" onClick={() => handleCopy(feed)}>
+                      {copiedId === feed.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="outline" size="icon" title="Subscribe" asChild>
+                      <a href={getCalendarSubscribeUrl(feed.token)}>
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Anyone with a feed URL can see its deadlines. Regenerate the URL if it has been shared by mistake.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CalendarFeedsCard;
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Download, History, Loader2 } from 'lucide-react';
+import { useTeam } from '@/hooks/useTeam';
+import { useAuditLog, AUDIT_LOG_PAGE_SIZE } from '@/hooks/useAuditLog';
+import { downloadFile } from '@/lib/csv';
+import {
+  AUDIT_ENTITY_LABELS,
+  AuditEntityType,
+  AuditLogEntry,
+  exportAuditLogToCsv,
+  formatAuditValue,
+  getAuditActionLabel,
+  getAuditEntryLabel,
+  getAuditExportFilename,
+  getChangedFields,
+} from '@/lib/audit-log';
+
+const ALL = 'all';
+
+function AuditEntryChanges({ entry }: { entry: AuditLogEntry }) {
+  const fields = getChangedFields(entry);
+
+  if (fields.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field changes recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="grid grid-cols-[10rem_1fr] gap-2">
+          <span className="font-mono text-muted-foreground truncate">{field}</span>
+          <span className="break-all">
+            {entry.before_data && (
+              <span className="text-red-600 line-through mr-2">{formatAuditValue(entry.before_data[field])}</span>
+            )}
+            {entry.after_data && (
+              <span className="text-green-600">{formatAuditValue(entry.after_data[field])}</span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AuditLogCard() {
+  const { teamMembers } = useTeam();
+
+  const [actorId, setActorId] = useState(ALL);
+  const [entityType, setEntityType] = useState(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { entries, isLoading, hasMore, fetchAllEntries } = useAuditLog({
+    actorId: actorId === ALL ? undefined : actorId,
+    entityType: entityType === ALL ? undefined : (entityType as AuditEntityType),
+    from: from || undefined,
+    to: to || undefined,
+  });
+
+  // Former members' profiles are no longer visible to the organization
+  const getActorName = (id: string | null) => {
+    if (!id) return 'System';
+    return teamMembers.find((member) => member.id === id)?.name ?? 'Former member';
+  };
+
+  // Exports everything matching the filters, beyond the entries shown
+  const handleExport = async () => {
+    try {
+      const allEntries = await fetchAllEntries.mutateAsync();
+      downloadFile(exportAuditLogToCsv(allEntries, getActorName), getAuditExportFilename(), 'text/csv;charset=utf-8');
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Activity Audit Log</CardTitle>
+            <CardDescription>
+              Every change to deadlines, members, invitations and billing in your organization
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleExport}
+            disabled={entries.length === 0 || fetchAllEntries.isPending}
+          >
+            {fetchAllEntries.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Member</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All members</SelectItem>
+                {teamMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Entity</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Everything</SelectItem>
+                {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {AUDIT_ENTITY_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input id="audit-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input id="audit-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-6">
+            <History className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p className="text-sm text-muted-foreground">No activity matches these filters.</p>
+          </div>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {entries.map((entry) => {
+              const isExpanded = expandedId === entry.id;
+              // Joining or leaving names the member already
+              const label = entry.entity_id !== entry.actor_id ? getAuditEntryLabel(entry) : null;
+              return (
+                <div key={entry.id} className="p-3">
+                  <button
+                    type="button"
+                    className="flex w-full items-start gap-2 text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm">
+                        <span className="font-medium">{getActorName(entry.actor_id)}</span>{' '}
+                        {getAuditActionLabel(entry.action).toLowerCase()}
+                        {label && <span className="font-medium"> {label}</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="shrink-0">
+                      {AUDIT_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type}
+                    </Badge>
+                  </button>
+                  {isExpanded && (
+                    <div className="mt-3 ml-6">
+                      <AuditEntryChanges entry={entry} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {hasMore && (
+          <p className="text-xs text-muted-foreground">
+            Showing the latest {AUDIT_LOG_PAGE_SIZE} entries. Narrow the date range to see older activity; the export includes everything.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AuditLogCard;
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, MessageSquare, Plus, Trash2 } from 'lucide-react';
+import { UpgradeAlert } from '@/components/billing/UpgradePrompt';
+import { useChatWebhooks, ChatWebhook } from '@/hooks/useChatWebhooks';
+import { useSubscription } from '@/hooks/useSubscription';
+import {
+  CHAT_PROVIDER_LABELS,
+  ChatProvider,
+  ConsequenceLevel,
+  DeadlineCategory,
+  getCategoryLabel,
+  getConsequenceLabel,
+  isValidWebhookUrl,
+} from '@/lib/deadline-utils';
+
+const CATEGORIES: DeadlineCategory[] = ['license', 'insurance', 'contract', 'personal', 'other'];
+const LEVELS: ConsequenceLevel[] = ['critical', 'high', 'medium', 'low'];
+
+const WEBHOOK_URL_PLACEHOLDERS: Record<ChatProvider, string> = {
+  slack: 'https://hooks.slack.com/services/...',
+  teams: 'https://....webhook.office.com/...',
+};
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function describeRoute(webhook: Pick<ChatWebhook, 'categories' | 'consequence_levels'>): string {
+  const categories = webhook.categories.length > 0
+    ? webhook.categories.map(getCategoryLabel).join(', ')
+    : 'All categories';
+  const levels = webhook.consequence_levels.length > 0
+    ? webhook.consequence_levels.map(getConsequenceLabel).join(', ')
+    : 'all priorities';
+  return `${categories} · ${levels}`;
+}
+
+export function ChatWebhooksCard() {
+  const { limits } = useSubscription();
+  const { webhooks, isLoading, createWebhook, updateWebhook, deleteWebhook } = useChatWebhooks();
+
+  const [showConnect, setShowConnect] = useState(false);
+  const [provider, setProvider] = useState<ChatProvider>('slack');
+  const [name, setName] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [categories, setCategories] = useState<DeadlineCategory[]>([]);
+  const [levels, setLevels] = useState<ConsequenceLevel[]>([]);
+
+  const urlIsValid = isValidWebhookUrl(provider, webhookUrl);
+
+  const resetForm = () => {
+    setProvider('slack');
+    setName('');
+    setWebhookUrl('');
+    setCategories([]);
+    setLevels([]);
+  };
+
+  const handleConnect = async () => {
+    await createWebhook.mutateAsync({
+      provider,
+      name: name.trim(),
+      webhook_url: webhookUrl.trim(),
+      categories,
+      consequence_levels: levels,
+    });
+    setShowConnect(false);
+    resetForm();
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Chat Notifications</CardTitle>
+            <CardDescription>
+              Post reminders to Slack or Microsoft Teams channels, routed by category or priority
+            </CardDescription>
+          </div>
+          {limits.integrations && (
+            <Button size="sm" onClick={() => setShowConnect(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Connect Channel
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!limits.integrations ? (
+          <UpgradeAlert feature="integrations" />
+        ) : isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : webhooks.length === 0 ? (
+          <div className="text-center py-6">
+            <MessageSquare className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p className="text-sm text-muted-foreground">
+              No channels connected yet. Add an incoming webhook to get started.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{webhook.name}</span>
+                    <Badge variant="secondary">{CHAT_PROVIDER_LABELS[webhook.provider]}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">{describeRoute(webhook)}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Switch
+                    checked={webhook.is_active}
+                    onCheckedChange={(checked) => updateWebhook.mutate({ id: webhook.id, is_active: checked })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => deleteWebhook.mutate(webhook.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Connect Channel Dialog */}
+      <Dialog open={showConnect} onOpenChange={setShowConnect}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Connect Channel</DialogTitle>
+            <DialogDescription>
+              Create an incoming webhook in {CHAT_PROVIDER_LABELS[provider]} and paste its URL here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Service</Label>
+                <Select value={provider} onValueChange={(v) => setProvider(v as ChatProvider)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CHAT_PROVIDER_LABELS) as ChatProvider[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {CHAT_PROVIDER_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="channel-name">Channel</Label>
+                <Input
+                  id="channel-name"
+                  placeholder="#risk-management"
+                  maxLength={80}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Webhook URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder={WEBHOOK_URL_PLACEHOLDERS[provider]}
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+              />
+              {webhookUrl && !urlIsValid && (
+                <p className="text-xs text-destructive">
+                  This doesn't look like a {CHAT_PROVIDER_LABELS[provider]} incoming webhook URL.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Categories</Label>
+              <div className="flex flex-wrap gap-4">
+                {CATEGORIES.map((category) => (
+                  <label key={category} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={categories.includes(category)}
+                      onCheckedChange={() => setCategories(toggle(categories, category))}
+                    />
+                    {getCategoryLabel(category)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Priorities</Label>
+              <div className="flex flex-wrap gap-4">
+                {LEVELS.map((level) => (
+                  <label key={level} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={levels.includes(level)}
+                      onCheckedChange={() => setLevels(toggle(levels, level))}
+                    />
+                    {getConsequenceLabel(level)}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave a group unchecked to receive all of it. {describeRoute({ categories, consequence_levels: levels })}.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowConnect(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConnect}
+              disabled={!name.trim() || !urlIsValid || createWebhook.isPending}
+            >
+              {createWebhook.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Connect
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default ChatWebhooksCard;
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, X } from 'lucide-react';
+import { useEscalationPolicies } from '@/hooks/useEscalationPolicies';
+import { TeamMember } from '@/hooks/useTeam';
+import {
+  ConsequenceLevel,
+  DEFAULT_ESCALATION_STEPS,
+  EscalationStep,
+  MAX_ESCALATION_DAYS,
+  MIN_ESCALATION_DAYS,
+  describeEscalationStep,
+  getConsequenceLabel,
+} from '@/lib/deadline-utils';
+
+interface EscalationPolicyCardProps {
+  teamMembers: TeamMember[];
+  canEdit: boolean;
+}
+
+type StepTiming = 'before' | 'after';
+
+const ESCALATION_LEVELS: ConsequenceLevel[] = ['critical', 'high'];
+
+// Radix Select values: "owner", "all_admins" or "admin:<user id>"
+function getTargetValue(step: EscalationStep): string {
+  return step.target === 'org_admin' ? `admin:${step.admin_id ?? ''}` : step.target;
+}
+
+function parseTargetValue(value: string): Pick<EscalationStep, 'target' | 'admin_id'> {
+  if (value.startsWith('admin:')) {
+    return { target: 'org_admin', admin_id: value.slice('admin:'.length) || null };
+  }
+  return { target: value as EscalationStep['target'], admin_id: null };
+}
+
+export function EscalationPolicyCard({ teamMembers, canEdit }: EscalationPolicyCardProps) {
+  const { policies, isLoading, savePolicy } = useEscalationPolicies();
+  const [level, setLevel] = useState<ConsequenceLevel>('critical');
+  const [isActive, setIsActive] = useState(true);
+  const [steps, setSteps] = useState<EscalationStep[]>([]);
+
+  const admins = teamMembers.filter((member) => member.role === 'org_admin');
+  const defaultAdminId = admins[0]?.id ?? null;
+  const policy = policies.find((p) => p.consequence_level === level);
+
+  // Load the saved policy for the selected level, or the default chain
+  useEffect(() => {
+    if (policy) {
+      setIsActive(policy.is_active);
+      setSteps(policy.escalation_steps);
+    } else {
+      setIsActive(true);
+      setSteps(
+        DEFAULT_ESCALATION_STEPS.map((step) =>
+          step.target === 'org_admin' ? { ...step, admin_id: defaultAdminId } : step
+        )
+      );
+    }
+  }, [policy, defaultAdminId]);
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    setSteps((current) => current.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const setStepTiming = (index: number, days: number, timing: StepTiming) => {
+    const value = timing === 'before' ? Math.max(0, days) : -Math.max(1, days);
+    updateStep(index, {
+      days_before_due: Math.min(MAX_ESCALATION_DAYS, Math.max(MIN_ESCALATION_DAYS, value)),
+    });
+  };
+
+  const isValid = steps.every((step) => step.target !== 'org_admin' || !!step.admin_id);
+
+  const handleSave = () => {
+    savePolicy.mutate({ consequenceLevel: level, isActive, steps });
+  };
+
+  const getAdminName = (adminId: string | null) =>
+    teamMembers.find((member) => member.id === adminId)?.name || null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Escalation Policy</CardTitle>
+            <CardDescription>
+              Bring in more people when a deadline isn't acknowledged. Escalation stops once the
+              deadline is marked in progress, submitted or closed.
+            </CardDescription>
+          </div>
+          <Select value={level} onValueChange={(v) => setLevel(v as ConsequenceLevel)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ESCALATION_LEVELS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {getConsequenceLabel(value)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="escalation-active">
+                Escalate {getConsequenceLabel(level).toLowerCase()} deadlines
+              </Label>
+              <Switch
+                id="escalation-active"
+                checked={isActive}
+                onCheckedChange={setIsActive}
+                disabled={!canEdit}
+              />
+            </div>
+
+            {steps.length === 0 && (
+              <p className="text-sm text-muted-foreground">No escalation steps.</p>
+            )}
+
+            {steps.map((step, index) => {
+              const days = Math.abs(step.days_before_due);
+              const timing: StepTiming = step.days_before_due >= 0 ? 'before' : 'after';
+
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      type="number"
+                      min={timing === 'before' ? 0 : 1}
+                      className="w-20"
+                      value={days}
+                      disabled={!canEdit}
+                      onChange={(e) => setStepTiming(index, Number(e.target.value) || 0, timing)}
+                    />
+                    <Select
+                      value={timing}
+                      disabled={!canEdit}
+                      onValueChange={(v) => setStepTiming(index, days, v as StepTiming)}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="before">days before due</SelectItem>
+                        <SelectItem value="after">days overdue</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={getTargetValue(step)}
+                      disabled={!canEdit}
+                      onValueChange={(v) => updateStep(index, parseTargetValue(v))}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Choose an admin" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="owner">Deadline assignee</SelectItem>
+                        <SelectItem value="all_admins">All admins</SelectItem>
+                        {admins.map((admin) => (
+                          <SelectItem key={admin.id} value={`admin:${admin.id}`}>
+                            {admin.name || admin.email}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setSteps((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {describeEscalationStep(step, getAdminName(step.admin_id))}
+                  </p>
+                </div>
+              );
+            })}
+
+            {canEdit && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setSteps((current) => [...current, { days_before_due: 1, target: 'all_admins', admin_id: null }])
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add step
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+      {canEdit && (
+        <CardFooter className="justify-end">
+          <Button onClick={handleSave} disabled={!isValid || savePolicy.isPending}>
+            {savePolicy.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Policy
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+export default EscalationPolicyCard;
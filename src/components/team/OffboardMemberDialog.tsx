@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useTeam,
+  useOffboardingDeadlines,
+  DeadlineReassignments,
+  OffboardingDeadline,
+  TeamMember,
+} from '@/hooks/useTeam';
+import { isDeadlineClosed } from '@/lib/deadline-utils';
+
+interface OffboardMemberDialogProps {
+  // The member being removed, or the current user when leaving
+  member: TeamMember | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Someone else already works the deadline, so they're the obvious pick
+function getSuggestedAssignee(deadline: OffboardingDeadline, memberId: string): string | undefined {
+  return deadline.assignee_id && deadline.assignee_id !== memberId ? deadline.assignee_id : undefined;
+}
+
+export function OffboardMemberDialog({ member, onOpenChange }: OffboardMemberDialogProps) {
+  const { user } = useAuth();
+  const { organization, teamMembers, removeMember, leaveOrganization } = useTeam();
+  const { deadlines, isLoading } = useOffboardingDeadlines(member?.id ?? null);
+
+  // Only the choices made in this dialog; suggestions fill in the rest
+  const [choices, setChoices] = useState<DeadlineReassignments>({});
+
+  const isLeaving = !!member && member.id === user?.id;
+  const remainingMembers = teamMembers.filter((teamMember) => teamMember.id !== member?.id);
+  const reassignments: DeadlineReassignments = {};
+  for (const deadline of deadlines) {
+    const assigneeId = choices[deadline.id] ?? (member ? getSuggestedAssignee(deadline, member.id) : undefined);
+    if (assigneeId) reassignments[deadline.id] = assigneeId;
+  }
+  const unassignedCount = deadlines.filter((deadline) => !reassignments[deadline.id]).length;
+  const isPending = removeMember.isPending || leaveOrganization.isPending;
+
+  // Reset when opening for a new member
+  useEffect(() => {
+    setChoices({});
+  }, [member]);
+
+  const assignAll = (memberId: string) => {
+    setChoices(Object.fromEntries(deadlines.map((deadline) => [deadline.id, memberId])));
+  };
+
+  const handleConfirm = async () => {
+    if (!member || unassignedCount > 0) return;
+
+    try {
+      if (isLeaving) {
+        await leaveOrganization.mutateAsync(reassignments);
+      } else {
+        await removeMember.mutateAsync({ memberId: member.id, reassignments });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const memberOptions = remainingMembers.map((teamMember) => (
+    <SelectItem key={teamMember.id} value={teamMember.id}>
+      {teamMember.name}{teamMember.id === user?.id ? ' (you)' : ''}
+    </SelectItem>
+  ));
+
+  return (
+    <Dialog open={!!member} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isLeaving ? 'Leave Organization?' : `Remove ${member?.name}?`}</DialogTitle>
+          <DialogDescription>
+            {isLeaving
+              ? `You will lose access to ${organization?.name ?? 'the organization'}'s shared deadlines and team features.`
+              : 'They will lose access to all shared deadlines and team features. Their personal deadlines will be preserved.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : deadlines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLeaving ? 'You have' : 'They have'} no organization deadlines to hand over.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Choose who takes over each deadline {isLeaving ? 'you created or are' : 'they created or are'} assigned
+                to. {isLeaving ? 'You' : 'They'} will also be dropped as a backup.
+              </p>
+
+              <div className="space-y-2">
+                <Label>Reassign all to</Label>
+                <Select value="" onValueChange={assignAll}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a team member" />
+                  </SelectTrigger>
+                  <SelectContent>{memberOptions}</SelectContent>
+                </Select>
+              </div>
+
+              <div className="max-h-72 overflow-y-auto divide-y rounded-md border">
+                {deadlines.map((deadline) => (
+                  <div key={deadline.id} className="flex items-center gap-3 p-3">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">{deadline.title}</p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>Due {format(parseISO(deadline.due_date), 'MMM d, yyyy')}</span>
+                        {isDeadlineClosed(deadline) && <Badge variant="secondary">Closed</Badge>}
+                      </div>
+                    </div>
+                    <Select
+                      value={reassignments[deadline.id] ?? ''}
+                      onValueChange={(value) => setChoices({ ...choices, [deadline.id]: value })}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="Reassign to" />
+                      </SelectTrigger>
+                      <SelectContent>{memberOptions}</SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {unassignedCount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {unassignedCount} {unassignedCount === 1 ? 'deadline still needs' : 'deadlines still need'} a new owner.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={isLoading || unassignedCount > 0 || isPending}
+          >
+            {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {isLeaving ? 'Leave Organization' : 'Remove Member'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default OffboardMemberDialog;
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Eye, EyeOff, History, Loader2, Plus, RotateCcw, Trash2, Webhook } from 'lucide-react';
+import { UpgradeAlert } from '@/components/billing/UpgradePrompt';
+import {
+  useWebhookDeliveries,
+  useWebhookEndpoints,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '@/hooks/useWebhookEndpoints';
+import { useSubscription } from '@/hooks/useSubscription';
+import {
+  WEBHOOK_ENTERED_STATUSES,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  WebhookEventType,
+  isPublicWebhookUrl,
+} from '@/lib/deadline-utils';
+
+const DELIVERY_STATUS_LABELS: Record<WebhookDelivery['status'], string> = {
+  pending: 'Pending',
+  succeeded: 'Delivered',
+  failed: 'Failed',
+};
+
+const STATUS_BADGE_CLASSES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-blue-500/20 text-blue-500 border-blue-500/30',
+  succeeded: 'bg-green-500/20 text-green-500 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-500 border-red-500/30',
+};
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export function WebhookEndpointsCard() {
+  const { limits } = useSubscription();
+  const { endpoints, isLoading, createEndpoint, updateEndpoint, deleteEndpoint } = useWebhookEndpoints();
+
+  const [showAdd, setShowAdd] = useState(false);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(WEBHOOK_EVENT_TYPES);
+  const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+  const [logEndpoint, setLogEndpoint] = useState<WebhookEndpoint | null>(null);
+
+  const urlIsValid = isPublicWebhookUrl(url);
+
+  const resetForm = () => {
+    setUrl('');
+    setDescription('');
+    setEvents(WEBHOOK_EVENT_TYPES);
+  };
+
+  const handleAdd = async () => {
+    await createEndpoint.mutateAsync({
+      url: url.trim(),
+      description: description.trim() || null,
+      events,
+    });
+    setShowAdd(false);
+    resetForm();
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Webhooks</CardTitle>
+            <CardDescription>
+              Send signed deadline and reminder events to your own systems
+            </CardDescription>
+          </div>
+          {limits.integrations && (
+            <Button size="sm" onClick={() => setShowAdd(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Endpoint
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!limits.integrations ? (
+          <UpgradeAlert feature="integrations" />
+        ) : isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="text-center py-6">
+            <Webhook className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p className="text-sm text-muted-foreground">
+              No endpoints yet. Add an HTTPS URL to start receiving events.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{endpoint.url}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {endpoint.description ? `${endpoint.description} · ` : ''}
+                      {endpoint.events.length === WEBHOOK_EVENT_TYPES.length
+                        ? 'All events'
+                        : `${endpoint.events.length} event${endpoint.events.length !== 1 ? 's' : ''}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => setLogEndpoint(endpoint)}>
+                      <History className="h-4 w-4 mr-2" />
+                      Deliveries
+                    </Button>
+                    <Switch
+                      checked={endpoint.is_active}
+                      onCheckedChange={(checked) => updateEndpoint.mutate({ id: endpoint.id, is_active: checked })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => deleteEndpoint.mutate(endpoint.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>Signing secret:</span>
+                  <code className="font-mono truncate">
+                    {revealedSecretId === endpoint.id ? endpoint.secret : 'whsec_••••••••••••'}
+                  </code>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setRevealedSecretId(revealedSecretId === endpoint.id ? null : endpoint.id)}
+                  >
+                    {revealedSecretId === endpoint.id ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add Endpoint Dialog */}
+      <Dialog open={showAdd} onOpenChange={setShowAdd}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Endpoint</DialogTitle>
+            <DialogDescription>
+              Events are POSTed as JSON and signed with a secret you can verify on your server.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="endpoint-url">Endpoint URL</Label>
+              <Input
+                id="endpoint-url"
+                placeholder="https://example.com/webhooks/deadlines"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+              {url && !urlIsValid && (
+                <p className="text-xs text-destructive">
+                  Endpoints must be public HTTPS URLs.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endpoint-description">Description (optional)</Label>
+              <Input
+                id="endpoint-description"
+                placeholder="Compliance dashboard"
+                maxLength={200}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="space-y-2">
+                {WEBHOOK_EVENT_TYPES.map((event) => (
+                  <label key={event} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={events.includes(event)}
+                      onCheckedChange={() => setEvents(toggle(events, event))}
+                    />
+                    <span>
+                      <code className="font-mono text-xs">{event}</code>
+                      <span className="text-muted-foreground"> · {WEBHOOK_EVENT_LABELS[event]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Status events fire when a deadline becomes {WEBHOOK_ENTERED_STATUSES.join(', ')}.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAdd(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAdd}
+              disabled={!urlIsValid || events.length === 0 || createEndpoint.isPending}
+            >
+              {createEndpoint.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Endpoint
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery Log Dialog */}
+      <Dialog open={!!logEndpoint} onOpenChange={(open) => !open && setLogEndpoint(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Webhook deliveries</DialogTitle>
+            <DialogDescription className="truncate">{logEndpoint?.url}</DialogDescription>
+          </DialogHeader>
+          {logEndpoint && <WebhookDeliveryLog endpointId={logEndpoint.id} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function WebhookDeliveryLog({ endpointId }: { endpointId: string }) {
+  const { deliveries, isLoading } = useWebhookDeliveries(endpointId);
+  const { replayDelivery } = useWebhookEndpoints();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-14 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">
+          No events have been sent to this endpoint yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-[400px] overflow-y-auto space-y-2">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="p-3 rounded-lg border">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">
+                <code className="font-mono">{delivery.event_type}</code>
+                {delivery.replayed_from && <span className="text-muted-foreground font-normal"> · Replay</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(delivery.created_at), 'MMM d, yyyy h:mm a')}
+                {delivery.last_response_status !== null && ` · HTTP ${delivery.last_response_status}`}
+                {delivery.status === 'pending' && delivery.attempts > 0 &&
+                  ` · Retrying ${format(new Date(delivery.next_attempt_at), 'h:mm a')}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <Badge variant="outline" className={cn(STATUS_BADGE_CLASSES[delivery.status])}>
+                {DELIVERY_STATUS_LABELS[delivery.status]}
+              </Badge>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Replay"
+                disabled={delivery.status === 'pending' || replayDelivery.isPending}
+                onClick={() => replayDelivery.mutate(delivery.id)}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+          {delivery.last_error && (
+            <p className="mt-2 text-xs text-red-600 flex items-start gap-1 break-all">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {delivery.last_error}
+              {delivery.attempts > 1 && ` (${delivery.attempts} attempts)`}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default WebhookEndpointsCard;
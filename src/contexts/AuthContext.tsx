@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { ReminderDeliveryMode, getBrowserTimeZone, setActiveTimeZone } from '@/lib/deadline-utils';
 
 interface Profile {
   id: string;
@@ -8,6 +9,10 @@ interface Profile {
   email: string;
   role: 'individual' | 'org_admin' | 'org_member';
   organization_id: string | null;
+  timezone: string | null;
+  reminder_hour: number;
+  reminder_delivery_mode: ReminderDeliveryMode;
+  organization: { timezone: string | null } | null;
 }
 
 interface AuthContextType {
@@ -18,6 +23,7 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, name: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -31,7 +37,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const fetchProfile = async (userId: string) => {
     const { data, error } = await supabase
       .from('profiles')
-      .select('*')
+      .select('*, organization:organizations(timezone)')
       .eq('id', userId)
       .maybeSingle();
 
@@ -78,6 +84,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Count days until due in the user's zone, falling back to the organization's
+  useEffect(() => {
+    setActiveTimeZone(profile?.timezone, profile?.organization?.timezone);
+  }, [profile?.timezone, profile?.organization?.timezone]);
+
+  const refreshProfile = async () => {
+    if (!user) return;
+    setProfile(await fetchProfile(user.id));
+  };
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({ email, password });
     return { error };
@@ -91,7 +107,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       password,
       options: {
         emailRedirectTo: redirectUrl,
-        data: { name }
+        data: { name, timezone: getBrowserTimeZone() }
       }
     });
     return { error };
@@ -103,7 +119,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, profile, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, profile, loading, signIn, signUp, signOut, refreshProfile }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  name: string;
+  key_prefix: string;
+  rate_limit_per_minute: number;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export type ApiKeyScope = 'personal' | 'organization';
+
+export const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api/v1`;
+
+// Personal keys, plus the organization's keys for admins (filtered by RLS)
+export function useApiKeys() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const keysQuery = useQuery({
+    queryKey: ['api-keys', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select('id, user_id, organization_id, name, key_prefix, rate_limit_per_minute, last_used_at, created_at')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching API keys:', error);
+        return [];
+      }
+
+      return data as ApiKey[];
+    },
+    enabled: !!user,
+  });
+
+  // Resolves to the full key, which is never readable again
+  const createKey = useMutation({
+    mutationFn: async ({ name, scope }: { name: string; scope: ApiKeyScope }) => {
+      const organizationId = scope === 'organization' ? profile?.organization_id : null;
+      if (scope === 'organization' && !organizationId) throw new Error('No organization');
+
+      const { data, error } = await supabase.rpc('create_api_key', {
+        _name: name,
+        _organization_id: organizationId ?? undefined,
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error creating API key',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeKey = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('api_keys')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+      toast({
+        title: 'API key revoked',
+        description: 'Requests using this key will be rejected.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error revoking API key',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    keys: keysQuery.data ?? [],
+    isLoading: keysQuery.isLoading,
+    createKey,
+    revokeKey,
+  };
+}
@@ -0,0 +1,95 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getActiveTimeZone, getStartOfDayInTimeZone } from '@/lib/deadline-utils';
+import type { AuditEntityType, AuditLogEntry } from '@/lib/audit-log';
+
+// Newest entries first; narrow the filters to reach older ones
+export const AUDIT_LOG_PAGE_SIZE = 500;
+
+export interface AuditLogFilters {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  // yyyy-MM-dd, inclusive, in the viewer's profile timezone
+  from?: string;
+  to?: string;
+}
+
+function buildAuditLogQuery(organizationId: string, filters: AuditLogFilters, timeZone: string) {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+  if (filters.from) {
+    query = query.gte('created_at', getStartOfDayInTimeZone(filters.from, timeZone).toISOString());
+  }
+  if (filters.to) {
+    const dayAfter = format(addDays(parseISO(filters.to), 1), 'yyyy-MM-dd');
+    query = query.lt('created_at', getStartOfDayInTimeZone(dayAfter, timeZone).toISOString());
+  }
+
+  return query.order('created_at', { ascending: false }).order('id', { ascending: false });
+}
+
+// Readable by organization admins only (RLS)
+export function useAuditLog(filters: AuditLogFilters) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const isOrgAdmin = profile?.role === 'org_admin';
+  const timeZone = getActiveTimeZone();
+
+  const auditQuery = useQuery({
+    queryKey: ['audit-log', profile?.organization_id, filters, timeZone],
+    queryFn: async () => {
+      if (!profile?.organization_id) return [];
+
+      const { data, error } = await buildAuditLogQuery(profile.organization_id, filters, timeZone)
+        .limit(AUDIT_LOG_PAGE_SIZE);
+
+      if (error) throw error;
+      return data as AuditLogEntry[];
+    },
+    enabled: !!profile?.organization_id && isOrgAdmin,
+  });
+
+  // Every entry matching the filters, not just the loaded page
+  const fetchAllEntries = useMutation({
+    mutationFn: async () => {
+      if (!profile?.organization_id) return [];
+
+      // Entries logged while paging push older ones down a page; the id map drops the repeats
+      const entries = new Map<string, AuditLogEntry>();
+      for (let offset = 0; ; offset += AUDIT_LOG_PAGE_SIZE) {
+        const { data, error } = await buildAuditLogQuery(profile.organization_id, filters, timeZone)
+          .range(offset, offset + AUDIT_LOG_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        for (const entry of data as AuditLogEntry[]) {
+          entries.set(entry.id, entry);
+        }
+        if (data.length < AUDIT_LOG_PAGE_SIZE) break;
+      }
+
+      return [...entries.values()];
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error exporting audit log',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    entries: auditQuery.data ?? [],
+    isLoading: auditQuery.isLoading,
+    hasMore: (auditQuery.data?.length ?? 0) >= AUDIT_LOG_PAGE_SIZE,
+    fetchAllEntries,
+  };
+}
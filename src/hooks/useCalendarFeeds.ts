@@ -0,0 +1,107 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export interface CalendarFeed {
+  id: string;
+  organization_id: string | null;
+  token: string;
+  last_accessed_at: string | null;
+  created_at: string;
+}
+
+const CALENDAR_FEED_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${CALENDAR_FEED_BASE_URL}?token=${token}`;
+}
+
+// webcal:// makes Outlook and Apple Calendar offer to subscribe instead of downloading
+export function getCalendarSubscribeUrl(token: string): string {
+  return getCalendarFeedUrl(token).replace(/^https?:/, 'webcal:');
+}
+
+export function useCalendarFeeds() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const feedsQuery = useQuery({
+    queryKey: ['calendar-feeds', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('id, organization_id, token, last_accessed_at, created_at')
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error fetching calendar feeds:', error);
+        return [];
+      }
+
+      return data as CalendarFeed[];
+    },
+    enabled: !!user,
+  });
+
+  // Creates the feed, or replaces its token so the previous URL stops working
+  const regenerateFeed = useMutation({
+    mutationFn: async (organizationId: string | null) => {
+      const { data, error } = await supabase.rpc('regenerate_calendar_feed', {
+        _organization_id: organizationId ?? undefined,
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      toast({
+        title: 'Calendar feed ready',
+        description: 'Subscribe to the new URL in your calendar app.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error creating calendar feed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeFeed = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      toast({
+        title: 'Calendar feed revoked',
+        description: 'Calendars subscribed to this URL will stop updating.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error revoking calendar feed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    feeds: feedsQuery.data ?? [],
+    isLoading: feedsQuery.isLoading,
+    regenerateFeed,
+    revokeFeed,
+  };
+}
@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ChatProvider, ConsequenceLevel, DeadlineCategory } from '@/lib/deadline-utils';
+
+export interface ChatWebhook {
+  id: string;
+  organization_id: string;
+  provider: ChatProvider;
+  name: string;
+  webhook_url: string;
+  categories: DeadlineCategory[];
+  consequence_levels: ConsequenceLevel[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ChatWebhookInput = Pick<ChatWebhook, 'provider' | 'name' | 'webhook_url' | 'categories' | 'consequence_levels'>;
+
+export function useChatWebhooks() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const isOrgAdmin = profile?.role === 'org_admin';
+
+  const webhooksQuery = useQuery({
+    queryKey: ['chat-webhooks', profile?.organization_id],
+    queryFn: async () => {
+      if (!profile?.organization_id) return [];
+
+      const { data, error } = await supabase
+        .from('chat_webhooks')
+        .select('*')
+        .eq('organization_id', profile.organization_id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching chat webhooks:', error);
+        return [];
+      }
+
+      return data as ChatWebhook[];
+    },
+    enabled: !!profile?.organization_id && isOrgAdmin,
+  });
+
+  const createWebhook = useMutation({
+    mutationFn: async (input: ChatWebhookInput) => {
+      if (!user || !profile?.organization_id) throw new Error('No organization');
+
+      const { error } = await supabase
+        .from('chat_webhooks')
+        .insert({
+          ...input,
+          organization_id: profile.organization_id,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-webhooks'] });
+      toast({
+        title: 'Channel connected',
+        description: 'Matching reminders will be posted to this channel.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error connecting channel',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateWebhook = useMutation({
+    mutationFn: async ({ id, ...changes }: Partial<ChatWebhookInput> & { id: string; is_active?: boolean }) => {
+      const { error } = await supabase
+        .from('chat_webhooks')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-webhooks'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating channel',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteWebhook = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('chat_webhooks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-webhooks'] });
+      toast({
+        title: 'Channel disconnected',
+        description: 'Reminders will no longer be posted there.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error disconnecting channel',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    webhooks: webhooksQuery.data ?? [],
+    isLoading: webhooksQuery.isLoading,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+  };
+}
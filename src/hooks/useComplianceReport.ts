@@ -0,0 +1,58 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/csv';
+
+export interface ComplianceReportInput {
+  // YYYY-MM-DD; defaults to today in the organization's time zone
+  asOf?: string;
+  // Limit the report to one entity or project
+  project?: string;
+}
+
+export function useComplianceReport() {
+  const { toast } = useToast();
+
+  // The PDF is rendered by the compliance-report edge function and downloaded here
+  const generateReport = useMutation({
+    mutationFn: async (input: ComplianceReportInput) => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/compliance-report`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session?.access_token}`,
+          },
+          body: JSON.stringify(input),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to generate compliance report');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        ?? 'compliance-report.pdf';
+      downloadFile(await response.blob(), filename, 'application/pdf');
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Compliance report ready',
+        description: 'The PDF has been downloaded.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error generating report',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return { generateReport };
+}
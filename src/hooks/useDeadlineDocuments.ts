@@ -0,0 +1,321 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { CertificateExtraction } from '@/lib/deadline-utils';
+
+export type DocumentStatus = 'current' | 'superseded';
+
+export interface DeadlineDocumentVersion {
+  id: string;
+  document_id: string;
+  version: number;
+  storage_path: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface DeadlineDocument {
+  id: string;
+  deadline_id: string;
+  name: string;
+  status: DocumentStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Newest first
+  versions: DeadlineDocumentVersion[];
+}
+
+export interface DocumentExtraction extends CertificateExtraction {
+  // False for scanned PDFs, which have nothing to read
+  hasText: boolean;
+}
+
+export interface UploadDocumentInput {
+  file: File;
+  // Adds a new version to this document instead of creating a new one
+  documentId?: string;
+  name?: string;
+}
+
+// Matches the deadline-documents bucket settings
+export const DOCUMENTS_BUCKET = 'deadline-documents';
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024;
+export const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+export const DOCUMENT_ACCEPT = '.pdf,.png,.jpg,.jpeg,.webp,.gif,.txt,.doc,.docx,.xls,.xlsx';
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  current: 'Current',
+  superseded: 'Superseded',
+};
+
+// Signed URLs are only needed long enough to open or download the file
+const SIGNED_URL_SECONDS = 60;
+
+function getStoragePath(deadlineId: string, documentId: string, version: number, fileName: string): string {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]+/g, '_').slice(-100) || 'file';
+  return `${deadlineId}/${documentId}/v${version}-${safeName}`;
+}
+
+// Name shown for a new document: the file name without its extension
+function getDefaultName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').slice(0, 200) || 'Document';
+}
+
+// Certificates and license cards can only be read from a PDF's text layer
+export function isExtractable(mimeType: string | null): boolean {
+  return mimeType === 'application/pdf';
+}
+
+export function isPreviewable(mimeType: string | null): boolean {
+  return mimeType === 'application/pdf' || !!mimeType?.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function getDocumentUrl(version: DeadlineDocumentVersion, download = false): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(version.storage_path, SIGNED_URL_SECONDS, download ? { download: version.file_name } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// Storage objects aren't removed by the database cascade, so deleting a deadline clears its files first
+export async function removeDeadlineDocumentFiles(deadlineId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('deadline_document_versions')
+    .select('storage_path, document:deadline_documents!inner(deadline_id)')
+    .eq('document.deadline_id', deadlineId);
+
+  if (error) throw error;
+
+  const paths = (data ?? []).map((row) => row.storage_path);
+  if (paths.length === 0) return;
+
+  const { error: removeError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(paths);
+  if (removeError) throw removeError;
+}
+
+export function useDeadlineDocuments(deadlineId?: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const documentsQuery = useQuery({
+    queryKey: ['deadline-documents', deadlineId],
+    queryFn: async () => {
+      if (!deadlineId) return [];
+
+      const { data, error } = await supabase
+        .from('deadline_documents')
+        .select('*, versions:deadline_document_versions(*)')
+        .eq('deadline_id', deadlineId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data as DeadlineDocument[]).map((document) => ({
+        ...document,
+        versions: [...document.versions].sort((a, b) => b.version - a.version),
+      }));
+    },
+    enabled: !!deadlineId,
+  });
+
+  const documents = documentsQuery.data ?? [];
+
+  const uploadDocument = useMutation({
+    mutationFn: async ({ file, documentId, name }: UploadDocumentInput) => {
+      if (!user || !deadlineId) throw new Error('Not authenticated');
+      if (file.size > MAX_DOCUMENT_SIZE) {
+        throw new Error(`Files can be up to ${formatFileSize(MAX_DOCUMENT_SIZE)}.`);
+      }
+      if (!DOCUMENT_MIME_TYPES.includes(file.type)) {
+        throw new Error('Upload a PDF, image, Word, Excel or text file.');
+      }
+
+      let targetId = documentId;
+      let version = 1;
+
+      if (targetId) {
+        const existing = documents.find((document) => document.id === targetId);
+        version = (existing?.versions[0]?.version ?? 0) + 1;
+      } else {
+        const { data, error } = await supabase
+          .from('deadline_documents')
+          .insert({ deadline_id: deadlineId, name: name?.trim() || getDefaultName(file.name), created_by: user.id })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        targetId = data.id;
+      }
+
+      const storagePath = getStoragePath(deadlineId, targetId, version, file.name);
+      const { error: uploadError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type, upsert: false });
+
+      if (!uploadError) {
+        const { data: versionRow, error: versionError } = await supabase
+          .from('deadline_document_versions')
+          .insert({
+            document_id: targetId,
+            version,
+            storage_path: storagePath,
+            file_name: file.name,
+            mime_type: file.type || null,
+            size_bytes: file.size,
+            uploaded_by: user.id,
+          })
+          .select()
+          .single();
+
+        if (!versionError) {
+          return { documentId: targetId, version: versionRow as DeadlineDocumentVersion };
+        }
+
+        await supabase.storage.from(DOCUMENTS_BUCKET).remove([storagePath]);
+      }
+
+      // Don't leave an empty document behind when its first upload fails
+      if (!documentId) {
+        await supabase.from('deadline_documents').delete().eq('id', targetId);
+      }
+      throw new Error(uploadError?.message ?? 'The file was uploaded but could not be saved. Please try again.');
+    },
+    onSuccess: ({ version: { version } }) => {
+      queryClient.invalidateQueries({ queryKey: ['deadline-documents', deadlineId] });
+      toast({
+        title: version > 1 ? 'New version uploaded' : 'Document attached',
+        description: version > 1 ? `Version ${version} is now the latest.` : 'The file has been added to this deadline.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error uploading document',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateDocument = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; name?: string; status?: DocumentStatus }) => {
+      const { error } = await supabase
+        .from('deadline_documents')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deadline-documents', deadlineId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating document',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteDocument = useMutation({
+    mutationFn: async (document: DeadlineDocument) => {
+      const paths = document.versions.map((version) => version.storage_path);
+      if (paths.length > 0) {
+        const { error: removeError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(paths);
+        if (removeError) throw removeError;
+      }
+
+      const { error } = await supabase
+        .from('deadline_documents')
+        .delete()
+        .eq('id', document.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deadline-documents', deadlineId] });
+      toast({
+        title: 'Document deleted',
+        description: 'The document and all of its versions have been removed.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error deleting document',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Read numbers, dates and insurers out of an uploaded PDF. The extract-document-details
+  // edge function only proposes values; applying them is up to the caller.
+  const extractDetails = useMutation({
+    mutationFn: async (version: DeadlineDocumentVersion): Promise<DocumentExtraction> => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/extract-document-details`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session?.access_token}`,
+          },
+          body: JSON.stringify({ versionId: version.id }),
+        }
+      );
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to read document');
+      }
+
+      return result as DocumentExtraction;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error reading document',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    documents,
+    isLoading: documentsQuery.isLoading,
+    error: documentsQuery.error,
+    uploadDocument,
+    updateDocument,
+    deleteDocument,
+    extractDetails,
+  };
+}
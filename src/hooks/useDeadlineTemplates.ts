@@ -123,6 +123,7 @@ export const RECURRENCE_LABELS: Record<string, string> = {
   annual: 'Annual',
   biennial: 'Every 2 Years',
   custom: 'Custom',
+  rrule: 'Custom Rule',
 };
 
 // Industry labels
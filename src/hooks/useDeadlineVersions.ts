@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+
+export interface DeadlineVersion {
+  id: string;
+  deadline_id: string;
+  version: number;
+  // The deadline as saved at this version
+  data: Record<string, unknown>;
+  // Compared with the previous version; empty for the first
+  changed_fields: string[];
+  change_reason: string | null;
+  // NULL for the public API and scheduled jobs
+  changed_by: string | null;
+  created_at: string;
+}
+
+// What a restore brings back. State, completion and who the deadline belongs
+// to stay as they are; those have their own flows.
+export const RESTORABLE_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'subcategory',
+  'due_date',
+  'consequence_level',
+  'reminder_offsets',
+  'recurrence',
+  'recurrence_interval_days',
+  'recurrence_rule',
+  'auto_renew',
+  'business_day_roll',
+  'holiday_calendar',
+  'renewal_instructions',
+  'estimated_cost',
+  'reference_number',
+  'issuing_authority',
+  'project',
+] as const;
+
+export function useDeadlineVersions(deadlineId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Newest first
+  const versionsQuery = useQuery({
+    queryKey: ['deadline-versions', deadlineId],
+    queryFn: async () => {
+      if (!deadlineId) return [];
+
+      const { data, error } = await supabase
+        .from('deadline_versions')
+        .select('*')
+        .eq('deadline_id', deadlineId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return data as DeadlineVersion[];
+    },
+    enabled: !!deadlineId,
+  });
+
+  // Saved as a new version, so restoring can itself be undone
+  const restoreVersion = useMutation({
+    mutationFn: async (version: DeadlineVersion) => {
+      const restored = Object.fromEntries(
+        RESTORABLE_FIELDS.filter((field) => field in version.data).map((field) => [field, version.data[field]])
+      ) as Json;
+
+      const { error } = await supabase.rpc('update_deadline_with_reason', {
+        _deadline_id: version.deadline_id,
+        _changes: restored,
+        _reason: `Restored version ${version.version}`,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deadlines'] });
+      queryClient.invalidateQueries({ queryKey: ['deadline-versions', deadlineId] });
+      toast({
+        title: 'Version restored',
+        description: 'The deadline has been restored to the earlier version.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error restoring version',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    versions: versionsQuery.data ?? [],
+    isLoading: versionsQuery.isLoading,
+    error: versionsQuery.error,
+    restoreVersion,
+  };
+}
@@ -1,12 +1,17 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { removeDeadlineDocumentFiles } from '@/hooks/useDeadlineDocuments';
+import { getTemplateReminderOffsets } from '@/lib/deadline-utils';
 import type { 
   Deadline, 
   DeadlineCategory, 
   ConsequenceLevel, 
-  RecurrencePattern 
+  DeadlineState,
+  RecurrencePattern,
+  BusinessDayRoll,
 } from '@/lib/deadline-utils';
 
 export interface CreateDeadlineInput {
@@ -17,21 +22,87 @@ export interface CreateDeadlineInput {
   due_date: string;
   consequence_level: ConsequenceLevel;
   organization_id?: string | null;
+  reminder_offsets?: number[] | null;
   
   // Recurrence
   recurrence?: RecurrencePattern;
   recurrence_interval_days?: number;
+  recurrence_rule?: string | null;
   auto_renew?: boolean;
   
+  // Weekend/holiday adjustment
+  business_day_roll?: BusinessDayRoll;
+  holiday_calendar?: string;
+  
   // A/E/C fields
   renewal_instructions?: string;
   estimated_cost?: number;
   reference_number?: string;
   issuing_authority?: string;
+  project?: string | null;
+}
+
+export interface ReassignDeadlineInput {
+  id: string;
+  assignee_id: string;
+  backup_assignee_ids: string[];
+  // Set when a personal deadline is handed to a teammate
+  organization_id?: string;
 }
 
 export interface UpdateDeadlineInput extends Partial<CreateDeadlineInput> {
   id: string;
+  // Saved with the new version in the deadline's history
+  change_reason?: string | null;
+}
+
+export interface ImportDeadlinesInput {
+  inputs: CreateDeadlineInput[];
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ImportDeadlinesResult {
+  inserted: number;
+  // Positions in `inputs` that were not inserted
+  failed: { index: number; message: string }[];
+}
+
+// Rows per insert request during bulk imports
+const IMPORT_BATCH_SIZE = 50;
+
+// Matches check_deadline_rate_limit, which rejects inserts past 100 deadlines in 24 hours
+export const DAILY_DEADLINE_LIMIT = 100;
+
+// Create the next occurrence of a completed recurring deadline (idempotent server-side)
+async function generateNextOccurrence(deadlineId: string): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-recurring-deadlines`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token}`,
+      },
+      body: JSON.stringify({ deadlineId }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create next occurrence');
+  }
+
+  const { createdIds } = await response.json();
+  return createdIds?.[0] ?? null;
+}
+
+export interface UpdateDeadlineStateInput {
+  id: string;
+  state: DeadlineState;
+  completed_at?: string;
+  completion_notes?: string;
 }
 
 export function useDeadlines() {
@@ -107,7 +178,19 @@ export function useDeadlines() {
   });
 
   const updateDeadline = useMutation({
-    mutationFn: async ({ id, ...input }: UpdateDeadlineInput) => {
+    mutationFn: async ({ id, change_reason, ...input }: UpdateDeadlineInput) => {
+      // The reason isn't a deadline column; the RPC records it with the new version
+      if (change_reason) {
+        const { data, error } = await supabase.rpc('update_deadline_with_reason', {
+          _deadline_id: id,
+          _changes: input as Json,
+          _reason: change_reason,
+        });
+
+        if (error) throw error;
+        return data;
+      }
+
       const { data, error } = await supabase
         .from('deadlines')
         .update(input)
@@ -134,8 +217,104 @@ export function useDeadlines() {
     },
   });
 
+  // Hand a deadline to a teammate. Only the creator or an organization admin may
+  // do this; the validate_deadline_assignees trigger checks membership.
+  const reassignDeadline = useMutation({
+    mutationFn: async ({ id, ...assignment }: ReassignDeadlineInput) => {
+      const { data, error } = await supabase
+        .from('deadlines')
+        .update(assignment)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Deadline;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deadlines'] });
+      toast({
+        title: 'Deadline reassigned',
+        description: 'Reminders will go to the new assignee.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error reassigning deadline',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Move a deadline through its lifecycle. Completion details are stamped
+  // (and cleared on reopen) by the set_deadline_completion trigger.
+  const updateDeadlineState = useMutation({
+    mutationFn: async ({ id, state, completed_at, completion_notes }: UpdateDeadlineStateInput) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const isClosing = state === 'completed' || state === 'waived';
+
+      const { data, error } = await supabase
+        .from('deadlines')
+        .update({
+          state,
+          completed_at: isClosing ? completed_at ?? null : null,
+          completion_notes: isClosing ? completion_notes || null : null,
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const deadline = data as Deadline;
+      const isRecurring = deadline.auto_renew && deadline.recurrence && deadline.recurrence !== 'none';
+      let nextOccurrenceId: string | null = null;
+
+      if (state === 'completed' && isRecurring) {
+        try {
+          nextOccurrenceId = await generateNextOccurrence(deadline.id);
+        } catch (err) {
+          // The scheduled sweep picks up anything missed here
+          console.error('Error creating next occurrence:', err);
+        }
+      }
+
+      return { deadline, nextOccurrenceId };
+    },
+    onSuccess: ({ deadline, nextOccurrenceId }, { state }) => {
+      queryClient.invalidateQueries({ queryKey: ['deadlines'] });
+      if (nextOccurrenceId) {
+        toast({
+          title: 'Deadline completed',
+          description: `The next "${deadline.title}" deadline has been added.`,
+        });
+        return;
+      }
+
+      const messages: Record<DeadlineState, { title: string; description: string }> = {
+        open: { title: 'Deadline reopened', description: 'Reminders will resume for this deadline.' },
+        in_progress: { title: 'Marked in progress', description: 'Keep going, reminders are still on.' },
+        submitted: { title: 'Marked as submitted', description: 'Waiting on the issuing authority.' },
+        completed: { title: 'Deadline completed', description: 'Nice work. Reminders have stopped.' },
+        waived: { title: 'Deadline waived', description: 'Reminders have stopped for this deadline.' },
+      };
+      toast(messages[state]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating deadline',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const deleteDeadline = useMutation({
     mutationFn: async (id: string) => {
+      await removeDeadlineDocumentFiles(id);
+
       const { error } = await supabase
         .from('deadlines')
         .delete()
@@ -168,6 +347,7 @@ export function useDeadlines() {
       subcategory?: string;
       default_consequence_level: ConsequenceLevel;
       typical_recurrence: RecurrencePattern;
+      typical_lead_time_days?: number;
       issuing_authority_template?: string;
       renewal_instructions_template?: string;
       due_date: string; // User must provide this
@@ -188,6 +368,10 @@ export function useDeadlines() {
           user_id: user.id,
           recurrence: template.typical_recurrence,
           auto_renew: template.typical_recurrence !== 'none',
+          reminder_offsets: getTemplateReminderOffsets(
+            template.typical_lead_time_days,
+            template.default_consequence_level
+          ),
           issuing_authority: template.issuing_authority_template,
           renewal_instructions: template.renewal_instructions_template,
           reference_number: template.reference_number,
@@ -215,14 +399,99 @@ export function useDeadlines() {
     },
   });
 
+  // Bulk insert for calendar and spreadsheet imports. Rows are inserted in batches;
+  // a failed batch is reported per row and the import carries on, except when the
+  // daily creation limit is hit, which fails every remaining row.
+  const importDeadlines = useMutation({
+    mutationFn: async ({ inputs, onProgress }: ImportDeadlinesInput): Promise<ImportDeadlinesResult> => {
+      if (!user) throw new Error('Not authenticated');
+
+      const result: ImportDeadlinesResult = { inserted: 0, failed: [] };
+
+      for (let start = 0; start < inputs.length; start += IMPORT_BATCH_SIZE) {
+        const batch = inputs.slice(start, start + IMPORT_BATCH_SIZE);
+
+        const { error } = await supabase
+          .from('deadlines')
+          .insert(batch.map((input) => ({
+            ...input,
+            user_id: user.id,
+            recurrence: input.recurrence || 'none',
+            auto_renew: input.auto_renew || false,
+          })));
+
+        if (error) {
+          const rateLimited = error.message.includes('Rate limit');
+          const message = rateLimited
+            ? 'Daily limit of new deadlines reached. Import this row again tomorrow.'
+            : error.message;
+          const failedUntil = rateLimited ? inputs.length : start + batch.length;
+          for (let index = start; index < failedUntil; index++) {
+            result.failed.push({ index, message });
+          }
+          if (rateLimited) break;
+        } else {
+          result.inserted += batch.length;
+        }
+
+        onProgress?.(Math.min(start + batch.length, inputs.length), inputs.length);
+      }
+
+      return result;
+    },
+    onSuccess: ({ inserted, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['deadlines'] });
+      toast({
+        title: failed.length > 0 ? 'Import finished with errors' : 'Deadlines imported',
+        description: `${inserted} deadline${inserted !== 1 ? 's' : ''} added${
+          failed.length > 0 ? `, ${failed.length} could not be imported` : ''
+        }.`,
+        variant: failed.length > 0 && inserted === 0 ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error importing deadlines',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   return {
     deadlines: deadlinesQuery.data ?? [],
     isLoading: deadlinesQuery.isLoading,
     error: deadlinesQuery.error,
     createDeadline,
     updateDeadline,
+    reassignDeadline,
+    updateDeadlineState,
     deleteDeadline,
     createFromTemplate,
+    importDeadlines,
     refetch: deadlinesQuery.refetch,
   };
 }
+
+// Deadlines the user can still create before check_deadline_rate_limit rejects inserts
+export function useDailyDeadlineAllowance(enabled: boolean = true) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['deadline-daily-allowance', user?.id],
+    queryFn: async () => {
+      if (!user) return 0;
+
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const { count, error } = await supabase
+        .from('deadlines')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .gt('created_at', since);
+
+      if (error) throw error;
+      return Math.max(0, DAILY_DEADLINE_LIMIT - (count ?? 0));
+    },
+    enabled: !!user && enabled,
+  });
+}
@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ConsequenceLevel, EscalationStep } from '@/lib/deadline-utils';
+
+export interface EscalationPolicy {
+  id: string;
+  organization_id: string;
+  consequence_level: ConsequenceLevel;
+  is_active: boolean;
+  escalation_steps: EscalationStep[];
+  created_at: string;
+  updated_at: string;
+}
+
+export function useEscalationPolicies() {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const policiesQuery = useQuery({
+    queryKey: ['escalation-policies', profile?.organization_id],
+    queryFn: async () => {
+      if (!profile?.organization_id) return [];
+
+      const { data, error } = await supabase
+        .from('escalation_policies')
+        .select('*, escalation_steps(days_before_due, target, admin_id)')
+        .eq('organization_id', profile.organization_id);
+
+      if (error) {
+        console.error('Error fetching escalation policies:', error);
+        return [];
+      }
+
+      return (data as EscalationPolicy[]).map((policy) => ({
+        ...policy,
+        escalation_steps: [...policy.escalation_steps].sort((a, b) => b.days_before_due - a.days_before_due),
+      }));
+    },
+    enabled: !!profile?.organization_id,
+  });
+
+  // Replace the policy for a consequence level, steps included
+  const savePolicy = useMutation({
+    mutationFn: async ({
+      consequenceLevel,
+      isActive,
+      steps,
+    }: {
+      consequenceLevel: ConsequenceLevel;
+      isActive: boolean;
+      steps: EscalationStep[];
+    }) => {
+      if (!profile?.organization_id) throw new Error('No organization');
+
+      const { error } = await supabase.rpc('save_escalation_policy', {
+        _organization_id: profile.organization_id,
+        _consequence_level: consequenceLevel,
+        _is_active: isActive,
+        _steps: steps.map((step) => ({
+          days_before_due: step.days_before_due,
+          target: step.target,
+          admin_id: step.target === 'org_admin' ? step.admin_id : null,
+        })),
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['escalation-policies'] });
+      toast({
+        title: 'Escalation policy saved',
+        description: 'Unacknowledged deadlines will escalate on the new schedule.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving escalation policy',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    policies: policiesQuery.data ?? [],
+    isLoading: policiesQuery.isLoading,
+    savePolicy,
+  };
+}
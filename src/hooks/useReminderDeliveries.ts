@@ -0,0 +1,66 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export type ReminderChannel = 'email' | 'sms' | 'slack' | 'teams';
+export type ReminderDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface ReminderDelivery {
+  id: string;
+  deadline_id: string;
+  recipient_id: string | null;
+  recipient: string;
+  channel: ReminderChannel;
+  offset_days: number;
+  due_date: string;
+  status: ReminderDeliveryStatus;
+  provider_message_id: string | null;
+  error: string | null;
+  attempts: number;
+  escalated: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export function useReminderDeliveries(deadlineId?: string) {
+  const deliveriesQuery = useQuery({
+    queryKey: ['reminder-deliveries', deadlineId],
+    queryFn: async () => {
+      if (!deadlineId) return [];
+
+      const { data, error } = await supabase
+        .from('reminder_deliveries')
+        .select('*')
+        .eq('deadline_id', deadlineId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as ReminderDelivery[];
+    },
+    enabled: !!deadlineId,
+  });
+
+  return {
+    deliveries: deliveriesQuery.data ?? [],
+    isLoading: deliveriesQuery.isLoading,
+    error: deliveriesQuery.error,
+    refetch: deliveriesQuery.refetch,
+  };
+}
+
+// Delivery status labels
+export const DELIVERY_STATUS_LABELS: Record<ReminderDeliveryStatus, string> = {
+  pending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+// Channel labels
+export const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  slack: 'Slack',
+  teams: 'Teams',
+};
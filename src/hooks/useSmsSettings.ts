@@ -0,0 +1,188 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+// Only ever readable by the user themselves
+export interface PhoneSettings {
+  phone_number: string | null;
+  phone_verified_at: string | null;
+  sms_enabled: boolean;
+}
+
+type VerifyPhoneRequest =
+  | { action: 'send'; phoneNumber: string }
+  | { action: 'confirm'; code: string };
+
+async function callVerifyPhone(body: VerifyPhoneRequest): Promise<{ phoneNumber: string }> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/verify-phone`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Phone verification failed');
+  }
+
+  return response.json();
+}
+
+export function useSmsSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // No row until a number has been verified
+  const phoneSettingsQuery = useQuery({
+    queryKey: ['phone-settings', user?.id],
+    queryFn: async () => {
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('phone_settings')
+        .select('phone_number, phone_verified_at, sms_enabled')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching phone settings:', error);
+        return null;
+      }
+
+      return data as PhoneSettings | null;
+    },
+    enabled: !!user,
+  });
+
+  // SMS sent this calendar month
+  const usageQuery = useQuery({
+    queryKey: ['sms-usage', user?.id],
+    queryFn: async () => {
+      if (!user) return 0;
+
+      const { data, error } = await supabase
+        .from('usage_stats')
+        .select('sms_sent')
+        .eq('user_id', user.id)
+        .eq('period_start', format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching SMS usage:', error);
+        return 0;
+      }
+
+      return data?.sms_sent ?? 0;
+    },
+    enabled: !!user,
+  });
+
+  const sendCode = useMutation({
+    mutationFn: (phoneNumber: string) => callVerifyPhone({ action: 'send', phoneNumber }),
+    onSuccess: ({ phoneNumber }) => {
+      toast({
+        title: 'Verification code sent',
+        description: `Enter the 6-digit code we texted to ${phoneNumber}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error sending code',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const confirmCode = useMutation({
+    mutationFn: (code: string) => callVerifyPhone({ action: 'confirm', code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['phone-settings'] });
+      toast({
+        title: 'Phone number verified',
+        description: 'SMS alerts are on for critical and high-priority deadlines.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Verification failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateSmsEnabled = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (!user) throw new Error('Not signed in');
+
+      const { error } = await supabase
+        .from('phone_settings')
+        .update({ sms_enabled: enabled })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, enabled) => {
+      queryClient.invalidateQueries({ queryKey: ['phone-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['sms-usage'] });
+      toast({
+        title: enabled ? 'SMS alerts on' : 'SMS alerts off',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating SMS alerts',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Clearing the number also drops its verification (enforced by the database)
+  const removePhoneNumber = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error('Not signed in');
+
+      const { error } = await supabase
+        .from('phone_settings')
+        .update({ phone_number: null })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['phone-settings'] });
+      toast({
+        title: 'Phone number removed',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error removing phone number',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    phoneSettings: phoneSettingsQuery.data ?? null,
+    smsSentThisMonth: usageQuery.data ?? 0,
+    sendCode,
+    confirmCode,
+    updateSmsEnabled,
+    removePhoneNumber,
+  };
+}
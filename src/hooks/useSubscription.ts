@@ -28,13 +28,15 @@ export interface PlanLimits {
   sms: number;
   recurring: boolean;
   integrations: boolean;
+  api: boolean;
+  documents: boolean;
 }
 
 const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
-  free: { deadlines: 5, team_members: 1, sms: 0, recurring: false, integrations: false },
-  pro: { deadlines: -1, team_members: 1, sms: 50, recurring: true, integrations: true },
-  team: { deadlines: -1, team_members: 10, sms: 200, recurring: true, integrations: true },
-  enterprise: { deadlines: -1, team_members: -1, sms: -1, recurring: true, integrations: true },
+  free: { deadlines: 5, team_members: 1, sms: 0, recurring: false, integrations: false, api: false, documents: false },
+  pro: { deadlines: -1, team_members: 1, sms: 50, recurring: true, integrations: true, api: false, documents: true },
+  team: { deadlines: -1, team_members: 10, sms: 200, recurring: true, integrations: true, api: false, documents: true },
+  enterprise: { deadlines: -1, team_members: -1, sms: -1, recurring: true, integrations: true, api: true, documents: true },
 };
 
 export function useSubscription() {
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { DeadlineState } from '@/lib/deadline-utils';
 
 export type UserRole = 'individual' | 'org_admin' | 'org_member';
 export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'expired';
@@ -10,6 +11,7 @@ export interface Organization {
   id: string;
   name: string;
   industry: string | null;
+  timezone: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -22,6 +24,19 @@ export interface TeamMember {
   created_at: string;
 }
 
+// An org deadline that has to be handed over before its owner leaves
+export interface OffboardingDeadline {
+  id: string;
+  title: string;
+  due_date: string;
+  state: DeadlineState;
+  user_id: string;
+  assignee_id: string | null;
+}
+
+// Deadline id -> remaining member who takes it over
+export type DeadlineReassignments = Record<string, string>;
+
 export interface Invitation {
   id: string;
   email: string;
@@ -136,12 +151,12 @@ export function useTeam() {
 
   // Update organization
   const updateOrganization = useMutation({
-    mutationFn: async ({ name, industry }: { name: string; industry?: string }) => {
+    mutationFn: async ({ name, industry, timezone }: { name: string; industry?: string; timezone?: string | null }) => {
       if (!profile?.organization_id) throw new Error('No organization');
 
       const { error } = await supabase
         .from('organizations')
-        .update({ name, industry })
+        .update({ name, industry, timezone })
         .eq('id', profile.organization_id);
 
       if (error) throw error;
@@ -260,22 +275,23 @@ export function useTeam() {
 
   // Remove team member
   const removeMember = useMutation({
-    mutationFn: async (memberId: string) => {
+    mutationFn: async ({ memberId, reassignments }: { memberId: string; reassignments: DeadlineReassignments }) => {
       if (!isOrgAdmin) throw new Error('Only admins can remove members');
       if (memberId === user?.id) throw new Error('Cannot remove yourself');
 
-      const { error } = await supabase
-        .from('profiles')
-        .update({ organization_id: null, role: 'individual' })
-        .eq('id', memberId);
+      const { error } = await supabase.rpc('offboard_member', {
+        _member_id: memberId,
+        _reassignments: reassignments,
+      });
 
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['team-members'] });
+      queryClient.invalidateQueries({ queryKey: ['deadlines'] });
       toast({
         title: 'Member removed',
-        description: 'The team member has been removed from the organization.',
+        description: 'The team member has been removed and their deadlines reassigned.',
       });
     },
     onError: (error: Error) => {
@@ -289,14 +305,17 @@ export function useTeam() {
 
   // Leave organization
   const leaveOrganization = useMutation({
-    mutationFn: async () => {
-      const { data, error } = await supabase.rpc('leave_organization');
+    mutationFn: async (reassignments: DeadlineReassignments) => {
+      const { data, error } = await supabase.rpc('leave_organization', {
+        _reassignments: reassignments,
+      });
       if (error) throw error;
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['organization'] });
       queryClient.invalidateQueries({ queryKey: ['team-members'] });
+      queryClient.invalidateQueries({ queryKey: ['deadlines'] });
       toast({
         title: 'Left organization',
         description: 'You are no longer part of the organization.',
@@ -328,6 +347,35 @@ export function useTeam() {
   };
 }
 
+// Org deadlines a member created or is assigned to, listed before they're
+// removed so each one can be handed to someone who's staying
+export function useOffboardingDeadlines(memberId: string | null) {
+  const { profile } = useAuth();
+
+  const deadlinesQuery = useQuery({
+    queryKey: ['offboarding-deadlines', profile?.organization_id, memberId],
+    queryFn: async () => {
+      if (!profile?.organization_id || !memberId) return [];
+
+      const { data, error } = await supabase
+        .from('deadlines')
+        .select('id, title, due_date, state, user_id, assignee_id')
+        .eq('organization_id', profile.organization_id)
+        .or(`user_id.eq.${memberId},assignee_id.eq.${memberId}`)
+        .order('due_date', { ascending: true });
+
+      if (error) throw error;
+      return data as OffboardingDeadline[];
+    },
+    enabled: !!profile?.organization_id && !!memberId,
+  });
+
+  return {
+    deadlines: deadlinesQuery.data ?? [],
+    isLoading: deadlinesQuery.isLoading,
+  };
+}
+
 // Hook for accepting invitations (used on invite acceptance page)
 export function useInvitation(token: string | undefined) {
   const { toast } = useToast();
@@ -0,0 +1,205 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { WebhookEventType } from '@/lib/deadline-utils';
+
+export interface WebhookEndpoint {
+  id: string;
+  organization_id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  secret: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  replayed_from: string | null;
+  created_at: string;
+}
+
+export type WebhookEndpointInput = Pick<WebhookEndpoint, 'url' | 'description' | 'events'>;
+
+// Deliveries shown in an endpoint's log
+const DELIVERY_LOG_LIMIT = 50;
+
+export function useWebhookEndpoints() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const isOrgAdmin = profile?.role === 'org_admin';
+
+  const endpointsQuery = useQuery({
+    queryKey: ['webhook-endpoints', profile?.organization_id],
+    queryFn: async () => {
+      if (!profile?.organization_id) return [];
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .eq('organization_id', profile.organization_id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching webhook endpoints:', error);
+        return [];
+      }
+
+      return data as WebhookEndpoint[];
+    },
+    enabled: !!profile?.organization_id && isOrgAdmin,
+  });
+
+  const createEndpoint = useMutation({
+    mutationFn: async (input: WebhookEndpointInput) => {
+      if (!user || !profile?.organization_id) throw new Error('No organization');
+
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .insert({
+          ...input,
+          organization_id: profile.organization_id,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints'] });
+      toast({
+        title: 'Endpoint added',
+        description: 'Subscribed events will be sent to this URL.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error adding endpoint',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateEndpoint = useMutation({
+    mutationFn: async ({ id, ...changes }: Partial<WebhookEndpointInput> & { id: string; is_active?: boolean }) => {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating endpoint',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteEndpoint = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints'] });
+      toast({
+        title: 'Endpoint removed',
+        description: 'Events will no longer be sent there.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error removing endpoint',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const replayDelivery = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const { error } = await supabase.rpc('replay_webhook_delivery', { _delivery_id: deliveryId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] });
+      toast({
+        title: 'Delivery queued',
+        description: 'The event will be sent again within a minute.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error replaying delivery',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    endpoints: endpointsQuery.data ?? [],
+    isLoading: endpointsQuery.isLoading,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    replayDelivery,
+  };
+}
+
+// Most recent deliveries for one endpoint
+export function useWebhookDeliveries(endpointId: string | null) {
+  const query = useQuery({
+    queryKey: ['webhook-deliveries', endpointId],
+    queryFn: async () => {
+      if (!endpointId) return [];
+
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('endpoint_id', endpointId)
+        .order('created_at', { ascending: false })
+        .limit(DELIVERY_LOG_LIMIT);
+
+      if (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        return [];
+      }
+
+      return data as WebhookDelivery[];
+    },
+    enabled: !!endpointId,
+  });
+
+  return {
+    deliveries: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
@@ -14,42 +14,401 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          organization_id: string | null
+          rate_limit_per_minute: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          organization_id?: string | null
+          rate_limit_per_minute?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          organization_id?: string | null
+          rate_limit_per_minute?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after_data: Json | null
+          before_data: Json | null
+          created_at: string
+          details: Json
+          entity_id: string | null
+          entity_type: string
+          id: string
+          organization_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after_data?: Json | null
+          before_data?: Json | null
+          created_at?: string
+          details?: Json
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+          organization_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after_data?: Json | null
+          before_data?: Json | null
+          created_at?: string
+          details?: Json
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          last_accessed_at: string | null
+          organization_id: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          organization_id?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          organization_id?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_webhooks: {
+        Row: {
+          categories: Database["public"]["Enums"]["deadline_category"][]
+          consequence_levels: Database["public"]["Enums"]["consequence_level"][]
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          organization_id: string
+          provider: Database["public"]["Enums"]["chat_provider"]
+          updated_at: string
+          webhook_url: string
+        }
+        Insert: {
+          categories?: Database["public"]["Enums"]["deadline_category"][]
+          consequence_levels?: Database["public"]["Enums"]["consequence_level"][]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          organization_id: string
+          provider: Database["public"]["Enums"]["chat_provider"]
+          updated_at?: string
+          webhook_url: string
+        }
+        Update: {
+          categories?: Database["public"]["Enums"]["deadline_category"][]
+          consequence_levels?: Database["public"]["Enums"]["consequence_level"][]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          organization_id?: string
+          provider?: Database["public"]["Enums"]["chat_provider"]
+          updated_at?: string
+          webhook_url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_webhooks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deadline_document_versions: {
+        Row: {
+          created_at: string
+          document_id: string
+          file_name: string
+          id: string
+          mime_type: string | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          file_name: string
+          id?: string
+          mime_type?: string | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          file_name?: string
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deadline_document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "deadline_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deadline_documents: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          deadline_id: string
+          id: string
+          name: string
+          status: Database["public"]["Enums"]["document_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          deadline_id: string
+          id?: string
+          name: string
+          status?: Database["public"]["Enums"]["document_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          deadline_id?: string
+          id?: string
+          name?: string
+          status?: Database["public"]["Enums"]["document_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deadline_documents_deadline_id_fkey"
+            columns: ["deadline_id"]
+            isOneToOne: false
+            referencedRelation: "deadlines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deadline_versions: {
+        Row: {
+          change_reason: string | null
+          changed_by: string | null
+          changed_fields: string[]
+          created_at: string
+          data: Json
+          deadline_id: string
+          id: string
+          version: number
+        }
+        Insert: {
+          change_reason?: string | null
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          data: Json
+          deadline_id: string
+          id?: string
+          version: number
+        }
+        Update: {
+          change_reason?: string | null
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          data?: Json
+          deadline_id?: string
+          id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deadline_versions_deadline_id_fkey"
+            columns: ["deadline_id"]
+            isOneToOne: false
+            referencedRelation: "deadlines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deadlines: {
         Row: {
+          assignee_id: string | null
+          auto_renew: boolean | null
+          backup_assignee_ids: string[]
+          business_day_roll: Database["public"]["Enums"]["business_day_roll"]
           category: Database["public"]["Enums"]["deadline_category"]
+          completed_at: string | null
+          completed_by: string | null
+          completion_notes: string | null
           consequence_level: Database["public"]["Enums"]["consequence_level"]
           created_at: string
           description: string | null
           due_date: string
+          estimated_cost: number | null
+          holiday_calendar: string
           id: string
+          issuing_authority: string | null
           last_reminder_sent: string | null
           organization_id: string | null
+          parent_deadline_id: string | null
+          project: string | null
+          recurrence: Database["public"]["Enums"]["recurrence_pattern"] | null
+          recurrence_interval_days: number | null
+          recurrence_rule: string | null
+          reference_number: string | null
+          reminder_offsets: number[] | null
+          renewal_instructions: string | null
+          state: Database["public"]["Enums"]["deadline_state"]
+          subcategory: string | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          assignee_id?: string | null
+          auto_renew?: boolean | null
+          backup_assignee_ids?: string[]
+          business_day_roll?: Database["public"]["Enums"]["business_day_roll"]
           category?: Database["public"]["Enums"]["deadline_category"]
+          completed_at?: string | null
+          completed_by?: string | null
+          completion_notes?: string | null
           consequence_level?: Database["public"]["Enums"]["consequence_level"]
           created_at?: string
           description?: string | null
           due_date: string
+          estimated_cost?: number | null
+          holiday_calendar?: string
           id?: string
+          issuing_authority?: string | null
           last_reminder_sent?: string | null
           organization_id?: string | null
+          parent_deadline_id?: string | null
+          project?: string | null
+          recurrence?: Database["public"]["Enums"]["recurrence_pattern"] | null
+          recurrence_interval_days?: number | null
+          recurrence_rule?: string | null
+          reference_number?: string | null
+          reminder_offsets?: number[] | null
+          renewal_instructions?: string | null
+          state?: Database["public"]["Enums"]["deadline_state"]
+          subcategory?: string | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          assignee_id?: string | null
+          auto_renew?: boolean | null
+          backup_assignee_ids?: string[]
+          business_day_roll?: Database["public"]["Enums"]["business_day_roll"]
           category?: Database["public"]["Enums"]["deadline_category"]
+          completed_at?: string | null
+          completed_by?: string | null
+          completion_notes?: string | null
           consequence_level?: Database["public"]["Enums"]["consequence_level"]
           created_at?: string
           description?: string | null
           due_date?: string
+          estimated_cost?: number | null
+          holiday_calendar?: string
           id?: string
+          issuing_authority?: string | null
           last_reminder_sent?: string | null
           organization_id?: string | null
+          parent_deadline_id?: string | null
+          project?: string | null
+          recurrence?: Database["public"]["Enums"]["recurrence_pattern"] | null
+          recurrence_interval_days?: number | null
+          recurrence_rule?: string | null
+          reference_number?: string | null
+          reminder_offsets?: number[] | null
+          renewal_instructions?: string | null
+          state?: Database["public"]["Enums"]["deadline_state"]
+          subcategory?: string | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -62,6 +421,178 @@ export type Database = {
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deadlines_parent_deadline_id_fkey"
+            columns: ["parent_deadline_id"]
+            isOneToOne: false
+            referencedRelation: "deadlines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      digest_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          deadline_count: number
+          error: string | null
+          frequency: Database["public"]["Enums"]["digest_frequency"]
+          id: string
+          period_start: string
+          provider_message_id: string | null
+          recipient: string
+          status: Database["public"]["Enums"]["reminder_delivery_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          deadline_count?: number
+          error?: string | null
+          frequency: Database["public"]["Enums"]["digest_frequency"]
+          id?: string
+          period_start: string
+          provider_message_id?: string | null
+          recipient: string
+          status?: Database["public"]["Enums"]["reminder_delivery_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          deadline_count?: number
+          error?: string | null
+          frequency?: Database["public"]["Enums"]["digest_frequency"]
+          id?: string
+          period_start?: string
+          provider_message_id?: string | null
+          recipient?: string
+          status?: Database["public"]["Enums"]["reminder_delivery_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      escalation_policies: {
+        Row: {
+          consequence_level: Database["public"]["Enums"]["consequence_level"]
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          consequence_level?: Database["public"]["Enums"]["consequence_level"]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          consequence_level?: Database["public"]["Enums"]["consequence_level"]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_policies_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalation_steps: {
+        Row: {
+          admin_id: string | null
+          created_at: string
+          days_before_due: number
+          id: string
+          policy_id: string
+          target: Database["public"]["Enums"]["escalation_target"]
+        }
+        Insert: {
+          admin_id?: string | null
+          created_at?: string
+          days_before_due: number
+          id?: string
+          policy_id: string
+          target: Database["public"]["Enums"]["escalation_target"]
+        }
+        Update: {
+          admin_id?: string | null
+          created_at?: string
+          days_before_due?: number
+          id?: string
+          policy_id?: string
+          target?: Database["public"]["Enums"]["escalation_target"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_steps_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          organization_id: string
+          role: Database["public"]["Enums"]["user_role"]
+          status: Database["public"]["Enums"]["invitation_status"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["user_role"]
+          status?: Database["public"]["Enums"]["invitation_status"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          status?: Database["public"]["Enums"]["invitation_status"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       organizations: {
@@ -70,6 +601,7 @@ export type Database = {
           id: string
           industry: string | null
           name: string
+          timezone: string | null
           updated_at: string
         }
         Insert: {
@@ -77,6 +609,7 @@ export type Database = {
           id?: string
           industry?: string | null
           name: string
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
@@ -84,10 +617,79 @@ export type Database = {
           id?: string
           industry?: string | null
           name?: string
+          timezone?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      phone_settings: {
+        Row: {
+          created_at: string
+          phone_number: string | null
+          phone_verified_at: string | null
+          sms_enabled: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          phone_number?: string | null
+          phone_verified_at?: string | null
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          phone_number?: string | null
+          phone_verified_at?: string | null
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          id: string
+          phone_number: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone_number: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone_number?: string
+          user_id?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -95,7 +697,10 @@ export type Database = {
           id: string
           name: string
           organization_id: string | null
+          reminder_delivery_mode: Database["public"]["Enums"]["reminder_delivery_mode"]
+          reminder_hour: number
           role: Database["public"]["Enums"]["user_role"]
+          timezone: string | null
           updated_at: string
         }
         Insert: {
@@ -104,7 +709,10 @@ export type Database = {
           id: string
           name: string
           organization_id?: string | null
+          reminder_delivery_mode?: Database["public"]["Enums"]["reminder_delivery_mode"]
+          reminder_hour?: number
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
@@ -113,7 +721,10 @@ export type Database = {
           id?: string
           name?: string
           organization_id?: string | null
+          reminder_delivery_mode?: Database["public"]["Enums"]["reminder_delivery_mode"]
+          reminder_hour?: number
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -126,22 +737,312 @@ export type Database = {
           },
         ]
       }
+      reminder_deliveries: {
+        Row: {
+          attempts: number
+          channel: Database["public"]["Enums"]["reminder_channel"]
+          created_at: string
+          deadline_id: string
+          due_date: string
+          error: string | null
+          escalated: boolean
+          id: string
+          offset_days: number
+          provider_message_id: string | null
+          recipient: string
+          recipient_id: string | null
+          status: Database["public"]["Enums"]["reminder_delivery_status"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          channel?: Database["public"]["Enums"]["reminder_channel"]
+          created_at?: string
+          deadline_id: string
+          due_date: string
+          error?: string | null
+          escalated?: boolean
+          id?: string
+          offset_days: number
+          provider_message_id?: string | null
+          recipient: string
+          recipient_id?: string | null
+          status?: Database["public"]["Enums"]["reminder_delivery_status"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          channel?: Database["public"]["Enums"]["reminder_channel"]
+          created_at?: string
+          deadline_id?: string
+          due_date?: string
+          error?: string | null
+          escalated?: boolean
+          id?: string
+          offset_days?: number
+          provider_message_id?: string | null
+          recipient?: string
+          recipient_id?: string | null
+          status?: Database["public"]["Enums"]["reminder_delivery_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_deliveries_deadline_id_fkey"
+            columns: ["deadline_id"]
+            isOneToOne: false
+            referencedRelation: "deadlines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_stats: {
+        Row: {
+          created_at: string
+          deadlines_count: number
+          id: string
+          organization_id: string | null
+          period_end: string
+          period_start: string
+          reminders_sent: number
+          sms_sent: number
+          team_members: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deadlines_count?: number
+          id?: string
+          organization_id?: string | null
+          period_end: string
+          period_start: string
+          reminders_sent?: number
+          sms_sent?: number
+          team_members?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deadlines_count?: number
+          id?: string
+          organization_id?: string | null
+          period_end?: string
+          period_start?: string
+          reminders_sent?: number
+          sms_sent?: number
+          team_members?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_stats_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          id: string
+          last_error: string | null
+          last_response_status: number | null
+          next_attempt_at: string
+          payload: Json
+          replayed_from: string | null
+          status: Database["public"]["Enums"]["webhook_delivery_status"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          id?: string
+          last_error?: string | null
+          last_response_status?: number | null
+          next_attempt_at?: string
+          payload: Json
+          replayed_from?: string | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          last_response_status?: number | null
+          next_attempt_at?: string
+          payload?: Json
+          replayed_from?: string | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replayed_from_fkey"
+            columns: ["replayed_from"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          events: string[]
+          id: string
+          is_active: boolean
+          organization_id: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          events: string[]
+          id?: string
+          is_active?: boolean
+          organization_id: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          organization_id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      can_edit_deadline: {
+        Args: { _deadline_id: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_sms_quota: { Args: { _user_id: string }; Returns: boolean }
+      claim_webhook_deliveries: {
+        Args: { _lease_seconds: number; _limit: number }
+        Returns: Database["public"]["Tables"]["webhook_deliveries"]["Row"][]
+      }
+      consume_api_rate_limit: { Args: { _api_key_id: string }; Returns: number }
+      create_api_key: {
+        Args: { _name: string; _organization_id?: string }
+        Returns: string
+      }
+      current_actor_id: { Args: never; Returns: string }
+      deadline_version_data: {
+        Args: { _deadline: Database["public"]["Tables"]["deadlines"]["Row"] }
+        Returns: Json
+      }
+      enqueue_webhook_event: {
+        Args: { _data: Json; _event_type: string; _organization_id: string }
+        Returns: number
+      }
+      get_status_webhook_deadlines: {
+        Args: never
+        Returns: {
+          deadline: Json
+          has_mark: boolean
+          last_status: string
+          timezone: string
+        }[]
+      }
       get_user_org: { Args: { _user_id: string }; Returns: string }
+      has_api_access: { Args: { _user_id: string }; Returns: boolean }
       is_org_admin: {
         Args: { _org_id: string; _user_id: string }
         Returns: boolean
       }
+      is_valid_timezone: { Args: { _tz: string }; Returns: boolean }
+      leave_organization: {
+        Args: { _reassignments?: Json }
+        Returns: boolean
+      }
+      offboard_member: {
+        Args: {
+          _acting_user_id?: string
+          _member_id: string
+          _reassignments?: Json
+        }
+        Returns: number
+      }
+      org_has_integrations: { Args: { _org_id: string }; Returns: boolean }
+      regenerate_calendar_feed: {
+        Args: { _organization_id?: string }
+        Returns: string
+      }
+      release_sms_quota: { Args: { _user_id: string }; Returns: undefined }
+      replay_webhook_delivery: { Args: { _delivery_id: string }; Returns: string }
+      save_escalation_policy: {
+        Args: {
+          _consequence_level: Database["public"]["Enums"]["consequence_level"]
+          _is_active: boolean
+          _organization_id: string
+          _steps: Json
+        }
+        Returns: string
+      }
+      update_deadline_with_reason: {
+        Args: { _changes: Json; _deadline_id: string; _reason: string }
+        Returns: Database["public"]["Tables"]["deadlines"]["Row"]
+      }
       user_belongs_to_org: {
         Args: { _org_id: string; _user_id: string }
         Returns: boolean
       }
     }
     Enums: {
+      business_day_roll: "none" | "next" | "previous"
+      chat_provider: "slack" | "teams"
       consequence_level: "low" | "medium" | "high" | "critical"
       deadline_category:
         | "license"
@@ -149,7 +1050,30 @@ export type Database = {
         | "contract"
         | "personal"
         | "other"
+      deadline_state:
+        | "open"
+        | "in_progress"
+        | "submitted"
+        | "completed"
+        | "waived"
+      digest_frequency: "daily" | "weekly"
+      document_status: "current" | "superseded"
+      escalation_target: "owner" | "org_admin" | "all_admins"
+      invitation_status: "pending" | "accepted" | "declined" | "expired"
+      recurrence_pattern:
+        | "none"
+        | "monthly"
+        | "quarterly"
+        | "semi_annual"
+        | "annual"
+        | "biennial"
+        | "custom"
+        | "rrule"
+      reminder_channel: "email" | "sms" | "slack" | "teams"
+      reminder_delivery_mode: "immediate" | "daily" | "weekly" | "hybrid"
+      reminder_delivery_status: "pending" | "sent" | "failed"
       user_role: "individual" | "org_admin" | "org_member"
+      webhook_delivery_status: "pending" | "succeeded" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -277,6 +1201,8 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      business_day_roll: ["none", "next", "previous"],
+      chat_provider: ["slack", "teams"],
       consequence_level: ["low", "medium", "high", "critical"],
       deadline_category: [
         "license",
@@ -285,7 +1211,32 @@ export const Constants = {
         "personal",
         "other",
       ],
+      deadline_state: [
+        "open",
+        "in_progress",
+        "submitted",
+        "completed",
+        "waived",
+      ],
+      digest_frequency: ["daily", "weekly"],
+      document_status: ["current", "superseded"],
+      escalation_target: ["owner", "org_admin", "all_admins"],
+      invitation_status: ["pending", "accepted", "declined", "expired"],
+      recurrence_pattern: [
+        "none",
+        "monthly",
+        "quarterly",
+        "semi_annual",
+        "annual",
+        "biennial",
+        "custom",
+        "rrule",
+      ],
+      reminder_channel: ["email", "sms", "slack", "teams"],
+      reminder_delivery_mode: ["immediate", "daily", "weekly", "hybrid"],
+      reminder_delivery_status: ["pending", "sent", "failed"],
       user_role: ["individual", "org_admin", "org_member"],
+      webhook_delivery_status: ["pending", "succeeded", "failed"],
     },
   },
 } as const
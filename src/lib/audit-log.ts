@@ -0,0 +1,90 @@
+import { toCsv } from '@/lib/csv';
+import { getTodayDate } from '@/lib/deadline-utils';
+
+export type AuditEntityType = 'deadline' | 'profile' | 'invitation' | 'subscription';
+
+type JsonObject = Record<string, unknown>;
+
+export interface AuditLogEntry {
+  id: string;
+  organization_id: string;
+  // NULL for billing webhooks and scheduled jobs
+  actor_id: string | null;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  // Only the changed fields for updates; the whole row for creates and deletes
+  before_data: JsonObject | null;
+  after_data: JsonObject | null;
+  details: JsonObject;
+  created_at: string;
+}
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  deadline: 'Deadlines',
+  profile: 'Members',
+  invitation: 'Invitations',
+  subscription: 'Billing',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  'deadline.created': 'Created deadline',
+  'deadline.updated': 'Updated deadline',
+  'deadline.deleted': 'Deleted deadline',
+  'invitation.created': 'Invited',
+  'invitation.updated': 'Updated invitation',
+  'invitation.deleted': 'Canceled invitation',
+  'subscription.created': 'Started subscription',
+  'subscription.updated': 'Updated subscription',
+  'subscription.deleted': 'Ended subscription',
+  'member.joined': 'Joined',
+  'member.role_changed': 'Changed the role of',
+  'member.left': 'Left the organization',
+  'member.removed': 'Removed a member',
+};
+
+export function getAuditActionLabel(action: string): string {
+  return ACTION_LABELS[action] ?? action;
+}
+
+// The deadline title, invitee email or member name recorded with the entry
+export function getAuditEntryLabel(entry: AuditLogEntry): string | null {
+  const label = entry.details?.label;
+  return typeof label === 'string' ? label : null;
+}
+
+// Fields that differ between before and after, in a stable order
+export function getChangedFields(entry: AuditLogEntry): string[] {
+  const keys = new Set([...Object.keys(entry.before_data ?? {}), ...Object.keys(entry.after_data ?? {})]);
+  return [...keys].sort();
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+export function getAuditExportFilename(): string {
+  return `audit-log-${getTodayDate()}.csv`;
+}
+
+// One row per entry with the raw before/after JSON, for compliance reviews
+export function exportAuditLogToCsv(entries: AuditLogEntry[], getActorName: (actorId: string | null) => string): string {
+  return toCsv([
+    ['Timestamp', 'Actor', 'Actor ID', 'Action', 'Entity', 'Entity ID', 'Name', 'Changed Fields', 'Before', 'After', 'Details'],
+    ...entries.map((entry) => [
+      entry.created_at,
+      getActorName(entry.actor_id),
+      entry.actor_id,
+      entry.action,
+      entry.entity_type,
+      entry.entity_id,
+      getAuditEntryLabel(entry),
+      getChangedFields(entry).join(' '),
+      entry.before_data ? JSON.stringify(entry.before_data) : null,
+      entry.after_data ? JSON.stringify(entry.after_data) : null,
+      JSON.stringify(entry.details ?? {}),
+    ]),
+  ]);
+}
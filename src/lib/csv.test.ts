@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('title,notes\r\n"Lease, office","Said ""renew""\nby mail"\r\n')).toEqual([
+      ['title', 'notes'],
+      ['Lease, office', 'Said "renew"\nby mail'],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('title;due\nPermit;2026-12-01')).toEqual([['title', 'due'], ['Permit', '2026-12-01']]);
+    expect(parseCsv('title\tdue\nPermit\t2026-12-01')).toEqual([['title', 'due'], ['Permit', '2026-12-01']]);
+  });
+
+  it('drops the byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFtitle\n\n,\nPermit')).toEqual([['title'], ['Permit']]);
+  });
+
+  it('keeps empty trailing fields', () => {
+    expect(parseCsv('a,b,c\n1,,')).toEqual([['a', 'b', 'c'], ['1', '', '']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(toCsv([['Title', 'Cost', 'Notes'], ['Lease, office', 1200, null], ['Say "hi"', undefined, 'a\nb']])).toBe(
+      'Title,Cost,Notes\r\n"Lease, office",1200,\r\n"Say ""hi""",,"a\nb"\r\n'
+    );
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [['a', 'b'], ['x,y', '"z"\r\nw']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { parseCsv } from './csv';
+import {
+  EXPORT_COLUMNS,
+  exportDeadlinesToCsv,
+  exportDeadlinesToJson,
+  exportDeadlinesToXlsx,
+  getExportFilename,
+} from './deadline-export';
+import { setActiveTimeZone, type Deadline } from './deadline-utils';
+
+const OPEN: Deadline = {
+  id: 'd1',
+  title: 'Contractor license, Travis County',
+  category: 'license',
+  due_date: '2026-11-01',
+  consequence_level: 'high',
+  user_id: 'user',
+  state: 'open',
+  business_day_roll: 'next',
+  recurrence: 'custom',
+  recurrence_interval_days: 90,
+  auto_renew: true,
+  reminder_offsets: [7, 30],
+  estimated_cost: 250,
+  description: 'Renew "online"\nat the portal',
+  created_at: '2026-01-05T10:00:00Z',
+  updated_at: '2026-01-05T10:00:00Z',
+};
+
+const COMPLETED: Deadline = {
+  ...OPEN,
+  id: 'd2',
+  title: 'Old permit',
+  state: 'completed',
+  completed_at: '2026-10-01T15:30:00Z',
+  recurrence: 'none',
+  recurrence_interval_days: null,
+  business_day_roll: 'none',
+  reminder_offsets: null,
+  description: null,
+};
+
+// Only the clock is faked so exceljs can still schedule its own work
+beforeAll(() => {
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-10-19T12:00:00Z') });
+  setActiveTimeZone('UTC');
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+function column(row: (string | number | null)[], header: string) {
+  return row[EXPORT_COLUMNS.findIndex((c) => c.header === header)];
+}
+
+describe('getExportFilename', () => {
+  it('includes today and the format', () => {
+    expect(getExportFilename('xlsx')).toBe('deadlines-2026-10-19.xlsx');
+  });
+});
+
+describe('exportDeadlinesToCsv', () => {
+  it('writes a header row and one row per deadline', () => {
+    const [headers, open] = parseCsv(exportDeadlinesToCsv([OPEN, COMPLETED]));
+
+    expect(headers).toEqual(EXPORT_COLUMNS.map((c) => c.header));
+    expect(column(open, 'Title')).toBe('Contractor license, Travis County');
+    expect(column(open, 'Adjusted Due Date')).toBe('2026-11-02');
+    expect(column(open, 'Days Until Due')).toBe('14');
+    expect(column(open, 'Repeat Every (Days)')).toBe('90');
+    expect(column(open, 'Reminders')).toBe('30, 7 days before');
+    expect(column(open, 'Description')).toBe('Renew "online"\nat the portal');
+    expect(column(open, 'Created At')).toBe('2026-01-05');
+  });
+
+  it('leaves status and days until due empty for closed deadlines', () => {
+    const [, , completed] = parseCsv(exportDeadlinesToCsv([OPEN, COMPLETED]));
+
+    expect(column(completed, 'Days Until Due')).toBe('');
+    expect(column(completed, 'Status')).toBe('');
+    expect(column(completed, 'State')).toBe('Completed');
+    expect(column(completed, 'Completed At')).toBe('2026-10-01');
+    expect(column(completed, 'Reminders')).toBe('60, 14, 7, 3, 1 days before');
+  });
+});
+
+describe('exportDeadlinesToJson', () => {
+  it('keeps every stored field and adds the computed values', () => {
+    const data = JSON.parse(exportDeadlinesToJson([OPEN, COMPLETED]));
+
+    expect(data.exported_at).toBe('2026-10-19T12:00:00.000Z');
+    expect(data.count).toBe(2);
+    expect(data.deadlines[0]).toMatchObject({ ...OPEN, computed: { adjusted_due_date: '2026-11-02', days_until_due: 14, reminder_schedule: [30, 7] } });
+    expect(data.deadlines[1].computed).toMatchObject({ days_until_due: null, status: null, recurrence_description: 'One-time' });
+  });
+});
+
+describe('exportDeadlinesToXlsx', () => {
+  it('writes dates as date cells at UTC midnight', async () => {
+    const { default: ExcelJS } = await import('exceljs');
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await exportDeadlinesToXlsx([OPEN]));
+
+    const sheet = workbook.getWorksheet('Deadlines')!;
+    const dueColumn = EXPORT_COLUMNS.findIndex((c) => c.header === 'Due Date') + 1;
+    expect(sheet.rowCount).toBe(2);
+    expect(sheet.getRow(1).getCell(1).value).toBe('Title');
+    expect(sheet.getRow(2).getCell(dueColumn).value).toEqual(new Date('2026-11-01T00:00:00Z'));
+    expect(sheet.getRow(2).getCell(dueColumn).numFmt).toBe('yyyy-mm-dd');
+  });
+});
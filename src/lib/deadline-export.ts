@@ -0,0 +1,127 @@
+import { toCsv } from '@/lib/csv';
+import {
+  Deadline,
+  formatReminderSchedule,
+  getAdjustedDueDate,
+  getCategoryLabel,
+  getConsequenceLabel,
+  getDaysUntilDue,
+  getDeadlineStatus,
+  getRecurrenceDescription,
+  getReminderSchedule,
+  getStateLabel,
+  getStatusLabel,
+  getTodayDate,
+  isDeadlineClosed,
+} from '@/lib/deadline-utils';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+type CellValue = string | number | null;
+
+interface ExportColumn {
+  header: string;
+  // Column width in characters for spreadsheets
+  width: number;
+  value: (deadline: Deadline) => CellValue;
+  // Rendered as a date cell in spreadsheets
+  isDate?: boolean;
+}
+
+// Status and days until due only mean something while a deadline is still open
+function openOnly<T>(deadline: Deadline, value: () => T): T | null {
+  return isDeadlineClosed(deadline) ? null : value();
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Title', width: 36, value: (d) => d.title },
+  { header: 'Category', width: 12, value: (d) => getCategoryLabel(d.category) },
+  { header: 'Subcategory', width: 16, value: (d) => d.subcategory ?? null },
+  { header: 'Due Date', width: 12, value: (d) => d.due_date, isDate: true },
+  { header: 'Adjusted Due Date', width: 12, value: (d) => getAdjustedDueDate(d.due_date, d), isDate: true },
+  { header: 'Days Until Due', width: 10, value: (d) => openOnly(d, () => getDaysUntilDue(d.due_date, d)) },
+  { header: 'Status', width: 12, value: (d) => openOnly(d, () => getStatusLabel(getDeadlineStatus(d.due_date, d.consequence_level, d))) },
+  { header: 'State', width: 18, value: (d) => getStateLabel(d.state ?? 'open') },
+  { header: 'Consequence', width: 12, value: (d) => getConsequenceLabel(d.consequence_level) },
+  { header: 'Recurrence', width: 24, value: (d) => getRecurrenceDescription(d) },
+  { header: 'Repeat Every (Days)', width: 10, value: (d) => (d.recurrence === 'custom' ? d.recurrence_interval_days ?? null : null) },
+  { header: 'Auto Renew', width: 8, value: (d) => (d.auto_renew ? 'Yes' : 'No') },
+  { header: 'Reminders', width: 24, value: (d) => formatReminderSchedule(getReminderSchedule(d.consequence_level, d.reminder_offsets)) },
+  { header: 'Issuing Authority', width: 24, value: (d) => d.issuing_authority ?? null },
+  { header: 'Reference Number', width: 18, value: (d) => d.reference_number ?? null },
+  { header: 'Entity / Project', width: 24, value: (d) => d.project ?? null },
+  { header: 'Estimated Cost', width: 12, value: (d) => d.estimated_cost ?? null },
+  { header: 'Renewal Instructions', width: 36, value: (d) => d.renewal_instructions ?? null },
+  { header: 'Description', width: 36, value: (d) => d.description ?? null },
+  { header: 'Completed At', width: 12, value: (d) => d.completed_at?.slice(0, 10) ?? null, isDate: true },
+  { header: 'Completion Notes', width: 36, value: (d) => d.completion_notes ?? null },
+  { header: 'Created At', width: 12, value: (d) => d.created_at.slice(0, 10), isDate: true },
+  { header: 'ID', width: 38, value: (d) => d.id },
+];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+};
+
+export function getExportFilename(format: ExportFormat): string {
+  return `deadlines-${getTodayDate()}.${format}`;
+}
+
+export function exportDeadlinesToCsv(deadlines: Deadline[]): string {
+  return toCsv([
+    EXPORT_COLUMNS.map((column) => column.header),
+    ...deadlines.map((deadline) => EXPORT_COLUMNS.map((column) => column.value(deadline))),
+  ]);
+}
+
+// Every stored field, plus the computed values shown in the app, so the file can be
+// read back without losing recurrence rules, reminder offsets or A/E/C details
+export function exportDeadlinesToJson(deadlines: Deadline[]): string {
+  return JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      count: deadlines.length,
+      deadlines: deadlines.map((deadline) => ({
+        ...deadline,
+        computed: {
+          adjusted_due_date: getAdjustedDueDate(deadline.due_date, deadline),
+          days_until_due: openOnly(deadline, () => getDaysUntilDue(deadline.due_date, deadline)),
+          status: openOnly(deadline, () => getDeadlineStatus(deadline.due_date, deadline.consequence_level, deadline)),
+          consequence_label: getConsequenceLabel(deadline.consequence_level),
+          recurrence_description: getRecurrenceDescription(deadline),
+          reminder_schedule: getReminderSchedule(deadline.consequence_level, deadline.reminder_offsets),
+        },
+      })),
+    },
+    null,
+    2
+  );
+}
+
+export async function exportDeadlinesToXlsx(deadlines: Deadline[]): Promise<ArrayBuffer> {
+  // Loaded on demand; the library is large and only needed here
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('Deadlines', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = EXPORT_COLUMNS.map((column) => ({
+    header: column.header,
+    width: column.width,
+    style: column.isDate ? { numFmt: 'yyyy-mm-dd' } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: EXPORT_COLUMNS.length } };
+
+  for (const deadline of deadlines) {
+    sheet.addRow(EXPORT_COLUMNS.map((column) => {
+      const value = column.value(deadline);
+      // Dates are written at UTC midnight so Excel shows the same calendar day everywhere
+      return column.isDate && typeof value === 'string' ? new Date(`${value}T00:00:00Z`) : value;
+    }));
+  }
+
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+}
@@ -1,25 +1,133 @@
-import { differenceInDays, parseISO, startOfDay, addDays, addMonths, addYears } from 'date-fns';
+import { parseISO, startOfDay, subDays } from 'date-fns';
+import { getNextOccurrence } from '../../supabase/functions/_shared/recurrence.ts';
+import {
+  DEFAULT_HOLIDAY_CALENDAR,
+  adjustToBusinessDay,
+} from '../../supabase/functions/_shared/business-days.ts';
+import {
+  type DeadlineStatus,
+  STATUS_LABELS,
+  STATUS_PRIORITY,
+  formatDaysUntil,
+  getStatusForDaysUntilDue,
+  groupDeadlinesByStatus as groupByStatus,
+} from '../../supabase/functions/_shared/deadline-status.ts';
+import {
+  getCalendarDaysBetween,
+  getTodayInTimeZone,
+  resolveTimeZone,
+} from '../../supabase/functions/_shared/timezone.ts';
+import { describeRRule, isValidRRule } from '../../supabase/functions/_shared/rrule.ts';
+import {
+  type DeadlineCategory,
+  CATEGORY_LABELS,
+  groupDeadlinesByCategory as groupByCategory,
+} from '../../supabase/functions/_shared/categories.ts';
+import {
+  REMINDER_SCHEDULES,
+  MAX_REMINDER_OFFSET_DAYS,
+  getReminderSchedule as resolveReminderSchedule,
+  normalizeReminderOffsets,
+} from '../../supabase/functions/_shared/reminder-schedule.ts';
+
+export {
+  URGENCY_THRESHOLDS,
+  getUrgencyMessage,
+} from '../../supabase/functions/_shared/deadline-status.ts';
+export type { DeadlineStatus } from '../../supabase/functions/_shared/deadline-status.ts';
+
+export {
+  REMINDER_SCHEDULES,
+  MAX_REMINDER_OFFSET_DAYS,
+  MAX_REMINDER_OFFSETS,
+  formatReminderSchedule,
+  normalizeReminderOffsets,
+} from '../../supabase/functions/_shared/reminder-schedule.ts';
+
+export {
+  BUSINESS_DAYS,
+  describeRRule,
+  expandRRule,
+  formatRRule,
+  isValidRRule,
+  parseRRule,
+} from '../../supabase/functions/_shared/rrule.ts';
+export type { RRule, RRuleFrequency, RRuleWeekday } from '../../supabase/functions/_shared/rrule.ts';
+
+export {
+  DEFAULT_HOLIDAY_CALENDAR,
+  HOLIDAY_CALENDARS,
+  getHolidayName,
+} from '../../supabase/functions/_shared/business-days.ts';
+
+export {
+  DEFAULT_REMINDER_HOUR,
+  getStartOfDayInTimeZone,
+  isValidTimeZone,
+} from '../../supabase/functions/_shared/timezone.ts';
+
+export {
+  DEFAULT_ESCALATION_STEPS,
+  MAX_ESCALATION_DAYS,
+  MIN_ESCALATION_DAYS,
+  describeEscalationStep,
+  formatEscalationTiming,
+} from '../../supabase/functions/_shared/escalation.ts';
+export type { EscalationStep, EscalationTarget } from '../../supabase/functions/_shared/escalation.ts';
+
+export {
+  CHAT_PROVIDER_LABELS,
+  isValidWebhookUrl,
+} from '../../supabase/functions/_shared/chat.ts';
+export type { ChatProvider } from '../../supabase/functions/_shared/chat.ts';
+
+export {
+  WEBHOOK_ENTERED_STATUSES,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  isPublicWebhookUrl,
+} from '../../supabase/functions/_shared/webhooks.ts';
+export type { WebhookEventType } from '../../supabase/functions/_shared/webhooks.ts';
+
+export {
+  SMS_CONSEQUENCE_LEVELS,
+  formatPhoneNumber,
+  normalizePhoneNumber,
+} from '../../supabase/functions/_shared/sms.ts';
+
+export { DEADLINE_CATEGORIES } from '../../supabase/functions/_shared/categories.ts';
+export type { DeadlineCategory } from '../../supabase/functions/_shared/categories.ts';
+
+export {
+  MAX_BACKUP_ASSIGNEES,
+  getAssigneeId,
+  isAssignedTo,
+} from '../../supabase/functions/_shared/assignment.ts';
+
+export { DOCUMENT_TYPE_LABELS } from '../../supabase/functions/_shared/certificate-extraction.ts';
+export type {
+  CertificateDocumentType,
+  CertificateExtraction,
+  CertificateInsurer,
+  CertificateLimit,
+  CertificatePolicy,
+} from '../../supabase/functions/_shared/certificate-extraction.ts';
 
 export type ConsequenceLevel = 'low' | 'medium' | 'high' | 'critical';
-export type DeadlineStatus = 'safe' | 'upcoming' | 'warning' | 'urgent' | 'critical' | 'overdue';
-export type DeadlineCategory = 'license' | 'insurance' | 'contract' | 'personal' | 'other';
-export type RecurrencePattern = 'none' | 'monthly' | 'quarterly' | 'semi_annual' | 'annual' | 'biennial' | 'custom';
+export type RecurrencePattern = 'none' | 'monthly' | 'quarterly' | 'semi_annual' | 'annual' | 'biennial' | 'custom' | 'rrule';
+export type DeadlineState = 'open' | 'in_progress' | 'submitted' | 'completed' | 'waived';
+export type BusinessDayRoll = 'none' | 'next' | 'previous';
+export type ReminderDeliveryMode = 'immediate' | 'daily' | 'weekly' | 'hybrid';
 
-// Reminder windows based on consequence level (in days)
-export const REMINDER_WINDOWS: Record<ConsequenceLevel, number> = {
-  low: 14,
-  medium: 30,
-  high: 60,
-  critical: 90,
-};
+// States in which a deadline no longer needs attention or reminders
+export const CLOSED_STATES: DeadlineState[] = ['completed', 'waived'];
 
-// More granular urgency thresholds (in days)
-export const URGENCY_THRESHOLDS = {
-  overdue: 0,
-  critical: 3,
-  urgent: 7,
-  warning: 14,
-  upcoming: 30,
+// Earliest reminder window based on consequence level (in days)
+export const REMINDER_WINDOWS: Record<ConsequenceLevel, number> = {
+  low: Math.max(...REMINDER_SCHEDULES.low),
+  medium: Math.max(...REMINDER_SCHEDULES.medium),
+  high: Math.max(...REMINDER_SCHEDULES.high),
+  critical: Math.max(...REMINDER_SCHEDULES.critical),
 };
 
 export interface Deadline {
@@ -32,11 +140,26 @@ export interface Deadline {
   consequence_level: ConsequenceLevel;
   user_id: string;
   organization_id?: string | null;
+  // Who's responsible; set to the creator unless reassigned
+  assignee_id?: string | null;
+  backup_assignee_ids?: string[];
   last_reminder_sent?: string | null;
+  reminder_offsets?: number[] | null;
+  
+  // Weekend/holiday adjustment
+  business_day_roll?: BusinessDayRoll;
+  holiday_calendar?: string;
+  
+  // Lifecycle fields
+  state?: DeadlineState;
+  completed_at?: string | null;
+  completed_by?: string | null;
+  completion_notes?: string | null;
   
   // Recurrence fields
   recurrence?: RecurrencePattern;
   recurrence_interval_days?: number | null;
+  recurrence_rule?: string | null;
   parent_deadline_id?: string | null;
   auto_renew?: boolean;
   
@@ -45,26 +168,73 @@ export interface Deadline {
   estimated_cost?: number | null;
   reference_number?: string | null;
   issuing_authority?: string | null;
+  project?: string | null;
   
   created_at: string;
   updated_at: string;
 }
 
-export function getDaysUntilDue(dueDate: string): number {
-  const today = startOfDay(new Date());
-  const due = startOfDay(parseISO(dueDate));
-  return differenceInDays(due, today);
+export function isDeadlineClosed(deadline: Pick<Deadline, 'state'>): boolean {
+  return CLOSED_STATES.includes(deadline.state ?? 'open');
 }
 
-export function getDeadlineStatus(dueDate: string, consequenceLevel?: ConsequenceLevel): DeadlineStatus {
-  const daysUntilDue = getDaysUntilDue(dueDate);
-  
-  if (daysUntilDue < 0) return 'overdue';
-  if (daysUntilDue <= URGENCY_THRESHOLDS.critical) return 'critical';
-  if (daysUntilDue <= URGENCY_THRESHOLDS.urgent) return 'urgent';
-  if (daysUntilDue <= URGENCY_THRESHOLDS.warning) return 'warning';
-  if (daysUntilDue <= URGENCY_THRESHOLDS.upcoming) return 'upcoming';
-  return 'safe';
+export function getActiveDeadlines(deadlines: Deadline[]): Deadline[] {
+  return deadlines.filter((deadline) => !isDeadlineClosed(deadline));
+}
+
+export const TIMEZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'Eastern Time' },
+  { value: 'America/Chicago', label: 'Central Time' },
+  { value: 'America/Denver', label: 'Mountain Time' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+  { value: 'America/Puerto_Rico', label: 'Atlantic Time (Puerto Rico)' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+export function getBrowserTimeZone(): string {
+  return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+// Zone used for "today" in every days-until-due calculation. Defaults to the
+// browser's zone; AuthContext switches it to the profile's zone once loaded.
+let activeTimeZone = getBrowserTimeZone();
+
+export function setActiveTimeZone(...candidates: (string | null | undefined)[]): void {
+  activeTimeZone = resolveTimeZone(...candidates, getBrowserTimeZone());
+}
+
+export function getActiveTimeZone(): string {
+  return activeTimeZone;
+}
+
+export function getTodayDate(): string {
+  return getTodayInTimeZone(activeTimeZone);
+}
+
+export type DueDateAdjustment = Pick<Deadline, 'business_day_roll' | 'holiday_calendar'>;
+
+// The date a deadline is actually due once weekends and holidays are rolled
+export function getAdjustedDueDate(dueDate: string, adjustment?: DueDateAdjustment | null): string {
+  return adjustToBusinessDay(
+    dueDate,
+    adjustment?.business_day_roll,
+    adjustment?.holiday_calendar || DEFAULT_HOLIDAY_CALENDAR
+  );
+}
+
+export function getDaysUntilDue(dueDate: string, adjustment?: DueDateAdjustment | null): number {
+  return getCalendarDaysBetween(getTodayDate(), getAdjustedDueDate(dueDate, adjustment));
+}
+
+export function getDeadlineStatus(
+  dueDate: string,
+  consequenceLevel?: ConsequenceLevel,
+  adjustment?: DueDateAdjustment | null
+): DeadlineStatus {
+  return getStatusForDaysUntilDue(getDaysUntilDue(dueDate, adjustment));
 }
 
 export function getStatusColor(status: DeadlineStatus): string {
@@ -117,14 +287,7 @@ export function getConsequenceBadgeClasses(level: ConsequenceLevel): string {
 }
 
 export function getCategoryLabel(category: DeadlineCategory): string {
-  const labels: Record<DeadlineCategory, string> = {
-    license: 'License',
-    insurance: 'Insurance',
-    contract: 'Contract',
-    personal: 'Personal',
-    other: 'Other',
-  };
-  return labels[category];
+  return CATEGORY_LABELS[category];
 }
 
 export function getCategoryIcon(category: DeadlineCategory): string {
@@ -149,15 +312,33 @@ export function getConsequenceLabel(level: ConsequenceLevel): string {
 }
 
 export function getStatusLabel(status: DeadlineStatus): string {
-  const labels: Record<DeadlineStatus, string> = {
-    safe: 'On Track',
-    upcoming: 'Upcoming',
-    warning: 'Due Soon',
-    urgent: 'Urgent',
-    critical: 'Critical',
-    overdue: 'Overdue',
+  return STATUS_LABELS[status];
+}
+
+export function getStateLabel(state: DeadlineState): string {
+  const labels: Record<DeadlineState, string> = {
+    open: 'Open',
+    in_progress: 'In Progress',
+    submitted: 'Awaiting Authority',
+    completed: 'Completed',
+    waived: 'Waived',
   };
-  return labels[status];
+  return labels[state];
+}
+
+export function getStateBadgeClasses(state: DeadlineState): string {
+  switch (state) {
+    case 'open':
+      return 'bg-muted text-muted-foreground border-border';
+    case 'in_progress':
+      return 'bg-blue-500/20 text-blue-500 border-blue-500/30';
+    case 'submitted':
+      return 'bg-purple-500/20 text-purple-500 border-purple-500/30';
+    case 'completed':
+      return 'bg-green-500/20 text-green-500 border-green-500/30';
+    case 'waived':
+      return 'bg-gray-500/20 text-gray-500 border-gray-500/30';
+  }
 }
 
 export function getRecurrenceLabel(recurrence: RecurrencePattern): string {
@@ -169,33 +350,69 @@ export function getRecurrenceLabel(recurrence: RecurrencePattern): string {
     annual: 'Annual',
     biennial: 'Every 2 Years',
     custom: 'Custom',
+    rrule: 'Custom Rule',
   };
   return labels[recurrence];
 }
 
-export function getNextDueDate(currentDueDate: string, recurrence: RecurrencePattern, customDays?: number): Date {
-  const current = parseISO(currentDueDate);
-  
-  switch (recurrence) {
-    case 'monthly':
-      return addMonths(current, 1);
-    case 'quarterly':
-      return addMonths(current, 3);
-    case 'semi_annual':
-      return addMonths(current, 6);
-    case 'annual':
-      return addYears(current, 1);
-    case 'biennial':
-      return addYears(current, 2);
-    case 'custom':
-      return addDays(current, customDays || 365);
-    default:
-      return current;
+// Like getRecurrenceLabel, but spells out RRULE-based schedules
+export function getRecurrenceDescription(deadline: Pick<Deadline, 'recurrence' | 'recurrence_rule'>): string {
+  const recurrence = deadline.recurrence ?? 'none';
+  if (recurrence === 'rrule' && deadline.recurrence_rule && isValidRRule(deadline.recurrence_rule)) {
+    return describeRRule(deadline.recurrence_rule);
   }
+  return getRecurrenceLabel(recurrence);
+}
+
+// The series advances from the unadjusted date so rolled dates don't drift
+export function getNextDueDate(
+  currentDueDate: string,
+  recurrence: RecurrencePattern,
+  customDays?: number,
+  rule?: string | null,
+  adjustment?: DueDateAdjustment | null
+): Date {
+  const next = getNextOccurrence(currentDueDate, recurrence, customDays, rule);
+  return parseISO(getAdjustedDueDate(next ?? currentDueDate, adjustment));
+}
+
+export function getReminderSchedule(level: ConsequenceLevel, customOffsets?: number[] | null): number[] {
+  return resolveReminderSchedule(level, customOffsets);
+}
+
+// Seed a template's reminder offsets so the first reminder lands at its typical lead time
+export function getTemplateReminderOffsets(leadTimeDays: number | null | undefined, level: ConsequenceLevel): number[] | null {
+  const defaults = REMINDER_SCHEDULES[level];
+  if (!leadTimeDays || leadTimeDays < 1) return null;
+
+  const leadTime = Math.min(Math.round(leadTimeDays), MAX_REMINDER_OFFSET_DAYS);
+  if (leadTime === Math.max(...defaults)) return null;
+
+  return normalizeReminderOffsets([leadTime, ...defaults.filter((days) => days < leadTime)]);
+}
+
+// Upcoming reminder dates for a deadline, earliest first
+export function getUpcomingReminders(
+  dueDate: string,
+  level: ConsequenceLevel,
+  customOffsets?: number[] | null,
+  adjustment?: DueDateAdjustment | null
+): { days: number; date: Date }[] {
+  const due = startOfDay(parseISO(getAdjustedDueDate(dueDate, adjustment)));
+  const today = parseISO(getTodayDate());
+
+  return getReminderSchedule(level, customOffsets)
+    .map((days) => ({ days, date: subDays(due, days) }))
+    .filter(({ date }) => date > today);
 }
 
+// Active deadlines ordered by urgency, followed by closed ones (most recently due first)
 export function sortDeadlinesByUrgency(deadlines: Deadline[]): Deadline[] {
-  return [...deadlines].sort((a, b) => {
+  const closed = deadlines
+    .filter(isDeadlineClosed)
+    .sort((a, b) => getAdjustedDueDate(b.due_date, b).localeCompare(getAdjustedDueDate(a.due_date, a)));
+
+  const active = getActiveDeadlines(deadlines).sort((a, b) => {
     const statusOrder: Record<DeadlineStatus, number> = { 
       overdue: 0, 
       critical: 1, 
@@ -205,50 +422,28 @@ export function sortDeadlinesByUrgency(deadlines: Deadline[]): Deadline[] {
       safe: 5 
     };
     
-    const aStatus = getDeadlineStatus(a.due_date, a.consequence_level);
-    const bStatus = getDeadlineStatus(b.due_date, b.consequence_level);
+    const aStatus = getDeadlineStatus(a.due_date, a.consequence_level, a);
+    const bStatus = getDeadlineStatus(b.due_date, b.consequence_level, b);
     
     if (statusOrder[aStatus] !== statusOrder[bStatus]) {
       return statusOrder[aStatus] - statusOrder[bStatus];
     }
     
     // If same status, sort by due date
-    return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+    return getAdjustedDueDate(a.due_date, a).localeCompare(getAdjustedDueDate(b.due_date, b));
   });
+
+  return [...active, ...closed];
 }
 
 export function groupDeadlinesByStatus(deadlines: Deadline[]): Record<DeadlineStatus, Deadline[]> {
-  const groups: Record<DeadlineStatus, Deadline[]> = {
-    overdue: [],
-    critical: [],
-    urgent: [],
-    warning: [],
-    upcoming: [],
-    safe: [],
-  };
-  
-  for (const deadline of deadlines) {
-    const status = getDeadlineStatus(deadline.due_date, deadline.consequence_level);
-    groups[status].push(deadline);
-  }
-  
-  return groups;
+  return groupByStatus(getActiveDeadlines(deadlines), (deadline) =>
+    getDeadlineStatus(deadline.due_date, deadline.consequence_level, deadline)
+  );
 }
 
 export function groupDeadlinesByCategory(deadlines: Deadline[]): Record<DeadlineCategory, Deadline[]> {
-  const groups: Record<DeadlineCategory, Deadline[]> = {
-    license: [],
-    insurance: [],
-    contract: [],
-    personal: [],
-    other: [],
-  };
-  
-  for (const deadline of deadlines) {
-    groups[deadline.category].push(deadline);
-  }
-  
-  return groups;
+  return groupByCategory(deadlines);
 }
 
 export function getDeadlineCounts(deadlines: Deadline[]): {
@@ -260,8 +455,9 @@ export function getDeadlineCounts(deadlines: Deadline[]): {
   upcoming: number;
   safe: number;
 } {
+  const active = getActiveDeadlines(deadlines);
   const counts = {
-    total: deadlines.length,
+    total: active.length,
     overdue: 0,
     critical: 0,
     urgent: 0,
@@ -270,8 +466,8 @@ export function getDeadlineCounts(deadlines: Deadline[]): {
     safe: 0,
   };
   
-  for (const deadline of deadlines) {
-    const status = getDeadlineStatus(deadline.due_date, deadline.consequence_level);
+  for (const deadline of active) {
+    const status = getDeadlineStatus(deadline.due_date, deadline.consequence_level, deadline);
     counts[status]++;
   }
   
@@ -279,13 +475,12 @@ export function getDeadlineCounts(deadlines: Deadline[]): {
 }
 
 export function getOverallUrgency(deadlines: Deadline[]): DeadlineStatus {
-  if (deadlines.length === 0) return 'safe';
-  
-  const statusPriority: DeadlineStatus[] = ['overdue', 'critical', 'urgent', 'warning', 'upcoming', 'safe'];
+  const active = getActiveDeadlines(deadlines);
+  if (active.length === 0) return 'safe';
   
-  for (const status of statusPriority) {
-    for (const deadline of deadlines) {
-      if (getDeadlineStatus(deadline.due_date, deadline.consequence_level) === status) {
+  for (const status of STATUS_PRIORITY) {
+    for (const deadline of active) {
+      if (getDeadlineStatus(deadline.due_date, deadline.consequence_level, deadline) === status) {
         return status;
       }
     }
@@ -294,25 +489,6 @@ export function getOverallUrgency(deadlines: Deadline[]): DeadlineStatus {
   return 'safe';
 }
 
-export function getUrgencyMessage(status: DeadlineStatus, count: number): string {
-  const plural = count !== 1 ? 's' : '';
-  
-  switch (status) {
-    case 'overdue':
-      return `${count} overdue deadline${plural} need immediate attention`;
-    case 'critical':
-      return `${count} critical deadline${plural} due within 3 days`;
-    case 'urgent':
-      return `${count} urgent deadline${plural} due within 7 days`;
-    case 'warning':
-      return `${count} deadline${plural} due within 2 weeks`;
-    case 'upcoming':
-      return `${count} deadline${plural} approaching`;
-    case 'safe':
-      return 'All deadlines are on track';
-  }
-}
-
 export function formatCurrency(amount: number): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -322,17 +498,6 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-export function formatDaysUntilDue(dueDate: string): string {
-  const days = getDaysUntilDue(dueDate);
-  
-  if (days < 0) {
-    const absDays = Math.abs(days);
-    return `${absDays} day${absDays !== 1 ? 's' : ''} overdue`;
-  } else if (days === 0) {
-    return 'Due today';
-  } else if (days === 1) {
-    return 'Due tomorrow';
-  } else {
-    return `${days} days`;
-  }
+export function formatDaysUntilDue(dueDate: string, adjustment?: DueDateAdjustment | null): string {
+  return formatDaysUntil(getDaysUntilDue(dueDate, adjustment));
 }
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { guessDeadlineCategory, mapRRuleToRecurrence, parseIcsEvents } from './ics-import';
+
+const TODAY = '2026-10-19';
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('parseIcsEvents', () => {
+  it('rejects files that are not calendars', () => {
+    expect(() => parseIcsEvents('name,due date\n', TODAY)).toThrow('not an iCalendar');
+  });
+
+  it('reads one-time events sorted by date', () => {
+    const events = parseIcsEvents(
+      calendar(
+        ['UID:b', 'DTSTART;VALUE=DATE:20270301', 'SUMMARY:General liability policy renewal'],
+        [
+          'UID:a',
+          'DTSTART;TZID="America/New_York":20261201T090000',
+          'SUMMARY:Business licence\\, City of Austin',
+          'DESCRIPTION:Renew online\\nFee: $50 and',
+          '  more text',
+        ]
+      ),
+      TODAY
+    );
+
+    expect(events.map((event) => event.uid)).toEqual(['a', 'b']);
+    expect(events[0]).toMatchObject({
+      title: 'Business licence, City of Austin',
+      description: 'Renew online\nFee: $50 and more text',
+      due_date: '2026-12-01',
+      recurrence: 'none',
+      category: 'license',
+      isPast: false,
+    });
+    expect(events[1].category).toBe('insurance');
+  });
+
+  it('skips cancelled events, modified instances, duplicates and alarm properties', () => {
+    const events = parseIcsEvents(
+      calendar(
+        ['UID:a', 'DTSTART:20261201', 'SUMMARY:Lease ends', 'BEGIN:VALARM', 'DESCRIPTION:Reminder', 'END:VALARM'],
+        ['UID:a', 'DTSTART:20261202', 'SUMMARY:Lease ends (copy)'],
+        ['UID:b', 'DTSTART:20261203', 'SUMMARY:Cancelled', 'STATUS:CANCELLED'],
+        ['UID:c', 'DTSTART:20261204', 'SUMMARY:Moved', 'RECURRENCE-ID:20261204'],
+        ['UID:d', 'SUMMARY:No date']
+      ),
+      TODAY
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ title: 'Lease ends', description: null, due_date: '2026-12-01' });
+  });
+
+  it('moves recurring series to their next occurrence', () => {
+    const [event] = parseIcsEvents(
+      calendar(['UID:a', 'DTSTART;VALUE=DATE:20260115', 'SUMMARY:Payroll tax', 'RRULE:FREQ=MONTHLY;INTERVAL=3']),
+      TODAY
+    );
+
+    expect(event).toMatchObject({ due_date: '2027-01-15', recurrence: 'quarterly', recurrence_rule: null, isPast: false });
+  });
+
+  it('counts down COUNT for occurrences already passed', () => {
+    const [event] = parseIcsEvents(
+      calendar(['UID:a', 'DTSTART:20260801', 'SUMMARY:Filing', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=10']),
+      TODAY
+    );
+
+    expect(event.due_date).toBe('2026-11-01');
+    expect(event.recurrence).toBe('rrule');
+    expect(event.recurrence_rule).toContain('COUNT=4');
+  });
+
+  it('imports finished series as a past one-time event', () => {
+    const [event] = parseIcsEvents(
+      calendar(['UID:a', 'DTSTART:20200301', 'SUMMARY:Old audit', 'RRULE:FREQ=YEARLY;COUNT=2']),
+      TODAY
+    );
+
+    expect(event).toMatchObject({ due_date: '2020-03-01', recurrence: 'none', isPast: true });
+  });
+});
+
+describe('mapRRuleToRecurrence', () => {
+  it('maps simple rules onto built-in patterns', () => {
+    expect(mapRRuleToRecurrence('FREQ=YEARLY', '2026-03-01')).toEqual({ recurrence: 'annual' });
+    expect(mapRRuleToRecurrence('FREQ=MONTHLY;BYMONTHDAY=15', '2026-01-15')).toEqual({ recurrence: 'monthly' });
+    expect(mapRRuleToRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', '2026-10-19')).toEqual({
+      recurrence: 'custom',
+      recurrence_interval_days: 14,
+    });
+    expect(mapRRuleToRecurrence('FREQ=DAILY;INTERVAL=10', '2026-10-19')).toEqual({
+      recurrence: 'custom',
+      recurrence_interval_days: 10,
+    });
+  });
+
+  it('keeps other rules as custom RRULEs', () => {
+    expect(mapRRuleToRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-31').recurrence).toBe('rrule');
+    expect(mapRRuleToRecurrence('FREQ=YEARLY;UNTIL=20300101', '2026-01-31').recurrence).toBe('rrule');
+  });
+
+  it('ignores rules it cannot parse', () => {
+    expect(mapRRuleToRecurrence('FREQ=SOMETIMES', '2026-01-31')).toEqual({ recurrence: 'none' });
+  });
+});
+
+describe('guessDeadlineCategory', () => {
+  it('matches keywords in order', () => {
+    expect(guessDeadlineCategory("Driver's license renewal")).toBe('license');
+    expect(guessDeadlineCategory('Office lease')).toBe('contract');
+    expect(guessDeadlineCategory('Passport expires')).toBe('personal');
+    expect(guessDeadlineCategory('Team lunch')).toBe('other');
+  });
+});
@@ -0,0 +1,226 @@
+import { format, parseISO, subDays } from 'date-fns';
+import {
+  expandRRule,
+  formatRRule,
+  getTodayDate,
+  parseRRule,
+} from '@/lib/deadline-utils';
+import type { DeadlineCategory, RecurrencePattern, RRule } from '@/lib/deadline-utils';
+
+// An event from an uploaded .ics file, mapped onto deadline fields
+export interface IcsImportEvent {
+  uid: string;
+  title: string;
+  description: string | null;
+  // Next occurrence on or after today for recurring events, otherwise the event date
+  due_date: string;
+  recurrence: RecurrencePattern;
+  recurrence_interval_days?: number;
+  recurrence_rule?: string | null;
+  category: DeadlineCategory;
+  isPast: boolean;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Checked in order, so "driver's license" is a license rather than personal
+const CATEGORY_KEYWORDS: [DeadlineCategory, string[]][] = [
+  ['license', ['license', 'licence', 'permit', 'registration', 'cert', 'accreditation']],
+  ['insurance', ['insurance', 'policy', 'bond', 'coverage', 'premium', 'liability', "workers' comp", 'workers comp']],
+  ['contract', ['contract', 'agreement', 'lease', 'subscription', 'warranty', 'retainer']],
+  ['personal', ['passport', 'visa', 'birthday', 'anniversary', 'dentist', 'doctor', 'vehicle', 'car ']],
+];
+
+// Simple RRULEs with these frequencies and intervals map onto a built-in pattern
+const SIMPLE_PATTERNS: { freq: RRule['freq']; interval: number; pattern: RecurrencePattern }[] = [
+  { freq: 'MONTHLY', interval: 1, pattern: 'monthly' },
+  { freq: 'MONTHLY', interval: 3, pattern: 'quarterly' },
+  { freq: 'MONTHLY', interval: 6, pattern: 'semi_annual' },
+  { freq: 'MONTHLY', interval: 12, pattern: 'annual' },
+  { freq: 'MONTHLY', interval: 24, pattern: 'biennial' },
+  { freq: 'YEARLY', interval: 1, pattern: 'annual' },
+  { freq: 'YEARLY', interval: 2, pattern: 'biennial' },
+];
+
+export function guessDeadlineCategory(text: string): DeadlineCategory {
+  const haystack = ` ${text.toLowerCase()} `;
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (keywords.some((keyword) => new RegExp(`\\b${keyword}`).test(haystack))) {
+      return category;
+    }
+  }
+  return 'other';
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Continuation lines start with a space or tab
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(Boolean);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// DATE and DATE-TIME values both become a calendar date; times are dropped
+function parseDateValue(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// BYMONTH/BYMONTHDAY/BYDAY parts that only restate the start date (as Outlook writes them)
+function isImpliedByStart(rule: RRule, startDate: string): boolean {
+  const start = parseISO(startDate);
+  const weekday = (start.getDay() + 6) % 7;
+
+  if (rule.bySetPos?.length) return false;
+  if (rule.byMonth?.length && (rule.byMonth.length > 1 || rule.byMonth[0] !== start.getMonth() + 1)) return false;
+  if (rule.byMonthDay?.length && (rule.byMonthDay.length > 1 || rule.byMonthDay[0] !== start.getDate())) return false;
+  if (rule.byDay?.length) {
+    if (rule.freq !== 'WEEKLY' || rule.byDay.length > 1 || rule.byDay[0].weekday !== weekday) return false;
+  }
+  return true;
+}
+
+// Map an RRULE onto the closest RecurrencePattern. Anything beyond the built-in
+// patterns is kept as a custom rule.
+export function mapRRuleToRecurrence(
+  input: string,
+  startDate: string
+): Pick<IcsImportEvent, 'recurrence' | 'recurrence_interval_days' | 'recurrence_rule'> {
+  let rule: RRule;
+  try {
+    rule = parseRRule(input);
+  } catch {
+    return { recurrence: 'none' };
+  }
+
+  if (!rule.count && !rule.until && isImpliedByStart(rule, startDate)) {
+    const simple = SIMPLE_PATTERNS.find((p) => p.freq === rule.freq && p.interval === rule.interval);
+    if (simple) return { recurrence: simple.pattern };
+    if (rule.freq === 'DAILY') return { recurrence: 'custom', recurrence_interval_days: rule.interval };
+    if (rule.freq === 'WEEKLY') return { recurrence: 'custom', recurrence_interval_days: rule.interval * 7 };
+  }
+
+  return { recurrence: 'rrule', recurrence_rule: formatRRule(rule) };
+}
+
+// Move a series started in the past to its next occurrence, counting down COUNT
+// for the occurrences already behind it
+function getNextSeriesStart(
+  input: string,
+  startDate: string,
+  today: string
+): { due_date: string; recurrence_rule: string } | null {
+  const rule = parseRRule(input);
+  const yesterday = format(subDays(parseISO(today), 1), 'yyyy-MM-dd');
+  const [next] = startDate >= today ? [startDate] : expandRRule(rule, startDate, { after: yesterday, limit: 1 });
+  if (!next) return null;
+
+  if (!rule.count) {
+    return { due_date: next, recurrence_rule: formatRRule(rule) };
+  }
+
+  const passed = expandRRule(rule, startDate, { limit: rule.count }).filter((date) => date < next).length;
+  return { due_date: next, recurrence_rule: formatRRule({ ...rule, count: rule.count - passed }) };
+}
+
+function toImportEvent(properties: IcsProperty[], today: string): IcsImportEvent | null {
+  const get = (name: string) => properties.find((property) => property.name === name);
+
+  // Modified instances of a series and cancelled events aren't deadlines of their own
+  if (get('RECURRENCE-ID') || get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const startDate = get('DTSTART') ? parseDateValue(get('DTSTART')!.value) : null;
+  const title = unescapeText(get('SUMMARY')?.value ?? '').trim();
+  if (!startDate || !title) return null;
+
+  const description = unescapeText(get('DESCRIPTION')?.value ?? '').trim().slice(0, 2000) || null;
+  const categories = unescapeText(get('CATEGORIES')?.value ?? '');
+  const event: IcsImportEvent = {
+    uid: get('UID')?.value ?? `${title}-${startDate}`,
+    title: title.slice(0, 200),
+    description,
+    due_date: startDate,
+    recurrence: 'none',
+    category: guessDeadlineCategory([title, description, categories].filter(Boolean).join(' ')),
+    isPast: startDate < today,
+  };
+
+  const rrule = get('RRULE')?.value;
+  if (!rrule) return event;
+
+  const mapped = mapRRuleToRecurrence(rrule, startDate);
+  if (mapped.recurrence === 'none') return event;
+
+  const next = getNextSeriesStart(rrule, startDate, today);
+  // Finished series import as a one-time event on their start date
+  if (!next) return event;
+
+  return {
+    ...event,
+    ...mapped,
+    due_date: next.due_date,
+    recurrence_rule: mapped.recurrence === 'rrule' ? next.recurrence_rule : null,
+    isPast: false,
+  };
+}
+
+// Parse the VEVENTs of an .ics file, sorted by due date
+export function parseIcsEvents(text: string, today: string = getTodayDate()): IcsImportEvent[] {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error('This file is not an iCalendar (.ics) file');
+  }
+
+  const events = new Map<string, IcsImportEvent>();
+  let current: IcsProperty[] | null = null;
+  // Components nested in an event, such as VALARM, have properties of their own
+  let nested = 0;
+
+  for (const line of unfoldLines(text)) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+      nested = 0;
+    } else if (upper === 'END:VEVENT') {
+      const event = current ? toImportEvent(current, today) : null;
+      if (event && !events.has(event.uid)) events.set(event.uid, event);
+      current = null;
+    } else if (current && upper.startsWith('BEGIN:')) {
+      nested++;
+    } else if (current && upper.startsWith('END:')) {
+      nested--;
+    } else if (current && nested === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return [...events.values()].sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
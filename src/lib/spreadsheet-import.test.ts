@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildErrorReport,
+  guessColumnMapping,
+  parseImportDate,
+  planImport,
+  readSpreadsheet,
+} from './spreadsheet-import';
+import type { Deadline } from './deadline-utils';
+
+const HEADERS = ['Name', 'Expiration Date', 'Type', 'Priority', 'Policy Number', 'Renewal Frequency', 'Fee'];
+
+function existingDeadline(overrides: Partial<Deadline>): Deadline {
+  return {
+    id: 'existing',
+    title: 'Existing',
+    category: 'license',
+    due_date: '2026-12-01',
+    consequence_level: 'medium',
+    user_id: 'user',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('guessColumnMapping', () => {
+  it('matches headers by alias and uses each column once', () => {
+    const mapping = guessColumnMapping([...HEADERS, 'Notes', 'due_date']);
+    expect(mapping).toMatchObject({
+      title: 0,
+      // "due date" is a better alias than "expiration date"
+      due_date: 8,
+      category: 2,
+      consequence_level: 3,
+      reference_number: 4,
+      recurrence: 5,
+      estimated_cost: 6,
+      description: 7,
+      project: null,
+    });
+  });
+});
+
+describe('parseImportDate', () => {
+  it('accepts ISO and common spreadsheet formats', () => {
+    expect(parseImportDate('2026-3-5')).toBe('2026-03-05');
+    expect(parseImportDate('3/15/2026')).toBe('2026-03-15');
+    expect(parseImportDate('15.03.2026')).toBe('2026-03-15');
+    expect(parseImportDate('Mar 15, 2026')).toBe('2026-03-15');
+    expect(parseImportDate('15 Mar 2026')).toBe('2026-03-15');
+  });
+
+  it('rejects impossible and unknown dates', () => {
+    expect(parseImportDate('2026-02-30')).toBeNull();
+    expect(parseImportDate('next week')).toBeNull();
+    expect(parseImportDate('1/1/1850')).toBeNull();
+  });
+});
+
+describe('planImport', () => {
+  const mapping = guessColumnMapping(HEADERS);
+
+  it('validates rows and fills in defaults', () => {
+    const [row] = planImport(
+      { headers: HEADERS, rows: [['General liability', '12/1/2026', '', '', 'GL-1', 'Annually', '$1,250.00']] },
+      mapping,
+      [],
+      10
+    );
+
+    expect(row.status).toBe('new');
+    expect(row.rowNumber).toBe(2);
+    expect(row.input).toMatchObject({
+      title: 'General liability',
+      due_date: '2026-12-01',
+      category: 'insurance',
+      consequence_level: 'medium',
+      recurrence: 'annual',
+      auto_renew: true,
+      reference_number: 'GL-1',
+      estimated_cost: 1250,
+    });
+  });
+
+  it('collects every error in a row', () => {
+    const [row] = planImport(
+      { headers: HEADERS, rows: [['', '2026-13-01', 'Vehicle', 'urgent', '', 'custom', 'free']] },
+      mapping,
+      [],
+      10
+    );
+
+    expect(row.status).toBe('invalid');
+    expect(row.input).toBeNull();
+    expect(row.errors).toEqual([
+      'Title is required',
+      '"2026-13-01" is not a valid date',
+      'Unknown category "Vehicle"',
+      'Unknown consequence level "urgent"',
+      'Custom recurrence needs a "Repeat every (days)" value',
+      '"free" is not a valid cost',
+    ]);
+  });
+
+  it('flags duplicates of existing deadlines and earlier rows', () => {
+    const rows = planImport(
+      {
+        headers: HEADERS,
+        rows: [
+          ['Contractor license', '2026-12-01', '', '', 'CL-9', '', ''],
+          ['Renamed', '2027-01-01', '', '', 'cl-9', '', ''],
+          ['existing', '2026-12-01', '', '', '', '', ''],
+          ['Permit', '2026-12-01', '', '', '', '', ''],
+        ],
+      },
+      mapping,
+      [existingDeadline({})],
+      10
+    );
+
+    expect(rows.map((row) => row.status)).toEqual(['new', 'duplicate', 'duplicate', 'new']);
+  });
+
+  it('marks new rows beyond the capacity as over the limit', () => {
+    const rows = planImport(
+      { headers: HEADERS, rows: [['A', '2026-12-01'], ['B', 'bad'], ['C', '2026-12-02'], ['D', '2026-12-03']] },
+      mapping,
+      [],
+      2
+    );
+
+    expect(rows.map((row) => row.status)).toEqual(['new', 'invalid', 'new', 'over_limit']);
+  });
+});
+
+describe('buildErrorReport', () => {
+  it('lists rows with their status and errors', () => {
+    const rows = planImport({ headers: ['Title', 'Due'], rows: [['', '2026-12-01']] }, guessColumnMapping(['Title', 'Due']), [], 10);
+    expect(buildErrorReport(['Title', 'Due'], rows)).toBe('Row,Status,Errors,Title,Due\r\n2,invalid,Title is required,,2026-12-01\r\n');
+  });
+});
+
+describe('readSpreadsheet', () => {
+  it('reads CSV files', async () => {
+    const file = new File(['Title,Due\nPermit,2026-12-01\n'], 'deadlines.csv');
+    expect(await readSpreadsheet(file)).toEqual({ headers: ['Title', 'Due'], rows: [['Permit', '2026-12-01']] });
+  });
+
+  it('reads the first sheet of XLSX files', async () => {
+    const { default: ExcelJS } = await import('exceljs');
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Deadlines');
+    sheet.addRow(['Title', 'Due', '', 'Cost']);
+    sheet.addRow([{ richText: [{ text: 'Business ' }, { text: 'license' }] }, new Date('2026-12-01T00:00:00Z'), null, { formula: 'A1', result: 100 }]);
+    const file = new File([await workbook.xlsx.writeBuffer()], 'deadlines.xlsx');
+
+    expect(await readSpreadsheet(file)).toEqual({
+      headers: ['Title', 'Due', 'Column 3', 'Cost'],
+      rows: [['Business license', '2026-12-01', '', '100']],
+    });
+  });
+
+  it('rejects other files and files without data rows', async () => {
+    await expect(readSpreadsheet(new File([''], 'deadlines.pdf'))).rejects.toThrow('Upload a .csv or .xlsx file');
+    await expect(readSpreadsheet(new File(['Title,Due\n'], 'deadlines.csv'))).rejects.toThrow('at least one data row');
+  });
+});
@@ -0,0 +1,323 @@
+import { isValid, parse } from 'date-fns';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { guessDeadlineCategory } from '@/lib/ics-import';
+import type { CreateDeadlineInput } from '@/hooks/useDeadlines';
+import type {
+  ConsequenceLevel,
+  Deadline,
+  DeadlineCategory,
+  RecurrencePattern,
+} from '@/lib/deadline-utils';
+
+export type ImportField =
+  | 'title'
+  | 'due_date'
+  | 'category'
+  | 'subcategory'
+  | 'consequence_level'
+  | 'description'
+  | 'recurrence'
+  | 'recurrence_interval_days'
+  | 'issuing_authority'
+  | 'reference_number'
+  | 'project'
+  | 'estimated_cost'
+  | 'renewal_instructions';
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'invalid' | 'over_limit' | 'failed';
+
+export interface ImportRow {
+  // 1-based row number in the file, counting the header row
+  rowNumber: number;
+  values: string[];
+  input: CreateDeadlineInput | null;
+  status: ImportRowStatus;
+  errors: string[];
+}
+
+// Fields offered in the column mapping step, with header names recognised automatically
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'deadline', 'item', 'license', 'certificate'] },
+  { field: 'due_date', label: 'Due date', required: true, aliases: ['due date', 'due', 'expiration', 'expiration date', 'expires', 'expiry', 'expiry date', 'renewal date', 'date'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'type'] },
+  { field: 'subcategory', label: 'Subcategory', aliases: ['subcategory', 'sub category', 'subtype'] },
+  { field: 'consequence_level', label: 'Consequence level', aliases: ['consequence', 'consequence level', 'priority', 'severity', 'risk'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'notes', 'details'] },
+  { field: 'recurrence', label: 'Recurrence', aliases: ['recurrence', 'repeats', 'frequency', 'renewal frequency', 'renewal cycle'] },
+  { field: 'recurrence_interval_days', label: 'Repeat every (days)', aliases: ['interval', 'interval days', 'recurrence interval', 'repeat every'] },
+  { field: 'issuing_authority', label: 'Issuing authority', aliases: ['issuing authority', 'issuer', 'authority', 'agency', 'issued by', 'carrier'] },
+  { field: 'reference_number', label: 'Reference number', aliases: ['reference number', 'reference', 'ref', 'number', 'license number', 'policy number', 'certificate number', 'id'] },
+  { field: 'project', label: 'Entity / project', aliases: ['project', 'entity', 'job', 'company', 'business', 'location'] },
+  { field: 'estimated_cost', label: 'Estimated cost', aliases: ['estimated cost', 'cost', 'fee', 'amount', 'price', 'premium'] },
+  { field: 'renewal_instructions', label: 'Renewal instructions', aliases: ['renewal instructions', 'instructions', 'how to renew'] },
+];
+
+const CATEGORY_VALUES: Record<string, DeadlineCategory> = {
+  license: 'license',
+  licence: 'license',
+  licenses: 'license',
+  insurance: 'insurance',
+  contract: 'contract',
+  contracts: 'contract',
+  personal: 'personal',
+  other: 'other',
+};
+
+const CONSEQUENCE_VALUES: Record<string, ConsequenceLevel> = {
+  low: 'low',
+  medium: 'medium',
+  med: 'medium',
+  high: 'high',
+  critical: 'critical',
+};
+
+const RECURRENCE_VALUES: Record<string, RecurrencePattern> = {
+  '': 'none',
+  none: 'none',
+  'one-time': 'none',
+  'one time': 'none',
+  once: 'none',
+  monthly: 'monthly',
+  quarterly: 'quarterly',
+  semi_annual: 'semi_annual',
+  'semi-annual': 'semi_annual',
+  semiannual: 'semi_annual',
+  'semi-annually': 'semi_annual',
+  annual: 'annual',
+  annually: 'annual',
+  yearly: 'annual',
+  biennial: 'biennial',
+  biennially: 'biennial',
+  'every 2 years': 'biennial',
+  custom: 'custom',
+};
+
+// Date formats tried for text cells, after ISO dates
+const DATE_FORMATS = ['M/d/yyyy', 'M/d/yy', 'd.M.yyyy', 'MMM d, yyyy', 'MMMM d, yyyy', 'd MMM yyyy', 'yyyy/M/d'];
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_PROJECT_LENGTH = 120;
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase().replace(/[_\s]+/g, ' '));
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    // Earlier aliases are the better matches
+    let index = -1;
+    for (const alias of aliases) {
+      index = normalized.findIndex((header, i) => header === alias && !used.has(i));
+      if (index !== -1) break;
+    }
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+
+  return mapping;
+}
+
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const candidates = iso
+    ? [new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))]
+    : DATE_FORMATS.map((format) => parse(text, format, new Date()));
+
+  for (const date of candidates) {
+    // Rejects rollovers such as 2026-02-30
+    if (!isValid(date) || date.getFullYear() < 1900 || date.getFullYear() > 2200) continue;
+    if (iso && (date.getMonth() + 1 !== Number(iso[2]) || date.getDate() !== Number(iso[3]))) continue;
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+  return null;
+}
+
+function parseCost(value: string): number | null {
+  const number = Number(value.replace(/[$€£,\s]/g, ''));
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+function validateRow(values: string[], mapping: ColumnMapping): { input: CreateDeadlineInput | null; errors: string[] } {
+  const get = (field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (values[index] ?? '').trim();
+  };
+  const errors: string[] = [];
+
+  const title = get('title');
+  if (!title) errors.push('Title is required');
+  if (title.length > MAX_TITLE_LENGTH) errors.push(`Title is longer than ${MAX_TITLE_LENGTH} characters`);
+
+  const rawDate = get('due_date');
+  const dueDate = rawDate ? parseImportDate(rawDate) : null;
+  if (!rawDate) errors.push('Due date is required');
+  else if (!dueDate) errors.push(`"${rawDate}" is not a valid date`);
+
+  const description = get('description');
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  const rawCategory = get('category');
+  const category = rawCategory
+    ? CATEGORY_VALUES[rawCategory.toLowerCase()]
+    : guessDeadlineCategory([title, description].join(' '));
+  if (!category) errors.push(`Unknown category "${rawCategory}"`);
+
+  const rawConsequence = get('consequence_level');
+  const consequence = rawConsequence ? CONSEQUENCE_VALUES[rawConsequence.toLowerCase()] : 'medium';
+  if (!consequence) errors.push(`Unknown consequence level "${rawConsequence}"`);
+
+  const rawRecurrence = get('recurrence');
+  const recurrence = RECURRENCE_VALUES[rawRecurrence.toLowerCase()];
+  if (!recurrence) errors.push(`Unknown recurrence "${rawRecurrence}"`);
+
+  const rawInterval = get('recurrence_interval_days');
+  const interval = rawInterval ? Number(rawInterval) : null;
+  if (rawInterval && (!Number.isInteger(interval) || interval! < 1)) {
+    errors.push(`"${rawInterval}" is not a whole number of days`);
+  } else if (recurrence === 'custom' && !interval) {
+    errors.push('Custom recurrence needs a "Repeat every (days)" value');
+  }
+
+  const project = get('project');
+  if (project.length > MAX_PROJECT_LENGTH) errors.push(`Entity / project is longer than ${MAX_PROJECT_LENGTH} characters`);
+
+  const rawCost = get('estimated_cost');
+  const cost = rawCost ? parseCost(rawCost) : null;
+  if (rawCost && cost === null) errors.push(`"${rawCost}" is not a valid cost`);
+
+  if (errors.length > 0) return { input: null, errors };
+
+  return {
+    input: {
+      title,
+      due_date: dueDate!,
+      category: category!,
+      consequence_level: consequence!,
+      description: description || undefined,
+      subcategory: get('subcategory') || undefined,
+      recurrence,
+      recurrence_interval_days: recurrence === 'custom' ? interval! : undefined,
+      auto_renew: recurrence !== 'none',
+      issuing_authority: get('issuing_authority') || undefined,
+      reference_number: get('reference_number') || undefined,
+      project: project || undefined,
+      estimated_cost: cost ?? undefined,
+      renewal_instructions: get('renewal_instructions') || undefined,
+    },
+    errors,
+  };
+}
+
+// Rows already tracked match on reference number, or on title and due date when
+// there is no reference number
+function getDuplicateKeys(input: Pick<Deadline, 'title' | 'due_date' | 'reference_number'>): string[] {
+  const keys = [`title:${input.title.trim().toLowerCase()}|${input.due_date}`];
+  if (input.reference_number) keys.push(`ref:${input.reference_number.trim().toLowerCase()}`);
+  return keys;
+}
+
+// Dry run: validate every row and decide what the import would do with it.
+// Only the first `capacity` new rows are imported; the rest are over the limit.
+export function planImport(
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  existing: Deadline[],
+  capacity: number
+): ImportRow[] {
+  const seen = new Set(existing.flatMap((deadline) => getDuplicateKeys(deadline)));
+  let accepted = 0;
+
+  return data.rows.map((values, index) => {
+    const { input, errors } = validateRow(values, mapping);
+    const row: ImportRow = { rowNumber: index + 2, values, input, status: 'invalid', errors };
+    if (!input) return row;
+
+    const keys = getDuplicateKeys({ ...input, reference_number: input.reference_number ?? null });
+    if (keys.some((key) => seen.has(key))) {
+      return { ...row, status: 'duplicate', errors: ['Already tracked, or repeated earlier in the file'] };
+    }
+    keys.forEach((key) => seen.add(key));
+
+    if (accepted >= capacity) {
+      return { ...row, status: 'over_limit', errors: ['Over your plan or daily limit; import this row later'] };
+    }
+    accepted++;
+    return { ...row, status: 'new' };
+  });
+}
+
+// CSV of every row that was not imported, with the reason, for fixing and re-uploading
+export function buildErrorReport(headers: string[], rows: ImportRow[]): string {
+  return toCsv([
+    ['Row', 'Status', 'Errors', ...headers],
+    ...rows.map((row) => [row.rowNumber, row.status, row.errors.join('; '), ...row.values]),
+  ]);
+}
+
+// Excel cells can hold dates, numbers, rich text, hyperlinks or formulas
+function cellToString(value: unknown): string {
+  if (value == null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+
+  const cell = value as { text?: string; result?: unknown; richText?: { text: string }[] };
+  if (cell.richText) return cell.richText.map((part) => part.text).join('');
+  if ('result' in cell) return cellToString(cell.result);
+  return cell.text ?? '';
+}
+
+async function readXlsx(file: File): Promise<string[][]> {
+  // Loaded on demand; the library is large and only needed here
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellToString(row.getCell(column).value).trim());
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const name = file.name.toLowerCase();
+  let rows: string[][];
+
+  if (name.endsWith('.xlsx')) {
+    rows = await readXlsx(file);
+  } else if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    rows = parseCsv(await file.text());
+  } else {
+    throw new Error('Upload a .csv or .xlsx file');
+  }
+
+  if (rows.length < 2) {
+    throw new Error('The file needs a header row and at least one data row');
+  }
+
+  const [headers, ...data] = rows;
+  return {
+    headers: headers.map((header, index) => header.trim() || `Column ${index + 1}`),
+    rows: data,
+  };
+}
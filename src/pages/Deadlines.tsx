@@ -1,6 +1,14 @@
 import { useState } from 'react';
 import AppLayout from '@/components/layout/AppLayout';
 import { DeadlineForm } from '@/components/deadline/DeadlineForm';
+import { ReminderHistoryDialog } from '@/components/deadline/ReminderHistory';
+import { DeadlineHistoryDialog } from '@/components/deadline/DeadlineHistory';
+import { DeadlineDocumentsDialog } from '@/components/deadline/DeadlineDocuments';
+import { CompleteDeadlineDialog } from '@/components/deadline/CompleteDeadlineDialog';
+import { IcsImportDialog } from '@/components/deadline/IcsImportDialog';
+import { SpreadsheetImportWizard } from '@/components/deadline/SpreadsheetImportWizard';
+import { ComplianceReportDialog } from '@/components/deadline/ComplianceReportDialog';
+import { ReassignDeadlineDialog } from '@/components/deadline/ReassignDeadlineDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -30,24 +38,34 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
 import { useDeadlines } from '@/hooks/useDeadlines';
 import { useSubscription } from '@/hooks/useSubscription';
+import { useTeam } from '@/hooks/useTeam';
 import {
   Deadline,
   DeadlineCategory,
+  DeadlineState,
   DeadlineStatus,
+  getActiveDeadlines,
   getDeadlineStatus,
+  getStateLabel,
+  getStateBadgeClasses,
+  isDeadlineClosed,
   getStatusLabel,
   getStatusBadgeClasses,
   getConsequenceBadgeClasses,
   getConsequenceLabel,
   getCategoryLabel,
   getCategoryIcon,
-  getRecurrenceLabel,
+  getRecurrenceDescription,
   sortDeadlinesByUrgency,
   formatDaysUntilDue,
   formatCurrency,
   getDaysUntilDue,
+  getAdjustedDueDate,
+  getAssigneeId,
+  isAssignedTo,
 } from '@/lib/deadline-utils';
 import { 
   Plus, 
@@ -64,37 +82,92 @@ import {
   Sparkles,
   AlertTriangle,
   CheckCircle2,
-  Zap
+  Zap,
+  History,
+  FileClock,
+  PlayCircle,
+  Send,
+  Ban,
+  RotateCcw,
+  CalendarPlus,
+  FileSpreadsheet,
+  Upload,
+  Download,
+  FileJson,
+  FileCheck,
+  Briefcase,
+  Paperclip,
+  User,
+  UserCog
 } from 'lucide-react';
+import { downloadFile } from '@/lib/csv';
+import {
+  ExportFormat,
+  EXPORT_MIME_TYPES,
+  exportDeadlinesToCsv,
+  exportDeadlinesToJson,
+  exportDeadlinesToXlsx,
+  getExportFilename,
+} from '@/lib/deadline-export';
 import { cn } from '@/lib/utils';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 
 export default function Deadlines() {
-  const { deadlines, isLoading, deleteDeadline } = useDeadlines();
+  const { user } = useAuth();
+  const { deadlines, isLoading, deleteDeadline, updateDeadlineState } = useDeadlines();
   const { planTier, limits } = useSubscription();
+  const { teamMembers, hasOrganization, isOrgAdmin } = useTeam();
   
   const [formOpen, setFormOpen] = useState(false);
+  const [icsImportOpen, setIcsImportOpen] = useState(false);
+  const [spreadsheetImportOpen, setSpreadsheetImportOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
   const [editingDeadline, setEditingDeadline] = useState<Deadline | null>(null);
   const [deletingDeadline, setDeletingDeadline] = useState<Deadline | null>(null);
+  const [historyDeadline, setHistoryDeadline] = useState<Deadline | null>(null);
+  const [changesDeadline, setChangesDeadline] = useState<Deadline | null>(null);
+  const [documentsDeadline, setDocumentsDeadline] = useState<Deadline | null>(null);
+  const [reassigningDeadline, setReassigningDeadline] = useState<Deadline | null>(null);
+  const [closingDeadline, setClosingDeadline] = useState<Deadline | null>(null);
+  const [closingMode, setClosingMode] = useState<'completed' | 'waived'>('completed');
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<DeadlineCategory | 'all'>('all');
   const [statusFilter, setStatusFilter] = useState<DeadlineStatus | 'all'>('all');
+  const [stateFilter, setStateFilter] = useState<DeadlineState | 'active' | 'all'>('active');
+  const [assignmentFilter, setAssignmentFilter] = useState<'all' | 'mine'>('all');
 
   const filteredDeadlines = sortDeadlinesByUrgency(deadlines).filter((deadline) => {
     const matchesSearch = deadline.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      deadline.description?.toLowerCase().includes(searchQuery.toLowerCase());
+      deadline.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      deadline.project?.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesCategory = categoryFilter === 'all' || deadline.category === categoryFilter;
     const matchesStatus = statusFilter === 'all' || 
-      getDeadlineStatus(deadline.due_date, deadline.consequence_level) === statusFilter;
+      getDeadlineStatus(deadline.due_date, deadline.consequence_level, deadline) === statusFilter;
+    const matchesState = stateFilter === 'all' ||
+      (stateFilter === 'active' ? !isDeadlineClosed(deadline) : (deadline.state ?? 'open') === stateFilter);
+    const matchesAssignment = assignmentFilter === 'all' || (!!user && isAssignedTo(deadline, user.id));
     
-    return matchesSearch && matchesCategory && matchesStatus;
+    return matchesSearch && matchesCategory && matchesStatus && matchesState && matchesAssignment;
   });
 
+  // Creators and organization admins hand deadlines to teammates
+  const canReassign = (deadline: Deadline) => hasOrganization &&
+    (deadline.user_id === user?.id || (isOrgAdmin && !!deadline.organization_id));
+
+  const getMemberName = (id: string) => teamMembers.find((member) => member.id === id)?.name;
+
+  const activeDeadlines = getActiveDeadlines(deadlines);
+
   const handleEdit = (deadline: Deadline) => {
     setEditingDeadline(deadline);
     setFormOpen(true);
   };
 
+  const handleClose = (deadline: Deadline, mode: 'completed' | 'waived') => {
+    setClosingMode(mode);
+    setClosingDeadline(deadline);
+  };
+
   const handleDelete = async () => {
     if (deletingDeadline) {
       await deleteDeadline.mutateAsync(deletingDeadline.id);
@@ -102,6 +175,16 @@ export default function Deadlines() {
     }
   };
 
+  // Exports what the current search and filters show
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const content = exportFormat === 'xlsx'
+      ? await exportDeadlinesToXlsx(filteredDeadlines)
+      : exportFormat === 'json'
+        ? exportDeadlinesToJson(filteredDeadlines)
+        : exportDeadlinesToCsv(filteredDeadlines);
+    downloadFile(content, getExportFilename(exportFormat), EXPORT_MIME_TYPES[exportFormat]);
+  };
+
   const handleFormClose = () => {
     setFormOpen(false);
     setEditingDeadline(null);
@@ -109,10 +192,10 @@ export default function Deadlines() {
 
   // Count by status for quick filters
   const statusCounts = {
-    overdue: deadlines.filter(d => getDeadlineStatus(d.due_date) === 'overdue').length,
-    critical: deadlines.filter(d => getDeadlineStatus(d.due_date) === 'critical').length,
-    urgent: deadlines.filter(d => getDeadlineStatus(d.due_date) === 'urgent').length,
-    upcoming: deadlines.filter(d => ['warning', 'upcoming'].includes(getDeadlineStatus(d.due_date))).length,
+    overdue: activeDeadlines.filter(d => getDeadlineStatus(d.due_date, d.consequence_level, d) === 'overdue').length,
+    critical: activeDeadlines.filter(d => getDeadlineStatus(d.due_date, d.consequence_level, d) === 'critical').length,
+    urgent: activeDeadlines.filter(d => getDeadlineStatus(d.due_date, d.consequence_level, d) === 'urgent').length,
+    upcoming: activeDeadlines.filter(d => ['warning', 'upcoming'].includes(getDeadlineStatus(d.due_date, d.consequence_level, d))).length,
   };
 
   const atLimit = limits.deadlines !== -1 && deadlines.length >= limits.deadlines;
@@ -134,10 +217,57 @@ export default function Deadlines() {
               )}
             </p>
           </div>
-          <Button onClick={() => setFormOpen(true)} disabled={atLimit}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Deadline
-          </Button>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={deadlines.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('csv')} disabled={filteredDeadlines.length === 0}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('xlsx')} disabled={filteredDeadlines.length === 0}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Excel (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('json')} disabled={filteredDeadlines.length === 0}>
+                  <FileJson className="h-4 w-4 mr-2" />
+                  JSON (all fields)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setReportOpen(true)}>
+                  <FileCheck className="h-4 w-4 mr-2" />
+                  Compliance report (PDF)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={atLimit}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setSpreadsheetImportOpen(true)}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Spreadsheet (CSV, Excel)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIcsImportOpen(true)}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Calendar (.ics)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={() => setFormOpen(true)} disabled={atLimit}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Deadline
+            </Button>
+          </div>
         </div>
 
         {/* At Limit Warning */}
@@ -214,6 +344,17 @@ export default function Deadlines() {
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
             </div>
+            {hasOrganization && (
+              <Select value={assignmentFilter} onValueChange={(v) => setAssignmentFilter(v as 'all' | 'mine')}>
+                <SelectTrigger className="w-full sm:w-[170px]">
+                  <SelectValue placeholder="Assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone's</SelectItem>
+                  <SelectItem value="mine">Assigned to me</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
             <Select value={categoryFilter} onValueChange={(v) => setCategoryFilter(v as any)}>
               <SelectTrigger className="w-full sm:w-[160px]">
                 <SelectValue placeholder="Category" />
@@ -227,6 +368,20 @@ export default function Deadlines() {
                 <SelectItem value="other">Other</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={stateFilter} onValueChange={(v) => setStateFilter(v as DeadlineState | 'active' | 'all')}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="State" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="in_progress">In Progress</SelectItem>
+                <SelectItem value="submitted">Awaiting Authority</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="waived">Waived</SelectItem>
+                <SelectItem value="all">All States</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         )}
 
@@ -285,6 +440,13 @@ export default function Deadlines() {
                 key={deadline.id} 
                 deadline={deadline}
                 onEdit={() => handleEdit(deadline)}
+                onViewHistory={() => setHistoryDeadline(deadline)}
+                onViewChanges={() => setChangesDeadline(deadline)}
+                onViewDocuments={() => setDocumentsDeadline(deadline)}
+                onReassign={canReassign(deadline) ? () => setReassigningDeadline(deadline) : undefined}
+                assigneeName={deadline.organization_id ? getMemberName(getAssigneeId(deadline)) : undefined}
+                onChangeState={(state) => updateDeadlineState.mutate({ id: deadline.id, state })}
+                onClose={(mode) => handleClose(deadline, mode)}
                 onDelete={() => setDeletingDeadline(deadline)}
               />
             ))}
@@ -298,6 +460,42 @@ export default function Deadlines() {
           editingDeadline={editingDeadline}
         />
 
+        {/* Imports */}
+        <SpreadsheetImportWizard open={spreadsheetImportOpen} onOpenChange={setSpreadsheetImportOpen} />
+        <IcsImportDialog open={icsImportOpen} onOpenChange={setIcsImportOpen} />
+        <ComplianceReportDialog open={reportOpen} onOpenChange={setReportOpen} />
+
+        {/* Complete / Waive */}
+        <CompleteDeadlineDialog
+          deadline={closingDeadline}
+          mode={closingMode}
+          onOpenChange={() => setClosingDeadline(null)}
+        />
+
+        {/* Reminder History */}
+        <ReminderHistoryDialog
+          deadline={historyDeadline}
+          onOpenChange={() => setHistoryDeadline(null)}
+        />
+
+        {/* Change History */}
+        <DeadlineHistoryDialog
+          deadline={changesDeadline}
+          onOpenChange={() => setChangesDeadline(null)}
+        />
+
+        {/* Documents */}
+        <DeadlineDocumentsDialog
+          deadline={documentsDeadline}
+          onOpenChange={() => setDocumentsDeadline(null)}
+        />
+
+        {/* Reassign */}
+        <ReassignDeadlineDialog
+          deadline={reassigningDeadline}
+          onOpenChange={() => setReassigningDeadline(null)}
+        />
+
         {/* Delete Confirmation */}
         <AlertDialog open={!!deletingDeadline} onOpenChange={() => setDeletingDeadline(null)}>
           <AlertDialogContent>
@@ -328,20 +526,44 @@ export default function Deadlines() {
 interface DeadlineRowProps {
   deadline: Deadline;
   onEdit: () => void;
+  onViewHistory: () => void;
+  onViewChanges: () => void;
+  onViewDocuments: () => void;
+  // Only offered to the creator and organization admins
+  onReassign?: () => void;
+  assigneeName?: string;
+  onChangeState: (state: DeadlineState) => void;
+  onClose: (mode: 'completed' | 'waived') => void;
   onDelete: () => void;
 }
 
-function DeadlineRow({ deadline, onEdit, onDelete }: DeadlineRowProps) {
-  const status = getDeadlineStatus(deadline.due_date, deadline.consequence_level);
-  const daysUntil = getDaysUntilDue(deadline.due_date);
-  const isOverdue = daysUntil < 0;
+function DeadlineRow({
+  deadline,
+  onEdit,
+  onViewHistory,
+  onViewChanges,
+  onViewDocuments,
+  onReassign,
+  assigneeName,
+  onChangeState,
+  onClose,
+  onDelete,
+}: DeadlineRowProps) {
+  const state = deadline.state ?? 'open';
+  const isClosed = isDeadlineClosed(deadline);
+  const status = getDeadlineStatus(deadline.due_date, deadline.consequence_level, deadline);
+  const daysUntil = getDaysUntilDue(deadline.due_date, deadline);
+  const dueDate = getAdjustedDueDate(deadline.due_date, deadline);
+  const isOverdue = daysUntil < 0 && !isClosed;
   const isCritical = status === 'critical' || status === 'overdue';
+  const backupCount = deadline.backup_assignee_ids?.length ?? 0;
 
   return (
     <Card className={cn(
       "transition-all hover:shadow-md",
+      isClosed && "opacity-70",
       isOverdue && "border-red-500/50 bg-red-50/50 dark:bg-red-950/10",
-      status === 'critical' && !isOverdue && "border-orange-500/50 bg-orange-50/50 dark:bg-orange-950/10"
+      status === 'critical' && !isOverdue && !isClosed && "border-orange-500/50 bg-orange-50/50 dark:bg-orange-950/10"
     )}>
       <CardContent className="p-4">
         <div className="flex items-start gap-4">
@@ -364,22 +586,36 @@ function DeadlineRow({ deadline, onEdit, onDelete }: DeadlineRowProps) {
                   <span className={cn(
                     "text-sm flex items-center gap-1",
                     isOverdue ? "text-red-600 font-medium" :
-                    status === 'critical' ? "text-orange-600 font-medium" :
+                    status === 'critical' && !isClosed ? "text-orange-600 font-medium" :
                     "text-muted-foreground"
                   )}>
                     <Calendar className="h-3.5 w-3.5" />
-                    {format(new Date(deadline.due_date), 'MMM d, yyyy')}
+                    {format(parseISO(dueDate), 'MMM d, yyyy')}
+                    {dueDate !== deadline.due_date && (
+                      <span className="text-xs text-muted-foreground">
+                        (moved from {format(parseISO(deadline.due_date), 'MMM d')})
+                      </span>
+                    )}
                     <span className="text-muted-foreground">·</span>
-                    {formatDaysUntilDue(deadline.due_date)}
+                    {isClosed && deadline.completed_at
+                      ? `${getStateLabel(state)} ${format(new Date(deadline.completed_at), 'MMM d, yyyy')}`
+                      : formatDaysUntilDue(deadline.due_date, deadline)}
                   </span>
                 </div>
               </div>
 
               {/* Status Badge & Actions */}
               <div className="flex items-center gap-2 flex-shrink-0">
-                <Badge className={cn("hidden sm:inline-flex", getStatusBadgeClasses(status))}>
-                  {getStatusLabel(status)}
-                </Badge>
+                {state !== 'open' && (
+                  <Badge variant="outline" className={getStateBadgeClasses(state)}>
+                    {getStateLabel(state)}
+                  </Badge>
+                )}
+                {!isClosed && (
+                  <Badge className={cn("hidden sm:inline-flex", getStatusBadgeClasses(status))}>
+                    {getStatusLabel(status)}
+                  </Badge>
+                )}
                 <Badge variant="outline" className={getConsequenceBadgeClasses(deadline.consequence_level)}>
                   {getConsequenceLabel(deadline.consequence_level)}
                 </Badge>
@@ -395,6 +631,54 @@ function DeadlineRow({ deadline, onEdit, onDelete }: DeadlineRowProps) {
                       <Pencil className="h-4 w-4 mr-2" />
                       Edit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={onViewHistory}>
+                      <History className="h-4 w-4 mr-2" />
+                      Reminder history
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={onViewChanges}>
+                      <FileClock className="h-4 w-4 mr-2" />
+                      Change history
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={onViewDocuments}>
+                      <Paperclip className="h-4 w-4 mr-2" />
+                      Documents
+                    </DropdownMenuItem>
+                    {onReassign && (
+                      <DropdownMenuItem onClick={onReassign}>
+                        <UserCog className="h-4 w-4 mr-2" />
+                        Reassign
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuSeparator />
+                    {isClosed ? (
+                      <DropdownMenuItem onClick={() => onChangeState('open')}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reopen
+                      </DropdownMenuItem>
+                    ) : (
+                      <>
+                        {state !== 'in_progress' && (
+                          <DropdownMenuItem onClick={() => onChangeState('in_progress')}>
+                            <PlayCircle className="h-4 w-4 mr-2" />
+                            Mark in progress
+                          </DropdownMenuItem>
+                        )}
+                        {state !== 'submitted' && (
+                          <DropdownMenuItem onClick={() => onChangeState('submitted')}>
+                            <Send className="h-4 w-4 mr-2" />
+                            Mark submitted
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => onClose('completed')}>
+                          <CheckCircle2 className="h-4 w-4 mr-2" />
+                          Mark complete
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onClose('waived')}>
+                          <Ban className="h-4 w-4 mr-2" />
+                          Waive
+                        </DropdownMenuItem>
+                      </>
+                    )}
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={onDelete} className="text-destructive">
                       <Trash2 className="h-4 w-4 mr-2" />
@@ -414,7 +698,7 @@ function DeadlineRow({ deadline, onEdit, onDelete }: DeadlineRowProps) {
               {deadline.recurrence && deadline.recurrence !== 'none' && (
                 <span className="inline-flex items-center gap-1">
                   <RefreshCw className="h-3 w-3" />
-                  {getRecurrenceLabel(deadline.recurrence)}
+                  {getRecurrenceDescription(deadline)}
                 </span>
               )}
               
@@ -438,7 +722,30 @@ function DeadlineRow({ deadline, onEdit, onDelete }: DeadlineRowProps) {
                   {deadline.issuing_authority}
                 </span>
               )}
+              
+              {deadline.project && (
+                <span className="inline-flex items-center gap-1">
+                  <Briefcase className="h-3 w-3" />
+                  {deadline.project}
+                </span>
+              )}
+              
+              {assigneeName && (
+                <span className="inline-flex items-center gap-1">
+                  <User className="h-3 w-3" />
+                  {assigneeName}
+                  {backupCount > 0 && (
+                    <span>+{backupCount} backup{backupCount !== 1 ? 's' : ''}</span>
+                  )}
+                </span>
+              )}
             </div>
+
+            {isClosed && deadline.completion_notes && (
+              <p className="mt-2 text-xs text-muted-foreground line-clamp-2">
+                {deadline.completion_notes}
+              </p>
+            )}
           </div>
         </div>
       </CardContent>
@@ -35,7 +35,7 @@ const pricingTiers: PricingTier[] = [
     color: 'red',
     popular: true,
     limits: { deadlines: 'Unlimited', users: '1 user', sms: '50 SMS/mo' },
-    features: ['Unlimited deadlines', 'Email + SMS reminders', 'Recurring deadlines', 'A/E/C industry templates', 'Cost tracking', 'Document notes', 'Priority support'],
+    features: ['Unlimited deadlines', 'Email + SMS reminders', 'Recurring deadlines', 'A/E/C industry templates', 'Cost tracking', 'Document attachments', 'Priority support'],
   },
   {
     name: 'Team',
@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription, PlanTier } from '@/hooks/useSubscription';
+import { useSmsSettings } from '@/hooks/useSmsSettings';
 import { useToast } from '@/hooks/use-toast';
 import AppLayout from '@/components/layout/AppLayout';
+import ApiKeysCard from '@/components/settings/ApiKeysCard';
+import CalendarFeedsCard from '@/components/settings/CalendarFeedsCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,6 +16,8 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { 
   User, 
   CreditCard, 
@@ -25,11 +30,24 @@ import {
   Zap,
   Calendar,
   Mail,
-  Smartphone
+  Smartphone,
+  Clock,
+  KeyRound
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import {
+  ConsequenceLevel,
+  DEFAULT_REMINDER_HOUR,
+  REMINDER_SCHEDULES,
+  ReminderDeliveryMode,
+  TIMEZONE_OPTIONS,
+  formatPhoneNumber,
+  formatReminderSchedule,
+  getActiveTimeZone,
+  getBrowserTimeZone,
+} from '@/lib/deadline-utils';
 
 const PLAN_DISPLAY_NAMES: Record<PlanTier, string> = {
   free: 'Free',
@@ -45,9 +63,28 @@ const PLAN_COLORS: Record<PlanTier, string> = {
   enterprise: 'bg-amber-500',
 };
 
+const REMINDER_SCHEDULE_ROWS: { level: ConsequenceLevel; label: string }[] = [
+  { level: 'critical', label: 'Critical deadlines' },
+  { level: 'high', label: 'High priority' },
+  { level: 'medium', label: 'Medium priority' },
+  { level: 'low', label: 'Low priority' },
+];
+
+const REMINDER_HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+  value: hour,
+  label: format(new Date(2000, 0, 1, hour), 'h:mm a'),
+}));
+
+const REMINDER_DELIVERY_MODE_OPTIONS: { value: ReminderDeliveryMode; label: string; description: string }[] = [
+  { value: 'immediate', label: 'Immediate', description: 'One email per deadline as each reminder comes due' },
+  { value: 'daily', label: 'Daily digest', description: 'One summary email each morning' },
+  { value: 'weekly', label: 'Weekly digest', description: 'One summary email every Monday morning' },
+  { value: 'hybrid', label: 'Hybrid', description: 'Immediate emails for critical deadlines, a daily digest for the rest' },
+];
+
 export default function Settings() {
   const [searchParams, setSearchParams] = useSearchParams();
-  const { user, profile, signOut } = useAuth();
+  const { user, profile, signOut, refreshProfile } = useAuth();
   const { toast } = useToast();
   const {
     subscription,
@@ -66,7 +103,12 @@ export default function Settings() {
   const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'account');
   const [isSaving, setIsSaving] = useState(false);
   const [name, setName] = useState(profile?.name || '');
+  const [timezone, setTimezone] = useState(profile?.timezone || getActiveTimeZone());
   const [deadlineCount, setDeadlineCount] = useState(0);
+  const [phoneInput, setPhoneInput] = useState('');
+  const [verificationCode, setVerificationCode] = useState('');
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const { phoneSettings, smsSentThisMonth, sendCode, confirmCode, updateSmsEnabled, removePhoneNumber } = useSmsSettings();
 
   // Handle checkout success/cancel from URL params
   useEffect(() => {
@@ -109,6 +151,16 @@ export default function Settings() {
     }
   }, [profile?.name]);
 
+  useEffect(() => {
+    if (profile?.timezone) {
+      setTimezone(profile.timezone);
+    }
+  }, [profile?.timezone]);
+
+  const timezoneOptions = TIMEZONE_OPTIONS.some((option) => option.value === timezone)
+    ? TIMEZONE_OPTIONS
+    : [{ value: timezone, label: timezone.replace(/_/g, ' ') }, ...TIMEZONE_OPTIONS];
+
   const handleUpdateProfile = async () => {
     if (!user) return;
     
@@ -116,10 +168,11 @@ export default function Settings() {
     try {
       const { error } = await supabase
         .from('profiles')
-        .update({ name })
+        .update({ name, timezone })
         .eq('id', user.id);
 
       if (error) throw error;
+      await refreshProfile();
 
       toast({
         title: 'Profile updated',
@@ -136,6 +189,73 @@ export default function Settings() {
     }
   };
 
+  const handleUpdateReminderHour = async (reminderHour: number) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ reminder_hour: reminderHour })
+      .eq('id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error updating reminder time',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await refreshProfile();
+    toast({
+      title: 'Reminder time updated',
+      description: `Reminders will arrive around ${format(new Date(2000, 0, 1, reminderHour), 'h:mm a')} your time.`,
+    });
+  };
+
+  const handleUpdateDeliveryMode = async (mode: ReminderDeliveryMode) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ reminder_delivery_mode: mode })
+      .eq('id', user.id);
+
+    if (error) {
+      toast({
+        title: 'Error updating reminder delivery',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await refreshProfile();
+    toast({
+      title: 'Reminder delivery updated',
+      description: REMINDER_DELIVERY_MODE_OPTIONS.find((option) => option.value === mode)?.description,
+    });
+  };
+
+  const handleSendCode = () => {
+    sendCode.mutate(phoneInput, {
+      onSuccess: ({ phoneNumber }) => {
+        setCodeSentTo(phoneNumber);
+        setVerificationCode('');
+      },
+    });
+  };
+
+  const handleConfirmCode = () => {
+    confirmCode.mutate(verificationCode, {
+      onSuccess: () => {
+        setCodeSentTo(null);
+        setPhoneInput('');
+        setVerificationCode('');
+      },
+    });
+  };
+
   const handleOpenBillingPortal = async () => {
     try {
       await openBillingPortal.mutateAsync();
@@ -176,6 +296,10 @@ export default function Settings() {
               <Bell className="h-4 w-4" />
               Notifications
             </TabsTrigger>
+            <TabsTrigger value="api" className="gap-2">
+              <KeyRound className="h-4 w-4" />
+              API
+            </TabsTrigger>
           </TabsList>
 
           {/* Account Tab */}
@@ -209,6 +333,36 @@ export default function Settings() {
                     Contact support to change your email address
                   </p>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Time Zone</Label>
+                  <Select value={timezone} onValueChange={setTimezone}>
+                    <SelectTrigger id="timezone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timezoneOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Due dates and reminders count days in this time zone.
+                    {timezone !== getBrowserTimeZone() && (
+                      <>
+                        {' '}
+                        <button
+                          type="button"
+                          className="text-primary hover:underline"
+                          onClick={() => setTimezone(getBrowserTimeZone())}
+                        >
+                          Use this device's time zone ({getBrowserTimeZone().replace(/_/g, ' ')})
+                        </button>
+                      </>
+                    )}
+                  </p>
+                </div>
               </CardContent>
               <CardFooter>
                 <Button onClick={handleUpdateProfile} disabled={isSaving}>
@@ -519,26 +673,82 @@ export default function Settings() {
 
                 <Separator />
 
-                <div className="space-y-4">
-                  <p className="text-sm font-medium">Reminder schedule based on consequence level:</p>
-                  <div className="grid gap-3 text-sm">
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <span>Critical deadlines</span>
-                      <span className="text-muted-foreground">90, 30, 14, 7, 3, 1 days before</span>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-muted rounded">
+                      <Calendar className="h-5 w-5" />
                     </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <span>High priority</span>
-                      <span className="text-muted-foreground">60, 14, 7, 3, 1 days before</span>
+                    <div>
+                      <p className="font-medium">Delivery</p>
+                      <p className="text-sm text-muted-foreground">
+                        {REMINDER_DELIVERY_MODE_OPTIONS.find(
+                          (option) => option.value === (profile?.reminder_delivery_mode ?? 'immediate')
+                        )?.description}
+                      </p>
                     </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <span>Medium priority</span>
-                      <span className="text-muted-foreground">30, 7, 3, 1 days before</span>
+                  </div>
+                  <Select
+                    value={profile?.reminder_delivery_mode ?? 'immediate'}
+                    onValueChange={(v) => handleUpdateDeliveryMode(v as ReminderDeliveryMode)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REMINDER_DELIVERY_MODE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Separator />
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-muted rounded">
+                      <Clock className="h-5 w-5" />
                     </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <span>Low priority</span>
-                      <span className="text-muted-foreground">14, 3, 1 days before</span>
+                    <div>
+                      <p className="font-medium">Reminder time</p>
+                      <p className="text-sm text-muted-foreground">
+                        Local time in {(profile?.timezone || getActiveTimeZone()).replace(/_/g, ' ')}
+                      </p>
                     </div>
                   </div>
+                  <Select
+                    value={String(profile?.reminder_hour ?? DEFAULT_REMINDER_HOUR)}
+                    onValueChange={(v) => handleUpdateReminderHour(Number(v))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REMINDER_HOUR_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={String(option.value)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <p className="text-sm font-medium">Reminder schedule based on consequence level:</p>
+                  <div className="grid gap-3 text-sm">
+                    {REMINDER_SCHEDULE_ROWS.map(({ level, label }) => (
+                      <div key={level} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                        <span>{label}</span>
+                        <span className="text-muted-foreground">
+                          {formatReminderSchedule(REMINDER_SCHEDULES[level])}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -551,7 +761,7 @@ export default function Settings() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {limits.sms > 0 ? (
+                {limits.sms !== 0 ? (
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
@@ -565,10 +775,87 @@ export default function Settings() {
                           </p>
                         </div>
                       </div>
-                      <Badge>Coming Soon</Badge>
+                      <Switch
+                        checked={!!phoneSettings?.sms_enabled}
+                        onCheckedChange={(checked) => updateSmsEnabled.mutate(checked)}
+                        disabled={!phoneSettings?.phone_verified_at || updateSmsEnabled.isPending}
+                      />
                     </div>
+
+                    <Separator />
+
+                    {phoneSettings?.phone_number && phoneSettings.phone_verified_at ? (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{formatPhoneNumber(phoneSettings.phone_number)}</span>
+                          <Badge variant="secondary" className="gap-1">
+                            <Check className="h-3 w-3" />
+                            Verified
+                          </Badge>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removePhoneNumber.mutate()}
+                          disabled={removePhoneNumber.isPending}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ) : codeSentTo ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="verification-code">Verification code sent to {formatPhoneNumber(codeSentTo)}</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="verification-code"
+                            inputMode="numeric"
+                            maxLength={6}
+                            placeholder="123456"
+                            value={verificationCode}
+                            onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, ''))}
+                          />
+                          <Button
+                            onClick={handleConfirmCode}
+                            disabled={verificationCode.length !== 6 || confirmCode.isPending}
+                          >
+                            {confirmCode.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                            Verify
+                          </Button>
+                        </div>
+                        <Button variant="link" size="sm" className="px-0" onClick={() => setCodeSentTo(null)}>
+                          Use a different number
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="phone-number">Mobile number</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="phone-number"
+                            type="tel"
+                            placeholder="(555) 123-4567"
+                            value={phoneInput}
+                            onChange={(e) => setPhoneInput(e.target.value)}
+                          />
+                          <Button
+                            variant="outline"
+                            onClick={handleSendCode}
+                            disabled={!phoneInput.trim() || sendCode.isPending}
+                          >
+                            {sendCode.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                            Send code
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Include the country code for numbers outside the US. Message and data rates may apply.
+                        </p>
+                      </div>
+                    )}
+
                     <p className="text-sm text-muted-foreground">
-                      Your plan includes {limits.sms === -1 ? 'unlimited' : limits.sms} SMS messages per month.
+                      {limits.sms === -1
+                        ? `Your plan includes unlimited SMS messages. ${smsSentThisMonth} sent this month.`
+                        : `${smsSentThisMonth} of ${limits.sms} SMS messages used this month.`}
                     </p>
                   </div>
                 ) : (
@@ -585,6 +872,13 @@ export default function Settings() {
                 )}
               </CardContent>
             </Card>
+
+            <CalendarFeedsCard />
+          </TabsContent>
+
+          {/* API Tab */}
+          <TabsContent value="api" className="space-y-6">
+            <ApiKeysCard />
           </TabsContent>
         </Tabs>
       </div>
@@ -1,9 +1,14 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { useTeam, useInvitation, UserRole } from '@/hooks/useTeam';
+import { useTeam, useInvitation, TeamMember, UserRole } from '@/hooks/useTeam';
 import { useSubscription } from '@/hooks/useSubscription';
 import AppLayout from '@/components/layout/AppLayout';
+import AuditLogCard from '@/components/team/AuditLogCard';
+import ChatWebhooksCard from '@/components/team/ChatWebhooksCard';
+import EscalationPolicyCard from '@/components/team/EscalationPolicyCard';
+import OffboardMemberDialog from '@/components/team/OffboardMemberDialog';
+import WebhookEndpointsCard from '@/components/team/WebhookEndpointsCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -12,6 +17,7 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Dialog,
   DialogContent,
@@ -61,9 +67,11 @@ import {
   LogOut,
   Trash2,
   Zap,
+  History,
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { TIMEZONE_OPTIONS } from '@/lib/deadline-utils';
 
 const ROLE_LABELS: Record<UserRole, string> = {
   individual: 'Individual',
@@ -100,8 +108,6 @@ export default function Team() {
     sendInvitation,
     cancelInvitation,
     updateMemberRole,
-    removeMember,
-    leaveOrganization,
   } = useTeam();
   const { planTier, limits } = useSubscription();
 
@@ -109,12 +115,13 @@ export default function Team() {
   const [showCreateOrg, setShowCreateOrg] = useState(false);
   const [showInvite, setShowInvite] = useState(false);
   const [showEditOrg, setShowEditOrg] = useState(false);
-  const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
-  const [showRemoveConfirm, setShowRemoveConfirm] = useState<string | null>(null);
+  // The member being removed, or yourself when leaving
+  const [memberToOffboard, setMemberToOffboard] = useState<TeamMember | null>(null);
 
   // Form state
   const [orgName, setOrgName] = useState('');
   const [orgIndustry, setOrgIndustry] = useState('');
+  const [orgTimezone, setOrgTimezone] = useState('');
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviteRole, setInviteRole] = useState<UserRole>('org_member');
 
@@ -140,6 +147,7 @@ export default function Team() {
     await updateOrganization.mutateAsync({
       name: orgName.trim(),
       industry: orgIndustry || undefined,
+      timezone: orgTimezone || null,
     });
     
     setShowEditOrg(false);
@@ -158,16 +166,6 @@ export default function Team() {
     setInviteRole('org_member');
   };
 
-  const handleLeaveOrganization = async () => {
-    await leaveOrganization.mutateAsync();
-    setShowLeaveConfirm(false);
-  };
-
-  const handleRemoveMember = async (memberId: string) => {
-    await removeMember.mutateAsync(memberId);
-    setShowRemoveConfirm(null);
-  };
-
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -302,6 +300,7 @@ export default function Team() {
                 <Button variant="outline" size="sm" onClick={() => {
                   setOrgName(organization?.name || '');
                   setOrgIndustry(organization?.industry || '');
+                  setOrgTimezone(organization?.timezone || '');
                   setShowEditOrg(true);
                 }}>
                   <Settings className="h-4 w-4 mr-2" />
@@ -316,251 +315,283 @@ export default function Team() {
           </div>
         </div>
 
-        {/* Stats */}
-        <div className="grid grid-cols-3 gap-4 mb-8">
-          <Card>
-            <CardContent className="pt-6">
-              <div className="flex items-center gap-3">
-                <div className="p-2 rounded-lg bg-blue-500/10">
-                  <Users className="h-5 w-5 text-blue-500" />
-                </div>
-                <div>
-                  <p className="text-2xl font-bold">{teamMembers.length}</p>
-                  <p className="text-sm text-muted-foreground">
-                    {limits.team_members === -1 ? 'Unlimited' : `of ${limits.team_members}`} members
-                  </p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+        <Tabs defaultValue="members">
+          {isOrgAdmin && (
+            <TabsList className="mb-6">
+              <TabsTrigger value="members" className="gap-2">
+                <Users className="h-4 w-4" />
+                Team
+              </TabsTrigger>
+              <TabsTrigger value="audit" className="gap-2">
+                <History className="h-4 w-4" />
+                Audit
+              </TabsTrigger>
+            </TabsList>
+          )}
+
+          <TabsContent value="members">
+            {/* Stats */}
+            <div className="grid grid-cols-3 gap-4 mb-8">
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-blue-500/10">
+                      <Users className="h-5 w-5 text-blue-500" />
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold">{teamMembers.length}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {limits.team_members === -1 ? 'Unlimited' : `of ${limits.team_members}`} members
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
           
-          <Card>
-            <CardContent className="pt-6">
-              <div className="flex items-center gap-3">
-                <div className="p-2 rounded-lg bg-amber-500/10">
-                  <Mail className="h-5 w-5 text-amber-500" />
-                </div>
-                <div>
-                  <p className="text-2xl font-bold">{invitations.length}</p>
-                  <p className="text-sm text-muted-foreground">Pending invites</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-amber-500/10">
+                      <Mail className="h-5 w-5 text-amber-500" />
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold">{invitations.length}</p>
+                      <p className="text-sm text-muted-foreground">Pending invites</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
           
-          <Card>
-            <CardContent className="pt-6">
-              <div className="flex items-center gap-3">
-                <div className="p-2 rounded-lg bg-green-500/10">
-                  <ShieldCheck className="h-5 w-5 text-green-500" />
-                </div>
-                <div>
-                  <p className="text-2xl font-bold">
-                    {teamMembers.filter(m => m.role === 'org_admin').length}
-                  </p>
-                  <p className="text-sm text-muted-foreground">Admins</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-green-500/10">
+                      <ShieldCheck className="h-5 w-5 text-green-500" />
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold">
+                        {teamMembers.filter(m => m.role === 'org_admin').length}
+                      </p>
+                      <p className="text-sm text-muted-foreground">Admins</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
 
-        {/* Capacity Warning */}
-        {!canInviteMore && (
-          <Alert className="mb-6 border-amber-500/50 bg-amber-50/50 dark:bg-amber-950/20">
-            <AlertTriangle className="h-4 w-4 text-amber-600" />
-            <AlertDescription className="flex items-center justify-between">
-              <span>You've reached your team member limit ({limits.team_members} members).</span>
-              <Button size="sm" variant="outline" onClick={() => navigate('/pricing')}>
-                Upgrade Plan
-              </Button>
-            </AlertDescription>
-          </Alert>
-        )}
+            {/* Capacity Warning */}
+            {!canInviteMore && (
+              <Alert className="mb-6 border-amber-500/50 bg-amber-50/50 dark:bg-amber-950/20">
+                <AlertTriangle className="h-4 w-4 text-amber-600" />
+                <AlertDescription className="flex items-center justify-between">
+                  <span>You've reached your team member limit ({limits.team_members} members).</span>
+                  <Button size="sm" variant="outline" onClick={() => navigate('/pricing')}>
+                    Upgrade Plan
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
 
-        {/* Team Members */}
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle>Team Members</CardTitle>
-            <CardDescription>
-              Manage your team members and their roles
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Member</TableHead>
-                  <TableHead>Role</TableHead>
-                  <TableHead>Joined</TableHead>
-                  <TableHead className="w-[50px]"></TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {teamMembers.map((member) => {
-                  const isCurrentUser = member.id === user?.id;
-                  const canManage = isOrgAdmin && !isCurrentUser;
-                  
-                  return (
-                    <TableRow key={member.id}>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          <Avatar className="h-9 w-9">
-                            <AvatarFallback className="bg-primary/10 text-primary text-sm">
-                              {getInitials(member.name || member.email)}
-                            </AvatarFallback>
-                          </Avatar>
-                          <div>
-                            <p className="font-medium">
-                              {member.name || 'No name'}
-                              {isCurrentUser && (
-                                <span className="text-muted-foreground ml-2">(you)</span>
-                              )}
-                            </p>
-                            <p className="text-sm text-muted-foreground">{member.email}</p>
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="secondary" className="gap-1">
-                          {ROLE_ICONS[member.role]}
-                          {ROLE_LABELS[member.role]}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-muted-foreground">
-                        {format(new Date(member.created_at), 'MMM d, yyyy')}
-                      </TableCell>
-                      <TableCell>
-                        {canManage && (
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="icon" className="h-8 w-8">
-                                <MoreHorizontal className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem
-                                onClick={() => updateMemberRole.mutate({
-                                  memberId: member.id,
-                                  role: member.role === 'org_admin' ? 'org_member' : 'org_admin',
-                                })}
-                              >
-                                {member.role === 'org_admin' ? (
-                                  <>
-                                    <Users className="h-4 w-4 mr-2" />
-                                    Make Member
-                                  </>
-                                ) : (
-                                  <>
-                                    <Crown className="h-4 w-4 mr-2" />
-                                    Make Admin
-                                  </>
-                                )}
-                              </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem
-                                className="text-destructive"
-                                onClick={() => setShowRemoveConfirm(member.id)}
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Remove from team
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        )}
-                      </TableCell>
+            {/* Team Members */}
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Team Members</CardTitle>
+                <CardDescription>
+                  Manage your team members and their roles
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="w-[50px]"></TableHead>
                     </TableRow>
-                  );
-                })}
-              </TableBody>
-            </Table>
-          </CardContent>
-        </Card>
+                  </TableHeader>
+                  <TableBody>
+                    {teamMembers.map((member) => {
+                      const isCurrentUser = member.id === user?.id;
+                      const canManage = isOrgAdmin && !isCurrentUser;
+                  
+                      return (
+                        <TableRow key={member.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              <Avatar className="h-9 w-9">
+                                <AvatarFallback className="bg-primary/10 text-primary text-sm">
+                                  {getInitials(member.name || member.email)}
+                                </AvatarFallback>
+                              </Avatar>
+                              <div>
+                                <p className="font-medium">
+                                  {member.name || 'No name'}
+                                  {isCurrentUser && (
+                                    <span className="text-muted-foreground ml-2">(you)</span>
+                                  )}
+                                </p>
+                                <p className="text-sm text-muted-foreground">{member.email}</p>
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className="gap-1">
+                              {ROLE_ICONS[member.role]}
+                              {ROLE_LABELS[member.role]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {format(new Date(member.created_at), 'MMM d, yyyy')}
+                          </TableCell>
+                          <TableCell>
+                            {canManage && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                                    <MoreHorizontal className="h-4 w-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem
+                                    onClick={() => updateMemberRole.mutate({
+                                      memberId: member.id,
+                                      role: member.role === 'org_admin' ? 'org_member' : 'org_admin',
+                                    })}
+                                  >
+                                    {member.role === 'org_admin' ? (
+                                      <>
+                                        <Users className="h-4 w-4 mr-2" />
+                                        Make Member
+                                      </>
+                                    ) : (
+                                      <>
+                                        <Crown className="h-4 w-4 mr-2" />
+                                        Make Admin
+                                      </>
+                                    )}
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onClick={() => setMemberToOffboard(member)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Remove from team
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
 
-        {/* Pending Invitations */}
-        {isOrgAdmin && invitations.length > 0 && (
-          <Card className="mb-6">
-            <CardHeader>
-              <CardTitle>Pending Invitations</CardTitle>
-              <CardDescription>
-                Invitations that haven't been accepted yet
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Role</TableHead>
-                    <TableHead>Expires</TableHead>
-                    <TableHead className="w-[50px]"></TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {invitations.map((invitation) => (
-                    <TableRow key={invitation.id}>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          <div className="h-9 w-9 rounded-full bg-muted flex items-center justify-center">
-                            <Mail className="h-4 w-4 text-muted-foreground" />
-                          </div>
-                          <span>{invitation.email}</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className="gap-1">
-                          {ROLE_ICONS[invitation.role]}
-                          {ROLE_LABELS[invitation.role]}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-muted-foreground">
-                        <div className="flex items-center gap-1">
-                          <Clock className="h-3 w-3" />
-                          {formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                          onClick={() => cancelInvitation.mutate(invitation.id)}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
-        )}
+            {/* Pending Invitations */}
+            {isOrgAdmin && invitations.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Pending Invitations</CardTitle>
+                  <CardDescription>
+                    Invitations that haven't been accepted yet
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead className="w-[50px]"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invitations.map((invitation) => (
+                        <TableRow key={invitation.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              <div className="h-9 w-9 rounded-full bg-muted flex items-center justify-center">
+                                <Mail className="h-4 w-4 text-muted-foreground" />
+                              </div>
+                              <span>{invitation.email}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="gap-1">
+                              {ROLE_ICONS[invitation.role]}
+                              {ROLE_LABELS[invitation.role]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            <div className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              onClick={() => cancelInvitation.mutate(invitation.id)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
 
-        {/* Leave Organization */}
-        {!isOrgAdmin && (
-          <Card className="border-destructive/50">
-            <CardHeader>
-              <CardTitle className="text-destructive">Leave Organization</CardTitle>
-              <CardDescription>
-                Remove yourself from this organization
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm text-muted-foreground mb-4">
-                You will lose access to all shared deadlines and team features. 
-                Your personal deadlines will be preserved.
-              </p>
-              <Button
-                variant="destructive"
-                onClick={() => setShowLeaveConfirm(true)}
-              >
-                <LogOut className="h-4 w-4 mr-2" />
-                Leave Organization
-              </Button>
-            </CardContent>
-          </Card>
-        )}
+            {/* Escalation Policy */}
+            <EscalationPolicyCard teamMembers={teamMembers} canEdit={isOrgAdmin} />
+
+            {/* Chat Notifications */}
+            {isOrgAdmin && <ChatWebhooksCard />}
+
+            {/* Outbound Webhooks */}
+            {isOrgAdmin && <WebhookEndpointsCard />}
+
+            {/* Leave Organization */}
+            {!isOrgAdmin && (
+              <Card className="border-destructive/50">
+                <CardHeader>
+                  <CardTitle className="text-destructive">Leave Organization</CardTitle>
+                  <CardDescription>
+                    Remove yourself from this organization
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    You will lose access to all shared deadlines and team features.
+                    Your personal deadlines will be preserved; team deadlines you own are handed to a teammate first.
+                  </p>
+                  <Button
+                    variant="destructive"
+                    onClick={() => setMemberToOffboard(teamMembers.find((member) => member.id === user?.id) ?? null)}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Leave Organization
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {isOrgAdmin && (
+            <TabsContent value="audit">
+              <AuditLogCard />
+            </TabsContent>
+          )}
+        </Tabs>
 
         {/* Edit Organization Dialog */}
         <Dialog open={showEditOrg} onOpenChange={setShowEditOrg}>
@@ -595,6 +626,28 @@ export default function Team() {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-org-timezone">Default Time Zone</Label>
+                <Select value={orgTimezone || 'none'} onValueChange={(v) => setOrgTimezone(v === 'none' ? '' : v)}>
+                  <SelectTrigger id="edit-org-timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not set</SelectItem>
+                    {orgTimezone && !TIMEZONE_OPTIONS.some((option) => option.value === orgTimezone) && (
+                      <SelectItem value={orgTimezone}>{orgTimezone.replace(/_/g, ' ')}</SelectItem>
+                    )}
+                    {TIMEZONE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Used for members who haven't set their own time zone
+                </p>
+              </div>
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setShowEditOrg(false)}>
@@ -680,71 +733,11 @@ export default function Team() {
           </DialogContent>
         </Dialog>
 
-        {/* Leave Confirmation Dialog */}
-        <Dialog open={showLeaveConfirm} onOpenChange={setShowLeaveConfirm}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Leave Organization?</DialogTitle>
-              <DialogDescription>
-                Are you sure you want to leave {organization?.name}?
-              </DialogDescription>
-            </DialogHeader>
-            <div className="py-4">
-              <p className="text-sm text-muted-foreground">
-                You will lose access to all shared deadlines and team features.
-                This action cannot be undone.
-              </p>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setShowLeaveConfirm(false)}>
-                Cancel
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={handleLeaveOrganization}
-                disabled={leaveOrganization.isPending}
-              >
-                {leaveOrganization.isPending && (
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                )}
-                Leave Organization
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-
-        {/* Remove Member Confirmation Dialog */}
-        <Dialog open={!!showRemoveConfirm} onOpenChange={() => setShowRemoveConfirm(null)}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Remove Team Member?</DialogTitle>
-              <DialogDescription>
-                Are you sure you want to remove this member from the organization?
-              </DialogDescription>
-            </DialogHeader>
-            <div className="py-4">
-              <p className="text-sm text-muted-foreground">
-                They will lose access to all shared deadlines and team features.
-                Their personal deadlines will be preserved.
-              </p>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setShowRemoveConfirm(null)}>
-                Cancel
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={() => showRemoveConfirm && handleRemoveMember(showRemoveConfirm)}
-                disabled={removeMember.isPending}
-              >
-                {removeMember.isPending && (
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                )}
-                Remove Member
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        {/* Remove Member / Leave Organization Dialog */}
+        <OffboardMemberDialog
+          member={memberToOffboard}
+          onOpenChange={(open) => !open && setMemberToOffboard(null)}
+        />
       </div>
     </AppLayout>
   );
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { getAssigneeId, isAssignedTo } from "./assignment.ts";
+
+describe("getAssigneeId", () => {
+  it("uses the assignee when there is one", () => {
+    expect(getAssigneeId({ user_id: "creator", assignee_id: "assignee" })).toBe("assignee");
+  });
+
+  it("falls back to the creator", () => {
+    expect(getAssigneeId({ user_id: "creator", assignee_id: null })).toBe("creator");
+    expect(getAssigneeId({ user_id: "creator" })).toBe("creator");
+  });
+});
+
+describe("isAssignedTo", () => {
+  const deadline = { user_id: "creator", assignee_id: "assignee", backup_assignee_ids: ["backup-1", "backup-2"] };
+
+  it("includes the assignee and every backup", () => {
+    expect(isAssignedTo(deadline, "assignee")).toBe(true);
+    expect(isAssignedTo(deadline, "backup-1")).toBe(true);
+    expect(isAssignedTo(deadline, "backup-2")).toBe(true);
+  });
+
+  it("leaves out the creator once someone else is assigned", () => {
+    expect(isAssignedTo(deadline, "creator")).toBe(false);
+    expect(isAssignedTo(deadline, "someone-else")).toBe(false);
+  });
+
+  it("treats the creator as assigned when nobody else is", () => {
+    expect(isAssignedTo({ user_id: "creator", assignee_id: null, backup_assignee_ids: null }, "creator")).toBe(true);
+    expect(isAssignedTo({ user_id: "creator" }, "backup-1")).toBe(false);
+  });
+});
@@ -0,0 +1,23 @@
+// Who a deadline belongs to day to day, shared by the web app and the edge
+// functions. The creator (user_id) stays on record; the assignee gets the
+// reminders and backups cover for them. Deadlines with no assignee (say, the
+// assignee's account was deleted) fall back to the creator.
+// Keep this file free of third-party imports.
+
+export interface AssignableDeadline {
+  user_id: string;
+  assignee_id?: string | null;
+  backup_assignee_ids?: string[] | null;
+}
+
+// Matches the deadlines_backup_assignees_count constraint
+export const MAX_BACKUP_ASSIGNEES = 5;
+
+export function getAssigneeId(deadline: AssignableDeadline): string {
+  return deadline.assignee_id ?? deadline.user_id;
+}
+
+// The assignee or one of the backups
+export function isAssignedTo(deadline: AssignableDeadline, userId: string): boolean {
+  return getAssigneeId(deadline) === userId || (deadline.backup_assignee_ids ?? []).includes(userId);
+}
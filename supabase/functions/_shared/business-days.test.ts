@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { adjustToBusinessDay, getHolidayName, getHolidays, isBusinessDay } from "./business-days.ts";
+
+describe("getHolidays", () => {
+  it("computes fixed and nth-weekday federal holidays", () => {
+    const holidays = getHolidays(2026);
+    expect(holidays.get("2026-01-19")).toBe("Martin Luther King Jr. Day");
+    expect(holidays.get("2026-05-25")).toBe("Memorial Day");
+    expect(holidays.get("2026-09-07")).toBe("Labor Day");
+    expect(holidays.get("2026-11-26")).toBe("Thanksgiving Day");
+    expect(holidays.size).toBe(11);
+  });
+
+  it("observes weekend holidays on the nearest weekday", () => {
+    // July 4, 2026 is a Saturday
+    expect(getHolidayName("2026-07-03")).toBe("Independence Day");
+    expect(getHolidayName("2026-07-04")).toBeNull();
+  });
+
+  it("includes next year's New Year's Day when observed on Dec 31", () => {
+    // Jan 1, 2022 was a Saturday
+    expect(getHolidays(2021).get("2021-12-31")).toBe("New Year's Day");
+    expect(getHolidays(2022).has("2021-12-31")).toBe(false);
+  });
+
+  it("adds state holidays on top of the federal ones", () => {
+    expect(getHolidayName("2026-11-27", "US-CA")).toBe("Day after Thanksgiving");
+    expect(getHolidayName("2026-11-27")).toBeNull();
+    expect(getHolidayName("2026-10-30", "US-NV")).toBe("Nevada Day");
+  });
+});
+
+describe("isBusinessDay", () => {
+  it("excludes weekends and holidays", () => {
+    expect(isBusinessDay("2026-03-02")).toBe(true);
+    expect(isBusinessDay("2026-03-07")).toBe(false);
+    expect(isBusinessDay("2026-12-25")).toBe(false);
+  });
+});
+
+describe("adjustToBusinessDay", () => {
+  it("leaves dates alone without a roll rule", () => {
+    expect(adjustToBusinessDay("2026-07-04T00:00:00Z", "none")).toBe("2026-07-04");
+    expect(adjustToBusinessDay("2026-07-04", null)).toBe("2026-07-04");
+  });
+
+  it("rolls forward past weekends", () => {
+    expect(adjustToBusinessDay("2026-07-04", "next")).toBe("2026-07-06");
+  });
+
+  it("rolls back past an observed holiday", () => {
+    expect(adjustToBusinessDay("2026-07-04", "previous")).toBe("2026-07-02");
+  });
+
+  it("uses the state calendar", () => {
+    expect(adjustToBusinessDay("2026-12-24", "next")).toBe("2026-12-24");
+    expect(adjustToBusinessDay("2026-12-24", "next", "US-TX")).toBe("2026-12-28");
+  });
+});
@@ -0,0 +1,224 @@
+// Business-day adjustment for due dates that land on weekends or holidays,
+// shared by the web app and the edge functions. Holiday calendars are bundled
+// here as rules (fixed dates and "nth weekday of month") so no lookup service
+// is needed. Works on ISO calendar dates (YYYY-MM-DD) in UTC.
+// Keep this file free of third-party imports.
+
+export type BusinessDayRoll = "none" | "next" | "previous";
+
+interface HolidayRule {
+  name: string;
+  month: number; // 1-12
+  day?: number; // Fixed date, observed on the nearest weekday
+  weekday?: number; // 0 = Monday ... 6 = Sunday
+  nth?: number; // 1 = first, -1 = last
+  offsetDays?: number; // e.g. 1 for the day after Thanksgiving
+}
+
+interface HolidayCalendar {
+  label: string;
+  holidays: HolidayRule[];
+}
+
+export const DEFAULT_HOLIDAY_CALENDAR = "US";
+
+const FEDERAL_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", month: 1, day: 1 },
+  { name: "Martin Luther King Jr. Day", month: 1, weekday: 0, nth: 3 },
+  { name: "Washington's Birthday", month: 2, weekday: 0, nth: 3 },
+  { name: "Memorial Day", month: 5, weekday: 0, nth: -1 },
+  { name: "Juneteenth", month: 6, day: 19 },
+  { name: "Independence Day", month: 7, day: 4 },
+  { name: "Labor Day", month: 9, weekday: 0, nth: 1 },
+  { name: "Columbus Day", month: 10, weekday: 0, nth: 2 },
+  { name: "Veterans Day", month: 11, day: 11 },
+  { name: "Thanksgiving Day", month: 11, weekday: 3, nth: 4 },
+  { name: "Christmas Day", month: 12, day: 25 },
+];
+
+const DAY_AFTER_THANKSGIVING: HolidayRule = {
+  name: "Day after Thanksgiving",
+  month: 11,
+  weekday: 3,
+  nth: 4,
+  offsetDays: 1,
+};
+
+// State calendars add state government holidays on top of the federal ones.
+// Review against each state's published schedule when adding or changing one.
+export const HOLIDAY_CALENDARS: Record<string, HolidayCalendar> = {
+  US: { label: "US Federal", holidays: [] },
+  "US-AK": {
+    label: "Alaska",
+    holidays: [
+      { name: "Seward's Day", month: 3, weekday: 0, nth: -1 },
+      { name: "Alaska Day", month: 10, day: 18 },
+    ],
+  },
+  "US-CA": {
+    label: "California",
+    holidays: [
+      { name: "Cesar Chavez Day", month: 3, day: 31 },
+      DAY_AFTER_THANKSGIVING,
+    ],
+  },
+  "US-FL": { label: "Florida", holidays: [DAY_AFTER_THANKSGIVING] },
+  "US-HI": {
+    label: "Hawaii",
+    holidays: [
+      { name: "Prince Kuhio Day", month: 3, day: 26 },
+      { name: "King Kamehameha I Day", month: 6, day: 11 },
+      { name: "Statehood Day", month: 8, weekday: 4, nth: 3 },
+    ],
+  },
+  "US-IL": {
+    label: "Illinois",
+    holidays: [
+      { name: "Lincoln's Birthday", month: 2, day: 12 },
+      DAY_AFTER_THANKSGIVING,
+    ],
+  },
+  "US-MA": {
+    label: "Massachusetts",
+    holidays: [{ name: "Patriots' Day", month: 4, weekday: 0, nth: 3 }],
+  },
+  "US-ME": {
+    label: "Maine",
+    holidays: [{ name: "Patriots' Day", month: 4, weekday: 0, nth: 3 }],
+  },
+  "US-NV": {
+    label: "Nevada",
+    holidays: [
+      { name: "Nevada Day", month: 10, weekday: 4, nth: -1 },
+      { ...DAY_AFTER_THANKSGIVING, name: "Family Day" },
+    ],
+  },
+  "US-NY": {
+    label: "New York",
+    holidays: [{ name: "Lincoln's Birthday", month: 2, day: 12 }],
+  },
+  "US-TX": {
+    label: "Texas",
+    holidays: [
+      DAY_AFTER_THANKSGIVING,
+      { name: "Christmas Eve", month: 12, day: 24 },
+      { name: "Day after Christmas", month: 12, day: 26 },
+    ],
+  },
+  "US-UT": {
+    label: "Utah",
+    holidays: [{ name: "Pioneer Day", month: 7, day: 24 }],
+  },
+  "US-VA": {
+    label: "Virginia",
+    holidays: [
+      DAY_AFTER_THANKSGIVING,
+      { name: "Christmas Eve", month: 12, day: 24 },
+    ],
+  },
+  "US-WA": {
+    label: "Washington",
+    holidays: [{ ...DAY_AFTER_THANKSGIVING, name: "Native American Heritage Day" }],
+  },
+};
+
+// Safety limit for rolling; no calendar has this many non-business days in a row
+const MAX_ROLL_DAYS = 14;
+
+const holidayCache = new Map<string, Map<string, string>>();
+
+function parseISODate(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function getWeekday(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function isWeekend(date: Date): boolean {
+  return getWeekday(date) >= 5;
+}
+
+function getHolidayDate(rule: HolidayRule, year: number): Date {
+  const monthIndex = rule.month - 1;
+  let date: Date;
+
+  if (rule.day) {
+    date = new Date(Date.UTC(year, monthIndex, rule.day));
+    // Saturday holidays are observed on Friday, Sunday ones on Monday
+    if (!rule.offsetDays) {
+      const weekday = getWeekday(date);
+      if (weekday === 5) date.setUTCDate(date.getUTCDate() - 1);
+      if (weekday === 6) date.setUTCDate(date.getUTCDate() + 1);
+    }
+  } else {
+    const nth = rule.nth ?? 1;
+    if (nth > 0) {
+      date = new Date(Date.UTC(year, monthIndex, 1));
+      date.setUTCDate(1 + ((rule.weekday! - getWeekday(date) + 7) % 7) + (nth - 1) * 7);
+    } else {
+      date = new Date(Date.UTC(year, monthIndex + 1, 0));
+      date.setUTCDate(date.getUTCDate() - ((getWeekday(date) - rule.weekday! + 7) % 7) + (nth + 1) * 7);
+    }
+  }
+
+  if (rule.offsetDays) {
+    date.setUTCDate(date.getUTCDate() + rule.offsetDays);
+  }
+
+  return date;
+}
+
+// Observed holidays in `year` for a calendar, keyed by ISO date
+export function getHolidays(year: number, calendar: string = DEFAULT_HOLIDAY_CALENDAR): Map<string, string> {
+  const key = `${calendar}:${year}`;
+  const cached = holidayCache.get(key);
+  if (cached) return cached;
+
+  const rules = [...FEDERAL_HOLIDAYS, ...(HOLIDAY_CALENDARS[calendar]?.holidays ?? [])];
+  const holidays = new Map<string, string>();
+
+  // Next year's New Year's Day can be observed on Dec 31 of this year
+  for (const ruleYear of [year, year + 1]) {
+    for (const rule of rules) {
+      const date = toISODate(getHolidayDate(rule, ruleYear));
+      if (date.startsWith(String(year)) && !holidays.has(date)) {
+        holidays.set(date, rule.name);
+      }
+    }
+  }
+
+  holidayCache.set(key, holidays);
+  return holidays;
+}
+
+export function getHolidayName(date: string, calendar: string = DEFAULT_HOLIDAY_CALENDAR): string | null {
+  return getHolidays(Number(date.slice(0, 4)), calendar).get(date.slice(0, 10)) ?? null;
+}
+
+export function isBusinessDay(date: string, calendar: string = DEFAULT_HOLIDAY_CALENDAR): boolean {
+  return !isWeekend(parseISODate(date)) && !getHolidayName(date, calendar);
+}
+
+// Move a due date off weekends and holidays according to the roll rule
+export function adjustToBusinessDay(
+  date: string,
+  roll: BusinessDayRoll | string | null | undefined,
+  calendar: string = DEFAULT_HOLIDAY_CALENDAR
+): string {
+  if (roll !== "next" && roll !== "previous") return date.slice(0, 10);
+
+  const step = roll === "next" ? 1 : -1;
+  const result = parseISODate(date);
+
+  for (let i = 0; i < MAX_ROLL_DAYS && !isBusinessDay(toISODate(result), calendar); i++) {
+    result.setUTCDate(result.getUTCDate() + step);
+  }
+
+  return toISODate(result);
+}
@@ -0,0 +1,39 @@
+// Deadline categories, shared by the web app and the edge functions so lists,
+// feeds and reports group and label deadlines the same way.
+// Keep this file free of third-party imports.
+
+export type DeadlineCategory = "license" | "insurance" | "contract" | "personal" | "other";
+
+// Display order
+export const DEADLINE_CATEGORIES: DeadlineCategory[] = ["license", "insurance", "contract", "personal", "other"];
+
+export const CATEGORY_LABELS: Record<DeadlineCategory, string> = {
+  license: "License",
+  insurance: "Insurance",
+  contract: "Contract",
+  personal: "Personal",
+  other: "Other",
+};
+
+export function getCategoryLabel(category: string): string {
+  return CATEGORY_LABELS[category as DeadlineCategory] ?? "Other";
+}
+
+export function groupDeadlinesByCategory<T extends { category: string }>(
+  deadlines: T[]
+): Record<DeadlineCategory, T[]> {
+  const groups: Record<DeadlineCategory, T[]> = {
+    license: [],
+    insurance: [],
+    contract: [],
+    personal: [],
+    other: [],
+  };
+
+  for (const deadline of deadlines) {
+    // Unknown categories land in "other" rather than being dropped
+    (groups[deadline.category as DeadlineCategory] ?? groups.other).push(deadline);
+  }
+
+  return groups;
+}
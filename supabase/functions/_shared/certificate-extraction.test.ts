@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { detectDocumentType, extractCertificateDetails, parseCertificateDate } from "./certificate-extraction.ts";
+
+const ACORD_25 = `ACORD CERTIFICATE OF LIABILITY INSURANCE DATE (MM/DD/YYYY) 10/01/2026
+INSURER A : Hartford Fire Insurance Company 19682
+INSURER B : Travelers Indemnity Co 25658
+COVERAGES
+INSR LTR TYPE OF INSURANCE POLICY NUMBER POLICY EFF (MM/DD/YYYY) POLICY EXP (MM/DD/YYYY) LIMITS
+A X COMMERCIAL GENERAL LIABILITY 21-SBA-AB1234 03/01/2026 03/01/2027 EACH OCCURRENCE $ 1,000,000
+DAMAGE TO RENTED PREMISES (Ea occurrence) $ 300,000
+GENERAL AGGREGATE $ 2,000,000
+B WORKERS COMPENSATION AND EMPLOYERS' LIABILITY UB-9K123456 01/15/2026 01/15/2027 E.L. EACH ACCIDENT $ 500,000`;
+
+const LICENSE_CARD = `State of California
+Contractors State License Board
+Department of Consumer Affairs
+License No. 1045678  Classification C-10
+Issued: 04/30/2025
+Expires: April 30, 2027`;
+
+describe("parseCertificateDate", () => {
+  it("reads numeric, ISO and written dates", () => {
+    expect(parseCertificateDate("03/01/2026")).toBe("2026-03-01");
+    expect(parseCertificateDate("3-1-26")).toBe("2026-03-01");
+    expect(parseCertificateDate("2026-03-01")).toBe("2026-03-01");
+    expect(parseCertificateDate("Sept. 1, 2026")).toBe("2026-09-01");
+    expect(parseCertificateDate("1 March 2026")).toBe("2026-03-01");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseCertificateDate("02/30/2026")).toBeNull();
+    expect(parseCertificateDate("13/01/2026")).toBeNull();
+    expect(parseCertificateDate("soon")).toBeNull();
+  });
+});
+
+describe("detectDocumentType", () => {
+  it("recognises certificates of insurance and licenses", () => {
+    expect(detectDocumentType(ACORD_25)).toBe("acord_25");
+    expect(detectDocumentType(LICENSE_CARD)).toBe("license");
+    expect(detectDocumentType("Invoice #123")).toBe("unknown");
+  });
+});
+
+describe("extractCertificateDetails", () => {
+  it("reads insurers, policies and limits from an ACORD 25", () => {
+    const result = extractCertificateDetails(ACORD_25);
+
+    expect(result.insurers).toEqual([
+      { letter: "A", name: "Hartford Fire Insurance Company", naic: "19682" },
+      { letter: "B", name: "Travelers Indemnity Co", naic: "25658" },
+    ]);
+    expect(result.policies).toEqual([
+      {
+        coverage: "General liability",
+        insurerLetter: "A",
+        policyNumber: "21-SBA-AB1234",
+        effectiveDate: "2026-03-01",
+        expirationDate: "2027-03-01",
+      },
+      {
+        coverage: "Workers compensation",
+        insurerLetter: "B",
+        policyNumber: "UB-9K123456",
+        effectiveDate: "2026-01-15",
+        expirationDate: "2027-01-15",
+      },
+    ]);
+    expect(result.limits).toEqual([
+      { label: "Each occurrence", amount: 1000000 },
+      { label: "Damage to rented premises", amount: 300000 },
+      { label: "General aggregate", amount: 2000000 },
+      { label: "E.L. each accident", amount: 500000 },
+    ]);
+  });
+
+  it("proposes the policy that lapses first", () => {
+    expect(extractCertificateDetails(ACORD_25)).toMatchObject({
+      referenceNumber: "UB-9K123456",
+      expirationDate: "2027-01-15",
+      issuingAuthority: "Travelers Indemnity Co",
+    });
+  });
+
+  it("prefers the policy the deadline already tracks", () => {
+    expect(extractCertificateDetails(ACORD_25, { currentReference: "21sba ab1234" })).toMatchObject({
+      referenceNumber: "21-SBA-AB1234",
+      effectiveDate: "2026-03-01",
+      expirationDate: "2027-03-01",
+      issuingAuthority: "Hartford Fire Insurance Company",
+    });
+  });
+
+  it("reads labelled fields from a license card", () => {
+    expect(extractCertificateDetails(LICENSE_CARD)).toEqual({
+      documentType: "license",
+      referenceNumber: "1045678",
+      effectiveDate: "2025-04-30",
+      expirationDate: "2027-04-30",
+      issuingAuthority: "Contractors State License Board",
+      insurers: [],
+      policies: [],
+      limits: [],
+    });
+  });
+
+  it("falls back to the latest date on license cards without an expiration label", () => {
+    const result = extractCertificateDetails("BUSINESS LICENSE\nLicense # BL-20931\n01/01/2026 12/31/2026");
+    expect(result.referenceNumber).toBe("BL-20931");
+    expect(result.expirationDate).toBe("2026-12-31");
+    expect(result.issuingAuthority).toBeNull();
+  });
+
+  it("finds nothing in unrelated documents", () => {
+    expect(extractCertificateDetails("Meeting notes from 10/01/2026")).toMatchObject({
+      documentType: "unknown",
+      referenceNumber: null,
+      expirationDate: null,
+    });
+  });
+});
@@ -0,0 +1,287 @@
+// Pulls policy/license numbers, dates, insurers and limits out of the text layer
+// of an ACORD 25 certificate of insurance or a license card, using pattern rules
+// per document type. Results are proposals for the user to confirm, never applied
+// directly. Keep this file free of third-party imports.
+
+export type CertificateDocumentType = "acord_25" | "license" | "unknown";
+
+export interface CertificatePolicy {
+  coverage: string | null;
+  // INSR LTR column: which of the listed insurers writes this policy
+  insurerLetter: string | null;
+  policyNumber: string;
+  effectiveDate: string | null;
+  expirationDate: string;
+}
+
+export interface CertificateInsurer {
+  letter: string;
+  name: string;
+  naic: string | null;
+}
+
+export interface CertificateLimit {
+  label: string;
+  amount: number;
+}
+
+export interface CertificateExtraction {
+  documentType: CertificateDocumentType;
+  referenceNumber: string | null;
+  effectiveDate: string | null;
+  expirationDate: string | null;
+  issuingAuthority: string | null;
+  insurers: CertificateInsurer[];
+  policies: CertificatePolicy[];
+  limits: CertificateLimit[];
+}
+
+export const DOCUMENT_TYPE_LABELS: Record<CertificateDocumentType, string> = {
+  acord_25: "Certificate of insurance (ACORD 25)",
+  license: "License or registration",
+  unknown: "Document",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const NUMERIC_DATE = String.raw`\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4}`;
+const DATE = String.raw`(?:${NUMERIC_DATE}|\d{4}-\d{2}-\d{2}|` +
+  String.raw`(?:jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.?\s+\d{1,2},?\s+\d{4}|` +
+  String.raw`\d{1,2}\s+(?:jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.?,?\s+\d{4})`;
+
+// Coverage lines of the ACORD 25 table; the label nearest a policy number wins
+const COVERAGE_TYPES: [string, RegExp][] = [
+  ["General liability", /COMMERCIAL GENERAL LIABILITY|GENERAL LIABILITY/],
+  ["Automobile liability", /AUTOMOBILE LIABILITY|ANY AUTO/],
+  ["Umbrella / excess liability", /UMBRELLA LIAB|EXCESS LIAB/],
+  ["Workers compensation", /WORKERS COMPENSATION|EMPLOYERS' LIABILITY/],
+  ["Professional liability", /PROFESSIONAL LIABILITY|ERRORS (?:AND|&) OMISSIONS|E ?& ?O\b/],
+  ["Pollution liability", /POLLUTION|CONTRACTORS POLLUTION/],
+  ["Builders risk", /BUILDERS RISK/],
+];
+
+const LIMIT_LABELS: [string, RegExp][] = [
+  ["Each occurrence", /EACH OCCURRENCE/],
+  ["Damage to rented premises", /DAMAGE TO RENTED\s+PREMISES(?:\s*\(EA OCCURRENCE\))?/],
+  ["Medical expense", /MED EXP(?:\s*\(ANY ONE PERSON\))?/],
+  ["Personal & advertising injury", /PERSONAL & ADV INJURY/],
+  ["General aggregate", /GENERAL AGGREGATE/],
+  ["Products - completed operations aggregate", /PRODUCTS\s*-\s*COMP\/OP AGG/],
+  ["Combined single limit", /COMBINED SINGLE LIMIT(?:\s*\(EA ACCIDENT\))?/],
+  ["Umbrella each occurrence", /(?:UMBRELLA|EXCESS)[\s\S]{0,80}?EACH OCCURRENCE/],
+  ["E.L. each accident", /E\.L\. EACH ACCIDENT/],
+  ["E.L. disease - each employee", /E\.L\. DISEASE\s*-\s*EA EMPLOYEE/],
+  ["E.L. disease - policy limit", /E\.L\. DISEASE\s*-\s*POLICY LIMIT/],
+];
+
+const LICENSE_NUMBER = new RegExp(
+  String.raw`\b(?:LICEN[CS]E|LIC|CERTIFICATE|CERT|REGISTRATION|REG|PERMIT|POLICY|BOND)\.?\s*` +
+    String.raw`(?:NO\.?|NUMBER|NUM\.?|#)\s*:?\s*([A-Z]{0,5}[\s-]?\d[A-Z0-9-]{2,})`,
+  "i"
+);
+const EXPIRATION_DATE = new RegExp(
+  String.raw`\b(?:EXPIRES?(?:\s+ON)?|EXPIRATION(?:\s+DATE)?|EXP\.?(?:\s+DATE)?|VALID\s+(?:THROUGH|THRU|UNTIL|TO)|` +
+    String.raw`GOOD\s+THROUGH|RENEWAL\s+DATE)\s*:?\s*(${DATE})`,
+  "i"
+);
+const EFFECTIVE_DATE = new RegExp(
+  String.raw`\b(?:ISSUED(?:\s+ON)?|ISSUE\s+DATE|DATE\s+(?:OF\s+)?ISSUED?|EFFECTIVE(?:\s+DATE)?|VALID\s+FROM)\s*:?\s*(${DATE})`,
+  "i"
+);
+const AUTHORITY_LINE = /\b(?:BOARD|DEPARTMENT|DEPT\.|DIVISION|COMMISSION|BUREAU|AGENCY|OFFICE OF|SECRETARY OF STATE)\b/i;
+
+function toISODate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split("T")[0];
+}
+
+// Reads the date formats used on US certificates and license cards; numeric dates are month first
+export function parseCertificateDate(value: string): string | null {
+  const text = value.trim().toLowerCase();
+
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return toISODate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2,4})$/);
+  if (match) {
+    const year = Number(match[3]);
+    return toISODate(year < 100 ? 2000 + year : year, Number(match[1]), Number(match[2]));
+  }
+
+  match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (match && MONTHS.includes(match[1])) {
+    return toISODate(Number(match[3]), MONTHS.indexOf(match[1]) + 1, Number(match[2]));
+  }
+
+  match = text.match(/^(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})$/);
+  if (match && MONTHS.includes(match[2])) {
+    return toISODate(Number(match[3]), MONTHS.indexOf(match[2]) + 1, Number(match[1]));
+  }
+
+  return null;
+}
+
+export function detectDocumentType(text: string): CertificateDocumentType {
+  if (/ACORD\s*25|CERTIFICATE OF LIABILITY INSURANCE/i.test(text)) return "acord_25";
+  if (/\b(?:LICEN[CS]E|PERMIT|REGISTRATION|CERTIFICATE OF (?:COMPETENCY|AUTHORITY))\b/i.test(text)) return "license";
+  return "unknown";
+}
+
+function normalizeNumber(value: string): string {
+  return value.replace(/[^A-Z0-9]/gi, "").toUpperCase();
+}
+
+function parseAmount(value: string): number | null {
+  const amount = Number(value.replace(/,/g, ""));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+function extractInsurers(text: string): CertificateInsurer[] {
+  const insurers: CertificateInsurer[] = [];
+  const pattern = /INSURER\s+([A-F])\s*:\s*([^\n]*?)(?:\s+(\d{5}))?\s*(?=INSURER\s+[A-F]\s*:|INSURED\b|COVERAGES\b|\n|$)/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const name = match[2].replace(/\s+/g, " ").trim();
+    if (!name || insurers.some((insurer) => insurer.letter === match[1])) continue;
+    insurers.push({ letter: match[1], name, naic: match[3] ?? null });
+  }
+
+  return insurers;
+}
+
+function extractPolicies(text: string): CertificatePolicy[] {
+  const policies: CertificatePolicy[] = [];
+  const pattern = new RegExp(String.raw`\b([A-Z0-9][A-Z0-9-]{3,})\s+(${NUMERIC_DATE})\s+(${NUMERIC_DATE})`, "g");
+  const upper = text.toUpperCase();
+
+  for (const match of upper.matchAll(pattern)) {
+    const policyNumber = match[1];
+    const effectiveDate = parseCertificateDate(match[2]);
+    const expirationDate = parseCertificateDate(match[3]);
+    // Policy numbers always carry digits; this also skips "MM/DD/YYYY" column headings
+    if (!/\d/.test(policyNumber) || !expirationDate) continue;
+    if (effectiveDate && effectiveDate >= expirationDate) continue;
+
+    // The coverage label and insurer letter sit to the left of the policy number on the same row
+    const before = upper.slice(Math.max(0, match.index! - 200), match.index);
+    let coverage: string | null = null;
+    let coverageIndex = -1;
+    for (const [label, coveragePattern] of COVERAGE_TYPES) {
+      const found = [...before.matchAll(new RegExp(coveragePattern.source, "g"))].pop();
+      if (found && found.index! > coverageIndex) {
+        coverage = label;
+        coverageIndex = found.index!;
+      }
+    }
+    // "A X COMMERCIAL GENERAL LIABILITY", "B WORKERS COMPENSATION AND EMPLOYERS' LIABILITY"
+    const letterMatch = coverageIndex >= 0
+      ? before.slice(0, coverageIndex).match(/(?:^|\s)([A-F])\s+(?:[A-Z'&]+\s+){0,4}$/)
+      : null;
+
+    policies.push({
+      coverage,
+      insurerLetter: letterMatch?.[1] ?? null,
+      policyNumber,
+      effectiveDate,
+      expirationDate,
+    });
+  }
+
+  return policies;
+}
+
+function extractLimits(text: string): CertificateLimit[] {
+  const upper = text.toUpperCase();
+  const limits: CertificateLimit[] = [];
+
+  for (const [label, labelPattern] of LIMIT_LABELS) {
+    const match = upper.match(new RegExp(String.raw`${labelPattern.source}\s*\$?\s*([\d,]{3,})`));
+    const amount = match ? parseAmount(match[1]) : null;
+    if (amount) limits.push({ label, amount });
+  }
+
+  return limits;
+}
+
+// The licensing board is more useful than the department above it, so it wins when both are printed
+function extractAuthority(text: string): string | null {
+  const candidates = text
+    .split(/\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    // Skip lines that carry field values, such as "Board license no. 123"
+    .filter((line) => line && line.length <= 120 && AUTHORITY_LINE.test(line))
+    .filter((line) => !LICENSE_NUMBER.test(line) && !EXPIRATION_DATE.test(line));
+
+  const authority = candidates.find((line) => /\b(?:BOARD|COMMISSION)\b/i.test(line)) ?? candidates[0];
+  return authority ? authority.replace(/[\s,.:;-]+$/, "") : null;
+}
+
+function findAllDates(text: string): string[] {
+  const dates: string[] = [];
+  for (const match of text.matchAll(new RegExp(DATE, "gi"))) {
+    const date = parseCertificateDate(match[0]);
+    if (date) dates.push(date);
+  }
+  return dates;
+}
+
+function extractAcord25(text: string, currentReference: string | null): CertificateExtraction {
+  const insurers = extractInsurers(text);
+  const policies = extractPolicies(text);
+  const limits = extractLimits(text);
+
+  // Prefer the policy this deadline already tracks, otherwise the one that lapses first
+  const tracked = currentReference
+    ? policies.find((policy) => normalizeNumber(policy.policyNumber) === normalizeNumber(currentReference))
+    : undefined;
+  const chosen = tracked ?? [...policies].sort((a, b) => a.expirationDate.localeCompare(b.expirationDate))[0];
+  const insurer = chosen?.insurerLetter
+    ? insurers.find((candidate) => candidate.letter === chosen.insurerLetter)
+    : insurers[0];
+
+  return {
+    documentType: "acord_25",
+    referenceNumber: chosen?.policyNumber ?? null,
+    effectiveDate: chosen?.effectiveDate ?? null,
+    expirationDate: chosen?.expirationDate ?? null,
+    issuingAuthority: insurer?.name ?? insurers[0]?.name ?? null,
+    insurers,
+    policies,
+    limits,
+  };
+}
+
+function extractLicense(text: string, documentType: CertificateDocumentType): CertificateExtraction {
+  const number = text.match(LICENSE_NUMBER)?.[1]?.trim() ?? null;
+  const effectiveDate = parseCertificateDate(text.match(EFFECTIVE_DATE)?.[1] ?? "");
+  let expirationDate = parseCertificateDate(text.match(EXPIRATION_DATE)?.[1] ?? "");
+
+  // Cards that print dates without labels usually end with the expiration date's term
+  if (!expirationDate && documentType === "license") {
+    const dates = findAllDates(text).filter((date) => !effectiveDate || date > effectiveDate).sort();
+    expirationDate = dates[dates.length - 1] ?? null;
+  }
+
+  return {
+    documentType,
+    referenceNumber: number,
+    effectiveDate,
+    expirationDate,
+    issuingAuthority: extractAuthority(text),
+    insurers: [],
+    policies: [],
+    limits: [],
+  };
+}
+
+export function extractCertificateDetails(
+  text: string,
+  options: { currentReference?: string | null } = {}
+): CertificateExtraction {
+  const documentType = detectDocumentType(text);
+  return documentType === "acord_25"
+    ? extractAcord25(text, options.currentReference ?? null)
+    : extractLicense(text, documentType);
+}
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ChatReminder, isValidWebhookUrl, matchesWebhookRoute, postChatMessage } from "./chat.ts";
+
+const reminder: ChatReminder = {
+  title: "Renew business license",
+  description: null,
+  dueDate: "2026-11-02",
+  daysText: "Due in 14 days",
+  categoryLabel: "License",
+  consequenceLevel: "high",
+  url: "https://app.example.com/deadlines/1",
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isValidWebhookUrl", () => {
+  it("accepts Slack incoming webhooks", () => {
+    expect(isValidWebhookUrl("slack", "https://hooks.slack.com/services/T000/B000/XXXX")).toBe(true);
+    expect(isValidWebhookUrl("slack", "  https://hooks.slack.com/services/T000/B000/XXXX  ")).toBe(true);
+  });
+
+  it("accepts Teams connector and workflow webhooks", () => {
+    expect(isValidWebhookUrl("teams", "https://contoso.webhook.office.com/webhookb2/abc")).toBe(true);
+    expect(isValidWebhookUrl("teams", "https://prod-12.westus.logic.azure.com:443/workflows/abc")).toBe(true);
+    expect(isValidWebhookUrl("teams", "https://default.environment.api.powerplatform.com/powerautomate/abc")).toBe(true);
+  });
+
+  it("rejects URLs for the other provider", () => {
+    expect(isValidWebhookUrl("teams", "https://hooks.slack.com/services/T000/B000/XXXX")).toBe(false);
+    expect(isValidWebhookUrl("slack", "https://contoso.webhook.office.com/webhookb2/abc")).toBe(false);
+  });
+
+  it("rejects hosts that only look like the provider's", () => {
+    expect(isValidWebhookUrl("slack", "http://hooks.slack.com/services/T000/B000/XXXX")).toBe(false);
+    expect(isValidWebhookUrl("slack", "https://hooks.slack.com.evil.example/services/x")).toBe(false);
+    expect(isValidWebhookUrl("slack", "https://hooks.slack.com@169.254.169.254/services/x")).toBe(false);
+    expect(isValidWebhookUrl("slack", "https://evil.example/?u=https://hooks.slack.com/services/x")).toBe(false);
+    expect(isValidWebhookUrl("teams", "https://contoso.webhook.office.com.evil.example/x")).toBe(false);
+    expect(isValidWebhookUrl("teams", "https://logic.azure.com:8080/workflows/abc")).toBe(false);
+  });
+});
+
+describe("matchesWebhookRoute", () => {
+  const deadline = { category: "license", consequence_level: "high" };
+
+  it("matches everything when no filters are set", () => {
+    expect(matchesWebhookRoute({ categories: [], consequence_levels: [] }, deadline)).toBe(true);
+  });
+
+  it("requires every filter that is set to match", () => {
+    expect(matchesWebhookRoute({ categories: ["license"], consequence_levels: [] }, deadline)).toBe(true);
+    expect(matchesWebhookRoute({ categories: ["license"], consequence_levels: ["high"] }, deadline)).toBe(true);
+    expect(matchesWebhookRoute({ categories: ["tax"], consequence_levels: ["high"] }, deadline)).toBe(false);
+    expect(matchesWebhookRoute({ categories: ["license"], consequence_levels: ["low"] }, deadline)).toBe(false);
+  });
+});
+
+describe("postChatMessage", () => {
+  it("refuses to post anywhere but the provider's hosts", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await postChatMessage("slack", "http://169.254.169.254/latest/meta-data", reminder);
+
+    expect(result.error).toBe("Not a Slack incoming webhook URL");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("doesn't follow redirects and gives up after a timeout", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await postChatMessage("slack", "https://hooks.slack.com/services/T000/B000/XXXX", reminder);
+
+    expect(result.error).toBeNull();
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(init.redirect).toBe("manual");
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("keeps only the start of an error response", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("x".repeat(5000), { status: 500 })));
+
+    const result = await postChatMessage("teams", "https://contoso.webhook.office.com/webhookb2/abc", reminder);
+
+    expect(result.error).toBe(`Microsoft Teams returned 500: ${"x".repeat(500)}`);
+  });
+});
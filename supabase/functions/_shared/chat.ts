@@ -0,0 +1,175 @@
+// Slack and Microsoft Teams channel notifications through incoming webhooks,
+// shared by the web app (URL validation, routing labels) and the reminder
+// edge function (message building and posting).
+// Keep this file free of third-party imports.
+
+export type ChatProvider = "slack" | "teams";
+
+// Which deadlines a webhook receives; an empty list matches everything
+export interface ChatWebhookRoute {
+  categories: string[];
+  consequence_levels: string[];
+}
+
+export interface ChatReminder {
+  title: string;
+  description: string | null;
+  dueDate: string; // ISO date the reminder counts down to
+  daysText: string; // formatDaysUntil() text, e.g. "Due tomorrow"
+  categoryLabel: string;
+  consequenceLevel: string;
+  url: string; // Deep link back to the app
+}
+
+export const CHAT_PROVIDER_LABELS: Record<ChatProvider, string> = {
+  slack: "Slack",
+  teams: "Microsoft Teams",
+};
+
+// Posting gives up after this long
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Errors are shown in the delivery log, so only the start of a response is kept
+const MAX_ERROR_LENGTH = 500;
+
+// Kept in step with the chat_webhooks_url_host check
+const WEBHOOK_URL_PATTERNS: Record<ChatProvider, RegExp> = {
+  slack: /^https:\/\/hooks\.slack\.com\/services\/\S+$/,
+  // Classic connectors and Power Automate workflow webhooks
+  teams: /^https:\/\/([a-z0-9-]+\.webhook\.office\.com|[a-z0-9.-]+\.logic\.azure\.com(:443)?|[a-z0-9.-]+\.environment\.api\.powerplatform\.com(:443)?)\/\S+$/i,
+};
+
+export function isValidWebhookUrl(provider: ChatProvider, url: string): boolean {
+  return WEBHOOK_URL_PATTERNS[provider].test(url.trim());
+}
+
+export function matchesWebhookRoute(
+  route: ChatWebhookRoute,
+  deadline: { category: string; consequence_level: string }
+): boolean {
+  const categoryMatches = route.categories.length === 0 || route.categories.includes(deadline.category);
+  const levelMatches = route.consequence_levels.length === 0 || route.consequence_levels.includes(deadline.consequence_level);
+  return categoryMatches && levelMatches;
+}
+
+function formatDueDate(date: string): string {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function getFallbackText(reminder: ChatReminder): string {
+  return `Deadline reminder: ${reminder.title} (${reminder.daysText}, due ${formatDueDate(reminder.dueDate)})`;
+}
+
+// Block Kit message
+export function buildSlackMessage(reminder: ChatReminder): Record<string, unknown> {
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: `⏰ ${reminder.title}`, emoji: true },
+    },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*Due:*\n${formatDueDate(reminder.dueDate)}` },
+        { type: "mrkdwn", text: `*Time left:*\n${reminder.daysText}` },
+        { type: "mrkdwn", text: `*Category:*\n${reminder.categoryLabel}` },
+        { type: "mrkdwn", text: `*Priority:*\n${reminder.consequenceLevel.toUpperCase()}` },
+      ],
+    },
+  ];
+
+  if (reminder.description) {
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: reminder.description } });
+  }
+
+  blocks.push({
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: "View deadlines" },
+        url: reminder.url,
+        style: "primary",
+      },
+    ],
+  });
+
+  return { text: getFallbackText(reminder), blocks };
+}
+
+// Adaptive Card message
+export function buildTeamsMessage(reminder: ChatReminder): Record<string, unknown> {
+  const body: Record<string, unknown>[] = [
+    { type: "TextBlock", text: `⏰ ${reminder.title}`, weight: "Bolder", size: "Medium", wrap: true },
+    {
+      type: "FactSet",
+      facts: [
+        { title: "Due", value: formatDueDate(reminder.dueDate) },
+        { title: "Time left", value: reminder.daysText },
+        { title: "Category", value: reminder.categoryLabel },
+        { title: "Priority", value: reminder.consequenceLevel.toUpperCase() },
+      ],
+    },
+  ];
+
+  if (reminder.description) {
+    body.push({ type: "TextBlock", text: reminder.description, wrap: true, isSubtle: true });
+  }
+
+  return {
+    type: "message",
+    summary: getFallbackText(reminder),
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+          actions: [{ type: "Action.OpenUrl", title: "View deadlines", url: reminder.url }],
+        },
+      },
+    ],
+  };
+}
+
+export async function postChatMessage(
+  provider: ChatProvider,
+  webhookUrl: string,
+  reminder: ChatReminder
+): Promise<{ error: string | null }> {
+  // Only ever post to the provider's own hosts, however the row was written
+  if (!isValidWebhookUrl(provider, webhookUrl)) {
+    return { error: `Not a ${CHAT_PROVIDER_LABELS[provider]} incoming webhook URL` };
+  }
+
+  const payload = provider === "slack" ? buildSlackMessage(reminder) : buildTeamsMessage(reminder);
+
+  try {
+    const response = await fetch(webhookUrl.trim(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      // A redirect could point anywhere, including our own network
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      return {
+        error: `${CHAT_PROVIDER_LABELS[provider]} returned ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ""}`,
+      };
+    }
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -0,0 +1,88 @@
+// Urgency status of a deadline, shared by the web app and the edge functions
+// so the dashboard and digest emails bucket deadlines the same way.
+// Keep this file free of third-party imports.
+
+export type DeadlineStatus = "safe" | "upcoming" | "warning" | "urgent" | "critical" | "overdue";
+
+// Upper bound (days until due) of each status
+export const URGENCY_THRESHOLDS = {
+  overdue: 0,
+  critical: 3,
+  urgent: 7,
+  warning: 14,
+  upcoming: 30,
+};
+
+export const STATUS_LABELS: Record<DeadlineStatus, string> = {
+  safe: "On Track",
+  upcoming: "Upcoming",
+  warning: "Due Soon",
+  urgent: "Urgent",
+  critical: "Critical",
+  overdue: "Overdue",
+};
+
+// Most to least urgent
+export const STATUS_PRIORITY: DeadlineStatus[] = ["overdue", "critical", "urgent", "warning", "upcoming", "safe"];
+
+export function getStatusForDaysUntilDue(daysUntilDue: number): DeadlineStatus {
+  if (daysUntilDue < 0) return "overdue";
+  if (daysUntilDue <= URGENCY_THRESHOLDS.critical) return "critical";
+  if (daysUntilDue <= URGENCY_THRESHOLDS.urgent) return "urgent";
+  if (daysUntilDue <= URGENCY_THRESHOLDS.warning) return "warning";
+  if (daysUntilDue <= URGENCY_THRESHOLDS.upcoming) return "upcoming";
+  return "safe";
+}
+
+// "3 days overdue", "Due today", "Due tomorrow", "12 days"
+export function formatDaysUntil(daysUntilDue: number): string {
+  if (daysUntilDue < 0) {
+    const absDays = Math.abs(daysUntilDue);
+    return `${absDays} day${absDays !== 1 ? "s" : ""} overdue`;
+  } else if (daysUntilDue === 0) {
+    return "Due today";
+  } else if (daysUntilDue === 1) {
+    return "Due tomorrow";
+  } else {
+    return `${daysUntilDue} days`;
+  }
+}
+
+export function groupDeadlinesByStatus<T>(
+  deadlines: T[],
+  getStatus: (deadline: T) => DeadlineStatus
+): Record<DeadlineStatus, T[]> {
+  const groups: Record<DeadlineStatus, T[]> = {
+    overdue: [],
+    critical: [],
+    urgent: [],
+    warning: [],
+    upcoming: [],
+    safe: [],
+  };
+
+  for (const deadline of deadlines) {
+    groups[getStatus(deadline)].push(deadline);
+  }
+
+  return groups;
+}
+
+export function getUrgencyMessage(status: DeadlineStatus, count: number): string {
+  const plural = count !== 1 ? "s" : "";
+
+  switch (status) {
+    case "overdue":
+      return `${count} overdue deadline${plural} need immediate attention`;
+    case "critical":
+      return `${count} critical deadline${plural} due within 3 days`;
+    case "urgent":
+      return `${count} urgent deadline${plural} due within 7 days`;
+    case "warning":
+      return `${count} deadline${plural} due within 2 weeks`;
+    case "upcoming":
+      return `${count} deadline${plural} approaching`;
+    case "safe":
+      return "All deadlines are on track";
+  }
+}
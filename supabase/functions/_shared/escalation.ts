@@ -0,0 +1,59 @@
+// Escalation chains for organization deadlines, shared by the web app and the
+// reminder edge function. A policy is a list of steps; each step adds
+// recipients once the deadline is within `days_before_due` days (negative
+// values mean days overdue) and nobody has acknowledged it yet.
+// Keep this file free of third-party imports.
+
+export type EscalationTarget = "owner" | "org_admin" | "all_admins";
+
+export interface EscalationStep {
+  days_before_due: number;
+  target: EscalationTarget;
+  // The admin to notify when target is "org_admin"
+  admin_id: string | null;
+}
+
+// Notify the assignee at 7 days, add an admin at 3 days, add every admin when overdue.
+// The "org_admin" step needs an admin picked when the policy is saved.
+export const DEFAULT_ESCALATION_STEPS: EscalationStep[] = [
+  { days_before_due: 7, target: "owner", admin_id: null },
+  { days_before_due: 3, target: "org_admin", admin_id: null },
+  { days_before_due: -1, target: "all_admins", admin_id: null },
+];
+
+export const MIN_ESCALATION_DAYS = -30;
+export const MAX_ESCALATION_DAYS = 365;
+
+// Moving a deadline out of "open" (in progress, submitted, closed) acknowledges it
+export function isEscalationAcknowledged(state: string | null | undefined): boolean {
+  return (state ?? "open") !== "open";
+}
+
+// Steps whose threshold has been reached, earliest step first
+export function getTriggeredEscalationSteps(steps: EscalationStep[], daysUntilDue: number): EscalationStep[] {
+  return steps
+    .filter((step) => daysUntilDue <= step.days_before_due)
+    .sort((a, b) => b.days_before_due - a.days_before_due);
+}
+
+export function formatEscalationTiming(daysBeforeDue: number): string {
+  if (daysBeforeDue === 0) return "on the due date";
+  if (daysBeforeDue === -1) return "when overdue";
+
+  const days = Math.abs(daysBeforeDue);
+  const unit = `${days} day${days === 1 ? "" : "s"}`;
+  return daysBeforeDue > 0 ? `${unit} before due` : `${unit} overdue`;
+}
+
+export function describeEscalationStep(step: EscalationStep, adminName?: string | null): string {
+  const timing = formatEscalationTiming(step.days_before_due);
+
+  switch (step.target) {
+    case "owner":
+      return `Notify the assignee and backups ${timing}`;
+    case "org_admin":
+      return `Add ${adminName || "an admin"} ${timing}`;
+    case "all_admins":
+      return `Add all admins ${timing}`;
+  }
+}
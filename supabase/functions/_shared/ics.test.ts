@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { escapeICSText, foldICSLine, getAlarmTrigger, renderCalendar } from "./ics.ts";
+
+describe("escapeICSText", () => {
+  it("escapes backslashes, semicolons and commas", () => {
+    expect(escapeICSText("a\\b; c, d")).toBe("a\\\\b\\; c\\, d");
+  });
+
+  it("turns every kind of line break into \\n", () => {
+    expect(escapeICSText("one\r\ntwo\nthree\rfour")).toBe("one\\ntwo\\nthree\\nfour");
+  });
+
+  it("never leaves a bare carriage return that would end the content line", () => {
+    expect(escapeICSText("Renew\rDESCRIPTION:injected")).not.toContain("\r");
+  });
+});
+
+describe("foldICSLine", () => {
+  it("leaves lines of up to 75 octets alone", () => {
+    const line = "X".repeat(75);
+    expect(foldICSLine(line)).toBe(line);
+  });
+
+  it("folds longer lines with a leading space on each continuation", () => {
+    const folded = foldICSLine("X".repeat(200));
+    const parts = folded.split("\r\n");
+
+    expect(parts.map((part) => part.length)).toEqual([75, 75, 52]);
+    expect(parts.slice(1).every((part) => part.startsWith(" "))).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe("X".repeat(200));
+  });
+
+  it("counts octets and never splits a multi-byte character", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const parts = foldICSLine(line).split("\r\n");
+    const encoder = new TextEncoder();
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every((part) => encoder.encode(part).length <= 75)).toBe(true);
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join("")).toBe(line);
+  });
+});
+
+describe("getAlarmTrigger", () => {
+  it("counts back from midnight at the start of the event day", () => {
+    expect(getAlarmTrigger(3, 8)).toBe(`-PT${3 * 24 * 60 - 8 * 60}M`);
+    expect(getAlarmTrigger(1, 0)).toBe("-PT1440M");
+  });
+
+  it("fires after midnight for same-day alarms", () => {
+    expect(getAlarmTrigger(0, 9)).toBe("PT540M");
+    expect(getAlarmTrigger(0, 0)).toBe("-PT0M");
+  });
+});
+
+describe("renderCalendar", () => {
+  it("keeps user text with line breaks on a single content line", () => {
+    const ics = renderCalendar(
+      {
+        name: "Deadlines",
+        events: [{
+          uid: "1@example.com",
+          date: "2026-11-02",
+          summary: "Renew license",
+          description: "Line one\rLine two",
+          categories: [],
+          alarmOffsets: [],
+          alarmHour: 9,
+        }],
+      },
+      new Date("2026-10-19T12:00:00Z")
+    );
+
+    expect(ics).toContain("DESCRIPTION:Line one\\nLine two\r\n");
+    expect(ics).toContain("DTSTAMP:20261019T120000Z");
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+});
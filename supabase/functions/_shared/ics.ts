@@ -0,0 +1,132 @@
+// iCalendar (RFC 5545) rendering for the calendar subscription feed.
+// Keep this file free of imports so both Vite and Deno can load it as-is.
+
+export interface CalendarEvent {
+  uid: string;
+  // All-day event date (YYYY-MM-DD)
+  date: string;
+  summary: string;
+  description: string;
+  categories: string[];
+  url?: string;
+  // Days before the event at which an alarm fires, at `alarmHour` local time
+  alarmOffsets: number[];
+  alarmHour: number;
+}
+
+export interface Calendar {
+  name: string;
+  description?: string;
+  events: CalendarEvent[];
+}
+
+// How often subscribed clients should re-fetch the feed
+export const CALENDAR_REFRESH_INTERVAL = "PT1H";
+
+const MAX_LINE_OCTETS = 75;
+
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+export function foldICSLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatICSDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, "");
+}
+
+function formatICSDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Alarms on all-day events are relative to midnight at the start of the day,
+// so "3 days before at 08:00" is 3 days minus 8 hours before the start
+export function getAlarmTrigger(daysBefore: number, hour: number): string {
+  const minutes = daysBefore * 24 * 60 - hour * 60;
+  return minutes >= 0 ? `-PT${minutes}M` : `PT${-minutes}M`;
+}
+
+function renderEvent(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatICSDate(event.date)}`,
+    `SUMMARY:${escapeICSText(event.summary)}`,
+    `DESCRIPTION:${escapeICSText(event.description)}`,
+    "TRANSP:TRANSPARENT",
+  ];
+
+  if (event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICSText).join(",")}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+
+  for (const days of event.alarmOffsets) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeICSText(event.summary)}`,
+      `TRIGGER:${getAlarmTrigger(days, event.alarmHour)}`,
+      "END:VALARM"
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function renderCalendar(calendar: Calendar, now: Date = new Date()): string {
+  const stamp = formatICSDateTime(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DeadlineGuard//Deadlines//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICSText(calendar.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${CALENDAR_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${CALENDAR_REFRESH_INTERVAL}`,
+  ];
+
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeICSText(calendar.description)}`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...renderEvent(event, stamp));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICSLine).join("\r\n") + "\r\n";
+}
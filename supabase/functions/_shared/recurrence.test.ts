@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { addDaysToISODate, addMonthsToISODate, getNextOccurrence } from "./recurrence.ts";
+
+describe("addMonthsToISODate", () => {
+  it("clamps to the end of shorter months", () => {
+    expect(addMonthsToISODate("2026-01-31", 1)).toBe("2026-02-28");
+    expect(addMonthsToISODate("2028-01-31", 1)).toBe("2028-02-29");
+    expect(addMonthsToISODate("2026-08-31", 1)).toBe("2026-09-30");
+  });
+
+  it("carries over into later years", () => {
+    expect(addMonthsToISODate("2026-11-15", 3)).toBe("2027-02-15");
+    expect(addMonthsToISODate("2028-02-29", 12)).toBe("2029-02-28");
+  });
+
+  it("ignores the time of day", () => {
+    expect(addMonthsToISODate("2026-03-31T23:30:00Z", 1)).toBe("2026-04-30");
+  });
+});
+
+describe("addDaysToISODate", () => {
+  it("crosses month, year and leap day boundaries", () => {
+    expect(addDaysToISODate("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDaysToISODate("2028-02-28", 1)).toBe("2028-02-29");
+    expect(addDaysToISODate("2026-03-01", -1)).toBe("2026-02-28");
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("advances each built-in pattern", () => {
+    expect(getNextOccurrence("2026-01-31", "monthly")).toBe("2026-02-28");
+    expect(getNextOccurrence("2026-11-30", "quarterly")).toBe("2027-02-28");
+    expect(getNextOccurrence("2026-08-31", "semi_annual")).toBe("2027-02-28");
+    expect(getNextOccurrence("2028-02-29", "annual")).toBe("2029-02-28");
+    expect(getNextOccurrence("2026-03-15", "biennial")).toBe("2028-03-15");
+  });
+
+  it("uses the custom interval, or a year without one", () => {
+    expect(getNextOccurrence("2026-10-19", "custom", 90)).toBe("2027-01-17");
+    expect(getNextOccurrence("2026-10-19", "custom", null)).toBe("2027-10-19");
+  });
+
+  it("has no next occurrence for one-time deadlines", () => {
+    expect(getNextOccurrence("2026-10-19", "none")).toBeNull();
+    expect(getNextOccurrence("2026-10-19", null)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+// Recurrence date math shared by the web app and the edge functions.
+// Works on ISO calendar dates (YYYY-MM-DD) in UTC so results don't depend on
+// the server or browser timezone. Keep this file free of third-party imports.
+
+import { getNextRRuleOccurrence, getNextSeriesRule } from "./rrule.ts";
+
+export type RecurrencePatternName =
+  | "none"
+  | "monthly"
+  | "quarterly"
+  | "semi_annual"
+  | "annual"
+  | "biennial"
+  | "custom"
+  | "rrule";
+
+// Fallback interval for "custom" recurrence without an explicit day count
+export const DEFAULT_CUSTOM_INTERVAL_DAYS = 365;
+
+function parseISODate(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+export function addDaysToISODate(date: string, days: number): string {
+  const result = parseISODate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toISODate(result);
+}
+
+// Month arithmetic clamps to the end of the month (Jan 31 + 1 month = Feb 28/29),
+// matching date-fns addMonths/addYears
+export function addMonthsToISODate(date: string, months: number): string {
+  const source = parseISODate(date);
+  const totalMonths = source.getUTCFullYear() * 12 + source.getUTCMonth() + months;
+  const year = Math.floor(totalMonths / 12);
+  const monthIndex = totalMonths % 12;
+  const day = Math.min(source.getUTCDate(), daysInMonth(year, monthIndex));
+  return toISODate(new Date(Date.UTC(year, monthIndex, day)));
+}
+
+// Next due date after `dueDate`, or null for one-time deadlines and finished
+// rule-based series. For "rrule", `dueDate` is the rule's start.
+export function getNextOccurrence(
+  dueDate: string,
+  recurrence: string | null | undefined,
+  intervalDays?: number | null,
+  rule?: string | null
+): string | null {
+  switch (recurrence) {
+    case "monthly":
+      return addMonthsToISODate(dueDate, 1);
+    case "quarterly":
+      return addMonthsToISODate(dueDate, 3);
+    case "semi_annual":
+      return addMonthsToISODate(dueDate, 6);
+    case "annual":
+      return addMonthsToISODate(dueDate, 12);
+    case "biennial":
+      return addMonthsToISODate(dueDate, 24);
+    case "custom":
+      return addDaysToISODate(dueDate, intervalDays || DEFAULT_CUSTOM_INTERVAL_DAYS);
+    case "rrule":
+      return rule ? getNextRRuleOccurrence(rule, dueDate) : null;
+    default:
+      return null;
+  }
+}
+
+// Future due dates of a series after `dueDate`, up to and including `until`.
+// Rule-based series count down COUNT the same way generated occurrences do.
+export function getUpcomingOccurrences(
+  dueDate: string,
+  recurrence: string | null | undefined,
+  intervalDays: number | null | undefined,
+  rule: string | null | undefined,
+  { until, limit }: { until: string; limit: number }
+): string[] {
+  const occurrences: string[] = [];
+  let current = dueDate;
+  let currentRule = rule ?? null;
+
+  while (occurrences.length < limit) {
+    const next = getNextOccurrence(current, recurrence, intervalDays, currentRule);
+    if (!next || next > until) break;
+    occurrences.push(next);
+    current = next;
+    if (currentRule) currentRule = getNextSeriesRule(currentRule);
+  }
+
+  return occurrences;
+}
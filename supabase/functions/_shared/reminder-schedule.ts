@@ -0,0 +1,36 @@
+// Reminder schedules shared by the web app and the edge functions.
+// Keep this file free of imports so both Vite and Deno can load it as-is.
+
+export type ReminderConsequenceLevel = "low" | "medium" | "high" | "critical";
+
+// Days before the due date at which a reminder is sent, by consequence level
+export const REMINDER_SCHEDULES: Record<ReminderConsequenceLevel, number[]> = {
+  critical: [90, 30, 14, 7, 3, 1],
+  high: [60, 14, 7, 3, 1],
+  medium: [30, 7, 3, 1],
+  low: [14, 3, 1],
+};
+
+// Longest lead time a custom reminder offset may use (in days)
+export const MAX_REMINDER_OFFSET_DAYS = 730;
+
+// Most reminders a custom schedule may hold
+export const MAX_REMINDER_OFFSETS = 20;
+
+// Dedupe, drop invalid values and order offsets from earliest to latest reminder
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+  const valid = offsets.filter((days) => Number.isInteger(days) && days > 0 && days <= MAX_REMINDER_OFFSET_DAYS);
+  return [...new Set(valid)].sort((a, b) => b - a);
+}
+
+// Custom per-deadline offsets take precedence over the consequence-level default
+export function getReminderSchedule(level: string, customOffsets?: number[] | null): number[] {
+  if (customOffsets && customOffsets.length > 0) {
+    return normalizeReminderOffsets(customOffsets);
+  }
+  return REMINDER_SCHEDULES[level as ReminderConsequenceLevel] ?? REMINDER_SCHEDULES.medium;
+}
+
+export function formatReminderSchedule(days: number[]): string {
+  return `${days.join(", ")} days before`;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeRRule,
+  expandRRule,
+  formatRRule,
+  getNextRRuleOccurrence,
+  getNextSeriesRule,
+  isValidRRule,
+  parseRRule,
+} from "./rrule.ts";
+
+describe("parseRRule", () => {
+  it("parses every supported part", () => {
+    expect(parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTH=3,6;BYDAY=-1FR;BYSETPOS=1;COUNT=4")).toEqual({
+      freq: "MONTHLY",
+      interval: 3,
+      byMonth: [3, 6],
+      byDay: [{ weekday: 4, ordinal: -1 }],
+      bySetPos: [1],
+      count: 4,
+    });
+  });
+
+  it("reads UNTIL as a calendar date", () => {
+    expect(parseRRule("FREQ=DAILY;UNTIL=20261231T235959Z").until).toBe("2026-12-31");
+  });
+
+  it("rejects invalid rules", () => {
+    expect(() => parseRRule("INTERVAL=2")).toThrow("FREQ is required");
+    expect(() => parseRRule("FREQ=HOURLY")).toThrow('Unsupported FREQ "HOURLY"');
+    expect(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20260101")).toThrow("COUNT and UNTIL");
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=1MO")).toThrow("MONTHLY or YEARLY");
+    expect(() => parseRRule("FREQ=MONTHLY;BYMONTHDAY=0")).toThrow('Invalid BYMONTHDAY value "0"');
+    expect(isValidRRule("FREQ=YEARLY;BYMONTH=13")).toBe(false);
+  });
+
+  it("round-trips through formatRRule", () => {
+    const rule = "FREQ=MONTHLY;INTERVAL=3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1";
+    expect(formatRRule(parseRRule(rule))).toBe(rule);
+  });
+});
+
+describe("expandRRule", () => {
+  it("starts with dtstart and counts it towards COUNT", () => {
+    expect(expandRRule("FREQ=WEEKLY;COUNT=3", "2026-01-05", { limit: 10 })).toEqual([
+      "2026-01-05",
+      "2026-01-12",
+      "2026-01-19",
+    ]);
+  });
+
+  it("stops at UNTIL", () => {
+    expect(expandRRule("FREQ=DAILY;INTERVAL=2;UNTIL=20260107", "2026-01-01", { limit: 10 })).toEqual([
+      "2026-01-01",
+      "2026-01-03",
+      "2026-01-05",
+      "2026-01-07",
+    ]);
+  });
+
+  it("finds the last business day of each quarter", () => {
+    const rule = "FREQ=MONTHLY;INTERVAL=3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1";
+    expect(expandRRule(rule, "2026-03-31", { limit: 4 })).toEqual([
+      "2026-03-31",
+      "2026-06-30",
+      "2026-09-30",
+      "2026-12-31",
+    ]);
+  });
+
+  it("handles numbered weekdays and negative month days", () => {
+    expect(expandRRule("FREQ=MONTHLY;BYDAY=2TU", "2026-01-13", { limit: 3 })).toEqual([
+      "2026-01-13",
+      "2026-02-10",
+      "2026-03-10",
+    ]);
+    expect(expandRRule("FREQ=MONTHLY;BYMONTHDAY=-1", "2026-01-31", { limit: 3 })).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+    ]);
+  });
+
+  it("skips months without the requested day", () => {
+    expect(expandRRule("FREQ=MONTHLY;BYMONTHDAY=31", "2026-01-31", { limit: 3 })).toEqual([
+      "2026-01-31",
+      "2026-03-31",
+      "2026-05-31",
+    ]);
+  });
+
+  it("only returns dates after `after`", () => {
+    expect(expandRRule("FREQ=YEARLY", "2024-04-15", { after: "2026-01-01", limit: 2 })).toEqual([
+      "2026-04-15",
+      "2027-04-15",
+    ]);
+    expect(getNextRRuleOccurrence("FREQ=YEARLY;COUNT=2", "2025-04-15", "2026-04-15")).toBeNull();
+  });
+});
+
+describe("getNextSeriesRule", () => {
+  it("counts down COUNT for the next occurrence", () => {
+    expect(getNextSeriesRule("FREQ=MONTHLY;COUNT=3")).toBe("FREQ=MONTHLY;COUNT=2");
+    expect(getNextSeriesRule("FREQ=MONTHLY;COUNT=1")).toBe("FREQ=MONTHLY;COUNT=1");
+  });
+});
+
+describe("describeRRule", () => {
+  it("summarizes business-day rules", () => {
+    expect(describeRRule("FREQ=MONTHLY;INTERVAL=3;BYMONTH=12,3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1")).toBe(
+      "Every 3 months in Mar, Dec on the last business day"
+    );
+  });
+
+  it("summarizes numbered weekdays with a count", () => {
+    expect(describeRRule("FREQ=MONTHLY;BYDAY=1MO;COUNT=6")).toBe("Monthly on the first Mon 6 times");
+  });
+});
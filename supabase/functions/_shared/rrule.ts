@@ -0,0 +1,357 @@
+// RFC 5545 recurrence rules (RRULE) shared by the web app and the edge functions.
+// Supports FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL,
+// BYMONTH, BYMONTHDAY, BYDAY (with ordinals for MONTHLY/YEARLY) and BYSETPOS.
+// Works on ISO calendar dates (YYYY-MM-DD); times of day are ignored.
+// Keep this file free of third-party imports so both Vite and Deno can load it.
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RRuleWeekday {
+  weekday: number; // 0 = Monday ... 6 = Sunday
+  ordinal?: number; // e.g. 1 = first, -1 = last (MONTHLY/YEARLY only)
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: string;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: RRuleWeekday[];
+  bySetPos?: number[];
+}
+
+export const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+// Weekdays used for "business day" rules
+export const BUSINESS_DAYS: RRuleWeekday[] = [0, 1, 2, 3, 4].map((weekday) => ({ weekday }));
+
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// Stop expanding after this many periods, so impossible rules can't loop forever
+const MAX_PERIODS = 5000;
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const WEEKDAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function parseISODate(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function getWeekday(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function parseIntList(value: string, key: string, min: number, max: number): number[] {
+  return value.split(",").map((part) => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n < min || n > max || n === 0) {
+      throw new Error(`Invalid ${key} value "${part}"`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+export function parseRRule(input: string): RRule {
+  const text = input.trim().replace(/^RRULE:/i, "");
+  const rule: Partial<RRule> = { interval: 1 };
+
+  for (const part of text.split(";").filter(Boolean)) {
+    const [rawKey, value] = part.split("=");
+    const key = rawKey?.toUpperCase();
+
+    if (!value) {
+      throw new Error(`Invalid rule part "${part}"`);
+    }
+
+    switch (key) {
+      case "FREQ": {
+        const freq = value.toUpperCase() as RRuleFrequency;
+        if (!FREQUENCIES.includes(freq)) {
+          throw new Error(`Unsupported FREQ "${value}"`);
+        }
+        rule.freq = freq;
+        break;
+      }
+      case "INTERVAL":
+        rule.interval = parseIntList(value, key, 1, 1000)[0];
+        break;
+      case "COUNT":
+        rule.count = parseIntList(value, key, 1, 10000)[0];
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(value, key, 1, 12);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(value, key, -31, 31);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseIntList(value, key, -366, 366);
+        break;
+      case "BYDAY":
+        rule.byDay = value.toUpperCase().split(",").map((code) => {
+          const match = code.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value "${code}"`);
+          }
+          const weekday = WEEKDAY_CODES.indexOf(match[2]);
+          return match[1] ? { weekday, ordinal: Number(match[1]) } : { weekday };
+        });
+        break;
+      case "WKST":
+        // Weeks always start on Monday here
+        break;
+      default:
+        throw new Error(`Unsupported rule part "${key}"`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error("FREQ is required");
+  }
+  if (rule.count && rule.until) {
+    throw new Error("COUNT and UNTIL can't be used together");
+  }
+  if (rule.byDay?.some((day) => day.ordinal) && (rule.freq === "DAILY" || rule.freq === "WEEKLY")) {
+    throw new Error("Numbered BYDAY values need a MONTHLY or YEARLY rule");
+  }
+
+  return rule as RRule;
+}
+
+export function isValidRRule(input: string): boolean {
+  try {
+    parseRRule(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ""}${WEEKDAY_CODES[day.weekday]}`).join(",")}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+function pickPositions<T>(items: T[], positions: number[]): T[] {
+  const picked = positions
+    .map((pos) => (pos > 0 ? items[pos - 1] : items[items.length + pos]))
+    .filter((item): item is T => item !== undefined);
+  return [...new Set(picked)];
+}
+
+// Candidate days within one month for MONTHLY and YEARLY rules
+function getMonthDays(rule: RRule, year: number, monthIndex: number, start: Date): number[] {
+  const dim = daysInMonth(year, monthIndex);
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay
+      .map((day) => (day > 0 ? day : dim + day + 1))
+      .filter((day) => day >= 1 && day <= dim);
+  }
+
+  if (rule.byDay?.length) {
+    const weekdayDays: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matches: number[] = [];
+      for (let day = 1; day <= dim; day++) {
+        if (getWeekday(new Date(Date.UTC(year, monthIndex, day))) === weekday) {
+          matches.push(day);
+        }
+      }
+      weekdayDays.push(...(ordinal ? pickPositions(matches, [ordinal]) : matches));
+    }
+    days = days ? days.filter((day) => weekdayDays.includes(day)) : weekdayDays;
+  }
+
+  if (!days) {
+    days = start.getUTCDate() <= dim ? [start.getUTCDate()] : [];
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+// Candidate dates in the k-th period after the rule's start, in order
+function getPeriodDates(rule: RRule, start: Date, k: number): Date[] {
+  let dates: Date[] = [];
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = new Date(start);
+      date.setUTCDate(date.getUTCDate() + k * rule.interval);
+      const matches =
+        (!rule.byMonth || rule.byMonth.includes(date.getUTCMonth() + 1)) &&
+        (!rule.byMonthDay || getMonthDays({ ...rule, byDay: undefined }, date.getUTCFullYear(), date.getUTCMonth(), date).includes(date.getUTCDate())) &&
+        (!rule.byDay || rule.byDay.some((day) => day.weekday === getWeekday(date)));
+      dates = matches ? [date] : [];
+      break;
+    }
+    case "WEEKLY": {
+      const weekStart = new Date(start);
+      weekStart.setUTCDate(weekStart.getUTCDate() - getWeekday(start) + k * rule.interval * 7);
+      const weekdays = rule.byDay?.map((day) => day.weekday) ?? [getWeekday(start)];
+      dates = [...new Set(weekdays)]
+        .sort((a, b) => a - b)
+        .map((weekday) => {
+          const date = new Date(weekStart);
+          date.setUTCDate(date.getUTCDate() + weekday);
+          return date;
+        })
+        .filter((date) => !rule.byMonth || rule.byMonth.includes(date.getUTCMonth() + 1));
+      break;
+    }
+    case "MONTHLY": {
+      const totalMonths = start.getUTCFullYear() * 12 + start.getUTCMonth() + k * rule.interval;
+      const year = Math.floor(totalMonths / 12);
+      const monthIndex = totalMonths % 12;
+      if (!rule.byMonth || rule.byMonth.includes(monthIndex + 1)) {
+        dates = getMonthDays(rule, year, monthIndex, start).map((day) => new Date(Date.UTC(year, monthIndex, day)));
+      }
+      break;
+    }
+    case "YEARLY": {
+      // BYDAY in yearly rules applies within each BYMONTH month
+      const year = start.getUTCFullYear() + k * rule.interval;
+      const months = rule.byMonth ? [...rule.byMonth].sort((a, b) => a - b) : [start.getUTCMonth() + 1];
+      for (const month of months) {
+        dates.push(...getMonthDays(rule, year, month - 1, start).map((day) => new Date(Date.UTC(year, month - 1, day))));
+      }
+      break;
+    }
+  }
+
+  return rule.bySetPos?.length ? pickPositions(dates, rule.bySetPos) : dates;
+}
+
+// Expand a rule into occurrence dates. `dtstart` is always the first occurrence
+// (as in RFC 5545) and counts towards COUNT; only dates after `after` are returned.
+export function expandRRule(
+  input: string | RRule,
+  dtstart: string,
+  options: { after?: string; limit: number }
+): string[] {
+  const rule = typeof input === "string" ? parseRRule(input) : input;
+  const start = parseISODate(dtstart);
+  const startISO = toISODate(start);
+  const results: string[] = [];
+  let emitted = 0;
+
+  // Returns false once the series is exhausted or enough dates were collected
+  const emit = (date: string): boolean => {
+    if (rule.count && emitted >= rule.count) return false;
+    if (rule.until && date > rule.until) return false;
+    emitted++;
+    if (!options.after || date > options.after) {
+      results.push(date);
+    }
+    return results.length < options.limit;
+  };
+
+  if (options.limit <= 0 || !emit(startISO)) {
+    return results;
+  }
+
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    for (const date of getPeriodDates(rule, start, k)) {
+      const iso = toISODate(date);
+      if (iso <= startISO) continue;
+      if (!emit(iso)) return results;
+    }
+  }
+
+  return results;
+}
+
+export function getNextRRuleOccurrence(input: string | RRule, dtstart: string, after: string = dtstart): string | null {
+  return expandRRule(input, dtstart, { after, limit: 1 })[0] ?? null;
+}
+
+// Rule for the next occurrence in a series: COUNT includes the current
+// occurrence, so the next one starts with one fewer remaining.
+export function getNextSeriesRule(input: string): string {
+  const rule = parseRRule(input);
+  if (!rule.count) return formatRRule(rule);
+  return formatRRule({ ...rule, count: Math.max(1, rule.count - 1) });
+}
+
+function ordinalWord(n: number): string {
+  const words: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last", [-2]: "second to last" };
+  if (words[n]) return words[n];
+  if (n < 0) return `${Math.abs(n)}th from last`;
+  return `${n}th`;
+}
+
+function isBusinessDaySet(days: RRuleWeekday[]): boolean {
+  return days.length === 5 && !days.some((day) => day.ordinal) && days.every((day) => day.weekday <= 4);
+}
+
+// Human-readable summary, e.g. "Every 3 months in Mar, Jun, Sep, Dec on the last business day"
+export function describeRRule(input: string | RRule): string {
+  const rule = typeof input === "string" ? parseRRule(input) : input;
+  const units: Record<RRuleFrequency, [string, string]> = {
+    DAILY: ["Daily", "days"],
+    WEEKLY: ["Weekly", "weeks"],
+    MONTHLY: ["Monthly", "months"],
+    YEARLY: ["Yearly", "years"],
+  };
+  const [single, plural] = units[rule.freq];
+  const parts = [rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single];
+
+  if (rule.byMonth?.length) {
+    parts.push(`in ${[...rule.byMonth].sort((a, b) => a - b).map((m) => MONTH_NAMES[m - 1]).join(", ")}`);
+  }
+
+  if (rule.byDay?.length && rule.bySetPos?.length && isBusinessDaySet(rule.byDay)) {
+    parts.push(`on the ${rule.bySetPos.map(ordinalWord).join(" and ")} business day`);
+  } else {
+    if (rule.byMonthDay?.length) {
+      const days = rule.byMonthDay.map((day) => (day === -1 ? "the last day" : day < 0 ? `${ordinalWord(day)} day` : `day ${day}`));
+      parts.push(`on ${days.join(", ")}`);
+    }
+    if (rule.byDay?.length) {
+      const days = rule.byDay.map(({ weekday, ordinal }) =>
+        ordinal ? `the ${ordinalWord(ordinal)} ${WEEKDAY_NAMES[weekday]}` : WEEKDAY_NAMES[weekday]
+      );
+      parts.push(`on ${days.join(", ")}`);
+    }
+    if (rule.bySetPos?.length) {
+      parts.push(`(${rule.bySetPos.map(ordinalWord).join(", ")} match)`);
+    }
+  }
+
+  if (rule.count) parts.push(`${rule.count} time${rule.count === 1 ? "" : "s"}`);
+  if (rule.until) parts.push(`until ${rule.until}`);
+
+  return parts.join(" ");
+}
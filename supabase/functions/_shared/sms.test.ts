@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  FakeSmsMessage,
+  createFakeProvider,
+  createSmsProvider,
+  formatPhoneNumber,
+  isValidPhoneNumber,
+  maskPhoneNumber,
+  normalizePhoneNumber,
+  truncateSms,
+} from "./sms.ts";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("normalizePhoneNumber", () => {
+  it("takes bare 10-digit numbers as US numbers", () => {
+    expect(normalizePhoneNumber("(555) 123-4567")).toBe("+15551234567");
+    expect(normalizePhoneNumber("1 555 123 4567")).toBe("+15551234567");
+  });
+
+  it("keeps international numbers with a country code", () => {
+    expect(normalizePhoneNumber(" +44 20 7946 0958 ")).toBe("+442079460958");
+  });
+
+  it("rejects numbers that can't be E.164", () => {
+    expect(normalizePhoneNumber("555-1234")).toBeNull();
+    expect(normalizePhoneNumber("2 555 123 4567")).toBeNull();
+    expect(normalizePhoneNumber("+0 555 123 4567")).toBeNull();
+    expect(normalizePhoneNumber("+1 555 123 4567 8901 23")).toBeNull();
+    expect(normalizePhoneNumber("")).toBeNull();
+  });
+});
+
+describe("phone number helpers", () => {
+  it("validates E.164", () => {
+    expect(isValidPhoneNumber("+15551234567")).toBe(true);
+    expect(isValidPhoneNumber("5551234567")).toBe(false);
+    expect(isValidPhoneNumber(null)).toBe(false);
+  });
+
+  it("formats US numbers and leaves others alone", () => {
+    expect(formatPhoneNumber("+15551234567")).toBe("(555) 123-4567");
+    expect(formatPhoneNumber("+442079460958")).toBe("+442079460958");
+  });
+
+  it("masks all but the last four digits", () => {
+    expect(maskPhoneNumber("+15551234567")).toBe("•••4567");
+  });
+});
+
+describe("truncateSms", () => {
+  it("fits long bodies into one segment", () => {
+    expect(truncateSms("short")).toBe("short");
+    const truncated = truncateSms("x".repeat(200));
+    expect(truncated).toHaveLength(160);
+    expect(truncated.endsWith("…")).toBe(true);
+  });
+});
+
+describe("createSmsProvider", () => {
+  const env = (values: Record<string, string>) => (key: string) => values[key];
+
+  it("has no provider unless SMS_PROVIDER is set", () => {
+    expect(createSmsProvider(env({}))).toBeNull();
+  });
+
+  it("only uses the fake when asked to", () => {
+    expect(createSmsProvider(env({ SMS_PROVIDER: "fake" }))?.name).toBe("fake");
+    expect(() => createSmsProvider(env({ SMS_PROVIDER: "twillio" }))).toThrow('Unknown SMS_PROVIDER "twillio"');
+  });
+
+  it("requires the Twilio settings", () => {
+    expect(() => createSmsProvider(env({ SMS_PROVIDER: "twilio", TWILIO_ACCOUNT_SID: "AC1" }))).toThrow("missing");
+    const provider = createSmsProvider(
+      env({ SMS_PROVIDER: "twilio", TWILIO_ACCOUNT_SID: "AC1", TWILIO_AUTH_TOKEN: "secret", TWILIO_FROM_NUMBER: "+15550000000" })
+    );
+    expect(provider?.name).toBe("twilio");
+  });
+});
+
+describe("createFakeProvider", () => {
+  it("records messages without logging their body or the full number", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const outbox: FakeSmsMessage[] = [];
+
+    const result = await createFakeProvider(outbox).send("+15551234567", "Your code is 123456");
+
+    expect(result).toEqual({ messageId: "fake-1", error: null });
+    expect(outbox).toMatchObject([{ to: "+15551234567", body: "Your code is 123456" }]);
+    const logged = log.mock.calls.flat().join(" ");
+    expect(logged).not.toContain("123456");
+    expect(logged).not.toContain("5551234567");
+  });
+});
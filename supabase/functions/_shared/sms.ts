@@ -0,0 +1,142 @@
+// SMS delivery behind a small provider interface so the reminder and phone
+// verification functions don't depend on one vendor. Ships a Twilio-compatible
+// adapter (any service that speaks Twilio's Messages API) and a fake that only
+// records messages, for local development. Phone helpers are also used by the web app.
+// Keep this file free of third-party imports.
+
+export interface SmsSendResult {
+  messageId: string | null;
+  error: string | null;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, body: string): Promise<SmsSendResult>;
+}
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from: string;
+  // Override for Twilio-compatible services
+  baseUrl?: string;
+}
+
+export interface FakeSmsMessage {
+  to: string;
+  body: string;
+  sentAt: string;
+}
+
+// Consequence levels that get SMS reminders
+export const SMS_CONSEQUENCE_LEVELS = ["critical", "high"];
+
+// Longer bodies are split into several billed segments
+export const MAX_SMS_LENGTH = 160;
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+export function isValidPhoneNumber(phoneNumber: string | null | undefined): phoneNumber is string {
+  return !!phoneNumber && E164_PATTERN.test(phoneNumber);
+}
+
+// Normalize user input to E.164; bare 10-digit numbers are taken as US numbers
+export function normalizePhoneNumber(input: string): string | null {
+  const trimmed = input.trim();
+  const digits = trimmed.replace(/\D/g, "");
+
+  let phoneNumber: string;
+  if (trimmed.startsWith("+")) {
+    phoneNumber = `+${digits}`;
+  } else if (digits.length === 10) {
+    phoneNumber = `+1${digits}`;
+  } else if (digits.length === 11 && digits.startsWith("1")) {
+    phoneNumber = `+${digits}`;
+  } else {
+    return null;
+  }
+
+  return isValidPhoneNumber(phoneNumber) ? phoneNumber : null;
+}
+
+// "+15551234567" -> "(555) 123-4567"; other countries are shown as stored
+export function formatPhoneNumber(phoneNumber: string): string {
+  const match = phoneNumber.match(/^\+1(\d{3})(\d{3})(\d{4})$/);
+  return match ? `(${match[1]}) ${match[2]}-${match[3]}` : phoneNumber;
+}
+
+// "+15551234567" -> "•••4567", for logs
+export function maskPhoneNumber(phoneNumber: string): string {
+  return `•••${phoneNumber.slice(-4)}`;
+}
+
+export function truncateSms(body: string): string {
+  return body.length <= MAX_SMS_LENGTH ? body : `${body.slice(0, MAX_SMS_LENGTH - 1)}…`;
+}
+
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+  const baseUrl = (config.baseUrl ?? "https://api.twilio.com").replace(/\/$/, "");
+  const url = `${baseUrl}/2010-04-01/Accounts/${config.accountSid}/Messages.json`;
+
+  return {
+    name: "twilio",
+    async send(to, body) {
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: to, From: config.from, Body: body }).toString(),
+        });
+
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          return { messageId: null, error: data.message ?? `SMS provider returned ${response.status}` };
+        }
+        return { messageId: data.sid ?? null, error: null };
+      } catch (err) {
+        return { messageId: null, error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  };
+}
+
+// Records messages instead of sending them. Bodies hold verification codes, so they aren't logged.
+export function createFakeProvider(outbox: FakeSmsMessage[] = []): SmsProvider {
+  return {
+    name: "fake",
+    async send(to, body) {
+      outbox.push({ to, body, sentAt: new Date().toISOString() });
+      console.log(`[fake sms] ${body.length} characters to ${maskPhoneNumber(to)}`);
+      return { messageId: `fake-${outbox.length}`, error: null };
+    },
+  };
+}
+
+// SMS_PROVIDER=twilio uses the TWILIO_* settings and SMS_PROVIDER=fake only records
+// messages. Without SMS_PROVIDER there is no provider, so nothing is reported as sent.
+export function createSmsProvider(getEnv: (key: string) => string | undefined): SmsProvider | null {
+  const providerName = getEnv("SMS_PROVIDER");
+  if (!providerName) return null;
+  if (providerName === "fake") return createFakeProvider();
+  if (providerName !== "twilio") {
+    throw new Error(`Unknown SMS_PROVIDER "${providerName}"; use twilio or fake`);
+  }
+
+  const accountSid = getEnv("TWILIO_ACCOUNT_SID");
+  const authToken = getEnv("TWILIO_AUTH_TOKEN");
+  const from = getEnv("TWILIO_FROM_NUMBER");
+
+  if (!accountSid || !authToken || !from) {
+    throw new Error("SMS_PROVIDER is twilio but TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM_NUMBER is missing");
+  }
+
+  return createTwilioProvider({
+    accountSid,
+    authToken,
+    from,
+    baseUrl: getEnv("TWILIO_API_BASE_URL"),
+  });
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCalendarDaysBetween,
+  getDaysUntilDate,
+  getStartOfDayInTimeZone,
+  getZonedDateParts,
+  isValidTimeZone,
+  resolveTimeZone,
+} from "./timezone.ts";
+
+describe("resolveTimeZone", () => {
+  it("takes the first valid zone", () => {
+    expect(resolveTimeZone(null, "Not/AZone", "Europe/Berlin", "Asia/Tokyo")).toBe("Europe/Berlin");
+  });
+
+  it("falls back to UTC", () => {
+    expect(resolveTimeZone(undefined, "")).toBe("UTC");
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
+
+describe("getZonedDateParts", () => {
+  it("uses the local date, not the UTC one", () => {
+    const instant = new Date("2026-10-19T03:00:00Z");
+    expect(getZonedDateParts(instant, "America/Los_Angeles")).toEqual({ date: "2026-10-18", hour: 20 });
+    expect(getZonedDateParts(instant, "Asia/Tokyo")).toEqual({ date: "2026-10-19", hour: 12 });
+  });
+
+  it("reports midnight as hour 0", () => {
+    expect(getZonedDateParts(new Date("2026-01-01T00:00:00Z"), "UTC")).toEqual({ date: "2026-01-01", hour: 0 });
+  });
+
+  it("follows daylight saving changes", () => {
+    // Clocks in New York go forward at 2am on March 8, 2026
+    expect(getZonedDateParts(new Date("2026-03-08T06:30:00Z"), "America/New_York").hour).toBe(1);
+    expect(getZonedDateParts(new Date("2026-03-08T12:00:00Z"), "America/New_York").hour).toBe(8);
+    expect(getZonedDateParts(new Date("2026-03-07T12:00:00Z"), "America/New_York").hour).toBe(7);
+  });
+});
+
+describe("getCalendarDaysBetween", () => {
+  it("counts calendar days across year and DST boundaries", () => {
+    expect(getCalendarDaysBetween("2026-12-31", "2027-01-01")).toBe(1);
+    expect(getCalendarDaysBetween("2026-03-07", "2026-03-09")).toBe(2);
+    expect(getCalendarDaysBetween("2026-03-09", "2026-03-07")).toBe(-2);
+  });
+
+  it("ignores the time of day", () => {
+    expect(getCalendarDaysBetween("2026-10-19T23:59:59Z", "2026-10-20")).toBe(1);
+  });
+});
+
+describe("getDaysUntilDate", () => {
+  it("counts from today in the given zone", () => {
+    const now = new Date("2026-10-19T03:00:00Z");
+    expect(getDaysUntilDate("2026-10-19", "UTC", now)).toBe(0);
+    expect(getDaysUntilDate("2026-10-19", "America/Los_Angeles", now)).toBe(1);
+    expect(getDaysUntilDate("2026-10-18", "UTC", now)).toBe(-1);
+  });
+});
+
+describe("getStartOfDayInTimeZone", () => {
+  it("finds local midnight as a UTC instant", () => {
+    expect(getStartOfDayInTimeZone("2026-10-19", "UTC").toISOString()).toBe("2026-10-19T00:00:00.000Z");
+    expect(getStartOfDayInTimeZone("2026-10-19", "Asia/Kolkata").toISOString()).toBe("2026-10-18T18:30:00.000Z");
+    expect(getStartOfDayInTimeZone("2026-10-19", "America/Los_Angeles").toISOString()).toBe("2026-10-19T07:00:00.000Z");
+  });
+
+  it("uses the offset in effect on that day around DST changes", () => {
+    // New York springs forward on March 8 and falls back on November 1, 2026
+    expect(getStartOfDayInTimeZone("2026-03-08", "America/New_York").toISOString()).toBe("2026-03-08T05:00:00.000Z");
+    expect(getStartOfDayInTimeZone("2026-03-09", "America/New_York").toISOString()).toBe("2026-03-09T04:00:00.000Z");
+    expect(getStartOfDayInTimeZone("2026-11-01", "America/New_York").toISOString()).toBe("2026-11-01T04:00:00.000Z");
+    expect(getStartOfDayInTimeZone("2026-11-02", "America/New_York").toISOString()).toBe("2026-11-02T05:00:00.000Z");
+  });
+
+  it("handles zones east of UTC whose midnight falls on the previous UTC day", () => {
+    expect(getStartOfDayInTimeZone("2026-03-29", "Europe/Berlin").toISOString()).toBe("2026-03-28T23:00:00.000Z");
+    expect(getStartOfDayInTimeZone("2026-03-30", "Europe/Berlin").toISOString()).toBe("2026-03-29T22:00:00.000Z");
+  });
+});
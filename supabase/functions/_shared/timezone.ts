@@ -0,0 +1,86 @@
+// Timezone-aware "today" shared by the web app and the edge functions. Due
+// dates are calendar dates, so days-until-due is the difference between the
+// due date and today's date in the user's zone, not a diff of timestamps.
+// Keep this file free of third-party imports.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+// Local hour reminders go out at when the user hasn't picked one
+export const DEFAULT_REMINDER_HOUR = 8;
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// First valid zone from most to least specific (profile, organization, ...)
+export function resolveTimeZone(...candidates: (string | null | undefined)[]): string {
+  return candidates.find(isValidTimeZone) ?? DEFAULT_TIMEZONE;
+}
+
+// Calendar date (YYYY-MM-DD) and hour (0-23) of an instant in a zone
+export function getZonedDateParts(instant: Date, timeZone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "00";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    hour: Number(get("hour")) % 24,
+  };
+}
+
+// Milliseconds the zone's wall clock is ahead of UTC at an instant
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour") % 24, get("minute"), get("second"));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant a calendar date (YYYY-MM-DD) begins in a zone. The offset at UTC
+// midnight is a first guess; the second pass corrects for a DST change between.
+export function getStartOfDayInTimeZone(date: string, timeZone: string): Date {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  const midnightUTC = Date.UTC(year, month - 1, day);
+  const guess = midnightUTC - getTimeZoneOffset(new Date(midnightUTC), timeZone);
+  return new Date(midnightUTC - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+export function getTodayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return getZonedDateParts(now, timeZone).date;
+}
+
+// Whole calendar days from one ISO date to another (negative if `to` is earlier)
+export function getCalendarDaysBetween(from: string, to: string): number {
+  const toUTC = (date: string) => {
+    const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUTC(to) - toUTC(from)) / (1000 * 60 * 60 * 24));
+}
+
+export function getDaysUntilDate(dueDate: string, timeZone: string, now: Date = new Date()): number {
+  return getCalendarDaysBetween(getTodayInTimeZone(timeZone, now), dueDate);
+}
@@ -0,0 +1,98 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  getRetryDelaySeconds,
+  isPrivateAddress,
+  isPublicWebhookUrl,
+  signWebhookPayload,
+} from "./webhooks.ts";
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and shared IPv4 ranges", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "224.0.0.1"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("allows public IPv4 addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "100.128.0.1", "192.169.0.1"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it("flags private IPv6 addresses, bracketed or not", () => {
+    for (const address of ["::1", "[::1]", "::", "fc00::1", "fd12:3456::1", "fe80::1", "ff02::1"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+  });
+
+  it("looks through IPv4-mapped IPv6 addresses", () => {
+    expect(isPrivateAddress("::ffff:10.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:a00:1")).toBe(true);
+    expect(isPrivateAddress("::ffff:7f00:1")).toBe(true);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+  });
+
+  it("treats hostnames as not yet known", () => {
+    expect(isPrivateAddress("example.com")).toBe(false);
+  });
+});
+
+describe("isPublicWebhookUrl", () => {
+  it("accepts public HTTPS URLs", () => {
+    expect(isPublicWebhookUrl("https://hooks.example.com/deadlines")).toBe(true);
+    expect(isPublicWebhookUrl("  https://8.8.8.8/hook  ")).toBe(true);
+  });
+
+  it("requires HTTPS", () => {
+    expect(isPublicWebhookUrl("http://hooks.example.com/deadlines")).toBe(false);
+    expect(isPublicWebhookUrl("not a url")).toBe(false);
+  });
+
+  it("rejects private hostnames", () => {
+    expect(isPublicWebhookUrl("https://localhost/hook")).toBe(false);
+    expect(isPublicWebhookUrl("https://localhost./hook")).toBe(false);
+    expect(isPublicWebhookUrl("https://db.internal/hook")).toBe(false);
+    expect(isPublicWebhookUrl("https://printer.local/hook")).toBe(false);
+  });
+
+  it("rejects private addresses however they are written", () => {
+    expect(isPublicWebhookUrl("https://127.0.0.1/hook")).toBe(false);
+    expect(isPublicWebhookUrl("https://169.254.169.254/latest/meta-data")).toBe(false);
+    expect(isPublicWebhookUrl("https://[::1]/hook")).toBe(false);
+    expect(isPublicWebhookUrl("https://[::ffff:127.0.0.1]/hook")).toBe(false);
+    expect(isPublicWebhookUrl("https://2130706433/hook")).toBe(false);
+    expect(isPublicWebhookUrl("https://0x7f.1/hook")).toBe(false);
+  });
+});
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", async () => {
+    const body = JSON.stringify({ type: "deadline.created" });
+    const expected = createHmac("sha256", "whsec_test").update(`1760000000.${body}`).digest("hex");
+
+    expect(await signWebhookPayload("whsec_test", 1760000000, body)).toBe(`t=1760000000,v1=${expected}`);
+  });
+
+  it("changes with the secret and the timestamp", async () => {
+    const signature = await signWebhookPayload("whsec_test", 1760000000, "{}");
+
+    expect(await signWebhookPayload("whsec_other", 1760000000, "{}")).not.toBe(signature);
+    expect(await signWebhookPayload("whsec_test", 1760000001, "{}")).not.toBe(signature);
+  });
+});
+
+describe("getRetryDelaySeconds", () => {
+  it("backs off after each failed attempt", () => {
+    expect(getRetryDelaySeconds(1)).toBe(60);
+    expect(getRetryDelaySeconds(2)).toBe(5 * 60);
+    expect(getRetryDelaySeconds(MAX_WEBHOOK_ATTEMPTS - 1)).toBe(12 * 60 * 60);
+  });
+
+  it("stops once retries are exhausted", () => {
+    expect(getRetryDelaySeconds(MAX_WEBHOOK_ATTEMPTS)).toBeNull();
+    expect(getRetryDelaySeconds(0)).toBeNull();
+  });
+});
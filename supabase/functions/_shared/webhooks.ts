@@ -0,0 +1,139 @@
+// Outbound webhook events, shared by the web app (event labels) and the
+// dispatch-webhooks edge function (signing and retry schedule).
+// Keep this file free of third-party imports.
+
+import type { DeadlineStatus } from "./deadline-status.ts";
+
+export type WebhookEventType =
+  | "deadline.created"
+  | "deadline.updated"
+  | "deadline.completed"
+  | "deadline.entered_status"
+  | "reminder.sent";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  "deadline.created",
+  "deadline.updated",
+  "deadline.completed",
+  "deadline.entered_status",
+  "reminder.sent",
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "deadline.created": "Deadline created",
+  "deadline.updated": "Deadline updated",
+  "deadline.completed": "Deadline completed",
+  "deadline.entered_status": "Deadline became due soon or overdue",
+  "reminder.sent": "Reminder sent",
+};
+
+// Statuses that fire deadline.entered_status
+export const WEBHOOK_ENTERED_STATUSES: DeadlineStatus[] = ["warning", "urgent", "critical", "overdue"];
+
+// Header names sent with every delivery
+export const WEBHOOK_SIGNATURE_HEADER = "X-DeadlineGuard-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-DeadlineGuard-Event";
+export const WEBHOOK_ID_HEADER = "X-DeadlineGuard-Delivery";
+
+// Wait before each retry: 1m, 5m, 30m, 2h, 12h. The first attempt is immediate.
+const RETRY_DELAYS_SECONDS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60];
+
+export const MAX_WEBHOOK_ATTEMPTS = RETRY_DELAYS_SECONDS.length + 1;
+
+// Seconds to wait after the given (1-based) failed attempt, or null once retries are exhausted
+export function getRetryDelaySeconds(attempt: number): number | null {
+  if (attempt < 1 || attempt >= MAX_WEBHOOK_ATTEMPTS) return null;
+  return RETRY_DELAYS_SECONDS[attempt - 1];
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// HMAC-SHA256 of "<timestamp>.<body>", formatted as "t=<timestamp>,v1=<hex digest>".
+// Receivers recompute the digest with their endpoint secret and reject stale timestamps.
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(digest)}`;
+}
+
+// Hostnames that only resolve inside a private network
+const PRIVATE_HOSTNAME_SUFFIXES = [".localhost", ".local", ".internal", ".lan", ".home.arpa"];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+// Loopback, private, link-local, shared (CGNAT), multicast and reserved addresses.
+// Endpoints must not reach these, or a webhook could probe our own network.
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+
+  const ipv4 = parseIPv4(ip);
+  if (ipv4) {
+    const [a, b] = ipv4;
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  if (!ip.includes(":")) return false;
+
+  // IPv4-mapped, written either way (::ffff:10.0.0.1 or ::ffff:a00:1)
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join("."));
+  }
+
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    /^f[cd]/.test(ip) ||
+    /^fe[89ab]/.test(ip) ||
+    ip.startsWith("ff")
+  );
+}
+
+// An HTTPS URL whose host is not a private name or address. Hostnames still
+// have to be resolved and checked with isPrivateAddress before sending.
+export function isPublicWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:") return false;
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (hostname === "localhost" || PRIVATE_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return false;
+  }
+
+  return !isPrivateAddress(hostname);
+}
@@ -0,0 +1,676 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { isAssignedTo } from "../_shared/assignment.ts";
+
+// Public REST API, authenticated with API keys instead of user sessions.
+//
+//   GET    /v1/deadlines                 list (filters below)
+//   POST   /v1/deadlines                 create
+//   GET    /v1/deadlines/:id             get
+//   PATCH  /v1/deadlines/:id             update
+//   POST   /v1/deadlines/:id/complete    complete
+//   DELETE /v1/deadlines/:id             delete
+//   GET    /v1/templates[/:id]           list / get (read-only catalog)
+//   GET    /v1/team-members[/:id]        list / get
+//   PATCH  /v1/team-members/:id          change role (admins)
+//   DELETE /v1/team-members/:id          remove from the organization (admins)
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-api-key, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+};
+
+const API_VERSION = "v1";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Columns a client may set when creating or updating a deadline
+const DEADLINE_WRITABLE_FIELDS = [
+  "title",
+  "description",
+  "category",
+  "subcategory",
+  "due_date",
+  "consequence_level",
+  "organization_id",
+  "reminder_offsets",
+  "business_day_roll",
+  "holiday_calendar",
+  "recurrence",
+  "recurrence_interval_days",
+  "recurrence_rule",
+  "auto_renew",
+  "renewal_instructions",
+  "estimated_cost",
+  "reference_number",
+  "issuing_authority",
+  "project",
+  "assignee_id",
+  "backup_assignee_ids",
+];
+
+// Only the creator or an organization admin may change who a deadline belongs to
+const DEADLINE_ASSIGNMENT_FIELDS = ["organization_id", "assignee_id", "backup_assignee_ids"];
+
+// Completion goes through POST /deadlines/:id/complete so the next occurrence is created
+const UPDATABLE_STATES = ["open", "in_progress", "submitted", "waived"];
+
+const TEAM_MEMBER_COLUMNS = "id, name, email, role, organization_id, created_at";
+
+// Read by public.current_actor_id()
+const ACTOR_HEADER = "X-DeadlineGuard-Actor";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
+
+interface ApiKey {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+}
+
+// Who a request acts as
+interface Principal {
+  keyId: string;
+  userId: string;
+  // Organization the key can reach: the key's own, or the owner's for personal keys
+  organizationId: string | null;
+  isOrgKey: boolean;
+  isAdmin: boolean;
+}
+
+interface Deadline {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  assignee_id: string | null;
+  backup_assignee_ids: string[];
+  recurrence: string | null;
+  auto_renew: boolean | null;
+  [column: string]: unknown;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+}
+
+async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function getApiKey(req: Request): string | null {
+  const header = req.headers.get("X-Api-Key") ?? req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  return header?.startsWith("dg_") ? header : null;
+}
+
+async function authenticate(supabase: SupabaseClient, req: Request): Promise<Principal> {
+  const rawKey = getApiKey(req);
+  if (!rawKey) {
+    throw new ApiError(401, "unauthorized", "Provide an API key in the Authorization header: Bearer dg_...");
+  }
+
+  const { data: key } = await supabase
+    .from("api_keys")
+    .select("id, user_id, organization_id")
+    .eq("key_hash", await hashApiKey(rawKey))
+    .maybeSingle();
+
+  if (!key) {
+    throw new ApiError(401, "unauthorized", "Invalid API key");
+  }
+
+  const apiKey = key as ApiKey;
+
+  const { data: hasAccess } = await supabase.rpc("has_api_access", { _user_id: apiKey.user_id });
+  if (!hasAccess) {
+    throw new ApiError(403, "plan_required", "API access requires the Enterprise plan");
+  }
+
+  const { data: owner } = await supabase
+    .from("profiles")
+    .select("organization_id, role")
+    .eq("id", apiKey.user_id)
+    .single();
+
+  if (apiKey.organization_id) {
+    // Organization keys stop working when their creator is no longer an admin there
+    if (owner?.organization_id !== apiKey.organization_id || owner?.role !== "org_admin") {
+      throw new ApiError(403, "forbidden", "The owner of this key is no longer an admin of the organization");
+    }
+
+    return {
+      keyId: apiKey.id,
+      userId: apiKey.user_id,
+      organizationId: apiKey.organization_id,
+      isOrgKey: true,
+      isAdmin: true,
+    };
+  }
+
+  return {
+    keyId: apiKey.id,
+    userId: apiKey.user_id,
+    organizationId: owner?.organization_id ?? null,
+    isOrgKey: false,
+    isAdmin: owner?.role === "org_admin",
+  };
+}
+
+// Count the request against the key's limit; returns headers describing what's left
+async function checkRateLimit(supabase: SupabaseClient, principal: Principal): Promise<Record<string, string>> {
+  const { data: remaining, error } = await supabase.rpc("consume_api_rate_limit", { _api_key_id: principal.keyId });
+  if (error) throw error;
+
+  const secondsUntilReset = 60 - new Date().getUTCSeconds();
+  const headers = {
+    "X-RateLimit-Remaining": String(Math.max(remaining ?? 0, 0)),
+    "X-RateLimit-Reset": String(secondsUntilReset),
+  };
+
+  if ((remaining ?? 0) < 0) {
+    throw new ApiError(429, "rate_limited", "Too many requests. Slow down and retry after the reset.", {
+      ...headers,
+      "Retry-After": String(secondsUntilReset),
+    });
+  }
+
+  return headers;
+}
+
+async function readBody(req: Request): Promise<Record<string, unknown>> {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "invalid_request", "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+// For DELETE, where a body is allowed but not required
+async function readOptionalBody(req: Request): Promise<Record<string, unknown>> {
+  const text = await req.text();
+  if (!text.trim()) return {};
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "invalid_request", "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+function pick(body: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.filter((field) => field in body).map((field) => [field, body[field]]));
+}
+
+function getPagination(params: URLSearchParams): { limit: number; offset: number } {
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(params.get("offset") ?? 0);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, "invalid_request", `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ApiError(400, "invalid_request", "offset must be a non-negative integer");
+  }
+  return { limit, offset };
+}
+
+// Turn database errors caused by bad input into 4xx responses
+function toApiError(error: { code?: string; message: string }): ApiError {
+  switch (error.code) {
+    case "22P02": // invalid enum value or uuid
+    case "22007": // invalid date
+    case "22008":
+    case "23502": // missing required column
+    case "23514": // check constraint
+      return new ApiError(422, "validation_failed", error.message);
+    case "P0001": // raised by a trigger, e.g. the daily creation limit
+      return new ApiError(422, "rejected", error.message);
+    default:
+      return new ApiError(500, "internal_error", error.message);
+  }
+}
+
+function requireOrganization(principal: Principal): string {
+  if (!principal.organizationId) {
+    throw new ApiError(404, "not_found", "This key's owner doesn't belong to an organization");
+  }
+  return principal.organizationId;
+}
+
+function canModifyDeadline(principal: Principal, deadline: Deadline): boolean {
+  if (principal.isOrgKey) return deadline.organization_id === principal.organizationId;
+  return deadline.user_id === principal.userId ||
+    (principal.isAdmin && !!deadline.organization_id && deadline.organization_id === principal.organizationId);
+}
+
+// Assignees and backups can work a deadline, but not delete or reassign it
+function canWorkDeadline(principal: Principal, deadline: Deadline): boolean {
+  return canModifyDeadline(principal, deadline) || (!principal.isOrgKey && isAssignedTo(deadline, principal.userId));
+}
+
+// ---------- Deadlines ----------
+
+function scopeDeadlines<Q extends { eq(column: string, value: unknown): Q; or(filters: string): Q }>(
+  query: Q,
+  principal: Principal
+): Q {
+  if (principal.isOrgKey) return query.eq("organization_id", principal.organizationId);
+  if (principal.organizationId) {
+    return query.or(`user_id.eq.${principal.userId},organization_id.eq.${principal.organizationId}`);
+  }
+  return query.eq("user_id", principal.userId);
+}
+
+async function getDeadline(supabase: SupabaseClient, principal: Principal, id: string): Promise<Deadline> {
+  const { data, error } = await scopeDeadlines(supabase.from("deadlines").select("*").eq("id", id), principal).maybeSingle();
+  if (error) throw toApiError(error);
+  if (!data) throw new ApiError(404, "not_found", "Deadline not found");
+  return data as Deadline;
+}
+
+async function listDeadlines(supabase: SupabaseClient, principal: Principal, params: URLSearchParams) {
+  const { limit, offset } = getPagination(params);
+
+  let query = scopeDeadlines(supabase.from("deadlines").select("*", { count: "exact" }), principal);
+
+  for (const filter of ["state", "category", "consequence_level"]) {
+    const value = params.get(filter);
+    if (value) query = query.in(filter, value.split(","));
+  }
+  if (params.get("due_after")) query = query.gte("due_date", params.get("due_after"));
+  if (params.get("due_before")) query = query.lte("due_date", params.get("due_before"));
+  if (params.get("assignee_id")) query = query.eq("assignee_id", params.get("assignee_id"));
+  if (params.get("q")) query = query.ilike("title", `%${params.get("q")}%`);
+
+  const { data, error, count } = await query
+    .order("due_date", { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw toApiError(error);
+  return { data, pagination: { limit, offset, total: count ?? 0 } };
+}
+
+function resolveOrganizationId(principal: Principal, requested: unknown): string | null {
+  if (principal.isOrgKey) return principal.organizationId;
+  if (requested === undefined || requested === null) return null;
+  if (requested !== principal.organizationId) {
+    throw new ApiError(422, "validation_failed", "organization_id must be your own organization or null");
+  }
+  return requested as string;
+}
+
+async function createDeadline(supabase: SupabaseClient, principal: Principal, body: Record<string, unknown>) {
+  const { data: allowed } = await supabase.rpc("can_create_deadline", { user_uuid: principal.userId });
+  if (!allowed) {
+    throw new ApiError(403, "plan_limit", "Deadline limit reached for this plan");
+  }
+
+  const fields = pick(body, DEADLINE_WRITABLE_FIELDS);
+  const { data, error } = await supabase
+    .from("deadlines")
+    .insert({
+      ...fields,
+      user_id: principal.userId,
+      organization_id: resolveOrganizationId(principal, fields.organization_id),
+      recurrence: fields.recurrence ?? "none",
+      auto_renew: fields.auto_renew ?? false,
+    })
+    .select()
+    .single();
+
+  if (error) throw toApiError(error);
+  return data;
+}
+
+async function updateDeadline(supabase: SupabaseClient, principal: Principal, id: string, body: Record<string, unknown>) {
+  const deadline = await getDeadline(supabase, principal, id);
+  if (!canWorkDeadline(principal, deadline)) {
+    throw new ApiError(403, "forbidden", "You can't modify this deadline");
+  }
+
+  const changes = pick(body, [...DEADLINE_WRITABLE_FIELDS, "state"]);
+  if (!canModifyDeadline(principal, deadline) && DEADLINE_ASSIGNMENT_FIELDS.some((field) => field in changes)) {
+    throw new ApiError(403, "forbidden", "Only the creator or an organization admin can reassign this deadline");
+  }
+  if ("organization_id" in changes) {
+    changes.organization_id = resolveOrganizationId(principal, changes.organization_id);
+  }
+  if ("state" in changes && !UPDATABLE_STATES.includes(changes.state as string)) {
+    throw new ApiError(422, "validation_failed", `state must be one of ${UPDATABLE_STATES.join(", ")}; use /complete to complete a deadline`);
+  }
+  if (Object.keys(changes).length === 0) {
+    throw new ApiError(400, "invalid_request", "No updatable fields in the request body");
+  }
+
+  // Not a deadline column; recorded in the deadline's version history
+  const reason = body.change_reason;
+  if (reason !== undefined && reason !== null && typeof reason !== "string") {
+    throw new ApiError(422, "validation_failed", "change_reason must be a string");
+  }
+
+  if (reason) {
+    const { data, error } = await supabase.rpc("update_deadline_with_reason", {
+      _deadline_id: id,
+      _changes: changes,
+      _reason: reason,
+    });
+
+    if (error) throw toApiError(error);
+    return data;
+  }
+
+  const { data, error } = await supabase
+    .from("deadlines")
+    .update(changes)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw toApiError(error);
+  return data;
+}
+
+async function completeDeadline(supabase: SupabaseClient, principal: Principal, id: string, body: Record<string, unknown>) {
+  const deadline = await getDeadline(supabase, principal, id);
+  if (!canWorkDeadline(principal, deadline)) {
+    throw new ApiError(403, "forbidden", "You can't modify this deadline");
+  }
+
+  const { data, error } = await supabase
+    .from("deadlines")
+    .update({
+      state: "completed",
+      completed_at: body.completed_at ?? new Date().toISOString().split("T")[0],
+      completed_by: principal.userId,
+      completion_notes: body.notes ?? null,
+    })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw toApiError(error);
+
+  const completed = data as Deadline;
+  let nextOccurrenceId: string | null = null;
+
+  if (completed.auto_renew && completed.recurrence && completed.recurrence !== "none") {
+    try {
+      const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/generate-recurring-deadlines`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ deadlineId: completed.id }),
+      });
+      const result = await response.json();
+      nextOccurrenceId = result.createdIds?.[0] ?? null;
+    } catch (err) {
+      // The scheduled sweep picks up anything missed here
+      console.error("Error creating next occurrence:", err);
+    }
+  }
+
+  return { data: completed, next_occurrence_id: nextOccurrenceId };
+}
+
+async function deleteDeadline(supabase: SupabaseClient, principal: Principal, id: string) {
+  const deadline = await getDeadline(supabase, principal, id);
+  if (!canModifyDeadline(principal, deadline)) {
+    throw new ApiError(403, "forbidden", "You can't delete this deadline");
+  }
+
+  const { error } = await supabase.from("deadlines").delete().eq("id", id);
+  if (error) throw toApiError(error);
+}
+
+// ---------- Templates ----------
+
+async function listTemplates(supabase: SupabaseClient, params: URLSearchParams) {
+  const { limit, offset } = getPagination(params);
+
+  let query = supabase
+    .from("deadline_templates")
+    .select("*", { count: "exact" })
+    .eq("is_active", true);
+
+  if (params.get("category")) query = query.in("category", params.get("category")!.split(","));
+  if (params.get("industry")) query = query.contains("industry", [params.get("industry")]);
+  if (params.get("q")) query = query.ilike("name", `%${params.get("q")}%`);
+
+  const { data, error, count } = await query
+    .order("name", { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw toApiError(error);
+  return { data, pagination: { limit, offset, total: count ?? 0 } };
+}
+
+async function getTemplate(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from("deadline_templates")
+    .select("*")
+    .eq("id", id)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) throw toApiError(error);
+  if (!data) throw new ApiError(404, "not_found", "Template not found");
+  return data;
+}
+
+// ---------- Team members ----------
+
+async function listTeamMembers(supabase: SupabaseClient, principal: Principal, params: URLSearchParams) {
+  const organizationId = requireOrganization(principal);
+  const { limit, offset } = getPagination(params);
+
+  let query = supabase
+    .from("profiles")
+    .select(TEAM_MEMBER_COLUMNS, { count: "exact" })
+    .eq("organization_id", organizationId);
+
+  if (params.get("role")) query = query.in("role", params.get("role")!.split(","));
+
+  const { data, error, count } = await query
+    .order("created_at", { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw toApiError(error);
+  return { data, pagination: { limit, offset, total: count ?? 0 } };
+}
+
+async function getTeamMember(supabase: SupabaseClient, principal: Principal, id: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select(TEAM_MEMBER_COLUMNS)
+    .eq("id", id)
+    .eq("organization_id", requireOrganization(principal))
+    .maybeSingle();
+
+  if (error) throw toApiError(error);
+  if (!data) throw new ApiError(404, "not_found", "Team member not found");
+  return data;
+}
+
+function requireMemberAdmin(principal: Principal, memberId: string) {
+  if (!principal.isAdmin) {
+    throw new ApiError(403, "forbidden", "Only organization admins can manage team members");
+  }
+  if (memberId === principal.userId) {
+    throw new ApiError(422, "validation_failed", "You can't change your own membership through the API");
+  }
+}
+
+async function updateTeamMember(supabase: SupabaseClient, principal: Principal, id: string, body: Record<string, unknown>) {
+  await getTeamMember(supabase, principal, id);
+  requireMemberAdmin(principal, id);
+
+  if (body.role !== "org_admin" && body.role !== "org_member") {
+    throw new ApiError(422, "validation_failed", "role must be org_admin or org_member");
+  }
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .update({ role: body.role })
+    .eq("id", id)
+    .select(TEAM_MEMBER_COLUMNS)
+    .single();
+
+  if (error) throw toApiError(error);
+  return data;
+}
+
+// Their org deadlines go to the members named in body.reassignments
+// (deadline id -> member id) before they're removed
+async function removeTeamMember(supabase: SupabaseClient, principal: Principal, id: string, body: Record<string, unknown>) {
+  await getTeamMember(supabase, principal, id);
+  requireMemberAdmin(principal, id);
+
+  const reassignments = body.reassignments ?? {};
+  if (
+    typeof reassignments !== "object" ||
+    Array.isArray(reassignments) ||
+    !Object.values(reassignments as Record<string, unknown>).every((memberId) => typeof memberId === "string")
+  ) {
+    throw new ApiError(422, "validation_failed", "reassignments must map deadline ids to member ids");
+  }
+
+  const { error } = await supabase.rpc("offboard_member", {
+    _member_id: id,
+    _reassignments: reassignments,
+    _acting_user_id: principal.userId,
+  });
+
+  if (error) throw toApiError(error);
+}
+
+// ---------- Routing ----------
+
+function methodNotAllowed(): never {
+  throw new ApiError(405, "method_not_allowed", "Method not allowed for this resource");
+}
+
+async function route(supabase: SupabaseClient, principal: Principal, req: Request, url: URL): Promise<Response> {
+  // Path looks like /api/v1/<resource>[/<id>[/<action>]]
+  const segments = url.pathname.split("/").filter(Boolean);
+  const versionIndex = segments.indexOf(API_VERSION);
+  if (versionIndex === -1) {
+    throw new ApiError(404, "not_found", `Unknown API version. Use /${API_VERSION}/...`);
+  }
+
+  const [resource, id, action, ...rest] = segments.slice(versionIndex + 1);
+  const params = url.searchParams;
+  const method = req.method;
+
+  if (rest.length > 0) throw new ApiError(404, "not_found", "Unknown endpoint");
+
+  switch (resource) {
+    case "deadlines":
+      if (action === "complete") {
+        if (method !== "POST") methodNotAllowed();
+        const body = await req.json().catch(() => ({}));
+        return json(await completeDeadline(supabase, principal, id, body ?? {}));
+      }
+      if (action) break;
+      if (!id) {
+        if (method === "GET") return json(await listDeadlines(supabase, principal, params));
+        if (method === "POST") return json({ data: await createDeadline(supabase, principal, await readBody(req)) }, 201);
+        return methodNotAllowed();
+      }
+      if (method === "GET") return json({ data: await getDeadline(supabase, principal, id) });
+      if (method === "PATCH") return json({ data: await updateDeadline(supabase, principal, id, await readBody(req)) });
+      if (method === "DELETE") {
+        await deleteDeadline(supabase, principal, id);
+        return json(null, 204);
+      }
+      return methodNotAllowed();
+
+    case "templates":
+      if (action) break;
+      if (method !== "GET") methodNotAllowed();
+      return id
+        ? json({ data: await getTemplate(supabase, id) })
+        : json(await listTemplates(supabase, params));
+
+    case "team-members":
+      if (action) break;
+      if (!id) {
+        if (method === "GET") return json(await listTeamMembers(supabase, principal, params));
+        return methodNotAllowed();
+      }
+      if (method === "GET") return json({ data: await getTeamMember(supabase, principal, id) });
+      if (method === "PATCH") return json({ data: await updateTeamMember(supabase, principal, id, await readBody(req)) });
+      if (method === "DELETE") {
+        await removeTeamMember(supabase, principal, id, await readOptionalBody(req));
+        return json(null, 204);
+      }
+      return methodNotAllowed();
+  }
+
+  throw new ApiError(404, "not_found", "Unknown endpoint");
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let rateLimitHeaders: Record<string, string> = {};
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Keys are scoped by hand below, so the service role is used for every query
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const principal = await authenticate(supabase, req);
+    rateLimitHeaders = await checkRateLimit(supabase, principal);
+
+    // Lets the audit and version history triggers record the key's owner as the actor
+    const actingClient = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { [ACTOR_HEADER]: principal.userId } },
+    });
+
+    const response = await route(actingClient, principal, req, new URL(req.url));
+    for (const [name, value] of Object.entries(rateLimitHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return json({ error: { code: error.code, message: error.message } }, error.status, {
+        ...rateLimitHeaders,
+        ...error.headers,
+      });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error in api function:", message);
+    return json({ error: { code: "internal_error", message } }, 500, rateLimitHeaders);
+  }
+});
@@ -0,0 +1,232 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { adjustToBusinessDay } from "../_shared/business-days.ts";
+import { getCategoryLabel } from "../_shared/categories.ts";
+import { CalendarEvent, renderCalendar } from "../_shared/ics.ts";
+import { addDaysToISODate, getUpcomingOccurrences } from "../_shared/recurrence.ts";
+import { getReminderSchedule } from "../_shared/reminder-schedule.ts";
+import { DEFAULT_REMINDER_HOUR, getTodayInTimeZone, resolveTimeZone } from "../_shared/timezone.ts";
+
+// Serves a user's or an organization's deadlines as an iCalendar feed:
+//   GET /calendar-feed?token=<feed token>
+// The token is the only credential, so this function runs without JWT verification.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const APP_URL = Deno.env.get("APP_URL") || "https://app.deadlineguard.com";
+
+// How far ahead recurring series are expanded, and how many occurrences each may add
+const SERIES_HORIZON_DAYS = 2 * 365;
+const MAX_OCCURRENCES_PER_SERIES = 24;
+
+interface CalendarFeed {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+}
+
+interface Profile {
+  name: string;
+  timezone: string | null;
+  reminder_hour: number | null;
+  organization_id: string | null;
+  organization: { name: string; timezone: string | null } | null;
+}
+
+interface Deadline {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string;
+  category: string;
+  consequence_level: string;
+  reference_number: string | null;
+  reminder_offsets: number[] | null;
+  recurrence: string | null;
+  recurrence_interval_days: number | null;
+  recurrence_rule: string | null;
+  auto_renew: boolean | null;
+  business_day_roll: string;
+  holiday_calendar: string;
+}
+
+function getConsequenceLabel(level: string): string {
+  return level.charAt(0).toUpperCase() + level.slice(1);
+}
+
+function buildDescription(deadline: Deadline, isProjected: boolean): string {
+  const lines = [
+    `Category: ${getCategoryLabel(deadline.category)}`,
+    `Consequence: ${getConsequenceLabel(deadline.consequence_level)}`,
+  ];
+
+  if (deadline.reference_number) {
+    lines.push(`Reference: ${deadline.reference_number}`);
+  }
+  if (deadline.description) {
+    lines.push("", deadline.description);
+  }
+  if (isProjected) {
+    lines.push("", "Upcoming occurrence of a recurring deadline. It is created once the current one is completed.");
+  }
+
+  return lines.join("\n");
+}
+
+// The deadline itself plus the projected future occurrences of its series
+function buildEvents(deadline: Deadline, today: string, alarmHour: number): CalendarEvent[] {
+  const alarmOffsets = getReminderSchedule(deadline.consequence_level, deadline.reminder_offsets);
+  const categories = [getCategoryLabel(deadline.category), getConsequenceLabel(deadline.consequence_level)];
+  const url = `${APP_URL}/deadlines`;
+
+  const events: CalendarEvent[] = [{
+    uid: `${deadline.id}@deadlineguard`,
+    date: adjustToBusinessDay(deadline.due_date, deadline.business_day_roll, deadline.holiday_calendar),
+    summary: deadline.title,
+    description: buildDescription(deadline, false),
+    categories,
+    url,
+    alarmOffsets,
+    alarmHour,
+  }];
+
+  if (!deadline.auto_renew || !deadline.recurrence || deadline.recurrence === "none") {
+    return events;
+  }
+
+  let occurrences: string[];
+  try {
+    occurrences = getUpcomingOccurrences(
+      deadline.due_date,
+      deadline.recurrence,
+      deadline.recurrence_interval_days,
+      deadline.recurrence_rule,
+      { until: addDaysToISODate(today, SERIES_HORIZON_DAYS), limit: MAX_OCCURRENCES_PER_SERIES }
+    );
+  } catch (ruleError) {
+    console.error(`Invalid recurrence rule on ${deadline.id}:`, ruleError);
+    occurrences = [];
+  }
+
+  for (const dueDate of occurrences) {
+    events.push({
+      uid: `${deadline.id}-${dueDate}@deadlineguard`,
+      date: adjustToBusinessDay(dueDate, deadline.business_day_roll, deadline.holiday_calendar),
+      summary: deadline.title,
+      description: buildDescription(deadline, true),
+      categories,
+      url,
+      alarmOffsets,
+      alarmHour,
+    });
+  }
+
+  return events;
+}
+
+function notFound(): Response {
+  return new Response("Calendar feed not found", {
+    status: 404,
+    headers: { ...corsHeaders, "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) return notFound();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed, error: feedError } = await supabase
+      .from("calendar_feeds")
+      .select("id, user_id, organization_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) return notFound();
+
+    const calendarFeed = feed as CalendarFeed;
+
+    const { data: profileRow, error: profileError } = await supabase
+      .from("profiles")
+      .select("name, timezone, reminder_hour, organization_id, organization:organizations(name, timezone)")
+      .eq("id", calendarFeed.user_id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    const profile = profileRow as Profile | null;
+
+    // Organization feeds stop working once the user leaves the organization
+    if (!profile || (calendarFeed.organization_id && profile.organization_id !== calendarFeed.organization_id)) {
+      return notFound();
+    }
+
+    let query = supabase
+      .from("deadlines")
+      .select("*")
+      .not("state", "in", "(completed,waived)")
+      .order("due_date", { ascending: true });
+
+    // Personal feeds cover what the user created and what's assigned to them
+    query = calendarFeed.organization_id
+      ? query.eq("organization_id", calendarFeed.organization_id)
+      : query.or(`user_id.eq.${calendarFeed.user_id},assignee_id.eq.${calendarFeed.user_id}`);
+
+    const { data: deadlines, error: deadlinesError } = await query;
+
+    if (deadlinesError) throw deadlinesError;
+
+    const now = new Date();
+    const timeZone = resolveTimeZone(profile.timezone, profile.organization?.timezone);
+    const today = getTodayInTimeZone(timeZone, now);
+    const alarmHour = profile.reminder_hour ?? DEFAULT_REMINDER_HOUR;
+
+    const events = ((deadlines || []) as Deadline[]).flatMap((deadline) => buildEvents(deadline, today, alarmHour));
+
+    const body = renderCalendar({
+      name: calendarFeed.organization_id
+        ? `${profile.organization?.name ?? "Organization"} deadlines`
+        : "My deadlines",
+      description: "Deadlines from DeadlineGuard",
+      events,
+    }, now);
+
+    await supabase
+      .from("calendar_feeds")
+      .update({ last_accessed_at: now.toISOString() })
+      .eq("id", calendarFeed.id);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="deadlines.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error in calendar-feed function:", message);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
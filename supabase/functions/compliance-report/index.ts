@@ -0,0 +1,556 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import { adjustToBusinessDay } from "../_shared/business-days.ts";
+import { DEADLINE_CATEGORIES, getCategoryLabel, groupDeadlinesByCategory } from "../_shared/categories.ts";
+import {
+  DeadlineStatus,
+  STATUS_LABELS,
+  STATUS_PRIORITY,
+  getStatusForDaysUntilDue,
+} from "../_shared/deadline-status.ts";
+import { getCalendarDaysBetween, getTodayInTimeZone, resolveTimeZone } from "../_shared/timezone.ts";
+
+// Renders the compliance status of a user's or organization's deadlines as a PDF,
+// for auditors, bonding companies and insurers:
+//   POST /compliance-report { asOf?: "YYYY-MM-DD", project?: string }
+// The PDF is drawn here with pdf-lib; nothing is sent to an outside service.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Older renewals beyond this are summarized as a count
+const MAX_HISTORY_ENTRIES = 5;
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 36;
+
+const COLORS = {
+  brand: rgb(15 / 255, 23 / 255, 42 / 255),
+  text: rgb(15 / 255, 23 / 255, 42 / 255),
+  muted: rgb(100 / 255, 116 / 255, 139 / 255),
+  rule: rgb(226 / 255, 232 / 255, 240 / 255),
+  white: rgb(1, 1, 1),
+};
+
+const STATUS_COLORS: Record<DeadlineStatus, RGB> = {
+  safe: rgb(22 / 255, 163 / 255, 74 / 255),
+  upcoming: rgb(37 / 255, 99 / 255, 235 / 255),
+  warning: rgb(202 / 255, 138 / 255, 4 / 255),
+  urgent: rgb(234 / 255, 88 / 255, 12 / 255),
+  critical: rgb(220 / 255, 38 / 255, 38 / 255),
+  overdue: rgb(153 / 255, 27 / 255, 27 / 255),
+};
+
+const STATE_NOTES: Record<string, string> = {
+  in_progress: "Renewal in progress",
+  submitted: "Awaiting authority",
+};
+
+// Table columns: x offset from the margin and width
+const COLUMNS = {
+  item: { x: 0, width: 170 },
+  authority: { x: 178, width: 110 },
+  reference: { x: 296, width: 80 },
+  expires: { x: 384, width: 62 },
+  status: { x: 452, width: 64 },
+};
+
+interface ReportRequest {
+  asOf?: string;
+  project?: string;
+}
+
+interface Profile {
+  name: string;
+  timezone: string | null;
+  organization_id: string | null;
+  organization: { name: string; timezone: string | null } | null;
+}
+
+interface Deadline {
+  id: string;
+  title: string;
+  category: string;
+  due_date: string;
+  state: string;
+  completed_at: string | null;
+  created_at: string;
+  parent_deadline_id: string | null;
+  reference_number: string | null;
+  issuing_authority: string | null;
+  project: string | null;
+  business_day_roll: string;
+  holiday_calendar: string;
+}
+
+interface Renewal {
+  dueDate: string;
+  completedAt: string | null;
+}
+
+interface ReportRow {
+  deadline: Deadline;
+  category: string;
+  expires: string;
+  status: DeadlineStatus;
+  history: Renewal[];
+  olderRenewals: number;
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+function isISODate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function formatDate(isoDate: string): string {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// A deadline is on record as of a date when it already existed and had not yet been closed
+function isOnRecord(deadline: Deadline, asOf: string): boolean {
+  if (deadline.created_at.slice(0, 10) > asOf) return false;
+  if (deadline.state !== "completed" && deadline.state !== "waived") return true;
+  return !!deadline.completed_at && deadline.completed_at > asOf;
+}
+
+// Earlier occurrences of the same item, newest first, completed on or before the report date
+function getRenewalHistory(deadline: Deadline, byId: Map<string, Deadline>, asOf: string): Renewal[] {
+  const history: Renewal[] = [];
+  const seen = new Set([deadline.id]);
+  let parent = deadline.parent_deadline_id ? byId.get(deadline.parent_deadline_id) : undefined;
+
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    if (parent.state === "completed" && (!parent.completed_at || parent.completed_at <= asOf)) {
+      history.push({ dueDate: parent.due_date, completedAt: parent.completed_at });
+    }
+    parent = parent.parent_deadline_id ? byId.get(parent.parent_deadline_id) : undefined;
+  }
+
+  return history;
+}
+
+function buildRows(deadlines: Deadline[], asOf: string, project: string | null): ReportRow[] {
+  const byId = new Map(deadlines.map((deadline) => [deadline.id, deadline]));
+
+  return deadlines
+    .filter((deadline) => isOnRecord(deadline, asOf) && (!project || deadline.project === project))
+    .map((deadline) => {
+      const expires = adjustToBusinessDay(deadline.due_date, deadline.business_day_roll, deadline.holiday_calendar);
+      const history = getRenewalHistory(deadline, byId, asOf);
+      return {
+        deadline,
+        category: deadline.category,
+        expires,
+        status: getStatusForDaysUntilDue(getCalendarDaysBetween(asOf, expires)),
+        history: history.slice(0, MAX_HISTORY_ENTRIES),
+        olderRenewals: Math.max(0, history.length - MAX_HISTORY_ENTRIES),
+      };
+    })
+    .sort((a, b) => a.expires.localeCompare(b.expires) || a.deadline.title.localeCompare(b.deadline.title));
+}
+
+// The standard fonts only cover WinAnsi, so typographic punctuation is flattened
+// and anything else outside Latin-1 is replaced
+function toPdfText(value: string): string {
+  return value
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/\s+/g, " ")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?")
+    .trim();
+}
+
+function getLineHeight(size: number): number {
+  return size * 1.3;
+}
+
+function wrapText(value: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of toPdfText(value).split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    // Words wider than the column are broken by character
+    line = word;
+    while (font.widthOfTextAtSize(line, size) > maxWidth && line.length > 1) {
+      let fit = line.length - 1;
+      while (fit > 1 && font.widthOfTextAtSize(line.slice(0, fit), size) > maxWidth) fit--;
+      lines.push(line.slice(0, fit));
+      line = line.slice(fit);
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+function describeHistory(row: ReportRow): string {
+  const entries = row.history.map((renewal) =>
+    renewal.completedAt
+      ? `renewed ${formatDate(renewal.completedAt)} (due ${formatDate(renewal.dueDate)})`
+      : `renewed (due ${formatDate(renewal.dueDate)})`
+  );
+  if (row.olderRenewals > 0) {
+    entries.push(`${row.olderRenewals} earlier renewal${row.olderRenewals !== 1 ? "s" : ""}`);
+  }
+  return `Renewal history: ${entries.join("; ")}`;
+}
+
+class ReportWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(private doc: PDFDocument, private fonts: Fonts) {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Starts a new page when the next block would run into the footer
+  ensureSpace(height: number): boolean {
+    if (this.y - height >= MARGIN + FOOTER_HEIGHT) return false;
+    this.addPage();
+    return true;
+  }
+
+  moveDown(height: number): void {
+    this.y -= height;
+  }
+
+  text(value: string, x: number, options: { size: number; bold?: boolean; color?: RGB; offset?: number }): void {
+    this.page.drawText(toPdfText(value), {
+      x: MARGIN + x,
+      y: this.y - (options.offset ?? 0) - options.size,
+      size: options.size,
+      font: options.bold ? this.fonts.bold : this.fonts.regular,
+      color: options.color ?? COLORS.text,
+    });
+  }
+
+  lines(values: string[], x: number, options: { size: number; bold?: boolean; color?: RGB; offset?: number }): number {
+    const lineHeight = getLineHeight(options.size);
+    values.forEach((value, index) => {
+      this.text(value, x, { ...options, offset: (options.offset ?? 0) + index * lineHeight });
+    });
+    return values.length * lineHeight;
+  }
+
+  rule(): void {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: COLORS.rule,
+    });
+  }
+
+  badge(status: DeadlineStatus, x: number, offset = 0): void {
+    const label = STATUS_LABELS[status].toUpperCase();
+    const size = 7;
+    const width = this.fonts.bold.widthOfTextAtSize(label, size) + 10;
+    this.page.drawRectangle({
+      x: MARGIN + x,
+      y: this.y - offset - 13,
+      width,
+      height: 13,
+      color: STATUS_COLORS[status],
+    });
+    this.page.drawText(label, {
+      x: MARGIN + x + 5,
+      y: this.y - offset - 9.5,
+      size,
+      font: this.fonts.bold,
+      color: COLORS.white,
+    });
+  }
+
+  header(title: string, organizationName: string, details: string[]): void {
+    const bandHeight = 72;
+    this.page.drawRectangle({
+      x: 0,
+      y: PAGE_HEIGHT - bandHeight,
+      width: PAGE_WIDTH,
+      height: bandHeight,
+      color: COLORS.brand,
+    });
+    this.y = PAGE_HEIGHT - 20;
+    this.text("DEADLINEGUARD", 0, { size: 8, bold: true, color: COLORS.white });
+    this.text(title, 0, { size: 18, bold: true, color: COLORS.white, offset: 14 });
+    const name = wrapText(organizationName, this.fonts.bold, 11, 240)[0];
+    const nameWidth = this.fonts.bold.widthOfTextAtSize(name, 11);
+    this.text(name, CONTENT_WIDTH - nameWidth, { size: 11, bold: true, color: COLORS.white, offset: 18 });
+
+    this.y = PAGE_HEIGHT - bandHeight - 18;
+    this.moveDown(this.lines(details, 0, { size: 9, color: COLORS.muted }) + 10);
+  }
+
+  summary(rows: ReportRow[]): void {
+    this.text(`${rows.length} item${rows.length !== 1 ? "s" : ""} on record`, 0, { size: 10, bold: true });
+    this.moveDown(16);
+
+    let x = 0;
+    for (const status of STATUS_PRIORITY) {
+      const count = rows.filter((row) => row.status === status).length;
+      if (count === 0) continue;
+      this.badge(status, x);
+      x += this.fonts.bold.widthOfTextAtSize(STATUS_LABELS[status].toUpperCase(), 7) + 14;
+      this.text(String(count), x, { size: 10, bold: true, offset: 1.5 });
+      x += this.fonts.bold.widthOfTextAtSize(String(count), 10) + 16;
+    }
+    this.moveDown(rows.length > 0 ? 30 : 10);
+  }
+
+  sectionHeading(label: string, count: number): void {
+    this.ensureSpace(60);
+    this.text(`${label} (${count})`, 0, { size: 12, bold: true });
+    this.moveDown(20);
+    this.tableHeader();
+  }
+
+  tableHeader(): void {
+    const options = { size: 7, bold: true, color: COLORS.muted };
+    this.text("ITEM", COLUMNS.item.x, options);
+    this.text("ISSUING AUTHORITY", COLUMNS.authority.x, options);
+    this.text("REFERENCE #", COLUMNS.reference.x, options);
+    this.text("EXPIRES", COLUMNS.expires.x, options);
+    this.text("STATUS", COLUMNS.status.x, options);
+    this.moveDown(12);
+    this.rule();
+    this.moveDown(6);
+  }
+
+  row(row: ReportRow, section: { label: string; count: number }): void {
+    const { regular, bold } = this.fonts;
+    const title = wrapText(row.deadline.title, bold, 9, COLUMNS.item.width);
+    const project = row.deadline.project ? wrapText(row.deadline.project, regular, 8, COLUMNS.item.width) : [];
+    const authority = wrapText(row.deadline.issuing_authority || "-", regular, 8.5, COLUMNS.authority.width);
+    const reference = wrapText(row.deadline.reference_number || "-", regular, 8.5, COLUMNS.reference.width);
+    const history = row.history.length > 0 || row.olderRenewals > 0
+      ? wrapText(describeHistory(row), regular, 7.5, CONTENT_WIDTH)
+      : [];
+    const stateNote = STATE_NOTES[row.deadline.state];
+
+    const cellHeight = Math.max(
+      title.length * getLineHeight(9) + project.length * getLineHeight(8),
+      authority.length * getLineHeight(8.5),
+      reference.length * getLineHeight(8.5),
+      stateNote ? 26 : 14
+    );
+    const height = cellHeight + (history.length > 0 ? history.length * getLineHeight(7.5) + 4 : 0) + 16;
+
+    // Repeat the section and column headings when a section spills onto a new page
+    if (this.ensureSpace(height)) {
+      this.text(`${section.label} (${section.count}, continued)`, 0, { size: 12, bold: true });
+      this.moveDown(20);
+      this.tableHeader();
+    }
+
+    const titleHeight = this.lines(title, COLUMNS.item.x, { size: 9, bold: true });
+    this.lines(project, COLUMNS.item.x, { size: 8, color: COLORS.muted, offset: titleHeight });
+    this.lines(authority, COLUMNS.authority.x, { size: 8.5 });
+    this.lines(reference, COLUMNS.reference.x, { size: 8.5 });
+    this.text(formatDate(row.expires), COLUMNS.expires.x, { size: 8.5 });
+    this.badge(row.status, COLUMNS.status.x);
+    if (stateNote) {
+      this.text(stateNote, COLUMNS.status.x, { size: 7, color: COLORS.muted, offset: 16 });
+    }
+    this.moveDown(cellHeight + 2);
+
+    if (history.length > 0) {
+      this.moveDown(this.lines(history, COLUMNS.item.x, { size: 7.5, color: COLORS.muted }) + 2);
+    }
+
+    this.moveDown(6);
+    this.rule();
+    this.moveDown(6);
+  }
+
+  empty(message: string): void {
+    this.text(message, 0, { size: 10, color: COLORS.muted });
+    this.moveDown(16);
+  }
+
+  // Drawn last, once the page count is known
+  footers(label: string): void {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(toPdfText(label), { x: MARGIN, y: MARGIN - 12, size: 7, font: this.fonts.regular, color: COLORS.muted });
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - this.fonts.regular.widthOfTextAtSize(pageLabel, 7),
+        y: MARGIN - 12,
+        size: 7,
+        font: this.fonts.regular,
+        color: COLORS.muted,
+      });
+    });
+  }
+}
+
+async function renderReport(options: {
+  ownerName: string;
+  preparedFor: string;
+  asOf: string;
+  project: string | null;
+  rows: ReportRow[];
+  now: Date;
+}): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Compliance Status Report - ${toPdfText(options.ownerName)}`);
+  doc.setAuthor("DeadlineGuard");
+  doc.setCreationDate(options.now);
+
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+  const writer = new ReportWriter(doc, fonts);
+
+  const details = [
+    `Compliance status as of ${formatDate(options.asOf)}`,
+    ...(options.project ? [`Entity / project: ${options.project}`] : []),
+    `Generated ${options.now.toISOString().slice(0, 16).replace("T", " ")} UTC by ${options.preparedFor}`,
+  ];
+  writer.header("Compliance Status Report", options.ownerName, details);
+  writer.summary(options.rows);
+
+  if (options.rows.length === 0) {
+    writer.empty("No licenses, policies or other deadlines were on record for this date.");
+  }
+
+  const groups = groupDeadlinesByCategory(options.rows);
+  for (const category of DEADLINE_CATEGORIES) {
+    const rows = groups[category];
+    if (rows.length === 0) continue;
+    const section = { label: getCategoryLabel(category), count: rows.length };
+    writer.sectionHeading(section.label, section.count);
+    for (const row of rows) writer.row(row, section);
+    writer.moveDown(10);
+  }
+
+  writer.footers(`${options.ownerName} - compliance status as of ${formatDate(options.asOf)}`);
+  return doc.save();
+}
+
+function jsonError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonError("No authorization header", 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonError("Unauthorized", 401);
+    }
+
+    const { asOf: requestedAsOf, project: requestedProject }: ReportRequest = await req.json().catch(() => ({}));
+    if (requestedAsOf && !isISODate(requestedAsOf)) {
+      return jsonError("asOf must be a date in YYYY-MM-DD format", 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: profileRow, error: profileError } = await supabase
+      .from("profiles")
+      .select("name, timezone, organization_id, organization:organizations(name, timezone)")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profileRow) {
+      return jsonError("Profile not found", 404);
+    }
+
+    const profile = profileRow as Profile;
+
+    // Organization members report on the whole organization, like the deadlines list
+    let query = supabase
+      .from("deadlines")
+      .select("id, title, category, due_date, state, completed_at, created_at, parent_deadline_id, reference_number, issuing_authority, project, business_day_roll, holiday_calendar");
+
+    query = profile.organization_id
+      ? query.eq("organization_id", profile.organization_id)
+      : query.eq("user_id", user.id);
+
+    const { data: deadlines, error: deadlinesError } = await query;
+
+    if (deadlinesError) throw deadlinesError;
+
+    const now = new Date();
+    const timeZone = resolveTimeZone(profile.timezone, profile.organization?.timezone);
+    const asOf = requestedAsOf || getTodayInTimeZone(timeZone, now);
+    const project = requestedProject?.trim() || null;
+
+    const pdf = await renderReport({
+      ownerName: profile.organization?.name ?? profile.name,
+      preparedFor: profile.name,
+      asOf,
+      project,
+      rows: buildRows((deadlines || []) as Deadline[], asOf, project),
+      now,
+    });
+
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="compliance-report-${asOf}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error in compliance-report function:", message);
+    return jsonError(message, 500);
+  }
+});
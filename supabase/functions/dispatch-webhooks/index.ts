@@ -0,0 +1,306 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { adjustToBusinessDay } from "../_shared/business-days.ts";
+import { getStatusForDaysUntilDue } from "../_shared/deadline-status.ts";
+import { getDaysUntilDate, resolveTimeZone } from "../_shared/timezone.ts";
+import {
+  WEBHOOK_ENTERED_STATUSES,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  getRetryDelaySeconds,
+  isPrivateAddress,
+  isPublicWebhookUrl,
+  signWebhookPayload,
+} from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Deliveries sent per run, and how long a claimed delivery is hidden from other runs
+const BATCH_SIZE = 100;
+const LEASE_SECONDS = 5 * 60;
+
+// Deadlines checked for status changes per query
+const STATUS_PAGE_SIZE = 500;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Response bodies kept in the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface Deadline {
+  id: string;
+  organization_id: string;
+  due_date: string;
+  business_day_roll: string;
+  holiday_calendar: string;
+  [column: string]: unknown;
+}
+
+// Row of get_status_webhook_deadlines
+interface StatusCandidate {
+  deadline: Deadline;
+  timezone: string | null;
+  has_mark: boolean;
+  // NULL for a new deadline whose first status should fire
+  last_status: string | null;
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+interface WebhookEndpoint {
+  id: string;
+  organization_id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+// Queue deadline.entered_status for organization deadlines whose urgency status changed since the last run
+async function queueStatusTransitions(supabase: SupabaseClient, now: Date): Promise<number> {
+  let queued = 0;
+
+  for (let from = 0; ; from += STATUS_PAGE_SIZE) {
+    const { data: rows, error: rowsError } = await supabase
+      .rpc("get_status_webhook_deadlines")
+      .range(from, from + STATUS_PAGE_SIZE - 1);
+
+    if (rowsError) throw rowsError;
+
+    for (const { deadline, timezone, has_mark: hasMark, last_status: previousStatus } of (rows || []) as StatusCandidate[]) {
+      const timeZone = resolveTimeZone(timezone);
+      const dueDate = adjustToBusinessDay(deadline.due_date, deadline.business_day_roll, deadline.holiday_calendar);
+      const daysUntil = getDaysUntilDate(dueDate, timeZone, now);
+      const status = getStatusForDaysUntilDue(daysUntil);
+
+      // Deadlines that existed before webhooks were set up start from their current status silently
+      if (hasMark && previousStatus === status) continue;
+
+      const { error: markError } = await supabase
+        .from("webhook_status_marks")
+        .upsert({ deadline_id: deadline.id, status, updated_at: now.toISOString() });
+
+      if (markError) {
+        console.error(`Error recording status for deadline ${deadline.id}:`, markError);
+        continue;
+      }
+
+      if (!hasMark || !WEBHOOK_ENTERED_STATUSES.includes(status)) continue;
+
+      const { error: enqueueError } = await supabase.rpc("enqueue_webhook_event", {
+        _organization_id: deadline.organization_id,
+        _event_type: "deadline.entered_status",
+        _data: {
+          deadline,
+          status,
+          previous_status: previousStatus,
+          days_until_due: daysUntil,
+        },
+      });
+
+      if (enqueueError) {
+        console.error(`Error queueing status event for deadline ${deadline.id}:`, enqueueError);
+        continue;
+      }
+      queued++;
+    }
+
+    if (!rows || rows.length < STATUS_PAGE_SIZE) break;
+  }
+
+  return queued;
+}
+
+// Endpoints may only reach the public internet. The hostname is resolved here,
+// so a public name pointing at a private address is caught too.
+async function getBlockedReason(url: string): Promise<string | null> {
+  if (!isPublicWebhookUrl(url)) return "Endpoint URL must be a public HTTPS address";
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (isIPAddress(hostname)) return null;
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, "A"), Deno.resolveDns(hostname, "AAAA")]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+
+  if (addresses.length === 0) return `Could not resolve ${hostname}`;
+  if (addresses.some(isPrivateAddress)) return `${hostname} resolves to a private address`;
+  return null;
+}
+
+function isIPAddress(hostname: string): boolean {
+  return hostname.includes(":") || /^\d+\.\d+\.\d+\.\d+$/.test(hostname);
+}
+
+async function deliver(
+  endpoint: WebhookEndpoint,
+  delivery: WebhookDelivery
+): Promise<{ responseStatus: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "DeadlineGuard-Webhooks/1.0",
+        [WEBHOOK_ID_HEADER]: delivery.id,
+        [WEBHOOK_EVENT_HEADER]: delivery.event_type,
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      // A redirect could point anywhere, including our own network
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      return {
+        responseStatus: response.status,
+        error: `Endpoint returned ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ""}`,
+      };
+    }
+    return { responseStatus: response.status, error: null };
+  } catch (err) {
+    return { responseStatus: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduled job may dispatch
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    const statusEventsQueued = await queueStatusTransitions(supabase, now);
+
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_webhook_deliveries", {
+      _limit: BATCH_SIZE,
+      _lease_seconds: LEASE_SECONDS,
+    });
+
+    if (claimError) throw claimError;
+
+    const deliveries = (claimed || []) as WebhookDelivery[];
+    let delivered = 0;
+    let retrying = 0;
+    let failed = 0;
+
+    const { data: endpointRows, error: endpointsError } = await supabase
+      .from("webhook_endpoints")
+      .select("id, organization_id, url, secret, is_active")
+      .in("id", [...new Set(deliveries.map((delivery) => delivery.endpoint_id))]);
+
+    if (endpointsError) throw endpointsError;
+
+    const endpoints = new Map<string, WebhookEndpoint>(
+      ((endpointRows || []) as WebhookEndpoint[]).map((endpoint) => [endpoint.id, endpoint])
+    );
+
+    // Deliveries queued before an organization's plan lapsed are not sent
+    const entitled = new Map<string, boolean>();
+    for (const organizationId of new Set([...endpoints.values()].map((endpoint) => endpoint.organization_id))) {
+      const { data, error } = await supabase.rpc("org_has_integrations", { _org_id: organizationId });
+      if (error) throw error;
+      entitled.set(organizationId, !!data);
+    }
+
+    for (const delivery of deliveries) {
+      const endpoint = endpoints.get(delivery.endpoint_id);
+      const attempt = delivery.attempts + 1;
+
+      const blockedReason = !endpoint?.is_active
+        ? "Endpoint is disabled"
+        : !entitled.get(endpoint.organization_id)
+          ? "Your plan no longer includes integrations"
+          : await getBlockedReason(endpoint.url);
+
+      if (!endpoint || blockedReason) {
+        await supabase
+          .from("webhook_deliveries")
+          .update({ status: "failed", last_error: blockedReason })
+          .eq("id", delivery.id);
+        failed++;
+        continue;
+      }
+
+      const { responseStatus, error } = await deliver(endpoint, delivery);
+
+      let update: Record<string, unknown>;
+      if (!error) {
+        update = { status: "succeeded", delivered_at: new Date().toISOString() };
+        delivered++;
+      } else {
+        const retryDelay = getRetryDelaySeconds(attempt);
+        if (retryDelay === null) {
+          update = { status: "failed" };
+          failed++;
+        } else {
+          update = { next_attempt_at: new Date(Date.now() + retryDelay * 1000).toISOString() };
+          retrying++;
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from("webhook_deliveries")
+        .update({ ...update, attempts: attempt, last_response_status: responseStatus, last_error: error })
+        .eq("id", delivery.id);
+
+      if (updateError) {
+        console.error(`Error updating webhook delivery ${delivery.id}:`, updateError);
+      }
+    }
+
+    const result = {
+      success: true,
+      message: `Queued ${statusEventsQueued} status events. Delivered ${delivered} webhooks, ${retrying} will retry, ${failed} failed.`,
+      statusEventsQueued,
+      delivered,
+      retrying,
+      failed,
+    };
+
+    console.log("Webhook dispatch complete:", result);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error in dispatch-webhooks function:", message);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
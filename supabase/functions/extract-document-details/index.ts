@@ -0,0 +1,158 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { extractCertificateDetails } from "../_shared/certificate-extraction.ts";
+
+// Reads the text layer of an uploaded certificate of insurance or license card and
+// proposes deadline updates from it:
+//   POST /extract-document-details { versionId: string }
+// The PDF is parsed here; nothing is sent to an outside service. Scanned PDFs
+// without a text layer come back with hasText: false.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DOCUMENTS_BUCKET = "deadline-documents";
+
+// Certificates and license cards are one or two pages; skip the rest of long files
+const MAX_PAGES = 5;
+
+// Less text than this means the PDF is a scan
+const MIN_TEXT_LENGTH = 20;
+
+// Items more than this far apart vertically (in points) start a new line
+const LINE_TOLERANCE = 2;
+
+interface ExtractRequest {
+  versionId?: string;
+}
+
+interface VersionRow {
+  storage_path: string;
+  mime_type: string | null;
+  document: {
+    deadline: { reference_number: string | null } | null;
+  } | null;
+}
+
+function jsonError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Rebuilds the page text line by line, so the pattern rules can work on labelled lines
+async function extractPdfText(data: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(data);
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PAGES); pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    let text = "";
+    let lastY: number | null = null;
+
+    for (const item of content.items) {
+      if (!("str" in item)) continue;
+
+      const y = item.transform[5];
+      if (lastY !== null && Math.abs(y - lastY) > LINE_TOLERANCE) {
+        text += "\n";
+      } else if (text && !/\s$/.test(text) && item.str) {
+        text += " ";
+      }
+
+      text += item.str;
+      if (item.hasEOL) {
+        text += "\n";
+        lastY = null;
+      } else {
+        lastY = y;
+      }
+    }
+
+    pages.push(text);
+  }
+
+  return pages.join("\n");
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonError("No authorization header", 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    // Everything below runs as the caller, so the document and deadline policies apply
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonError("Unauthorized", 401);
+    }
+
+    const { versionId }: ExtractRequest = await req.json().catch(() => ({}));
+    if (!versionId) {
+      return jsonError("versionId is required", 400);
+    }
+
+    const { data: versionRow, error: versionError } = await userClient
+      .from("deadline_document_versions")
+      .select("storage_path, mime_type, document:deadline_documents(deadline:deadlines(reference_number))")
+      .eq("id", versionId)
+      .maybeSingle();
+
+    if (versionError) throw versionError;
+    if (!versionRow) {
+      return jsonError("Document not found", 404);
+    }
+
+    const version = versionRow as unknown as VersionRow;
+    if (version.mime_type !== "application/pdf") {
+      return jsonError("Only PDF documents can be read", 400);
+    }
+
+    const { data: file, error: downloadError } = await userClient.storage
+      .from(DOCUMENTS_BUCKET)
+      .download(version.storage_path);
+
+    if (downloadError) throw downloadError;
+
+    let text = "";
+    try {
+      text = await extractPdfText(new Uint8Array(await file.arrayBuffer()));
+    } catch (error: unknown) {
+      // Encrypted or malformed PDFs are treated like scans
+      console.warn("Could not read PDF text:", error instanceof Error ? error.message : String(error));
+    }
+
+    const hasText = text.replace(/\s+/g, "").length >= MIN_TEXT_LENGTH;
+    const extraction = extractCertificateDetails(hasText ? text : "", {
+      currentReference: version.document?.deadline?.reference_number,
+    });
+
+    return new Response(JSON.stringify({ ...extraction, hasText }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error in extract-document-details function:", message);
+    return jsonError(message, 500);
+  }
+});
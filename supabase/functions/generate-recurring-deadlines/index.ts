@@ -0,0 +1,206 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { addDaysToISODate, getNextOccurrence } from "../_shared/recurrence.ts";
+import { getNextSeriesRule } from "../_shared/rrule.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// How far back the scheduled sweep looks for completed occurrences
+const SWEEP_LOOKBACK_DAYS = 30;
+
+interface GenerateRequest {
+  deadlineId?: string;
+}
+
+interface Deadline {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string;
+  subcategory: string | null;
+  due_date: string;
+  consequence_level: string;
+  user_id: string;
+  organization_id: string | null;
+  assignee_id: string | null;
+  backup_assignee_ids: string[];
+  reminder_offsets: number[] | null;
+  business_day_roll: string;
+  holiday_calendar: string;
+  recurrence: string;
+  recurrence_interval_days: number | null;
+  recurrence_rule: string | null;
+  auto_renew: boolean;
+  renewal_instructions: string | null;
+  estimated_cost: number | null;
+  reference_number: string | null;
+  project: string | null;
+  issuing_authority: string | null;
+}
+
+function buildNextOccurrence(deadline: Deadline, nextDueDate: string) {
+  return {
+    title: deadline.title,
+    description: deadline.description,
+    category: deadline.category,
+    subcategory: deadline.subcategory,
+    due_date: nextDueDate,
+    consequence_level: deadline.consequence_level,
+    user_id: deadline.user_id,
+    organization_id: deadline.organization_id,
+    assignee_id: deadline.assignee_id,
+    backup_assignee_ids: deadline.backup_assignee_ids,
+    reminder_offsets: deadline.reminder_offsets,
+    business_day_roll: deadline.business_day_roll,
+    holiday_calendar: deadline.holiday_calendar,
+    recurrence: deadline.recurrence,
+    recurrence_interval_days: deadline.recurrence_interval_days,
+    // The next occurrence carries the rule forward with one fewer remaining COUNT
+    recurrence_rule: deadline.recurrence_rule ? getNextSeriesRule(deadline.recurrence_rule) : null,
+    auto_renew: deadline.auto_renew,
+    parent_deadline_id: deadline.id,
+    renewal_instructions: deadline.renewal_instructions,
+    estimated_cost: deadline.estimated_cost,
+    reference_number: deadline.reference_number,
+    issuing_authority: deadline.issuing_authority,
+    project: deadline.project,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { deadlineId }: GenerateRequest = await req.json().catch(() => ({}));
+
+    let query = supabase
+      .from("deadlines")
+      .select("*")
+      .eq("state", "completed")
+      .eq("auto_renew", true)
+      .neq("recurrence", "none");
+
+    if (deadlineId) {
+      // Users may only generate from deadlines they can see
+      const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      });
+
+      const { data: visible } = await userClient
+        .from("deadlines")
+        .select("id")
+        .eq("id", deadlineId)
+        .maybeSingle();
+
+      if (!visible) {
+        throw new Error("Deadline not found");
+      }
+
+      query = query.eq("id", deadlineId);
+    } else {
+      // Sweeping every account is reserved for the scheduled job
+      if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+        throw new Error("Unauthorized");
+      }
+
+      const today = new Date().toISOString().split("T")[0];
+      query = query.gte("completed_at", addDaysToISODate(today, -SWEEP_LOOKBACK_DAYS));
+    }
+
+    const { data: deadlines, error: deadlinesError } = await query;
+
+    if (deadlinesError) {
+      console.error("Error fetching completed recurring deadlines:", deadlinesError);
+      throw deadlinesError;
+    }
+
+    let created = 0;
+    let skipped = 0;
+    const createdIds: string[] = [];
+
+    for (const deadline of (deadlines || []) as Deadline[]) {
+      let nextDueDate: string | null;
+      try {
+        nextDueDate = getNextOccurrence(
+          deadline.due_date,
+          deadline.recurrence,
+          deadline.recurrence_interval_days,
+          deadline.recurrence_rule
+        );
+      } catch (ruleError) {
+        console.error(`Invalid recurrence rule on ${deadline.id}:`, ruleError);
+        nextDueDate = null;
+      }
+
+      if (!nextDueDate) {
+        skipped++;
+        continue;
+      }
+
+      // unique_next_occurrence makes this a no-op if the next occurrence already exists
+      const { data: inserted, error: insertError } = await supabase
+        .from("deadlines")
+        .upsert(buildNextOccurrence(deadline, nextDueDate), {
+          onConflict: "parent_deadline_id",
+          ignoreDuplicates: true,
+        })
+        .select("id");
+
+      if (insertError) {
+        console.error(`Failed to create next occurrence of ${deadline.id}:`, insertError);
+        skipped++;
+        continue;
+      }
+
+      if (inserted && inserted.length > 0) {
+        console.log(`Created next occurrence of "${deadline.title}" due ${nextDueDate}`);
+        createdIds.push(inserted[0].id);
+        created++;
+      } else {
+        skipped++;
+      }
+    }
+
+    const result = {
+      success: true,
+      message: `Processed ${deadlines?.length || 0} completed deadlines. Created ${created} occurrences, skipped ${skipped}.`,
+      created,
+      skipped,
+      createdIds,
+    };
+
+    console.log("Recurring generation complete:", result);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in generate-recurring-deadlines function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -1,14 +1,65 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { getReminderSchedule } from "../_shared/reminder-schedule.ts";
+import { addDaysToISODate } from "../_shared/recurrence.ts";
+import { adjustToBusinessDay } from "../_shared/business-days.ts";
+import { getAssigneeId, isAssignedTo } from "../_shared/assignment.ts";
+import {
+  DeadlineStatus,
+  STATUS_PRIORITY,
+  URGENCY_THRESHOLDS,
+  formatDaysUntil,
+  getStatusForDaysUntilDue,
+  getUrgencyMessage,
+  groupDeadlinesByStatus,
+} from "../_shared/deadline-status.ts";
+import {
+  EscalationStep,
+  MIN_ESCALATION_DAYS,
+  formatEscalationTiming,
+  getTriggeredEscalationSteps,
+  isEscalationAcknowledged,
+} from "../_shared/escalation.ts";
+import {
+  ChatProvider,
+  ChatWebhookRoute,
+  matchesWebhookRoute,
+  postChatMessage,
+} from "../_shared/chat.ts";
+import {
+  SMS_CONSEQUENCE_LEVELS,
+  SmsProvider,
+  createSmsProvider,
+  isValidPhoneNumber,
+  maskPhoneNumber,
+  truncateSms,
+} from "../_shared/sms.ts";
+import {
+  DEFAULT_REMINDER_HOUR,
+  getCalendarDaysBetween,
+  getZonedDateParts,
+  resolveTimeZone,
+} from "../_shared/timezone.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
+const APP_URL = Deno.env.get("APP_URL") || "https://app.deadlineguard.com";
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Deadlines due up to this many days ago may still roll forward to a business day
+const BUSINESS_DAY_ROLL_LOOKBACK_DAYS = 7;
+
+// Overdue deadlines stay in scope long enough for the latest escalation step
+const LOOKBACK_DAYS = Math.max(BUSINESS_DAY_ROLL_LOOKBACK_DAYS, -MIN_ESCALATION_DAYS);
+
+// A window fires at most once per recipient and channel, separately for escalations
+const REMINDER_DELIVERY_KEY = "deadline_id,due_date,offset_days,channel,recipient,escalated";
+
 interface Deadline {
   id: string;
   title: string;
@@ -17,40 +68,278 @@ interface Deadline {
   category: string;
   consequence_level: string;
   user_id: string;
+  organization_id: string | null;
+  assignee_id: string | null;
+  backup_assignee_ids: string[];
   last_reminder_sent: string | null;
+  reminder_offsets: number[] | null;
+  state: string;
+  business_day_roll: string;
+  holiday_calendar: string;
 }
 
+type DeliveryMode = "immediate" | "daily" | "weekly" | "hybrid";
+
 interface Profile {
   id: string;
   email: string;
   name: string;
+  timezone: string | null;
+  reminder_hour: number | null;
+  reminder_delivery_mode: DeliveryMode;
+  phone: { phone_number: string | null; phone_verified_at: string | null; sms_enabled: boolean } | null;
+  organization: { timezone: string | null } | null;
 }
 
-// Reminder windows in days
-const REMINDER_WINDOWS = [30, 14, 7, 3, 1];
+const PROFILE_COLUMNS =
+  "id, email, name, timezone, reminder_hour, reminder_delivery_mode, phone:phone_settings(phone_number, phone_verified_at, sms_enabled), organization:organizations(timezone)";
 
-function getDaysUntilDeadline(dueDate: string): number {
-  const due = new Date(dueDate);
-  const now = new Date();
-  const diffTime = due.getTime() - now.getTime();
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+// Digest sections; "upcoming" also collects deadlines in the warning band
+const DIGEST_SECTIONS: { status: DeadlineStatus; title: string; color: string }[] = [
+  { status: "overdue", title: "Overdue", color: "#dc2626" },
+  { status: "critical", title: "Critical", color: "#ea580c" },
+  { status: "urgent", title: "Urgent", color: "#d97706" },
+  { status: "upcoming", title: "Upcoming", color: "#2563eb" },
+];
+
+interface DigestItem {
+  deadline: Deadline;
+  dueDate: string;
+  daysUntil: number;
 }
 
-function shouldSendReminder(daysUntil: number, lastReminderSent: string | null): boolean {
-  // Check if we're at a reminder window
-  const isAtWindow = REMINDER_WINDOWS.some(window => daysUntil <= window && daysUntil > window - 1);
-  
-  if (!isAtWindow) return false;
-  
-  // If no reminder sent yet, send one
-  if (!lastReminderSent) return true;
-  
-  // Don't send more than one reminder per day
-  const lastSent = new Date(lastReminderSent);
-  const now = new Date();
-  const hoursSinceLastReminder = (now.getTime() - lastSent.getTime()) / (1000 * 60 * 60);
-  
-  return hoursSinceLastReminder >= 24;
+interface ChatWebhook extends ChatWebhookRoute {
+  id: string;
+  organization_id: string;
+  provider: ChatProvider;
+  name: string;
+  webhook_url: string;
+}
+
+interface RosterMember {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+interface DeliveryClaim {
+  deadline_id: string;
+  recipient_id: string | null;
+  recipient: string;
+  channel: "email" | "sms" | ChatProvider;
+  offset_days: number;
+  due_date: string;
+  escalated: boolean;
+}
+
+interface DigestClaim {
+  user_id: string;
+  recipient: string;
+  frequency: "daily" | "weekly";
+  period_start: string;
+  deadline_count: number;
+}
+
+interface SendResult {
+  messageId: string | null;
+  error: string | null;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Returns the reminder window (days before due) we're currently in, if any
+function getReminderWindow(daysUntil: number, reminderWindows: number[]): number | null {
+  const window = reminderWindows.find(window => daysUntil <= window && daysUntil > window - 1);
+  return window ?? null;
+}
+
+// Whether a deadline gets its own email, or waits for the user's digest
+function sendsImmediately(mode: DeliveryMode | null, consequenceLevel: string): boolean {
+  switch (mode) {
+    case "daily":
+    case "weekly":
+      return false;
+    case "hybrid":
+      return consequenceLevel === "critical";
+    default:
+      return true;
+  }
+}
+
+function isMonday(date: string): boolean {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() === 1;
+}
+
+// A claim still pending after this long belongs to a run that died before it finished sending
+const DELIVERY_LEASE_MINUTES = 15;
+
+// Claim a slot in a delivery log (reminder_deliveries or digest_deliveries) before sending.
+// Returns null when another run already sent it or is sending it right now.
+async function claimDelivery(
+  supabase: SupabaseClient,
+  table: "reminder_deliveries" | "digest_deliveries",
+  onConflict: string,
+  claim: DeliveryClaim | DigestClaim
+): Promise<{ id: string } | null> {
+  const { data: inserted, error: insertError } = await supabase
+    .from(table)
+    .upsert(claim, {
+      onConflict,
+      ignoreDuplicates: true,
+    })
+    .select("id");
+
+  if (insertError) throw insertError;
+  if (inserted && inserted.length > 0) return inserted[0];
+
+  // Slot already exists: only a failed attempt, or one whose lease ran out, may be retried
+  const key = Object.fromEntries(onConflict.split(",").map((column) => [column, claim[column as keyof typeof claim]]));
+  const leaseExpiry = new Date(Date.now() - DELIVERY_LEASE_MINUTES * 60 * 1000).toISOString();
+  const { data: retryable } = await supabase
+    .from(table)
+    .select("id, status, attempts, updated_at")
+    .match(key)
+    .or(`status.eq.failed,and(status.eq.pending,updated_at.lt."${leaseExpiry}")`)
+    .maybeSingle();
+
+  if (!retryable) return null;
+
+  // Claiming bumps updated_at, so only one run can take over the slot
+  const { data: reclaimed, error: reclaimError } = await supabase
+    .from(table)
+    .update({ status: "pending", error: null, attempts: retryable.attempts + 1 })
+    .eq("id", retryable.id)
+    .eq("status", retryable.status)
+    .eq("updated_at", retryable.updated_at)
+    .select("id");
+
+  if (reclaimError) throw reclaimError;
+  return reclaimed && reclaimed.length > 0 ? reclaimed[0] : null;
+}
+
+// Text the assignee of a critical or high deadline in a reminder window, within their monthly allowance
+async function sendSmsReminder(
+  supabase: SupabaseClient,
+  provider: SmsProvider | null,
+  profile: Profile,
+  deadline: Deadline,
+  dueDate: string,
+  daysUntil: number,
+  reminderWindow: number
+): Promise<"sent" | "failed" | "skipped"> {
+  if (!SMS_CONSEQUENCE_LEVELS.includes(deadline.consequence_level)) return "skipped";
+  const phoneNumber = profile.phone?.phone_number;
+  if (!provider || !profile.phone?.sms_enabled || !profile.phone.phone_verified_at || !isValidPhoneNumber(phoneNumber)) {
+    return "skipped";
+  }
+
+  // The delivery log is visible to everyone who can see the deadline
+  const delivery = await claimDelivery(supabase, "reminder_deliveries", REMINDER_DELIVERY_KEY, {
+    deadline_id: deadline.id,
+    recipient_id: profile.id,
+    recipient: maskPhoneNumber(phoneNumber),
+    channel: "sms",
+    offset_days: reminderWindow,
+    due_date: dueDate,
+    escalated: false,
+  });
+
+  if (!delivery) return "skipped";
+
+  let sendResult: SendResult;
+  const { data: hasQuota, error: quotaError } = await supabase.rpc("claim_sms_quota", { _user_id: profile.id });
+
+  if (quotaError || !hasQuota) {
+    sendResult = { messageId: null, error: quotaError ? quotaError.message : "Monthly SMS limit reached" };
+  } else {
+    const when = daysUntil === 0 ? "today" : `in ${daysUntil} day${daysUntil === 1 ? "" : "s"}`;
+    sendResult = await provider.send(
+      phoneNumber,
+      truncateSms(`${getConsequenceLevelEmoji(deadline.consequence_level)} Deadline reminder: "${deadline.title}" is due ${when} (${dueDate}).`)
+    );
+
+    if (sendResult.error) {
+      await supabase.rpc("release_sms_quota", { _user_id: profile.id });
+    }
+  }
+
+  const { error: deliveryError } = await supabase
+    .from("reminder_deliveries")
+    .update({
+      status: sendResult.error ? "failed" : "sent",
+      provider_message_id: sendResult.messageId,
+      error: sendResult.error,
+    })
+    .eq("id", delivery.id);
+
+  if (deliveryError) {
+    console.error(`Failed to record SMS delivery ${delivery.id}:`, deliveryError);
+  }
+
+  if (sendResult.error) {
+    console.error(`SMS reminder for "${deadline.title}" not sent:`, sendResult.error);
+    return "failed";
+  }
+
+  console.log(`Successfully sent SMS reminder to ${maskPhoneNumber(phoneNumber)} for deadline: ${deadline.title}`);
+  return "sent";
+}
+
+// Post a reminder to each of the organization's Slack/Teams channels routed to this deadline
+async function sendChatReminders(
+  supabase: SupabaseClient,
+  webhooks: ChatWebhook[],
+  deadline: Deadline,
+  dueDate: string,
+  daysUntil: number,
+  reminderWindow: number
+): Promise<{ sent: number; failed: number }> {
+  const counts = { sent: 0, failed: 0 };
+
+  for (const webhook of webhooks.filter((hook) => matchesWebhookRoute(hook, deadline))) {
+    const delivery = await claimDelivery(supabase, "reminder_deliveries", REMINDER_DELIVERY_KEY, {
+      deadline_id: deadline.id,
+      recipient_id: null,
+      recipient: webhook.name,
+      channel: webhook.provider,
+      offset_days: reminderWindow,
+      due_date: dueDate,
+      escalated: false,
+    });
+
+    if (!delivery) continue;
+
+    const { error } = await postChatMessage(webhook.provider, webhook.webhook_url, {
+      title: deadline.title,
+      description: deadline.description,
+      dueDate,
+      daysText: formatDaysUntil(daysUntil),
+      categoryLabel: getCategoryLabel(deadline.category),
+      consequenceLevel: deadline.consequence_level,
+      url: `${APP_URL}/deadlines`,
+    });
+
+    const { error: deliveryError } = await supabase
+      .from("reminder_deliveries")
+      .update({ status: error ? "failed" : "sent", error })
+      .eq("id", delivery.id);
+
+    if (deliveryError) {
+      console.error(`Failed to record ${webhook.provider} delivery ${delivery.id}:`, deliveryError);
+    }
+
+    if (error) {
+      console.error(`Failed to post "${deadline.title}" to ${webhook.name}:`, error);
+      counts.failed++;
+    } else {
+      console.log(`Posted reminder for "${deadline.title}" to ${webhook.name}`);
+      counts.sent++;
+    }
+  }
+
+  return counts;
 }
 
 function getConsequenceLevelEmoji(level: string): string {
@@ -78,13 +367,14 @@ async function sendReminderEmail(
   userEmail: string,
   userName: string,
   deadline: Deadline,
+  dueDate: string,
   daysUntil: number
-): Promise<boolean> {
+): Promise<SendResult> {
   const emoji = getConsequenceLevelEmoji(deadline.consequence_level);
   const urgencyText = daysUntil <= 1 ? 'TODAY' : daysUntil <= 3 ? 'URGENT' : 'Upcoming';
   
   try {
-    const { error } = await resend.emails.send({
+    const { data, error } = await resend.emails.send({
       from: "Deadline Reminders <onboarding@resend.dev>",
       to: [userEmail],
       subject: `${emoji} ${urgencyText}: ${deadline.title} due in ${daysUntil} day${daysUntil === 1 ? '' : 's'}`,
@@ -128,7 +418,7 @@ async function sendReminderEmail(
                 ${deadline.description ? `<p style="color: #6b7280; margin: 0 0 15px 0;">${deadline.description}</p>` : ''}
                 
                 <div style="display: flex; gap: 20px; color: #6b7280; font-size: 14px;">
-                  <div>📅 <strong>Due:</strong> ${new Date(deadline.due_date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</div>
+                  <div>📅 <strong>Due:</strong> ${new Date(dueDate).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })}</div>
                   <div>📁 <strong>Category:</strong> ${getCategoryLabel(deadline.category)}</div>
                 </div>
               </div>
@@ -145,14 +435,189 @@ async function sendReminderEmail(
 
     if (error) {
       console.error(`Failed to send email to ${userEmail}:`, error);
-      return false;
+      return { messageId: null, error: error.message };
     }
     
     console.log(`Successfully sent reminder to ${userEmail} for deadline: ${deadline.title}`);
-    return true;
+    return { messageId: data?.id ?? null, error: null };
   } catch (err) {
     console.error(`Error sending email to ${userEmail}:`, err);
-    return false;
+    return { messageId: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// Recipients an escalation step adds, checked against the current roster
+async function getEscalationRecipients(
+  supabase: SupabaseClient,
+  step: EscalationStep,
+  deadline: Deadline,
+  roster: RosterMember[]
+): Promise<RosterMember[]> {
+  switch (step.target) {
+    case "owner":
+      // The assignee and their backups
+      return roster.filter((member) => isAssignedTo(deadline, member.id));
+    case "all_admins":
+      return roster.filter((member) => member.role === "org_admin");
+    case "org_admin": {
+      // The chosen admin may have been demoted or removed since the policy was saved
+      const { data: isAdmin } = await supabase.rpc("is_org_admin", {
+        _user_id: step.admin_id,
+        _org_id: deadline.organization_id,
+      });
+      return isAdmin ? roster.filter((member) => member.id === step.admin_id) : [];
+    }
+  }
+}
+
+async function sendEscalationEmail(
+  recipient: RosterMember,
+  owner: RosterMember | undefined,
+  deadline: Deadline,
+  dueDate: string,
+  daysUntil: number
+): Promise<SendResult> {
+  const timing = daysUntil < 0
+    ? `${Math.abs(daysUntil)} day${daysUntil === -1 ? '' : 's'} overdue`
+    : `due in ${daysUntil} day${daysUntil === 1 ? '' : 's'}`;
+  const ownerText = recipient.id === getAssigneeId(deadline) ? 'you' : owner?.name ?? 'its assignee';
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: "Deadline Reminders <onboarding@resend.dev>",
+      to: [recipient.email],
+      subject: `🚨 Escalation: ${deadline.title} is ${timing} and not yet acknowledged`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #dc2626 0%, #9a3412 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .deadline-card { background: white; border-radius: 8px; padding: 20px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+            .footer { text-align: center; margin-top: 20px; color: #6b7280; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="margin: 0;">🚨 Deadline Escalation</h1>
+              <p style="margin: 10px 0 0 0; opacity: 0.9;">Hi ${recipient.name}, a ${deadline.consequence_level} deadline assigned to ${ownerText} hasn't been acknowledged.</p>
+            </div>
+            <div class="content">
+              <div class="deadline-card">
+                <h2 style="margin: 0 0 10px 0; color: #1f2937;">${deadline.title}</h2>
+                ${deadline.description ? `<p style="color: #6b7280; margin: 0 0 15px 0;">${deadline.description}</p>` : ''}
+                <div style="color: #6b7280; font-size: 14px;">
+                  📅 <strong>Due:</strong> ${new Date(dueDate).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })} (${timing})
+                </div>
+              </div>
+
+              <p>Mark the deadline in progress, submitted or complete to stop further escalation.</p>
+
+              <div class="footer">
+                <p>You're receiving this because of your organization's escalation policy.</p>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      console.error(`Failed to send escalation to ${recipient.email}:`, error);
+      return { messageId: null, error: error.message };
+    }
+
+    console.log(`Successfully sent escalation to ${recipient.email} for deadline: ${deadline.title}`);
+    return { messageId: data?.id ?? null, error: null };
+  } catch (err) {
+    console.error(`Error sending escalation to ${recipient.email}:`, err);
+    return { messageId: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function sendDigestEmail(
+  userEmail: string,
+  userName: string,
+  frequency: "daily" | "weekly",
+  headline: string,
+  groups: Record<DeadlineStatus, DigestItem[]>
+): Promise<SendResult> {
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+  const sections = DIGEST_SECTIONS
+    .filter((section) => groups[section.status].length > 0)
+    .map((section) => `
+              <h3 style="margin: 25px 0 10px 0; color: ${section.color};">${section.title} (${groups[section.status].length})</h3>
+              ${groups[section.status].map(({ deadline, dueDate, daysUntil }) => `
+              <div class="deadline-card">
+                <div style="display: flex; justify-content: space-between; align-items: start;">
+                  <strong style="color: #1f2937;">${getConsequenceLevelEmoji(deadline.consequence_level)} ${deadline.title}</strong>
+                  <span class="badge badge-${deadline.consequence_level}">${deadline.consequence_level.toUpperCase()}</span>
+                </div>
+                <div style="color: #6b7280; font-size: 14px; margin-top: 8px;">
+                  📅 ${formatDate(dueDate)} · ${daysUntil < 0 ? `${Math.abs(daysUntil)} day${daysUntil === -1 ? '' : 's'} overdue` : `${daysUntil} day${daysUntil === 1 ? '' : 's'} left`} · 📁 ${getCategoryLabel(deadline.category)}
+                </div>
+              </div>`).join('')}`)
+    .join('');
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: "Deadline Reminders <onboarding@resend.dev>",
+      to: [userEmail],
+      subject: `${frequency === 'weekly' ? 'Weekly' : 'Daily'} deadline digest: ${headline}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .deadline-card { background: white; border-radius: 8px; padding: 15px 20px; margin: 10px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+            .badge { display: inline-block; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: 600; }
+            .badge-critical { background: #fee2e2; color: #dc2626; }
+            .badge-high { background: #fef3c7; color: #d97706; }
+            .badge-medium { background: #dbeafe; color: #2563eb; }
+            .badge-low { background: #d1fae5; color: #059669; }
+            .footer { text-align: center; margin-top: 20px; color: #6b7280; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="margin: 0;">📋 Your ${frequency === 'weekly' ? 'Weekly' : 'Daily'} Digest</h1>
+              <p style="margin: 10px 0 0 0; opacity: 0.9;">Hi ${userName}, ${headline.charAt(0).toLowerCase()}${headline.slice(1)}.</p>
+            </div>
+            <div class="content">
+              ${sections}
+
+              <div class="footer">
+                <p>You're receiving this digest based on your notification settings in your Deadline Tracker.</p>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      console.error(`Failed to send digest to ${userEmail}:`, error);
+      return { messageId: null, error: error.message };
+    }
+
+    console.log(`Successfully sent ${frequency} digest to ${userEmail}`);
+    return { messageId: data?.id ?? null, error: null };
+  } catch (err) {
+    console.error(`Error sending digest to ${userEmail}:`, err);
+    return { messageId: null, error: err instanceof Error ? err.message : String(err) };
   }
 }
 
@@ -170,72 +635,403 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const now = new Date();
+    const today = now.toISOString().split("T")[0];
+
     // Fetch all deadlines with their user profiles
     const { data: deadlines, error: deadlinesError } = await supabase
       .from("deadlines")
       .select("*")
-      .gte("due_date", new Date().toISOString().split("T")[0]);
+      .gte("due_date", addDaysToISODate(today, -LOOKBACK_DAYS))
+      .not("state", "in", "(completed,waived)");
 
     if (deadlinesError) {
       console.error("Error fetching deadlines:", deadlinesError);
       throw deadlinesError;
     }
 
-    console.log(`Found ${deadlines?.length || 0} upcoming deadlines`);
+    console.log(`Found ${deadlines?.length || 0} upcoming open deadlines`);
 
     let remindersSent = 0;
     let remindersSkipped = 0;
+    let remindersFailed = 0;
+    let smsSent = 0;
+    let smsFailed = 0;
+
+    const smsProvider = createSmsProvider((key) => Deno.env.get(key));
+
+    let chatSent = 0;
+    let chatFailed = 0;
+
+    // Slack/Teams webhooks, grouped by organization
+    const { data: webhookRows, error: webhooksError } = await supabase
+      .from("chat_webhooks")
+      .select("id, organization_id, provider, name, webhook_url, categories, consequence_levels")
+      .eq("is_active", true);
+
+    if (webhooksError) {
+      console.error("Error fetching chat webhooks:", webhooksError);
+      throw webhooksError;
+    }
+
+    const chatWebhooks = new Map<string, ChatWebhook[]>();
+    for (const webhook of (webhookRows || []) as ChatWebhook[]) {
+      chatWebhooks.set(webhook.organization_id, [...(chatWebhooks.get(webhook.organization_id) ?? []), webhook]);
+    }
+
+    // Organizations whose plan no longer includes integrations keep their webhooks, but nothing is posted
+    for (const organizationId of [...chatWebhooks.keys()]) {
+      const { data: entitled, error: planError } = await supabase.rpc("org_has_integrations", { _org_id: organizationId });
+
+      if (planError || !entitled) {
+        if (planError) console.error(`Error checking integrations plan for organization ${organizationId}:`, planError);
+        chatWebhooks.delete(organizationId);
+      }
+    }
 
-    for (const deadline of deadlines || []) {
-      const daysUntil = getDaysUntilDeadline(deadline.due_date);
+    // Profiles are shared by many deadlines; fetch each once per run
+    const profiles = new Map<string, Profile | null>();
+
+    const getProfile = async (userId: string): Promise<Profile | null> => {
+      if (!profiles.has(userId)) {
+        const { data, error: profileError } = await supabase
+          .from("profiles")
+          .select(PROFILE_COLUMNS)
+          .eq("id", userId)
+          .single();
+
+        if (profileError) {
+          console.error(`Could not find profile for user ${userId}:`, profileError);
+        }
+        profiles.set(userId, (data as unknown as Profile) ?? null);
+      }
+      return profiles.get(userId) ?? null;
+    };
+
+    for (const deadline of (deadlines || []) as Deadline[]) {
+      // Reminders go to the assignee rather than whoever created the deadline
+      const profile = await getProfile(getAssigneeId(deadline));
+      if (!profile) {
+        continue;
+      }
+
+      // Count days and pick the send hour in the user's zone, then the organization's
+      const timeZone = resolveTimeZone(profile.timezone, profile.organization?.timezone);
+      const local = getZonedDateParts(now, timeZone);
+
+      if (local.hour < (profile.reminder_hour ?? DEFAULT_REMINDER_HOUR)) {
+        remindersSkipped++;
+        continue;
+      }
+
+      // Reminders count down to the date after weekend/holiday adjustment
+      const dueDate = adjustToBusinessDay(deadline.due_date, deadline.business_day_roll, deadline.holiday_calendar);
+      const daysUntil = getCalendarDaysBetween(local.date, dueDate);
+
+      if (daysUntil < 0) {
+        remindersSkipped++;
+        continue;
+      }
+
+      const reminderWindows = getReminderSchedule(deadline.consequence_level, deadline.reminder_offsets);
       
-      console.log(`Checking deadline "${deadline.title}": ${daysUntil} days until due`);
+      console.log(`Checking deadline "${deadline.title}": ${daysUntil} days until due (${timeZone})`);
       
-      if (!shouldSendReminder(daysUntil, deadline.last_reminder_sent)) {
-        console.log(`Skipping reminder for "${deadline.title}" - not in reminder window or already sent`);
+      const reminderWindow = getReminderWindow(daysUntil, reminderWindows);
+
+      if (reminderWindow === null) {
+        console.log(`Skipping reminder for "${deadline.title}" - not in reminder window`);
         remindersSkipped++;
         continue;
       }
 
-      // Fetch user profile
-      const { data: profile, error: profileError } = await supabase
-        .from("profiles")
-        .select("email, name")
-        .eq("id", deadline.user_id)
-        .single();
+      // SMS goes out alongside email, whatever the email delivery mode
+      const smsResult = await sendSmsReminder(supabase, smsProvider, profile, deadline, dueDate, daysUntil, reminderWindow);
+      if (smsResult === "sent") smsSent++;
+      if (smsResult === "failed") smsFailed++;
 
-      if (profileError || !profile) {
-        console.error(`Could not find profile for user ${deadline.user_id}:`, profileError);
+      // Organization channels are notified whatever the assignee's own settings
+      if (deadline.organization_id) {
+        const chatResult = await sendChatReminders(
+          supabase,
+          chatWebhooks.get(deadline.organization_id) ?? [],
+          deadline,
+          dueDate,
+          daysUntil,
+          reminderWindow
+        );
+        chatSent += chatResult.sent;
+        chatFailed += chatResult.failed;
+      }
+
+      // Digest users get this deadline in their daily or weekly summary instead
+      if (!sendsImmediately(profile.reminder_delivery_mode, deadline.consequence_level)) {
+        remindersSkipped++;
         continue;
       }
 
-      const sent = await sendReminderEmail(
+      const delivery = await claimDelivery(supabase, "reminder_deliveries", REMINDER_DELIVERY_KEY, {
+        deadline_id: deadline.id,
+        recipient_id: profile.id,
+        recipient: profile.email,
+        channel: "email",
+        offset_days: reminderWindow,
+        due_date: dueDate,
+        escalated: false,
+      });
+
+      if (!delivery) {
+        console.log(`Skipping reminder for "${deadline.title}" - ${reminderWindow}-day reminder already sent to ${profile.email}`);
+        remindersSkipped++;
+        continue;
+      }
+
+      const sendResult = await sendReminderEmail(
         profile.email,
         profile.name,
         deadline,
+        dueDate,
         daysUntil
       );
 
-      if (sent) {
-        // Update last_reminder_sent
-        const { error: updateError } = await supabase
-          .from("deadlines")
-          .update({ last_reminder_sent: new Date().toISOString() })
-          .eq("id", deadline.id);
+      const { error: deliveryError } = await supabase
+        .from("reminder_deliveries")
+        .update({
+          status: sendResult.error ? "failed" : "sent",
+          provider_message_id: sendResult.messageId,
+          error: sendResult.error,
+        })
+        .eq("id", delivery.id);
+
+      if (deliveryError) {
+        console.error(`Failed to record delivery ${delivery.id}:`, deliveryError);
+      }
+
+      if (sendResult.error) {
+        remindersFailed++;
+        continue;
+      }
+
+      // Update last_reminder_sent
+      const { error: updateError } = await supabase
+        .from("deadlines")
+        .update({ last_reminder_sent: new Date().toISOString() })
+        .eq("id", deadline.id);
+
+      if (updateError) {
+        console.error(`Failed to update last_reminder_sent for ${deadline.id}:`, updateError);
+      }
+      
+      remindersSent++;
+    }
+
+    // Escalations: unacknowledged organization deadlines past a policy step
+    const { data: policies, error: policiesError } = await supabase
+      .from("escalation_policies")
+      .select("organization_id, consequence_level, escalation_steps(days_before_due, target, admin_id)")
+      .eq("is_active", true);
 
-        if (updateError) {
-          console.error(`Failed to update last_reminder_sent for ${deadline.id}:`, updateError);
+    if (policiesError) {
+      console.error("Error fetching escalation policies:", policiesError);
+      throw policiesError;
+    }
+
+    const policySteps = new Map<string, EscalationStep[]>();
+    for (const policy of policies || []) {
+      policySteps.set(
+        `${policy.organization_id}:${policy.consequence_level}`,
+        (policy.escalation_steps || []) as EscalationStep[]
+      );
+    }
+
+    // Team rosters, fetched once per organization
+    const rosters = new Map<string, RosterMember[]>();
+
+    let escalationsSent = 0;
+    let escalationsFailed = 0;
+
+    for (const deadline of (deadlines || []) as Deadline[]) {
+      if (!deadline.organization_id || isEscalationAcknowledged(deadline.state)) continue;
+
+      const steps = policySteps.get(`${deadline.organization_id}:${deadline.consequence_level}`);
+      if (!steps || steps.length === 0) continue;
+
+      // Escalations follow the assignee's clock, like their own reminders
+      const profile = await getProfile(getAssigneeId(deadline));
+      if (!profile) continue;
+
+      const timeZone = resolveTimeZone(profile.timezone, profile.organization?.timezone);
+      const local = getZonedDateParts(now, timeZone);
+      if (local.hour < (profile.reminder_hour ?? DEFAULT_REMINDER_HOUR)) continue;
+
+      const dueDate = adjustToBusinessDay(deadline.due_date, deadline.business_day_roll, deadline.holiday_calendar);
+      const daysUntil = getCalendarDaysBetween(local.date, dueDate);
+      const triggered = getTriggeredEscalationSteps(steps, daysUntil);
+      if (triggered.length === 0) continue;
+
+      if (!rosters.has(deadline.organization_id)) {
+        const { data: members, error: rosterError } = await supabase
+          .from("profiles")
+          .select("id, email, name, role")
+          .eq("organization_id", deadline.organization_id);
+
+        if (rosterError) {
+          console.error(`Error fetching roster for organization ${deadline.organization_id}:`, rosterError);
         }
-        
-        remindersSent++;
+        rosters.set(deadline.organization_id, (members || []) as RosterMember[]);
+      }
+      const roster = rosters.get(deadline.organization_id)!;
+      const owner = roster.find((member) => member.id === getAssigneeId(deadline));
+
+      for (const step of triggered) {
+        const recipients = await getEscalationRecipients(supabase, step, deadline, roster);
+
+        for (const recipient of recipients) {
+          // Escalations have their own slot, so a regular reminder for the same window doesn't swallow them
+          const delivery = await claimDelivery(supabase, "reminder_deliveries", REMINDER_DELIVERY_KEY, {
+            deadline_id: deadline.id,
+            recipient_id: recipient.id,
+            recipient: recipient.email,
+            channel: "email",
+            offset_days: step.days_before_due,
+            due_date: dueDate,
+            escalated: true,
+          });
+
+          if (!delivery) continue;
+
+          console.log(`Escalating "${deadline.title}" to ${recipient.email} (${formatEscalationTiming(step.days_before_due)})`);
+
+          const sendResult = await sendEscalationEmail(recipient, owner, deadline, dueDate, daysUntil);
+
+          const { error: deliveryError } = await supabase
+            .from("reminder_deliveries")
+            .update({
+              status: sendResult.error ? "failed" : "sent",
+              provider_message_id: sendResult.messageId,
+              error: sendResult.error,
+            })
+            .eq("id", delivery.id);
+
+          if (deliveryError) {
+            console.error(`Failed to record escalation delivery ${delivery.id}:`, deliveryError);
+          }
+
+          if (sendResult.error) {
+            escalationsFailed++;
+          } else {
+            escalationsSent++;
+          }
+        }
+      }
+    }
+
+    // Digests: one summary per user per day (or per week, on Mondays)
+    const { data: digestProfiles, error: digestProfilesError } = await supabase
+      .from("profiles")
+      .select(PROFILE_COLUMNS)
+      .neq("reminder_delivery_mode", "immediate");
+
+    if (digestProfilesError) {
+      console.error("Error fetching digest subscribers:", digestProfilesError);
+      throw digestProfilesError;
+    }
+
+    let digestsSent = 0;
+    let digestsFailed = 0;
+
+    for (const profile of (digestProfiles || []) as unknown as Profile[]) {
+      const timeZone = resolveTimeZone(profile.timezone, profile.organization?.timezone);
+      const local = getZonedDateParts(now, timeZone);
+      const frequency = profile.reminder_delivery_mode === "weekly" ? "weekly" : "daily";
+
+      if (local.hour < (profile.reminder_hour ?? DEFAULT_REMINDER_HOUR)) continue;
+      if (frequency === "weekly" && !isMonday(local.date)) continue;
+
+      let query = supabase
+        .from("deadlines")
+        .select("*")
+        .or(`assignee_id.eq.${profile.id},and(assignee_id.is.null,user_id.eq.${profile.id})`)
+        .not("state", "in", "(completed,waived)")
+        .lte("due_date", addDaysToISODate(local.date, URGENCY_THRESHOLDS.upcoming));
+
+      // Hybrid users already got critical deadlines as immediate reminders
+      if (profile.reminder_delivery_mode === "hybrid") {
+        query = query.neq("consequence_level", "critical");
+      }
+
+      const { data: userDeadlines, error: userDeadlinesError } = await query;
+
+      if (userDeadlinesError) {
+        console.error(`Error fetching digest deadlines for ${profile.id}:`, userDeadlinesError);
+        digestsFailed++;
+        continue;
+      }
+
+      const items: DigestItem[] = ((userDeadlines || []) as Deadline[]).map((deadline) => {
+        const dueDate = adjustToBusinessDay(deadline.due_date, deadline.business_day_roll, deadline.holiday_calendar);
+        return { deadline, dueDate, daysUntil: getCalendarDaysBetween(local.date, dueDate) };
+      });
+
+      const groups = groupDeadlinesByStatus(items, (item) => getStatusForDaysUntilDue(item.daysUntil));
+      groups.upcoming = [...groups.warning, ...groups.upcoming];
+
+      const count = DIGEST_SECTIONS.reduce((total, section) => total + groups[section.status].length, 0);
+      if (count === 0) continue;
+
+      const delivery = await claimDelivery(supabase, "digest_deliveries", "user_id,frequency,period_start", {
+        user_id: profile.id,
+        recipient: profile.email,
+        frequency,
+        period_start: local.date,
+        deadline_count: count,
+      });
+
+      if (!delivery) continue;
+
+      const topStatus = STATUS_PRIORITY.find((status) => groups[status].length > 0)!;
+      const sendResult = await sendDigestEmail(
+        profile.email,
+        profile.name,
+        frequency,
+        getUrgencyMessage(topStatus, groups[topStatus].length),
+        groups
+      );
+
+      const { error: deliveryError } = await supabase
+        .from("digest_deliveries")
+        .update({
+          status: sendResult.error ? "failed" : "sent",
+          provider_message_id: sendResult.messageId,
+          error: sendResult.error,
+        })
+        .eq("id", delivery.id);
+
+      if (deliveryError) {
+        console.error(`Failed to record digest delivery ${delivery.id}:`, deliveryError);
+      }
+
+      if (sendResult.error) {
+        digestsFailed++;
+      } else {
+        digestsSent++;
       }
     }
 
     const result = {
       success: true,
-      message: `Processed ${deadlines?.length || 0} deadlines. Sent ${remindersSent} reminders, skipped ${remindersSkipped}.`,
+      message: `Processed ${deadlines?.length || 0} deadlines. Sent ${remindersSent} reminders, skipped ${remindersSkipped}, failed ${remindersFailed}. Sent ${digestsSent} digests, failed ${digestsFailed}. Sent ${escalationsSent} escalations, failed ${escalationsFailed}. Sent ${smsSent} SMS, failed ${smsFailed}. Posted ${chatSent} channel messages, failed ${chatFailed}.`,
       remindersSent,
       remindersSkipped,
+      remindersFailed,
+      digestsSent,
+      digestsFailed,
+      escalationsSent,
+      escalationsFailed,
+      smsSent,
+      smsFailed,
+      chatSent,
+      chatFailed,
       totalDeadlines: deadlines?.length || 0,
     };
 
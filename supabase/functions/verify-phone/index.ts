@@ -0,0 +1,160 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { createSmsProvider, maskPhoneNumber, normalizePhoneNumber } from "../_shared/sms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Limits on codes sent per hour and guesses per code
+const MAX_CODES_PER_HOUR = 5;
+const MAX_ATTEMPTS = 5;
+
+type VerifyRequest =
+  | { action: "send"; phoneNumber: string }
+  | { action: "confirm"; code: string };
+
+async function hashCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(code));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function generateCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verifications and the verified flag are only writable with the service role
+    const admin = createClient(supabaseUrl, supabaseServiceKey);
+    const request: VerifyRequest = await req.json();
+
+    if (request.action === "send") {
+      const phoneNumber = normalizePhoneNumber(request.phoneNumber ?? "");
+      if (!phoneNumber) {
+        throw new Error("Enter a valid phone number, including the country code if outside the US");
+      }
+
+      const provider = createSmsProvider((key) => Deno.env.get(key));
+      if (!provider) {
+        throw new Error("Text messages aren't available right now. Please try again later.");
+      }
+
+      const { count } = await admin
+        .from("phone_verifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .gte("created_at", new Date(Date.now() - 60 * 60 * 1000).toISOString());
+
+      if ((count ?? 0) >= MAX_CODES_PER_HOUR) {
+        throw new Error("Too many codes requested. Please try again in an hour.");
+      }
+
+      const code = generateCode();
+      const { error: insertError } = await admin
+        .from("phone_verifications")
+        .insert({ user_id: user.id, phone_number: phoneNumber, code_hash: await hashCode(code) });
+
+      if (insertError) throw insertError;
+
+      const result = await provider.send(phoneNumber, `Your Deadline Tracker verification code is ${code}. It expires in 10 minutes.`);
+
+      if (result.error) {
+        console.error(`Failed to send verification code to ${maskPhoneNumber(phoneNumber)}:`, result.error);
+        throw new Error("Could not send the verification code. Check the number and try again.");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, phoneNumber }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (request.action === "confirm") {
+      const { data: verification } = await admin
+        .from("phone_verifications")
+        .select("id, phone_number, code_hash, attempts")
+        .eq("user_id", user.id)
+        .is("verified_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!verification) {
+        throw new Error("Your code has expired. Please request a new one.");
+      }
+
+      if (verification.attempts >= MAX_ATTEMPTS) {
+        throw new Error("Too many incorrect attempts. Please request a new code.");
+      }
+
+      if (await hashCode(String(request.code ?? "").trim()) !== verification.code_hash) {
+        await admin
+          .from("phone_verifications")
+          .update({ attempts: verification.attempts + 1 })
+          .eq("id", verification.id);
+
+        throw new Error("That code is incorrect.");
+      }
+
+      const verifiedAt = new Date().toISOString();
+
+      await admin
+        .from("phone_verifications")
+        .update({ verified_at: verifiedAt })
+        .eq("id", verification.id);
+
+      const { error: settingsError } = await admin
+        .from("phone_settings")
+        .upsert(
+          { user_id: user.id, phone_number: verification.phone_number, phone_verified_at: verifiedAt, sms_enabled: true },
+          { onConflict: "user_id" }
+        );
+
+      if (settingsError) throw settingsError;
+
+      return new Response(
+        JSON.stringify({ success: true, phoneNumber: verification.phone_number }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    throw new Error("Unknown action");
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error in verify-phone function:", message);
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
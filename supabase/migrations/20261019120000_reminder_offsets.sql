@@ -0,0 +1,26 @@
+-- ============================================
+-- PER-DEADLINE REMINDER OFFSETS
+-- ============================================
+
+-- Custom reminder schedule (days before due date).
+-- NULL means the default schedule for the deadline's consequence level.
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[];
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_reminder_offsets_valid
+CHECK (
+  reminder_offsets IS NULL OR (
+    cardinality(reminder_offsets) <= 20 AND
+    1 <= ALL(reminder_offsets) AND
+    730 >= ALL(reminder_offsets)
+  )
+);
+
+-- A template's lead time seeds the first reminder offset of new deadlines,
+-- so it has to fit deadlines_reminder_offsets_valid (1 to 730 days).
+UPDATE public.deadline_templates
+SET typical_lead_time_days = LEAST(GREATEST(typical_lead_time_days, 1), 730)
+WHERE typical_lead_time_days NOT BETWEEN 1 AND 730;
+
+ALTER TABLE public.deadline_templates ADD CONSTRAINT deadline_templates_lead_time_valid
+CHECK (typical_lead_time_days IS NULL OR typical_lead_time_days BETWEEN 1 AND 730);
@@ -0,0 +1,52 @@
+-- ============================================
+-- REMINDER DELIVERY LOG
+-- ============================================
+
+CREATE TYPE public.reminder_channel AS ENUM ('email');
+
+CREATE TYPE public.reminder_delivery_status AS ENUM ('pending', 'sent', 'failed');
+
+-- One row per reminder send attempt
+CREATE TABLE public.reminder_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deadline_id UUID NOT NULL REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  recipient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  recipient TEXT NOT NULL,
+  channel public.reminder_channel NOT NULL DEFAULT 'email',
+  offset_days INTEGER NOT NULL,
+  -- Due date the window was computed from, so a rescheduled deadline gets fresh windows
+  due_date DATE NOT NULL,
+  status public.reminder_delivery_status NOT NULL DEFAULT 'pending',
+  provider_message_id TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  -- A window fires at most once per recipient, even if the cron overlaps or re-runs
+  CONSTRAINT unique_reminder_delivery UNIQUE (deadline_id, due_date, offset_days, channel, recipient)
+);
+
+-- Indexes
+CREATE INDEX idx_reminder_deliveries_deadline ON public.reminder_deliveries(deadline_id, created_at DESC);
+CREATE INDEX idx_reminder_deliveries_status ON public.reminder_deliveries(status) WHERE status != 'sent';
+
+-- Trigger for updated_at
+CREATE TRIGGER update_reminder_deliveries_updated_at
+  BEFORE UPDATE ON public.reminder_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the deadline (the subquery is filtered by deadlines RLS)
+CREATE POLICY "Users can view reminder deliveries for visible deadlines"
+ON public.reminder_deliveries FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines d WHERE d.id = deadline_id)
+);
+
+-- Only service role can write deliveries (via send-deadline-reminders)
+-- No INSERT/UPDATE/DELETE policies for regular users
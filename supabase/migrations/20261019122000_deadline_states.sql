@@ -0,0 +1,61 @@
+-- ============================================
+-- DEADLINE LIFECYCLE STATES
+-- ============================================
+
+CREATE TYPE public.deadline_state AS ENUM (
+  'open',
+  'in_progress',
+  'submitted',
+  'completed',
+  'waived'
+);
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS state public.deadline_state NOT NULL DEFAULT 'open';
+
+-- Completion details (set when a deadline is completed or waived)
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS completed_at DATE;
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS completed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS completion_notes TEXT;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_completion_notes_length
+CHECK (completion_notes IS NULL OR length(completion_notes) <= 2000);
+
+-- Index for finding active deadlines (reminders, dashboards)
+CREATE INDEX IF NOT EXISTS idx_deadlines_active ON public.deadlines(due_date) WHERE state NOT IN ('completed', 'waived');
+
+-- Stamp completion details when a deadline is closed, and clear them when it's reopened.
+-- Signed-in users are always recorded as the completer themselves; only the
+-- service role (API, scheduled jobs) may name someone else.
+CREATE OR REPLACE FUNCTION public.set_deadline_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.state IN ('completed', 'waived') THEN
+    IF TG_OP = 'INSERT' OR OLD.state NOT IN ('completed', 'waived') THEN
+      NEW.completed_at := COALESCE(NEW.completed_at, CURRENT_DATE);
+      NEW.completed_by := COALESCE(auth.uid(), NEW.completed_by);
+    ELSIF auth.uid() IS NOT NULL THEN
+      NEW.completed_by := OLD.completed_by;
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+    NEW.completed_by := NULL;
+    NEW.completion_notes := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_deadline_completion
+  BEFORE INSERT OR UPDATE OF state, completed_at, completed_by, completion_notes ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_deadline_completion();
@@ -0,0 +1,21 @@
+-- ============================================
+-- RECURRING SERIES GENERATION
+-- ============================================
+
+-- The next occurrence is now created by the generate-recurring-deadlines edge
+-- function when an auto-renewing deadline is completed. The old trigger
+-- function was never attached and used fixed day counts (monthly = 30 days),
+-- so drop it to avoid two sources of truth for recurrence math.
+DROP FUNCTION IF EXISTS public.create_next_recurring_deadline();
+
+-- Each occurrence has at most one next occurrence. This makes generation
+-- idempotent: completing the same occurrence twice can't create a duplicate.
+DROP INDEX IF EXISTS public.idx_deadlines_parent;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT unique_next_occurrence
+UNIQUE (parent_deadline_id);
+
+-- Index for the generator's sweep of recently completed recurring deadlines
+CREATE INDEX IF NOT EXISTS idx_deadlines_completed_recurring
+ON public.deadlines(completed_at)
+WHERE state = 'completed' AND auto_renew = true AND recurrence != 'none';
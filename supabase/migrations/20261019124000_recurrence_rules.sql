@@ -0,0 +1,15 @@
+-- ============================================
+-- RRULE-BASED RECURRENCE
+-- ============================================
+
+-- Schedules the fixed patterns can't express ("last business day of each
+-- quarter", "15th of Jan/Apr/Jun/Sep") are stored as an RFC 5545 RRULE.
+-- The rule is expanded by the shared recurrence code in the app and the
+-- generate-recurring-deadlines edge function; the due date is its start.
+ALTER TYPE public.recurrence_pattern ADD VALUE IF NOT EXISTS 'rrule';
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT recurrence_rule_length
+CHECK (recurrence_rule IS NULL OR char_length(recurrence_rule) <= 500);
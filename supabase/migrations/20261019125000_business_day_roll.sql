@@ -0,0 +1,17 @@
+-- ============================================
+-- BUSINESS-DAY ADJUSTMENT
+-- ============================================
+
+-- When a due date lands on a weekend or holiday, authorities usually move it
+-- to the next business day. due_date stays the nominal date (so recurring
+-- series don't drift); the app and reminder function apply the roll using
+-- the holiday calendars bundled in supabase/functions/_shared/business-days.ts.
+CREATE TYPE public.business_day_roll AS ENUM ('none', 'next', 'previous');
+
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS business_day_roll public.business_day_roll NOT NULL DEFAULT 'none',
+ADD COLUMN IF NOT EXISTS holiday_calendar TEXT NOT NULL DEFAULT 'US';
+
+-- "US" for federal holidays, "US-XX" for federal plus a state's holidays
+ALTER TABLE public.deadlines ADD CONSTRAINT valid_holiday_calendar
+CHECK (holiday_calendar ~ '^US(-[A-Z]{2})?$');
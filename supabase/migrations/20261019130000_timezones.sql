@@ -0,0 +1,57 @@
+-- ============================================
+-- TIMEZONES AND REMINDER HOUR
+-- ============================================
+
+-- Days until due are counted in the user's zone (falling back to their
+-- organization's), and reminders go out at a chosen local hour. The reminder
+-- function should run hourly for the hour to be honored.
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(_tz TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE _tz;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT,
+ADD COLUMN IF NOT EXISTS reminder_hour SMALLINT NOT NULL DEFAULT 8;
+
+ALTER TABLE public.profiles ADD CONSTRAINT valid_profile_timezone
+CHECK (timezone IS NULL OR public.is_valid_timezone(timezone));
+
+ALTER TABLE public.profiles ADD CONSTRAINT valid_reminder_hour
+CHECK (reminder_hour BETWEEN 0 AND 23);
+
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+ALTER TABLE public.organizations ADD CONSTRAINT valid_organization_timezone
+CHECK (timezone IS NULL OR public.is_valid_timezone(timezone));
+
+-- Capture the browser's zone at sign-up; ignore it if Postgres doesn't know it
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _tz TEXT := NEW.raw_user_meta_data ->> 'timezone';
+BEGIN
+  INSERT INTO public.profiles (id, name, email, role, timezone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', split_part(NEW.email, '@', 1)),
+    NEW.email,
+    'individual',
+    CASE WHEN public.is_valid_timezone(_tz) THEN _tz END
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,55 @@
+-- ============================================
+-- REMINDER DIGESTS
+-- ============================================
+
+-- How a user receives reminders: one email per deadline per window
+-- (immediate), a morning summary (daily), a Monday summary (weekly), or
+-- immediate emails for critical deadlines plus a daily summary of the rest
+-- (hybrid).
+CREATE TYPE public.reminder_delivery_mode AS ENUM ('immediate', 'daily', 'weekly', 'hybrid');
+
+CREATE TYPE public.digest_frequency AS ENUM ('daily', 'weekly');
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS reminder_delivery_mode public.reminder_delivery_mode NOT NULL DEFAULT 'immediate';
+
+-- One row per digest send attempt
+CREATE TABLE public.digest_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient TEXT NOT NULL,
+  frequency public.digest_frequency NOT NULL,
+  -- Local date the digest covers (the Monday for weekly digests)
+  period_start DATE NOT NULL,
+  deadline_count INTEGER NOT NULL DEFAULT 0,
+  status public.reminder_delivery_status NOT NULL DEFAULT 'pending',
+  provider_message_id TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  -- A digest goes out at most once per period, even though the cron runs hourly
+  CONSTRAINT unique_digest_delivery UNIQUE (user_id, frequency, period_start)
+);
+
+-- Indexes
+CREATE INDEX idx_digest_deliveries_user ON public.digest_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_profiles_digest_mode ON public.profiles(reminder_delivery_mode)
+WHERE reminder_delivery_mode != 'immediate';
+
+-- Trigger for updated_at
+CREATE TRIGGER update_digest_deliveries_updated_at
+  BEFORE UPDATE ON public.digest_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.digest_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own digest deliveries"
+ON public.digest_deliveries FOR SELECT
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+-- Only service role can write deliveries (via send-deadline-reminders)
+-- No INSERT/UPDATE/DELETE policies for regular users
@@ -0,0 +1,118 @@
+-- ============================================
+-- ESCALATION POLICIES
+-- ============================================
+
+-- Who an escalation step adds: the deadline owner, one chosen admin, or every admin
+CREATE TYPE public.escalation_target AS ENUM ('owner', 'org_admin', 'all_admins');
+
+-- One policy per organization and consequence level
+CREATE TABLE public.escalation_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  consequence_level public.consequence_level NOT NULL DEFAULT 'critical',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT unique_escalation_policy UNIQUE (organization_id, consequence_level)
+);
+
+CREATE TABLE public.escalation_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  policy_id UUID NOT NULL REFERENCES public.escalation_policies(id) ON DELETE CASCADE,
+  -- Days before the due date the step fires; negative values mean days overdue
+  days_before_due INTEGER NOT NULL,
+  target public.escalation_target NOT NULL,
+  admin_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT escalation_steps_days_range CHECK (days_before_due BETWEEN -30 AND 365),
+  CONSTRAINT escalation_steps_admin_target CHECK ((target = 'org_admin') = (admin_id IS NOT NULL))
+);
+
+-- Escalation emails are logged with the reminders they follow up on
+ALTER TABLE public.reminder_deliveries
+ADD COLUMN IF NOT EXISTS escalated BOOLEAN NOT NULL DEFAULT false;
+
+-- An escalation can fall in the same window as a regular reminder (same
+-- offset, channel and recipient), so it gets a delivery slot of its own
+ALTER TABLE public.reminder_deliveries DROP CONSTRAINT unique_reminder_delivery;
+
+ALTER TABLE public.reminder_deliveries ADD CONSTRAINT unique_reminder_delivery
+UNIQUE (deadline_id, due_date, offset_days, channel, recipient, escalated);
+
+-- Indexes
+CREATE INDEX idx_escalation_steps_policy ON public.escalation_steps(policy_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_escalation_policies_updated_at
+  BEFORE UPDATE ON public.escalation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.escalation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.escalation_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view escalation policies"
+ON public.escalation_policies FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  public.user_belongs_to_org(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Org members can view escalation steps"
+ON public.escalation_steps FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.escalation_policies p WHERE p.id = policy_id)
+);
+
+-- Policies are written through save_escalation_policy so the steps are replaced atomically
+
+-- Replace an organization's policy for a consequence level
+CREATE OR REPLACE FUNCTION public.save_escalation_policy(
+  _organization_id UUID,
+  _consequence_level public.consequence_level,
+  _is_active BOOLEAN,
+  _steps JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_policy_id UUID;
+BEGIN
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only organization admins can manage escalation policies';
+  END IF;
+
+  IF jsonb_typeof(_steps) != 'array' THEN
+    RAISE EXCEPTION 'Escalation steps must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_steps) AS s(target public.escalation_target, admin_id UUID)
+    WHERE s.target = 'org_admin' AND NOT public.is_org_admin(s.admin_id, _organization_id)
+  ) THEN
+    RAISE EXCEPTION 'Escalation steps can only notify admins of this organization';
+  END IF;
+
+  INSERT INTO public.escalation_policies (organization_id, consequence_level, is_active, created_by)
+  VALUES (_organization_id, _consequence_level, _is_active, auth.uid())
+  ON CONFLICT (organization_id, consequence_level)
+  DO UPDATE SET is_active = EXCLUDED.is_active
+  RETURNING id INTO saved_policy_id;
+
+  DELETE FROM public.escalation_steps WHERE policy_id = saved_policy_id;
+
+  INSERT INTO public.escalation_steps (policy_id, days_before_due, target, admin_id)
+  SELECT saved_policy_id, s.days_before_due, s.target, s.admin_id
+  FROM jsonb_to_recordset(_steps) AS s(days_before_due INTEGER, target public.escalation_target, admin_id UUID);
+
+  RETURN saved_policy_id;
+END;
+$$;
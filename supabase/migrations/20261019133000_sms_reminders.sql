@@ -0,0 +1,199 @@
+-- ============================================
+-- SMS REMINDERS
+-- ============================================
+
+ALTER TYPE public.reminder_channel ADD VALUE IF NOT EXISTS 'sms';
+
+-- Phone numbers stay off profiles, which every teammate can read. Only the
+-- user themselves (and the service role) can see their phone settings.
+CREATE TABLE public.phone_settings (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Verified phone number (E.164) for SMS reminders
+  phone_number TEXT,
+  phone_verified_at TIMESTAMP WITH TIME ZONE,
+  sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT phone_settings_phone_number_format
+  CHECK (phone_number IS NULL OR phone_number ~ '^\+[1-9][0-9]{7,14}$')
+);
+
+-- Only the verify-phone function (service role) can mark a number verified,
+-- and changing the number drops the verification
+CREATE OR REPLACE FUNCTION public.protect_phone_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.phone_verified_at := NULL;
+    ELSIF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+      NEW.phone_verified_at := NULL;
+      NEW.sms_enabled := false;
+    ELSE
+      NEW.phone_verified_at := OLD.phone_verified_at;
+    END IF;
+  END IF;
+
+  IF NEW.phone_verified_at IS NULL THEN
+    NEW.sms_enabled := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_phone_settings_verification
+  BEFORE INSERT OR UPDATE ON public.phone_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_phone_verification();
+
+-- Trigger for updated_at
+CREATE TRIGGER update_phone_settings_updated_at
+  BEFORE UPDATE ON public.phone_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.phone_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own phone settings"
+ON public.phone_settings FOR SELECT
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+CREATE POLICY "Users can update their own phone settings"
+ON public.phone_settings FOR UPDATE
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid())
+WITH CHECK (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+-- Rows are created by verify-phone (service role) once a number is verified
+
+-- One row per verification code sent
+CREATE TABLE public.phone_verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL,
+  -- SHA-256 of the code; the code itself is never stored
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '10 minutes'),
+  verified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_phone_verifications_user ON public.phone_verifications(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Only service role can read or write verifications (via verify-phone)
+-- No policies for regular users
+
+-- ============================================
+-- ORGANIZATION PLAN
+-- ============================================
+
+-- The plan an organization is on: a subscription taken out for it, or the
+-- best plan held by one of its admins
+CREATE OR REPLACE FUNCTION public.get_org_plan_tier(_org_id UUID)
+RETURNS public.plan_tier
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(max(s.plan_tier), 'free')
+  FROM public.subscriptions s
+  WHERE s.status IN ('active', 'trialing')
+    AND (
+      s.organization_id = _org_id OR
+      s.user_id IN (
+        SELECT p.id FROM public.profiles p
+        WHERE p.organization_id = _org_id AND p.role = 'org_admin'
+      )
+    )
+$$;
+
+-- The better of the user's own plan and their organization's
+CREATE OR REPLACE FUNCTION public.get_user_plan_tier(_user_id UUID)
+RETURNS public.plan_tier
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    (
+      SELECT COALESCE(max(s.plan_tier), 'free')
+      FROM public.subscriptions s
+      WHERE s.user_id = _user_id AND s.status IN ('active', 'trialing')
+    ),
+    (
+      SELECT public.get_org_plan_tier(p.organization_id)
+      FROM public.profiles p
+      WHERE p.id = _user_id AND p.organization_id IS NOT NULL
+    )
+  )
+$$;
+
+-- ============================================
+-- SMS QUOTA
+-- ============================================
+
+-- Take one SMS from the user's monthly allowance (the "sms" limit of their
+-- own or their organization's plan). Returns false when the allowance is used up.
+CREATE OR REPLACE FUNCTION public.claim_sms_quota(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sms_limit INTEGER;
+  month_start DATE := date_trunc('month', now())::date;
+  claimed_id UUID;
+BEGIN
+  SELECT (public.get_plan_limits(public.get_user_plan_tier(_user_id))->>'sms')::integer INTO sms_limit;
+
+  IF sms_limit = 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.usage_stats (user_id, organization_id, period_start, period_end)
+  SELECT _user_id, p.organization_id, month_start, (month_start + INTERVAL '1 month' - INTERVAL '1 day')::date
+  FROM public.profiles p
+  WHERE p.id = _user_id
+  ON CONFLICT (user_id, period_start) DO NOTHING;
+
+  -- -1 means unlimited
+  UPDATE public.usage_stats
+  SET sms_sent = sms_sent + 1
+  WHERE user_id = _user_id
+    AND period_start = month_start
+    AND (sms_limit = -1 OR sms_sent < sms_limit)
+  RETURNING id INTO claimed_id;
+
+  RETURN claimed_id IS NOT NULL;
+END;
+$$;
+
+-- Give back an SMS claimed for a message the provider didn't accept
+CREATE OR REPLACE FUNCTION public.release_sms_quota(_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.usage_stats
+  SET sms_sent = GREATEST(sms_sent - 1, 0)
+  WHERE user_id = _user_id
+    AND period_start = date_trunc('month', now())::date
+$$;
+
+-- Quota is spent by send-deadline-reminders (service role) only
+REVOKE EXECUTE ON FUNCTION public.claim_sms_quota(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_sms_quota(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,99 @@
+-- ============================================
+-- SLACK AND TEAMS CHANNEL NOTIFICATIONS
+-- ============================================
+
+CREATE TYPE public.chat_provider AS ENUM ('slack', 'teams');
+
+ALTER TYPE public.reminder_channel ADD VALUE IF NOT EXISTS 'slack';
+ALTER TYPE public.reminder_channel ADD VALUE IF NOT EXISTS 'teams';
+
+-- Incoming webhooks an organization routes reminders to
+CREATE TABLE public.chat_webhooks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  provider public.chat_provider NOT NULL,
+  -- Channel the webhook posts to, e.g. "#risk-management"
+  name TEXT NOT NULL,
+  webhook_url TEXT NOT NULL,
+  -- Routing; an empty array matches every category / level
+  categories public.deadline_category[] NOT NULL DEFAULT '{}',
+  consequence_levels public.consequence_level[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  -- Deliveries are logged per channel name, so names must be unique
+  CONSTRAINT unique_chat_webhook_name UNIQUE (organization_id, provider, name),
+  CONSTRAINT chat_webhooks_name_length CHECK (char_length(name) BETWEEN 1 AND 80),
+  -- Reminders are posted by the service role, so only the providers' own
+  -- webhook hosts are accepted (kept in step with isValidWebhookUrl)
+  CONSTRAINT chat_webhooks_url_host CHECK (
+    CASE provider
+      WHEN 'slack' THEN webhook_url ~ '^https://hooks\.slack\.com/services/\S+$'
+      WHEN 'teams' THEN webhook_url ~* '^https://([a-z0-9-]+\.webhook\.office\.com|[a-z0-9.-]+\.logic\.azure\.com(:443)?|[a-z0-9.-]+\.environment\.api\.powerplatform\.com(:443)?)/\S+$'
+    END
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_chat_webhooks_org ON public.chat_webhooks(organization_id) WHERE is_active;
+
+-- Trigger for updated_at
+CREATE TRIGGER update_chat_webhooks_updated_at
+  BEFORE UPDATE ON public.chat_webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the organization's plan includes integrations (Slack/Teams
+-- channels and outbound webhooks)
+CREATE OR REPLACE FUNCTION public.org_has_integrations(_org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((public.get_plan_limits(public.get_org_plan_tier(_org_id))->>'integrations')::boolean, false)
+$$;
+
+-- Enable RLS
+ALTER TABLE public.chat_webhooks ENABLE ROW LEVEL SECURITY;
+
+-- Webhook URLs are secrets, so only admins can see them
+CREATE POLICY "Org admins can view chat webhooks"
+ON public.chat_webhooks FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Channels need the integrations plan, also for direct API writes.
+-- They can still be switched off once the plan lapses.
+CREATE POLICY "Org admins can create chat webhooks"
+ON public.chat_webhooks FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  public.org_has_integrations(organization_id) AND
+  created_by = auth.uid()
+);
+
+CREATE POLICY "Org admins can update chat webhooks"
+ON public.chat_webhooks FOR UPDATE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+)
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  (NOT is_active OR public.org_has_integrations(organization_id))
+);
+
+CREATE POLICY "Org admins can delete chat webhooks"
+ON public.chat_webhooks FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
@@ -0,0 +1,340 @@
+-- ============================================
+-- OUTBOUND WEBHOOKS
+-- ============================================
+
+-- Endpoints an organization sends signed deadline events to
+CREATE TABLE public.webhook_endpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- Event types the endpoint subscribes to
+  events TEXT[] NOT NULL,
+  -- HMAC-SHA256 signing secret
+  secret TEXT NOT NULL DEFAULT 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT webhook_endpoints_url_https CHECK (url ~ '^https://'),
+  CONSTRAINT webhook_endpoints_description_length CHECK (description IS NULL OR char_length(description) <= 200),
+  CONSTRAINT webhook_endpoints_events_valid CHECK (
+    cardinality(events) > 0 AND
+    events <@ ARRAY['deadline.created', 'deadline.updated', 'deadline.completed', 'deadline.entered_status', 'reminder.sent']
+  )
+);
+
+CREATE TYPE public.webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed');
+
+-- One row per event per endpoint; retries update the row, replays add a new one
+CREATE TABLE public.webhook_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  -- Shared by every endpoint (and replay) of the same event, so receivers can dedupe
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status public.webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  replayed_from UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Last urgency status dispatch-webhooks saw for each deadline.
+-- A NULL status means the deadline is new and its first status should fire.
+CREATE TABLE public.webhook_status_marks (
+  deadline_id UUID NOT NULL PRIMARY KEY REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  status TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_webhook_endpoints_org ON public.webhook_endpoints(organization_id) WHERE is_active;
+CREATE INDEX idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Triggers for updated_at
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON public.webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_status_marks ENABLE ROW LEVEL SECURITY;
+
+-- Signing secrets are only visible to admins
+CREATE POLICY "Org admins can view webhook endpoints"
+ON public.webhook_endpoints FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Endpoints need the integrations plan, also for direct API writes.
+-- They can still be switched off once the plan lapses.
+CREATE POLICY "Org admins can create webhook endpoints"
+ON public.webhook_endpoints FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  public.org_has_integrations(organization_id) AND
+  created_by = auth.uid()
+);
+
+CREATE POLICY "Org admins can update webhook endpoints"
+ON public.webhook_endpoints FOR UPDATE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+)
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id) AND
+  (NOT is_active OR public.org_has_integrations(organization_id))
+);
+
+CREATE POLICY "Org admins can delete webhook endpoints"
+ON public.webhook_endpoints FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Visible to anyone who can see the endpoint (the subquery is filtered by endpoint RLS)
+CREATE POLICY "Org admins can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.webhook_endpoints e WHERE e.id = endpoint_id)
+);
+
+-- Deliveries and status marks are written by triggers and dispatch-webhooks only
+
+-- Queue an event for every active endpoint of the organization subscribed to it.
+-- Nothing is queued while the organization's plan lacks integrations.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  _organization_id UUID,
+  _event_type TEXT,
+  _data JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID := gen_random_uuid();
+  queued INTEGER;
+BEGIN
+  IF _organization_id IS NULL OR NOT public.org_has_integrations(_organization_id) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  SELECT
+    e.id,
+    _event_id,
+    _event_type,
+    jsonb_build_object(
+      'id', _event_id,
+      'type', _event_type,
+      'created_at', now(),
+      'organization_id', _organization_id,
+      'data', _data
+    )
+  FROM public.webhook_endpoints e
+  WHERE e.organization_id = _organization_id
+    AND e.is_active
+    AND _event_type = ANY(e.events);
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- deadline.created / deadline.updated / deadline.completed
+CREATE OR REPLACE FUNCTION public.queue_deadline_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Let dispatch-webhooks fire the new deadline's first status
+    INSERT INTO public.webhook_status_marks (deadline_id) VALUES (NEW.id)
+    ON CONFLICT (deadline_id) DO NOTHING;
+
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'deadline.created', jsonb_build_object('deadline', to_jsonb(NEW)));
+  ELSIF NEW.state = 'completed' AND OLD.state IS DISTINCT FROM 'completed' THEN
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'deadline.completed', jsonb_build_object('deadline', to_jsonb(NEW)));
+  -- Ignore bookkeeping writes such as the reminder job stamping last_reminder_sent
+  ELSIF (to_jsonb(NEW) - 'updated_at' - 'last_reminder_sent') IS DISTINCT FROM (to_jsonb(OLD) - 'updated_at' - 'last_reminder_sent') THEN
+    PERFORM public.enqueue_webhook_event(
+      NEW.organization_id,
+      'deadline.updated',
+      jsonb_build_object('deadline', to_jsonb(NEW), 'previous', to_jsonb(OLD))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_deadline_webhooks
+  AFTER INSERT OR UPDATE ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_deadline_webhooks();
+
+-- reminder.sent
+CREATE OR REPLACE FUNCTION public.queue_reminder_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deadline RECORD;
+BEGIN
+  IF NEW.status <> 'sent' OR (TG_OP = 'UPDATE' AND OLD.status = 'sent') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, title, due_date, organization_id INTO _deadline
+  FROM public.deadlines
+  WHERE id = NEW.deadline_id;
+
+  IF _deadline.organization_id IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event(
+      _deadline.organization_id,
+      'reminder.sent',
+      jsonb_build_object(
+        'reminder', jsonb_build_object(
+          'id', NEW.id,
+          'channel', NEW.channel,
+          'recipient_id', NEW.recipient_id,
+          'offset_days', NEW.offset_days,
+          'escalated', NEW.escalated
+        ),
+        'deadline', jsonb_build_object(
+          'id', _deadline.id,
+          'title', _deadline.title,
+          'due_date', _deadline.due_date
+        )
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_reminder_webhooks
+  AFTER INSERT OR UPDATE OF status ON public.reminder_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_reminder_webhooks();
+
+-- Lease due deliveries for dispatch-webhooks; a crashed run's lease simply expires
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER, _lease_seconds INTEGER)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.webhook_deliveries d
+  SET next_attempt_at = now() + make_interval(secs => _lease_seconds)
+  WHERE d.id IN (
+    SELECT id FROM public.webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Open deadlines of organizations with an active deadline.entered_status
+-- endpoint, with the status dispatch-webhooks last saw for each. Ordered by
+-- id so the caller can page through them.
+CREATE OR REPLACE FUNCTION public.get_status_webhook_deadlines()
+RETURNS TABLE (
+  deadline JSONB,
+  timezone TEXT,
+  has_mark BOOLEAN,
+  last_status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH subscribed AS (
+    SELECT DISTINCT e.organization_id
+    FROM public.webhook_endpoints e
+    WHERE e.is_active AND 'deadline.entered_status' = ANY(e.events)
+  )
+  SELECT to_jsonb(d), o.timezone, m.deadline_id IS NOT NULL, m.status
+  FROM subscribed s
+  JOIN public.organizations o ON o.id = s.organization_id
+  JOIN public.deadlines d ON d.organization_id = s.organization_id
+  LEFT JOIN public.webhook_status_marks m ON m.deadline_id = d.id
+  WHERE d.state NOT IN ('completed', 'waived')
+    AND public.org_has_integrations(s.organization_id)
+  ORDER BY d.id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_status_webhook_deadlines() FROM PUBLIC, anon, authenticated;
+
+-- Send a past delivery again as a new log entry (same event id and payload)
+CREATE OR REPLACE FUNCTION public.replay_webhook_delivery(_delivery_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.webhook_deliveries%ROWTYPE;
+  _organization_id UUID;
+  replay_id UUID;
+BEGIN
+  SELECT * INTO _original FROM public.webhook_deliveries WHERE id = _delivery_id;
+
+  SELECT organization_id INTO _organization_id
+  FROM public.webhook_endpoints
+  WHERE id = _original.endpoint_id;
+
+  IF _organization_id IS NULL OR NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_id, event_type, payload, replayed_from)
+  VALUES (_original.endpoint_id, _original.event_id, _original.event_type, _original.payload, _original.id)
+  RETURNING id INTO replay_id;
+
+  RETURN replay_id;
+END;
+$$;
@@ -0,0 +1,186 @@
+-- ============================================
+-- REST API KEYS
+-- ============================================
+
+-- API access is an Enterprise feature
+CREATE OR REPLACE FUNCTION public.get_plan_limits(tier public.plan_tier)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE tier
+    WHEN 'free' THEN '{"deadlines": 5, "team_members": 1, "sms": 0, "recurring": false, "integrations": false, "api": false}'::jsonb
+    WHEN 'pro' THEN '{"deadlines": -1, "team_members": 1, "sms": 50, "recurring": true, "integrations": true, "api": false}'::jsonb
+    WHEN 'team' THEN '{"deadlines": -1, "team_members": 10, "sms": 200, "recurring": true, "integrations": true, "api": false}'::jsonb
+    WHEN 'enterprise' THEN '{"deadlines": -1, "team_members": -1, "sms": -1, "recurring": true, "integrations": true, "api": true}'::jsonb
+    ELSE '{"deadlines": 5, "team_members": 1, "sms": 0, "recurring": false, "integrations": false, "api": false}'::jsonb
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_api_access(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((public.get_plan_limits(COALESCE(s.plan_tier, 'free'))->>'api')::boolean, false)
+  FROM public.profiles p
+  LEFT JOIN public.subscriptions s ON s.user_id = p.id AND s.status IN ('active', 'trialing')
+  WHERE p.id = _user_id
+  ORDER BY s.created_at DESC NULLS LAST
+  LIMIT 1
+$$;
+
+-- Keys act as their owner (personal) or on behalf of an organization (organization_id set).
+-- Only a SHA-256 hash of the key is stored; the key itself is shown once, at creation.
+CREATE TABLE public.api_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- First characters of the key, so users can tell keys apart
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT api_keys_name_length CHECK (char_length(name) BETWEEN 1 AND 80),
+  CONSTRAINT api_keys_rate_limit_range CHECK (rate_limit_per_minute BETWEEN 1 AND 1000)
+);
+
+-- Requests per key per minute
+CREATE TABLE public.api_rate_limits (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+-- Indexes
+CREATE INDEX idx_api_keys_user ON public.api_keys(user_id);
+CREATE INDEX idx_api_keys_org ON public.api_keys(organization_id) WHERE organization_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their personal API keys"
+ON public.api_keys FOR SELECT
+USING (auth.uid() IS NOT NULL AND organization_id IS NULL AND user_id = auth.uid());
+
+CREATE POLICY "Org admins can view organization API keys"
+ON public.api_keys FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  organization_id IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Users can revoke their personal API keys"
+ON public.api_keys FOR DELETE
+USING (auth.uid() IS NOT NULL AND organization_id IS NULL AND user_id = auth.uid());
+
+CREATE POLICY "Org admins can revoke organization API keys"
+ON public.api_keys FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  organization_id IS NOT NULL AND
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+-- Keys are created through create_api_key; rate limits are written by the api function only
+
+-- Create a key and return it in full. This is the only time the key is readable.
+CREATE OR REPLACE FUNCTION public.create_api_key(_name TEXT, _organization_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_key TEXT := 'dg_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_api_access(auth.uid()) THEN
+    RAISE EXCEPTION 'API access requires the Enterprise plan';
+  END IF;
+
+  IF _organization_id IS NOT NULL AND NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only organization admins can create organization keys';
+  END IF;
+
+  INSERT INTO public.api_keys (user_id, organization_id, name, key_prefix, key_hash)
+  VALUES (
+    auth.uid(),
+    _organization_id,
+    trim(_name),
+    left(new_key, 11),
+    encode(sha256(convert_to(new_key, 'UTF8')), 'hex')
+  );
+
+  RETURN new_key;
+END;
+$$;
+
+-- Count a request against the key's per-minute limit.
+-- Returns the requests left in the current minute; negative means the limit is exceeded.
+CREATE OR REPLACE FUNCTION public.consume_api_rate_limit(_api_key_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_window TIMESTAMP WITH TIME ZONE := date_trunc('minute', now());
+  request_limit INTEGER;
+  used INTEGER;
+BEGIN
+  UPDATE public.api_keys
+  SET last_used_at = now()
+  WHERE id = _api_key_id
+  RETURNING rate_limit_per_minute INTO request_limit;
+
+  INSERT INTO public.api_rate_limits (api_key_id, window_start, request_count)
+  VALUES (_api_key_id, current_window, 1)
+  ON CONFLICT (api_key_id, window_start)
+  DO UPDATE SET request_count = public.api_rate_limits.request_count + 1
+  RETURNING request_count INTO used;
+
+  -- Old windows are no longer needed
+  DELETE FROM public.api_rate_limits
+  WHERE api_key_id = _api_key_id AND window_start < current_window - INTERVAL '1 hour';
+
+  RETURN request_limit - used;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_api_rate_limit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Who a change is made by, for audit and history triggers: the signed-in
+-- user, or the user the api function is acting for. The api runs as the
+-- service role and names its caller in the X-DeadlineGuard-Actor header,
+-- which is ignored on any other request.
+CREATE OR REPLACE FUNCTION public.current_actor_id()
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (NULLIF(current_setting('request.headers', true), '')::json ->> 'x-deadlineguard-actor')::UUID;
+END;
+$$;
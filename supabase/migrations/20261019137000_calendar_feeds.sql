@@ -0,0 +1,64 @@
+-- ============================================
+-- CALENDAR SUBSCRIPTION FEEDS
+-- ============================================
+
+-- Secret-token iCalendar feeds. A feed covers the user's own deadlines
+-- (organization_id NULL) or every deadline of one of their organizations.
+-- The token is the only credential, so regenerating it revokes the old URL.
+CREATE TABLE public.calendar_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One personal feed per user, and one feed per user per organization
+CREATE UNIQUE INDEX idx_calendar_feeds_personal ON public.calendar_feeds(user_id) WHERE organization_id IS NULL;
+CREATE UNIQUE INDEX idx_calendar_feeds_org ON public.calendar_feeds(user_id, organization_id) WHERE organization_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feeds"
+ON public.calendar_feeds FOR SELECT
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+CREATE POLICY "Users can revoke their calendar feeds"
+ON public.calendar_feeds FOR DELETE
+USING (auth.uid() IS NOT NULL AND user_id = auth.uid());
+
+-- Feeds are created through regenerate_calendar_feed
+
+-- Create the feed, or replace its token if it already exists. Returns the new token.
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed(_organization_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _organization_id IS NOT NULL AND NOT public.user_belongs_to_org(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  UPDATE public.calendar_feeds
+  SET token = new_token, created_at = now(), last_accessed_at = NULL
+  WHERE user_id = auth.uid()
+    AND organization_id IS NOT DISTINCT FROM _organization_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.calendar_feeds (user_id, organization_id, token)
+    VALUES (auth.uid(), _organization_id, new_token);
+  END IF;
+
+  RETURN new_token;
+END;
+$$;
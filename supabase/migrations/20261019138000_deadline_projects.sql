@@ -0,0 +1,13 @@
+-- ============================================
+-- DEADLINE ENTITY / PROJECT
+-- ============================================
+
+-- Free-text label for the legal entity, job or project a deadline belongs to,
+-- so compliance reports can be narrowed to what one auditor or surety asks about
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS project TEXT;
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_project_length
+CHECK (project IS NULL OR length(project) <= 120);
+
+CREATE INDEX IF NOT EXISTS idx_deadlines_org_project ON public.deadlines(organization_id, project) WHERE project IS NOT NULL;
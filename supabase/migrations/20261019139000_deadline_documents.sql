@@ -0,0 +1,176 @@
+-- ============================================
+-- DEADLINE DOCUMENTS
+-- ============================================
+
+-- Files attached to a deadline: the license PDF, insurance declarations page,
+-- bond certificate. A document keeps every uploaded version; the newest version
+-- is the one shown. Superseded documents (last term's certificate) stay on file.
+CREATE TYPE public.document_status AS ENUM ('current', 'superseded');
+
+CREATE TABLE public.deadline_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deadline_id UUID NOT NULL REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  status public.document_status NOT NULL DEFAULT 'current',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT deadline_documents_name_length CHECK (length(name) >= 1 AND length(name) <= 200)
+);
+
+CREATE TABLE public.deadline_document_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.deadline_documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version >= 1),
+  -- <deadline id>/<document id>/v<version>-<file name> in the deadline-documents bucket
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX idx_deadline_documents_deadline ON public.deadline_documents(deadline_id, created_at);
+CREATE INDEX idx_deadline_document_versions_document ON public.deadline_document_versions(document_id, version DESC);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_deadline_documents_updated_at
+  BEFORE UPDATE ON public.deadline_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Same rule as the deadlines UPDATE policies: the owner, or an admin of the deadline's organization
+CREATE OR REPLACE FUNCTION public.can_edit_deadline(_user_id UUID, _deadline_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.deadlines
+    WHERE id = _deadline_id
+      AND (
+        user_id = _user_id
+        OR (organization_id IS NOT NULL AND public.is_org_admin(_user_id, organization_id))
+      )
+  )
+$$;
+
+-- Enable RLS
+ALTER TABLE public.deadline_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deadline_document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the deadline (the subquery is filtered by deadlines RLS)
+CREATE POLICY "Users can view documents on visible deadlines"
+ON public.deadline_documents FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines d WHERE d.id = deadline_id)
+);
+
+CREATE POLICY "Deadline editors can add documents"
+ON public.deadline_documents FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  created_by = auth.uid() AND
+  public.can_edit_deadline(auth.uid(), deadline_id)
+);
+
+CREATE POLICY "Deadline editors can update documents"
+ON public.deadline_documents FOR UPDATE
+USING (auth.uid() IS NOT NULL AND public.can_edit_deadline(auth.uid(), deadline_id))
+WITH CHECK (auth.uid() IS NOT NULL AND public.can_edit_deadline(auth.uid(), deadline_id));
+
+CREATE POLICY "Deadline editors can delete documents"
+ON public.deadline_documents FOR DELETE
+USING (auth.uid() IS NOT NULL AND public.can_edit_deadline(auth.uid(), deadline_id));
+
+CREATE POLICY "Users can view versions of visible documents"
+ON public.deadline_document_versions FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadline_documents doc WHERE doc.id = document_id)
+);
+
+-- Versions are never edited; a new upload adds a version
+CREATE POLICY "Deadline editors can add document versions"
+ON public.deadline_document_versions FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL AND
+  uploaded_by = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.deadline_documents doc
+    WHERE doc.id = document_id AND public.can_edit_deadline(auth.uid(), doc.deadline_id)
+  )
+);
+
+CREATE POLICY "Deadline editors can delete document versions"
+ON public.deadline_document_versions FOR DELETE
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (
+    SELECT 1 FROM public.deadline_documents doc
+    WHERE doc.id = document_id AND public.can_edit_deadline(auth.uid(), doc.deadline_id)
+  )
+);
+
+-- ============================================
+-- STORAGE
+-- ============================================
+
+-- Private bucket; files are read through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'deadline-documents',
+  'deadline-documents',
+  false,
+  26214400,
+  ARRAY[
+    'application/pdf',
+    'image/png',
+    'image/jpeg',
+    'image/webp',
+    'image/gif',
+    'text/plain',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Object paths start with the deadline id, so access follows the deadline policies
+CREATE POLICY "Users can read document files on visible deadlines"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'deadline-documents' AND
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines d WHERE d.id::text = (storage.foldername(name))[1])
+);
+
+CREATE POLICY "Deadline editors can upload document files"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'deadline-documents' AND
+  auth.uid() IS NOT NULL AND
+  EXISTS (
+    SELECT 1 FROM public.deadlines d
+    WHERE d.id::text = (storage.foldername(name))[1] AND public.can_edit_deadline(auth.uid(), d.id)
+  )
+);
+
+CREATE POLICY "Deadline editors can delete document files"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'deadline-documents' AND
+  auth.uid() IS NOT NULL AND
+  EXISTS (
+    SELECT 1 FROM public.deadlines d
+    WHERE d.id::text = (storage.foldername(name))[1] AND public.can_edit_deadline(auth.uid(), d.id)
+  )
+);
@@ -0,0 +1,115 @@
+-- ============================================
+-- DEADLINE ASSIGNEES
+-- ============================================
+
+-- The person responsible for a deadline, separate from whoever created it
+-- (user_id), plus backups who cover when they're away. Reminders go to the
+-- assignee; a deadline with no assignee falls back to its creator.
+ALTER TABLE public.deadlines
+ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS backup_assignee_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.deadlines ADD CONSTRAINT deadlines_backup_assignees_count
+CHECK (cardinality(backup_assignee_ids) <= 5);
+
+-- Existing deadlines stay with the people who created them
+UPDATE public.deadlines SET assignee_id = user_id WHERE assignee_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deadlines_assignee ON public.deadlines(assignee_id);
+CREATE INDEX IF NOT EXISTS idx_deadlines_backup_assignees ON public.deadlines USING GIN (backup_assignee_ids);
+
+-- Default the assignee to the creator, keep assignees inside the deadline's
+-- organization, and leave reassignment to the creator and organization admins
+CREATE OR REPLACE FUNCTION public.validate_deadline_assignees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _backup_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.assignee_id := COALESCE(NEW.assignee_id, NEW.user_id);
+  ELSIF auth.uid() IS NOT NULL
+    AND OLD.user_id <> auth.uid()
+    AND NOT (OLD.organization_id IS NOT NULL AND public.is_org_admin(auth.uid(), OLD.organization_id))
+    AND (
+      NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+      OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+      OR NEW.backup_assignee_ids IS DISTINCT FROM OLD.backup_assignee_ids
+    )
+  THEN
+    RAISE EXCEPTION 'Only the creator or an organization admin can reassign this deadline';
+  END IF;
+
+  -- Saving other fields doesn't re-check assignees who have since left the organization
+  IF TG_OP = 'UPDATE'
+    AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+    AND NEW.assignee_id IS NOT DISTINCT FROM OLD.assignee_id
+    AND NEW.backup_assignee_ids IS NOT DISTINCT FROM OLD.backup_assignee_ids
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- The assignee isn't also their own backup, and nobody is listed twice
+  NEW.backup_assignee_ids := ARRAY(
+    SELECT DISTINCT backup_id
+    FROM unnest(NEW.backup_assignee_ids) AS backup_id
+    WHERE backup_id IS DISTINCT FROM NEW.assignee_id
+  );
+
+  IF NEW.organization_id IS NULL THEN
+    IF NEW.assignee_id <> NEW.user_id OR cardinality(NEW.backup_assignee_ids) > 0 THEN
+      RAISE EXCEPTION 'Personal deadlines can only be assigned to their creator';
+    END IF;
+  ELSE
+    IF NEW.assignee_id IS NOT NULL AND NOT public.user_belongs_to_org(NEW.assignee_id, NEW.organization_id) THEN
+      RAISE EXCEPTION 'Deadlines can only be assigned to members of their organization';
+    END IF;
+
+    FOREACH _backup_id IN ARRAY NEW.backup_assignee_ids LOOP
+      IF NOT public.user_belongs_to_org(_backup_id, NEW.organization_id) THEN
+        RAISE EXCEPTION 'Backup assignees must be members of the deadline''s organization';
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_deadline_assignees
+  BEFORE INSERT OR UPDATE OF user_id, organization_id, assignee_id, backup_assignee_ids ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_deadline_assignees();
+
+-- Assignees and backups work the deadlines they own: status, dates, reference
+-- numbers. Deleting stays with the creator and organization admins.
+CREATE POLICY "Assignees can update their deadlines"
+ON public.deadlines FOR UPDATE
+USING (
+  auth.uid() IS NOT NULL AND
+  (auth.uid() = assignee_id OR auth.uid() = ANY(backup_assignee_ids))
+);
+
+-- Assignees also manage the deadline's documents
+CREATE OR REPLACE FUNCTION public.can_edit_deadline(_user_id UUID, _deadline_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.deadlines
+    WHERE id = _deadline_id
+      AND (
+        user_id = _user_id
+        OR assignee_id = _user_id
+        OR _user_id = ANY(backup_assignee_ids)
+        OR (organization_id IS NOT NULL AND public.is_org_admin(_user_id, organization_id))
+      )
+  )
+$$;
@@ -0,0 +1,249 @@
+-- ============================================
+-- MEMBER OFFBOARDING
+-- ============================================
+
+-- Organization-wide record of who did what. Rows are written by SECURITY
+-- DEFINER functions only; admins can read their organization's entries.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  before_data JSONB,
+  after_data JSONB,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization ON public.audit_log(organization_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org admins can view their audit log"
+ON public.audit_log FOR SELECT
+USING (auth.uid() IS NOT NULL AND public.is_org_admin(auth.uid(), organization_id));
+
+-- Offboarding hands deadlines over on the member's behalf, which the
+-- creator/admin check would otherwise reject when a member leaves
+CREATE OR REPLACE FUNCTION public.validate_deadline_assignees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _backup_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.assignee_id := COALESCE(NEW.assignee_id, NEW.user_id);
+  ELSIF auth.uid() IS NOT NULL
+    AND current_setting('deadline_guard.offboarding', true) IS DISTINCT FROM 'on'
+    AND OLD.user_id <> auth.uid()
+    AND NOT (OLD.organization_id IS NOT NULL AND public.is_org_admin(auth.uid(), OLD.organization_id))
+    AND (
+      NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+      OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+      OR NEW.backup_assignee_ids IS DISTINCT FROM OLD.backup_assignee_ids
+    )
+  THEN
+    RAISE EXCEPTION 'Only the creator or an organization admin can reassign this deadline';
+  END IF;
+
+  -- Saving other fields doesn't re-check assignees who have since left the organization
+  IF TG_OP = 'UPDATE'
+    AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+    AND NEW.assignee_id IS NOT DISTINCT FROM OLD.assignee_id
+    AND NEW.backup_assignee_ids IS NOT DISTINCT FROM OLD.backup_assignee_ids
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- The assignee isn't also their own backup, and nobody is listed twice
+  NEW.backup_assignee_ids := ARRAY(
+    SELECT DISTINCT backup_id
+    FROM unnest(NEW.backup_assignee_ids) AS backup_id
+    WHERE backup_id IS DISTINCT FROM NEW.assignee_id
+  );
+
+  IF NEW.organization_id IS NULL THEN
+    IF NEW.assignee_id <> NEW.user_id OR cardinality(NEW.backup_assignee_ids) > 0 THEN
+      RAISE EXCEPTION 'Personal deadlines can only be assigned to their creator';
+    END IF;
+  ELSE
+    IF NEW.assignee_id IS NOT NULL AND NOT public.user_belongs_to_org(NEW.assignee_id, NEW.organization_id) THEN
+      RAISE EXCEPTION 'Deadlines can only be assigned to members of their organization';
+    END IF;
+
+    FOREACH _backup_id IN ARRAY NEW.backup_assignee_ids LOOP
+      -- Only newly added backups are checked; one who has since left the
+      -- organization doesn't block unrelated changes such as offboarding
+      IF TG_OP = 'UPDATE'
+        AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+        AND _backup_id = ANY(OLD.backup_assignee_ids)
+      THEN
+        CONTINUE;
+      END IF;
+
+      IF NOT public.user_belongs_to_org(_backup_id, NEW.organization_id) THEN
+        RAISE EXCEPTION 'Backup assignees must be members of the deadline''s organization';
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Removes a member from their organization. Every org deadline they created
+-- or are assigned to must be handed to a remaining member first
+-- (_reassignments maps deadline id to member id); they're dropped from
+-- backup lists. The last member out keeps the deadlines as personal ones.
+-- _acting_user_id is for the public API, which calls this with the service role.
+CREATE OR REPLACE FUNCTION public.offboard_member(
+  _member_id UUID,
+  _reassignments JSONB DEFAULT '{}',
+  _acting_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := COALESCE(auth.uid(), _acting_user_id);
+  _member RECORD;
+  _deadline RECORD;
+  _new_assignee_id UUID;
+  _remaining_members INTEGER;
+  _reassigned JSONB := '[]';
+BEGIN
+  SELECT id, organization_id, role INTO _member
+  FROM public.profiles
+  WHERE id = _member_id;
+
+  IF _member.id IS NULL OR _member.organization_id IS NULL THEN
+    RAISE EXCEPTION 'This person is not a member of an organization';
+  END IF;
+
+  IF _actor_id IS NOT NULL
+    AND _actor_id <> _member_id
+    AND NOT public.is_org_admin(_actor_id, _member.organization_id)
+  THEN
+    RAISE EXCEPTION 'Only organization admins can remove members';
+  END IF;
+
+  IF jsonb_typeof(_reassignments) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Reassignments must map deadline ids to member ids';
+  END IF;
+
+  SELECT count(*) INTO _remaining_members
+  FROM public.profiles
+  WHERE organization_id = _member.organization_id AND id <> _member_id;
+
+  PERFORM set_config('deadline_guard.offboarding', 'on', true);
+
+  FOR _deadline IN
+    SELECT id, title
+    FROM public.deadlines
+    WHERE organization_id = _member.organization_id
+      AND (user_id = _member_id OR assignee_id = _member_id)
+    ORDER BY due_date
+    FOR UPDATE
+  LOOP
+    IF _remaining_members = 0 THEN
+      UPDATE public.deadlines
+      SET organization_id = NULL, user_id = _member_id, assignee_id = _member_id, backup_assignee_ids = '{}'
+      WHERE id = _deadline.id;
+      CONTINUE;
+    END IF;
+
+    _new_assignee_id := NULLIF(_reassignments ->> _deadline.id::text, '')::UUID;
+
+    IF _new_assignee_id IS NULL THEN
+      RAISE EXCEPTION 'Reassign "%" before removing this member', _deadline.title;
+    END IF;
+
+    IF _new_assignee_id = _member_id OR NOT public.user_belongs_to_org(_new_assignee_id, _member.organization_id) THEN
+      RAISE EXCEPTION 'Deadlines can only be reassigned to remaining members of the organization';
+    END IF;
+
+    UPDATE public.deadlines
+    SET
+      user_id = CASE WHEN user_id = _member_id THEN _new_assignee_id ELSE user_id END,
+      assignee_id = CASE WHEN assignee_id = _member_id THEN _new_assignee_id ELSE assignee_id END
+    WHERE id = _deadline.id;
+
+    _reassigned := _reassigned || jsonb_build_array(jsonb_build_object(
+      'deadline_id', _deadline.id,
+      'title', _deadline.title,
+      'assignee_id', _new_assignee_id
+    ));
+  END LOOP;
+
+  UPDATE public.deadlines
+  SET backup_assignee_ids = array_remove(backup_assignee_ids, _member_id)
+  WHERE organization_id = _member.organization_id AND _member_id = ANY(backup_assignee_ids);
+
+  UPDATE public.profiles
+  SET organization_id = NULL, role = 'individual'
+  WHERE id = _member_id;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+  VALUES (
+    _member.organization_id,
+    _actor_id,
+    CASE WHEN _actor_id = _member_id THEN 'member.left' ELSE 'member.removed' END,
+    'profile',
+    _member_id,
+    jsonb_build_object('organization_id', _member.organization_id, 'role', _member.role),
+    jsonb_build_object('organization_id', NULL, 'role', 'individual'),
+    jsonb_build_object('reassigned_deadlines', _reassigned, 'kept_as_personal', _remaining_members = 0)
+  );
+
+  RETURN jsonb_array_length(_reassigned);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offboard_member(UUID, JSONB, UUID) FROM PUBLIC, anon;
+
+-- Leaving goes through the same handover
+DROP FUNCTION IF EXISTS public.leave_organization();
+
+CREATE OR REPLACE FUNCTION public.leave_organization(_reassignments JSONB DEFAULT '{}')
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.offboard_member(auth.uid(), _reassignments);
+  RETURN true;
+END;
+$$;
+
+-- Members can still edit their own profile, but joining and leaving an
+-- organization only happens through the functions above
+CREATE OR REPLACE FUNCTION public.protect_profile_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION 'Use leave_organization to leave an organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_membership
+  BEFORE UPDATE OF organization_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_membership();
@@ -0,0 +1,170 @@
+-- ============================================
+-- ORGANIZATION AUDIT LOG
+-- ============================================
+
+-- Entries are written by the triggers below (and by offboard_member). For
+-- updates, before_data/after_data hold only the fields that changed.
+-- actor_id is the signed-in user or the API key's owner (current_actor_id),
+-- and NULL for billing webhooks and scheduled jobs.
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log(organization_id, actor_id, created_at DESC);
+
+-- Append-only: no one edits or removes entries, short of deleting the
+-- organization or the actor's account
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- auth.users ON DELETE SET NULL
+    IF NEW.actor_id IS NULL AND (to_jsonb(NEW) - 'actor_id') = (to_jsonb(OLD) - 'actor_id') THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id) THEN
+    -- organizations ON DELETE CASCADE
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+-- Generic row trigger. TG_ARGV[0] is the entity type ('deadline', ...); any
+-- further arguments are columns left out of the log, either because they
+-- change on their own (updated_at) or are secret (invitation tokens).
+-- Rows outside an organization aren't logged. details.label names the row
+-- (a deadline's title, an invitee's email) since updates only carry the diff.
+CREATE OR REPLACE FUNCTION public.record_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity_type TEXT := TG_ARGV[0];
+  _ignored TEXT[] := TG_ARGV[1:TG_NARGS - 1];
+  _old JSONB;
+  _new JSONB;
+  _before JSONB;
+  _after JSONB;
+  _organization_id UUID;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    _old := to_jsonb(OLD) - _ignored;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _new := to_jsonb(NEW) - _ignored;
+  END IF;
+
+  _organization_id := COALESCE((_new ->> 'organization_id')::UUID, (_old ->> 'organization_id')::UUID);
+
+  -- Also skips rows removed along with their organization
+  IF _organization_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = _organization_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(key, _old -> key), jsonb_object_agg(key, _new -> key)
+    INTO _before, _after
+    FROM jsonb_object_keys(_new) AS key
+    WHERE _new -> key IS DISTINCT FROM _old -> key;
+
+    -- Only ignored columns changed
+    IF _after IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    _before := _old;
+    _after := _new;
+  END IF;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+  VALUES (
+    _organization_id,
+    public.current_actor_id(),
+    _entity_type || '.' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    _entity_type,
+    COALESCE(_new ->> 'id', _old ->> 'id')::UUID,
+    _before,
+    _after,
+    jsonb_build_object('label', COALESCE(
+      _new ->> 'title', _old ->> 'title',
+      _new ->> 'email', _old ->> 'email',
+      _new ->> 'plan_tier', _old ->> 'plan_tier'
+    ))
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Profiles only log membership: joining and role changes. Leaving and
+-- removal are logged by offboard_member along with the deadline handover.
+CREATE OR REPLACE FUNCTION public.record_profile_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.organization_id IS NULL AND NEW.organization_id IS NOT NULL THEN
+    INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+    VALUES (
+      NEW.organization_id,
+      public.current_actor_id(),
+      'member.joined',
+      'profile',
+      NEW.id,
+      jsonb_build_object('organization_id', NULL, 'role', OLD.role),
+      jsonb_build_object('organization_id', NEW.organization_id, 'role', NEW.role),
+      jsonb_build_object('label', NEW.name)
+    );
+  ELSIF NEW.organization_id IS NOT NULL
+    AND NEW.organization_id = OLD.organization_id
+    AND NEW.role IS DISTINCT FROM OLD.role
+  THEN
+    INSERT INTO public.audit_log (organization_id, actor_id, action, entity_type, entity_id, before_data, after_data, details)
+    VALUES (
+      NEW.organization_id,
+      public.current_actor_id(),
+      'member.role_changed',
+      'profile',
+      NEW.id,
+      jsonb_build_object('role', OLD.role),
+      jsonb_build_object('role', NEW.role),
+      jsonb_build_object('label', NEW.name)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_deadlines
+  AFTER INSERT OR UPDATE OR DELETE ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event('deadline', 'updated_at', 'last_reminder_sent');
+
+CREATE TRIGGER audit_organization_invitations
+  AFTER INSERT OR UPDATE OR DELETE ON public.organization_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event('invitation', 'token');
+
+CREATE TRIGGER audit_subscriptions
+  AFTER INSERT OR UPDATE OR DELETE ON public.subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event('subscription', 'updated_at');
+
+CREATE TRIGGER audit_profiles
+  AFTER UPDATE OF organization_id, role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_profile_audit_event();
@@ -0,0 +1,154 @@
+-- ============================================
+-- DEADLINE VERSION HISTORY
+-- ============================================
+
+-- Every saved state of a deadline, numbered from 1, with who saved it and
+-- why. Written by triggers; readable by anyone who can see the deadline.
+CREATE TABLE IF NOT EXISTS public.deadline_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deadline_id UUID NOT NULL REFERENCES public.deadlines(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- The whole deadline as saved, minus bookkeeping columns
+  data JSONB NOT NULL,
+  -- Compared with the previous version; empty for the first
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  change_reason TEXT,
+  -- The signed-in user or the API key's owner (current_actor_id);
+  -- NULL for scheduled jobs
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (deadline_id, version)
+);
+
+ALTER TABLE public.deadline_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of deadlines they can see"
+ON public.deadline_versions FOR SELECT
+USING (
+  auth.uid() IS NOT NULL AND
+  EXISTS (SELECT 1 FROM public.deadlines WHERE deadlines.id = deadline_versions.deadline_id)
+);
+
+CREATE OR REPLACE FUNCTION public.deadline_version_data(_deadline public.deadlines)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_jsonb(_deadline) - ARRAY['updated_at', 'last_reminder_sent']
+$$;
+
+-- History starts with each deadline as it stands today
+INSERT INTO public.deadline_versions (deadline_id, version, data, created_at)
+SELECT id, 1, public.deadline_version_data(deadlines), updated_at
+FROM public.deadlines
+ON CONFLICT (deadline_id, version) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.record_deadline_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _data JSONB := public.deadline_version_data(NEW);
+  _previous JSONB;
+  _changed_fields TEXT[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _previous := public.deadline_version_data(OLD);
+
+    SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+    INTO _changed_fields
+    FROM jsonb_object_keys(_data) AS key
+    WHERE _data -> key IS DISTINCT FROM _previous -> key;
+
+    -- Bookkeeping only, e.g. a reminder going out
+    IF cardinality(_changed_fields) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  -- Numbers a deadline's versions one writer at a time
+  PERFORM pg_advisory_xact_lock(hashtext('deadline_versions:' || NEW.id::text));
+
+  INSERT INTO public.deadline_versions (deadline_id, version, data, changed_fields, change_reason, changed_by)
+  VALUES (
+    NEW.id,
+    COALESCE((SELECT max(version) FROM public.deadline_versions WHERE deadline_id = NEW.id), 0) + 1,
+    _data,
+    _changed_fields,
+    NULLIF(current_setting('deadline_guard.change_reason', true), ''),
+    public.current_actor_id()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_deadline_version
+  AFTER INSERT OR UPDATE ON public.deadlines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_deadline_version();
+
+-- Update a deadline and record why in its new version ("Agency extended the
+-- filing window"). The reason is never stored on the deadline itself. Runs as
+-- the caller, so the usual policies and triggers apply. _changes holds the
+-- columns to set, as in a regular update.
+CREATE OR REPLACE FUNCTION public.update_deadline_with_reason(
+  _deadline_id UUID,
+  _changes JSONB,
+  _reason TEXT
+)
+RETURNS public.deadlines
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _columns TEXT[];
+  _unknown TEXT;
+  _updated public.deadlines;
+BEGIN
+  IF length(btrim(_reason)) > 500 THEN
+    RAISE EXCEPTION 'Keep the reason for change under 500 characters';
+  END IF;
+
+  SELECT key INTO _unknown
+  FROM jsonb_object_keys(COALESCE(_changes, '{}')) AS key
+  WHERE key IN ('id', 'created_at', 'updated_at')
+    OR NOT EXISTS (
+      SELECT 1 FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = 'deadlines' AND c.column_name = key
+    )
+  LIMIT 1;
+
+  IF _unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown deadline field: %', _unknown;
+  END IF;
+
+  SELECT array_agg(key) INTO _columns FROM jsonb_object_keys(COALESCE(_changes, '{}')) AS key;
+
+  PERFORM set_config('deadline_guard.change_reason', COALESCE(btrim(_reason), ''), true);
+
+  IF _columns IS NULL THEN
+    SELECT * INTO _updated FROM public.deadlines WHERE id = _deadline_id;
+  ELSE
+    EXECUTE format(
+      'UPDATE public.deadlines SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.deadlines, $1)) WHERE id = $2 RETURNING *',
+      (SELECT string_agg(quote_ident(c), ', ') FROM unnest(_columns) AS c)
+    )
+    INTO _updated
+    USING _changes, _deadline_id;
+  END IF;
+
+  -- Later writes in the same transaction get no reason
+  PERFORM set_config('deadline_guard.change_reason', '', true);
+
+  IF _updated.id IS NULL THEN
+    RAISE EXCEPTION 'Deadline not found';
+  END IF;
+
+  RETURN _updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_deadline_with_reason(UUID, JSONB, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for pure logic: the shared edge-function modules and src/lib
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/_shared/**/*.test.ts"],
+    environment: "node",
+  },
+});